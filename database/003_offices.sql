@@ -0,0 +1,39 @@
+-- Migration: Multi-office support
+-- Adds an offices table with circle or polygon geofences and a per-technician home branch
+-- Run this in Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS offices (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name TEXT NOT NULL,
+    address TEXT,
+    center_latitude DECIMAL(10, 8) NOT NULL,
+    center_longitude DECIMAL(11, 8) NOT NULL,
+    radius_feet INTEGER NOT NULL DEFAULT 500, -- Account for parking lot, GPS drift
+    boundary_type TEXT DEFAULT 'circle', -- 'circle' or 'polygon'
+    boundary_polygon JSONB, -- Array of [lat, lng] pairs
+    active BOOLEAN DEFAULT true,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_offices_active ON offices(active);
+
+DROP TRIGGER IF EXISTS update_offices_updated_at ON offices;
+CREATE TRIGGER update_offices_updated_at
+    BEFORE UPDATE ON offices
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Seed the original shop so existing behavior is unchanged
+INSERT INTO offices (name, center_latitude, center_longitude, radius_feet)
+SELECT 'Main Shop', 36.06693377330104, -79.86402542389432, 500
+WHERE NOT EXISTS (SELECT 1 FROM offices);
+
+-- Home branch for each technician
+ALTER TABLE technicians ADD COLUMN IF NOT EXISTS home_office_id UUID REFERENCES offices(id) ON DELETE SET NULL;
+
+-- Record which shop an office visit was made to
+ALTER TABLE office_visits ADD COLUMN IF NOT EXISTS office_id UUID REFERENCES offices(id) ON DELETE SET NULL;
+
+ALTER TABLE offices ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Allow all access to offices" ON offices FOR ALL USING (true);
@@ -0,0 +1,93 @@
+-- Migration: Configurable violation rules
+-- Punch violation policy becomes declarative rule sets assignable per technician or crew
+-- Run this in Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS violation_rule_sets (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name TEXT NOT NULL UNIQUE,
+    description TEXT,
+    default_for TEXT, -- 'take_home' or 'shop' - used when tech/crew has no explicit rule set
+    active BOOLEAN DEFAULT true,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS violation_rules (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    rule_set_id UUID NOT NULL REFERENCES violation_rule_sets(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    kind TEXT NOT NULL, -- clock_in_location, clock_out_location, clock_out_after_last_job, missing_clock_in, missing_clock_out
+    allowed_location_types TEXT[],
+    disallowed_location_types TEXT[],
+    excusable_location_types TEXT[],
+    exempt_last_stop_types TEXT[],
+    max_minutes INTEGER,
+    expected_location_type TEXT,
+    reason TEXT NOT NULL, -- {location} and {minutes} are substituted
+    priority INTEGER DEFAULT 100,
+    active BOOLEAN DEFAULT true,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(rule_set_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_violation_rules_rule_set ON violation_rules(rule_set_id);
+
+CREATE TABLE IF NOT EXISTS crews (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name TEXT NOT NULL UNIQUE,
+    violation_rule_set_id UUID REFERENCES violation_rule_sets(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Per-technician assignment (technician override wins over crew)
+ALTER TABLE technicians ADD COLUMN IF NOT EXISTS crew_id UUID REFERENCES crews(id) ON DELETE SET NULL;
+ALTER TABLE technicians ADD COLUMN IF NOT EXISTS violation_rule_set_id UUID REFERENCES violation_rule_sets(id) ON DELETE SET NULL;
+
+-- Record which rule fired on each punch
+ALTER TABLE punch_records ADD COLUMN IF NOT EXISTS violation_rule_id TEXT;
+ALTER TABLE punch_records ADD COLUMN IF NOT EXISTS violation_rule_name TEXT;
+
+DROP TRIGGER IF EXISTS update_violation_rule_sets_updated_at ON violation_rule_sets;
+CREATE TRIGGER update_violation_rule_sets_updated_at
+    BEFORE UPDATE ON violation_rule_sets
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Seed default rule sets matching the original hard-coded policy
+INSERT INTO violation_rule_sets (name, description, default_for)
+VALUES
+    ('Take-Home Service Techs', 'Clock in at the job, clock out when leaving the last job', 'take_home'),
+    ('Shop-Based Techs', 'Clock in at the office', 'shop')
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO violation_rules (rule_set_id, name, kind, disallowed_location_types, excusable_location_types, exempt_last_stop_types, max_minutes, expected_location_type, reason, priority)
+SELECT rs.id, r.name, r.kind, r.disallowed, r.excusable, r.exempt, r.max_minutes, r.expected, r.reason, r.priority
+FROM violation_rule_sets rs
+CROSS JOIN (VALUES
+    ('take_home_no_home_clock_in', 'clock_in_location', ARRAY['home'], NULL::TEXT[], NULL::TEXT[], NULL::INTEGER, 'job', 'Clocked in at HOME instead of job site', 10),
+    ('take_home_no_office_clock_in', 'clock_in_location', ARRAY['office'], ARRAY['office'], NULL::TEXT[], NULL::INTEGER, 'job', 'Clocked in at OFFICE - should go direct to job (no excused visit)', 20),
+    ('take_home_no_home_clock_out', 'clock_out_location', ARRAY['home'], NULL::TEXT[], ARRAY['office'], NULL::INTEGER, 'job', 'Clocked out at HOME - should clock out when leaving last job', 10),
+    ('take_home_clock_out_after_last_job', 'clock_out_after_last_job', NULL::TEXT[], NULL::TEXT[], ARRAY['office'], 5, 'job', 'Clocked out {minutes}m after leaving last job', 20),
+    ('missing_clock_in', 'missing_clock_in', NULL::TEXT[], NULL::TEXT[], NULL::TEXT[], NULL::INTEGER, NULL, 'Scheduled jobs but no clock-in recorded', 0),
+    ('missing_clock_out', 'missing_clock_out', NULL::TEXT[], NULL::TEXT[], NULL::TEXT[], NULL::INTEGER, NULL, 'Clocked in but no clock-out recorded', 0)
+) AS r(name, kind, disallowed, excusable, exempt, max_minutes, expected, reason, priority)
+WHERE rs.name = 'Take-Home Service Techs'
+ON CONFLICT (rule_set_id, name) DO NOTHING;
+
+INSERT INTO violation_rules (rule_set_id, name, kind, allowed_location_types, expected_location_type, reason, priority)
+SELECT rs.id, r.name, r.kind, r.allowed, r.expected, r.reason, r.priority
+FROM violation_rule_sets rs
+CROSS JOIN (VALUES
+    ('shop_clock_in_at_office', 'clock_in_location', ARRAY['office'], 'office', 'Clocked in at {location} instead of office', 10),
+    ('missing_clock_in', 'missing_clock_in', NULL::TEXT[], NULL, 'Scheduled jobs but no clock-in recorded', 0),
+    ('missing_clock_out', 'missing_clock_out', NULL::TEXT[], NULL, 'Clocked in but no clock-out recorded', 0)
+) AS r(name, kind, allowed, expected, reason, priority)
+WHERE rs.name = 'Shop-Based Techs'
+ON CONFLICT (rule_set_id, name) DO NOTHING;
+
+ALTER TABLE violation_rule_sets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE violation_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE crews ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Allow all access to violation_rule_sets" ON violation_rule_sets FOR ALL USING (true);
+CREATE POLICY "Allow all access to violation_rules" ON violation_rules FOR ALL USING (true);
+CREATE POLICY "Allow all access to crews" ON crews FOR ALL USING (true);
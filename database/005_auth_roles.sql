@@ -0,0 +1,109 @@
+-- Migration: Supabase Auth roles and row-level security
+-- Replaces the "Allow all access" policies with per-role policies.
+-- API routes use the service role key (bypasses RLS) and check roles themselves;
+-- these policies protect direct access with the anon key.
+-- Run this in Supabase SQL Editor
+--
+-- After running, promote the first admin:
+--   UPDATE user_profiles SET role = 'admin' WHERE email = 'you@example.com';
+
+CREATE TABLE IF NOT EXISTS user_profiles (
+    id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    email TEXT NOT NULL,
+    display_name TEXT,
+    role TEXT NOT NULL DEFAULT 'read_only'
+        CHECK (role IN ('admin', 'service_manager', 'payroll', 'read_only')),
+    active BOOLEAN DEFAULT true,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_profiles_email ON user_profiles(email);
+
+DROP TRIGGER IF EXISTS update_user_profiles_updated_at ON user_profiles;
+CREATE TRIGGER update_user_profiles_updated_at
+    BEFORE UPDATE ON user_profiles
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- New sign-ups get a read-only profile; an admin grants more
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+    INSERT INTO user_profiles (id, email, display_name)
+    VALUES (NEW.id, NEW.email, COALESCE(NEW.raw_user_meta_data->>'display_name', NEW.email))
+    ON CONFLICT (id) DO NOTHING;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
+CREATE TRIGGER on_auth_user_created
+    AFTER INSERT ON auth.users
+    FOR EACH ROW
+    EXECUTE FUNCTION handle_new_user();
+
+-- Role of the signed-in user (NULL when signed out or deactivated)
+CREATE OR REPLACE FUNCTION app_role()
+RETURNS TEXT
+LANGUAGE sql STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+    SELECT role FROM user_profiles WHERE id = auth.uid() AND active = true
+$$;
+
+-- Proposed punches record who approved/rejected them
+ALTER TABLE proposed_punches ADD COLUMN IF NOT EXISTS reviewed_by TEXT;
+ALTER TABLE proposed_punches ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMPTZ;
+
+-- Replace allow-all policies:
+--   read:  any active user
+--   write: admin only, plus the roles listed per table
+DO $$
+DECLARE
+    t RECORD;
+BEGIN
+    FOR t IN
+        SELECT * FROM (VALUES
+            ('arrival_discrepancies', ARRAY['admin', 'service_manager']),
+            ('crews', ARRAY['admin']),
+            ('custom_locations', ARRAY['admin', 'service_manager']),
+            ('estimate_items', ARRAY['admin']),
+            ('estimates', ARRAY['admin']),
+            ('excused_office_visits', ARRAY['admin', 'service_manager']),
+            ('gps_events', ARRAY['admin']),
+            ('gps_segments', ARRAY['admin']),
+            ('jobs', ARRAY['admin']),
+            ('manual_job_associations', ARRAY['admin', 'service_manager']),
+            ('office_visits', ARRAY['admin']),
+            ('offices', ARRAY['admin']),
+            ('proposed_punches', ARRAY['admin', 'service_manager', 'payroll']),
+            ('punch_annotations', ARRAY['admin', 'service_manager', 'payroll']),
+            ('punch_records', ARRAY['admin']),
+            ('sync_logs', ARRAY['admin']),
+            ('technicians', ARRAY['admin']),
+            ('trucks', ARRAY['admin']),
+            ('user_profiles', ARRAY['admin']),
+            ('violation_rule_sets', ARRAY['admin']),
+            ('violation_rules', ARRAY['admin'])
+        ) AS v(table_name, write_roles)
+    LOOP
+        EXECUTE format('ALTER TABLE %I ENABLE ROW LEVEL SECURITY', t.table_name);
+        EXECUTE format('DROP POLICY IF EXISTS %I ON %I', 'Allow all access to ' || t.table_name, t.table_name);
+        EXECUTE format('DROP POLICY IF EXISTS %I ON %I', 'Signed-in users can read ' || t.table_name, t.table_name);
+        EXECUTE format('DROP POLICY IF EXISTS %I ON %I', 'Allowed roles can write ' || t.table_name, t.table_name);
+
+        EXECUTE format(
+            'CREATE POLICY %I ON %I FOR SELECT USING (app_role() IS NOT NULL)',
+            'Signed-in users can read ' || t.table_name, t.table_name
+        );
+        EXECUTE format(
+            'CREATE POLICY %I ON %I FOR ALL USING (app_role() = ANY(%L::TEXT[])) WITH CHECK (app_role() = ANY(%L::TEXT[]))',
+            'Allowed roles can write ' || t.table_name, t.table_name, t.write_roles, t.write_roles
+        );
+    END LOOP;
+END;
+$$;
@@ -0,0 +1,39 @@
+-- Migration: Audit trail for review decisions
+-- Append-only log of who excused, approved, rejected, reviewed or deleted what, and when
+-- Run this in Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS audit_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    occurred_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    actor_id TEXT NOT NULL, -- Supabase Auth user id (or 'sync-service')
+    actor_name TEXT NOT NULL,
+    action TEXT NOT NULL, -- e.g. 'excused_visit.created', 'proposed_punch.rejected'
+    entity_type TEXT NOT NULL, -- excused_visit, proposed_punch, discrepancy, manual_job_association
+    entity_id TEXT,
+    technician_id UUID, -- No FK: an append-only row can't be nulled out when a technician is deleted
+    event_date DATE, -- The work day the decision is about (not when it was made)
+    before JSONB, -- Row before the change (NULL for creates)
+    after JSONB, -- Row after the change (NULL for deletes)
+    note TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_events_tech_date ON audit_events(technician_id, event_date);
+CREATE INDEX IF NOT EXISTS idx_audit_events_entity ON audit_events(entity_type, entity_id);
+CREATE INDEX IF NOT EXISTS idx_audit_events_occurred_at ON audit_events(occurred_at DESC);
+
+-- Append-only: reject updates and deletes, including from the service role
+CREATE OR REPLACE FUNCTION prevent_audit_event_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'audit_events is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS audit_events_append_only ON audit_events;
+CREATE TRIGGER audit_events_append_only
+    BEFORE UPDATE OR DELETE ON audit_events
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_audit_event_changes();
+
+ALTER TABLE audit_events ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Signed-in users can read audit_events" ON audit_events FOR SELECT USING (app_role() IS NOT NULL);
@@ -0,0 +1,13 @@
+-- Migration: Paylocity write-back for approved proposed punches
+-- Tracks each punch through approved -> submitted -> applied / failed, with the Paylocity response
+-- Run this in Supabase SQL Editor
+
+ALTER TABLE proposed_punches ADD COLUMN IF NOT EXISTS paylocity_operation_id TEXT; -- Punch import operation from the last submission
+ALTER TABLE proposed_punches ADD COLUMN IF NOT EXISTS submitted_at TIMESTAMPTZ;
+ALTER TABLE proposed_punches ADD COLUMN IF NOT EXISTS applied_at TIMESTAMPTZ;
+ALTER TABLE proposed_punches ADD COLUMN IF NOT EXISTS submission_attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE proposed_punches ADD COLUMN IF NOT EXISTS submission_error TEXT; -- Last failure message, cleared on success
+ALTER TABLE proposed_punches ADD COLUMN IF NOT EXISTS paylocity_response JSONB; -- Per-punch result from Paylocity
+
+-- Write-back picks up approved/failed punches and re-checks submitted ones
+CREATE INDEX IF NOT EXISTS idx_proposed_punches_status ON proposed_punches(status);
@@ -0,0 +1,70 @@
+-- Migration: Workday alerting
+-- Alerts raised after each sync (violations, suspicious transit, missing clock-outs, late first jobs)
+-- and the per-manager channels they are delivered to
+-- Run this in Supabase SQL Editor
+
+-- Where a manager wants alerts: one row per channel/target
+CREATE TABLE IF NOT EXISTS alert_subscriptions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+    channel TEXT NOT NULL CHECK (channel IN ('email', 'webhook', 'sms')),
+    target TEXT NOT NULL, -- Email address, webhook URL or phone number (E.164)
+    alert_types TEXT[] NOT NULL DEFAULT '{}', -- Empty = all alert types
+    office_id UUID REFERENCES offices(id) ON DELETE SET NULL, -- Only technicians of this home branch (NULL = all)
+    active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_subscriptions_user ON alert_subscriptions(user_id);
+
+DROP TRIGGER IF EXISTS update_alert_subscriptions_updated_at ON alert_subscriptions;
+CREATE TRIGGER update_alert_subscriptions_updated_at
+    BEFORE UPDATE ON alert_subscriptions
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- One row per detected condition; dedupe_key makes each condition alert once
+CREATE TABLE IF NOT EXISTS alert_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    alert_type TEXT NOT NULL, -- punch_violation, suspicious_transit, missing_clock_out, late_first_job
+    dedupe_key TEXT NOT NULL UNIQUE, -- e.g. 'punch_violation:<punch_record_id>'
+    technician_id UUID REFERENCES technicians(id) ON DELETE SET NULL,
+    event_date DATE NOT NULL,
+    title TEXT NOT NULL,
+    message TEXT NOT NULL,
+    details JSONB,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_events_date ON alert_events(event_date DESC);
+CREATE INDEX IF NOT EXISTS idx_alert_events_tech ON alert_events(technician_id, event_date);
+
+-- Delivery attempts per alert and subscription
+CREATE TABLE IF NOT EXISTS alert_deliveries (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    alert_event_id UUID NOT NULL REFERENCES alert_events(id) ON DELETE CASCADE,
+    subscription_id UUID REFERENCES alert_subscriptions(id) ON DELETE SET NULL,
+    channel TEXT NOT NULL,
+    target TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending', -- pending, sent, failed
+    attempts INTEGER NOT NULL DEFAULT 0,
+    error TEXT,
+    sent_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (alert_event_id, subscription_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_deliveries_status ON alert_deliveries(status);
+
+ALTER TABLE alert_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE alert_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE alert_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Signed-in users can read alert_events" ON alert_events FOR SELECT USING (app_role() IS NOT NULL);
+CREATE POLICY "Signed-in users can read alert_deliveries" ON alert_deliveries FOR SELECT USING (app_role() IS NOT NULL);
+CREATE POLICY "Users can read their alert_subscriptions" ON alert_subscriptions FOR SELECT
+    USING (user_id = auth.uid() OR app_role() = 'admin');
+CREATE POLICY "Managers can write their alert_subscriptions" ON alert_subscriptions FOR ALL
+    USING ((user_id = auth.uid() AND app_role() IN ('admin', 'service_manager')) OR app_role() = 'admin')
+    WITH CHECK ((user_id = auth.uid() AND app_role() IN ('admin', 'service_manager')) OR app_role() = 'admin');
@@ -0,0 +1,33 @@
+-- Migration: Persisted day timelines
+-- Built DayTimeline objects are stored so the Stops page doesn't rebuild them (GPS vendor,
+-- material checkouts, Google Directions) on every load. Rows are marked stale when an input
+-- changes and rebuilt by the background job (POST /api/day-timelines/rebuild).
+-- Run this in Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS day_timelines (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    technician_id UUID NOT NULL REFERENCES technicians(id) ON DELETE CASCADE,
+    timeline_date DATE NOT NULL,
+    builder_version INTEGER NOT NULL, -- TIMELINE_BUILDER_VERSION when built; older versions are rebuilt
+    timeline JSONB NOT NULL,
+    built_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    is_stale BOOLEAN NOT NULL DEFAULT false,
+    stale_reason TEXT, -- e.g. 'gps_segments', 'manual_job_association', 'custom_location'
+    stale_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (technician_id, timeline_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_day_timelines_date ON day_timelines(timeline_date DESC);
+CREATE INDEX IF NOT EXISTS idx_day_timelines_stale ON day_timelines(is_stale) WHERE is_stale = true;
+
+DROP TRIGGER IF EXISTS update_day_timelines_updated_at ON day_timelines;
+CREATE TRIGGER update_day_timelines_updated_at
+    BEFORE UPDATE ON day_timelines
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE day_timelines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Signed-in users can read day_timelines" ON day_timelines FOR SELECT USING (app_role() IS NOT NULL);
@@ -0,0 +1,25 @@
+-- Migration: Persistent Google Directions cache
+-- Drive times are shared across serverless instances instead of living in one instance's memory.
+-- Keyed by origin/destination rounded to 4 decimals (~11 m) and the hour of the week (Eastern),
+-- since traffic makes the same drive take longer at 8 AM Monday than 2 PM Sunday.
+-- Run this in Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS directions_cache (
+    cache_key TEXT PRIMARY KEY, -- "lat1,lon1|lat2,lon2|hourOfWeek"
+    origin_latitude DECIMAL(10, 8) NOT NULL,
+    origin_longitude DECIMAL(11, 8) NOT NULL,
+    dest_latitude DECIMAL(10, 8) NOT NULL,
+    dest_longitude DECIMAL(11, 8) NOT NULL,
+    hour_of_week SMALLINT NOT NULL, -- 0 = Sunday midnight Eastern, 167 = Saturday 11 PM
+    duration_minutes INTEGER NOT NULL,
+    duration_in_traffic_minutes INTEGER,
+    distance_miles DECIMAL(8, 1) NOT NULL,
+    fetched_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_directions_cache_expires ON directions_cache(expires_at);
+
+ALTER TABLE directions_cache ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Signed-in users can read directions_cache" ON directions_cache FOR SELECT USING (app_role() IS NOT NULL);
@@ -0,0 +1,40 @@
+-- Migration: Coast fuel card transactions
+-- Purchases are pulled by POST /api/sync-fuel and attributed to a technician by their Coast card.
+-- Day timelines show them as fuel_purchase events, matched to the gas station stop and flagged
+-- when made on the clock.
+-- Run this in Supabase SQL Editor
+
+ALTER TABLE technicians ADD COLUMN IF NOT EXISTS coast_card_id TEXT;
+
+CREATE TABLE IF NOT EXISTS fuel_transactions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    coast_transaction_id TEXT NOT NULL UNIQUE, -- Coast's ID, for deduplication
+    coast_card_id TEXT NOT NULL,
+    technician_id UUID REFERENCES technicians(id) ON DELETE SET NULL, -- NULL when no tech has the card
+    vehicle_id TEXT, -- Truck assigned to the technician when synced
+    transaction_time TIMESTAMPTZ NOT NULL,
+    transaction_date DATE NOT NULL, -- Eastern date of transaction_time
+    merchant_name TEXT,
+    merchant_address TEXT,
+    merchant_latitude DECIMAL(10, 8),
+    merchant_longitude DECIMAL(11, 8),
+    amount_cents INTEGER NOT NULL,
+    gallons DECIMAL(8, 3),
+    fuel_type TEXT,
+    raw_data JSONB,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_fuel_transactions_tech_date ON fuel_transactions(technician_id, transaction_date);
+CREATE INDEX IF NOT EXISTS idx_fuel_transactions_date ON fuel_transactions(transaction_date DESC);
+
+DROP TRIGGER IF EXISTS update_fuel_transactions_updated_at ON fuel_transactions;
+CREATE TRIGGER update_fuel_transactions_updated_at
+    BEFORE UPDATE ON fuel_transactions
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE fuel_transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Signed-in users can read fuel_transactions" ON fuel_transactions FOR SELECT USING (app_role() IS NOT NULL);
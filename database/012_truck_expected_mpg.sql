@@ -0,0 +1,8 @@
+-- Migration: Expected fuel economy per truck
+-- The fuel reconciliation report (GET /api/reports/fuel-reconciliation) compares gallons bought on
+-- each truck's fuel card against its GPS miles; trucks without an expected MPG aren't judged.
+-- Run this in Supabase SQL Editor
+
+ALTER TABLE trucks ADD COLUMN IF NOT EXISTS expected_mpg DECIMAL(4, 1);
+
+CREATE INDEX IF NOT EXISTS idx_fuel_transactions_vehicle_date ON fuel_transactions(vehicle_id, transaction_date);
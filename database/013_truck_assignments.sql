@@ -0,0 +1,40 @@
+-- Migration: Dated truck assignments
+-- technicians.verizon_vehicle_id only says who has each truck now. Syncs and timelines resolve
+-- the truck a technician drove on a given day from these ranges instead, so reassigning a truck
+-- doesn't hand its old trips to the new driver. verizon_vehicle_id is kept as the current
+-- assignment for live views.
+-- Run this in Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS truck_assignments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    technician_id UUID NOT NULL REFERENCES technicians(id) ON DELETE CASCADE,
+    vehicle_id TEXT NOT NULL, -- Verizon vehicle number (trucks.verizon_vehicle_id)
+    effective_from DATE NOT NULL,
+    effective_to DATE, -- Last day with the truck (inclusive); NULL while still assigned
+    notes TEXT,
+    created_by TEXT, -- Display name of the user who recorded it
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    CHECK (effective_to IS NULL OR effective_to >= effective_from)
+);
+
+CREATE INDEX IF NOT EXISTS idx_truck_assignments_tech ON truck_assignments(technician_id, effective_from);
+CREATE INDEX IF NOT EXISTS idx_truck_assignments_vehicle ON truck_assignments(vehicle_id, effective_from);
+
+DROP TRIGGER IF EXISTS update_truck_assignments_updated_at ON truck_assignments;
+CREATE TRIGGER update_truck_assignments_updated_at
+    BEFORE UPDATE ON truck_assignments
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE truck_assignments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Signed-in users can read truck_assignments" ON truck_assignments FOR SELECT USING (app_role() IS NOT NULL);
+
+-- Current assignments become open-ended ranges covering all stored history - the same
+-- attribution as before, until a dated change says otherwise
+INSERT INTO truck_assignments (technician_id, vehicle_id, effective_from, notes)
+SELECT t.id, t.verizon_vehicle_id, DATE '2000-01-01', 'Assignment when dated history started'
+FROM technicians t
+WHERE t.verizon_vehicle_id IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM truck_assignments a WHERE a.technician_id = t.id);
@@ -0,0 +1,33 @@
+-- Migration: Ride-alongs - helpers riding in a lead technician's truck for a day
+-- A helper without a truck (or sharing one) has no GPS of their own. Their timeline and punch
+-- verification borrow the lead's vehicle for the day instead. Pairings are recorded by hand on
+-- the Stops page, or derived by sync-data from ServiceTitan appointments with several technicians.
+-- Run this in Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS ride_alongs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    ride_date DATE NOT NULL,
+    helper_technician_id UUID NOT NULL REFERENCES technicians(id) ON DELETE CASCADE,
+    lead_technician_id UUID NOT NULL REFERENCES technicians(id) ON DELETE CASCADE,
+    source TEXT NOT NULL DEFAULT 'manual', -- manual, service_titan
+    st_job_id BIGINT, -- First shared job, for service_titan pairings
+    notes TEXT,
+    created_by TEXT, -- Display name of the user who recorded it (NULL for derived pairings)
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (helper_technician_id, ride_date),
+    CHECK (helper_technician_id <> lead_technician_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ride_alongs_date ON ride_alongs(ride_date);
+CREATE INDEX IF NOT EXISTS idx_ride_alongs_lead ON ride_alongs(lead_technician_id, ride_date);
+
+DROP TRIGGER IF EXISTS update_ride_alongs_updated_at ON ride_alongs;
+CREATE TRIGGER update_ride_alongs_updated_at
+    BEFORE UPDATE ON ride_alongs
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE ride_alongs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Signed-in users can read ride_alongs" ON ride_alongs FOR SELECT USING (app_role() IS NOT NULL);
@@ -0,0 +1,33 @@
+-- Migration: Paylocity link suggestions - review queue for technician ↔ Paylocity employee links
+-- A technician without paylocity_employee_id silently gets no punch verification. The punch sync
+-- links name matches at 98%+ confidence on its own and queues weaker matches here for one-click
+-- approval in Settings. Rejected suggestions are kept so the same match isn't queued again.
+-- Run this in Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS paylocity_link_suggestions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    technician_id UUID NOT NULL REFERENCES technicians(id) ON DELETE CASCADE,
+    paylocity_employee_id TEXT NOT NULL,
+    employee_name TEXT NOT NULL,
+    confidence NUMERIC(4, 3) NOT NULL,
+    match_reason TEXT,
+    status TEXT NOT NULL DEFAULT 'pending', -- pending, approved, rejected, auto_linked
+    reviewed_by TEXT, -- Display name of the reviewer (or the sync that auto-linked it)
+    reviewed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (technician_id, paylocity_employee_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_paylocity_link_suggestions_status ON paylocity_link_suggestions(status);
+CREATE INDEX IF NOT EXISTS idx_paylocity_link_suggestions_employee ON paylocity_link_suggestions(paylocity_employee_id);
+
+DROP TRIGGER IF EXISTS update_paylocity_link_suggestions_updated_at ON paylocity_link_suggestions;
+CREATE TRIGGER update_paylocity_link_suggestions_updated_at
+    BEFORE UPDATE ON paylocity_link_suggestions
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE paylocity_link_suggestions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Signed-in users can read paylocity_link_suggestions" ON paylocity_link_suggestions FOR SELECT USING (app_role() IS NOT NULL);
@@ -0,0 +1,7 @@
+-- Migration: Drop the technician foreign key from audit_events
+-- 006 declared technician_id with ON DELETE SET NULL, which has Postgres UPDATE the audit rows
+-- when a technician is deleted - the append-only trigger rejects that and the delete fails.
+-- technician_id is kept as plain history so the trail still names who a decision was about.
+-- Run this in Supabase SQL Editor
+
+ALTER TABLE audit_events DROP CONSTRAINT IF EXISTS audit_events_technician_id_fkey;
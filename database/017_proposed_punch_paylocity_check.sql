@@ -0,0 +1,7 @@
+-- Migration: Hold interrupted punch submissions back from automatic retry
+-- A submission that died before Paylocity returned an operation id may or may not have been
+-- imported. Such punches are failed with needs_paylocity_check set; a bulk write-back (even one
+-- retrying failures) skips them, and only a retry of that punch by id sends it again.
+-- Run this in Supabase SQL Editor
+
+ALTER TABLE proposed_punches ADD COLUMN IF NOT EXISTS needs_paylocity_check BOOLEAN NOT NULL DEFAULT false;
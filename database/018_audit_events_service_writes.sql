@@ -0,0 +1,6 @@
+-- Migration: Stop signed-in users from inserting audit_events directly
+-- 006 let any signed-in user append rows, so someone could forge history through the Supabase API.
+-- Every entry is written by the server with the service role (recordAuditEvent), which bypasses RLS.
+-- Run this in Supabase SQL Editor
+
+DROP POLICY IF EXISTS "Signed-in users can append audit_events" ON audit_events;
@@ -0,0 +1,8 @@
+-- Migration: Keep the Coast status on fuel transactions
+-- A pending authorization can come back declined or reversed on a later sync. The row is kept
+-- with that status and left out of day timelines and fuel reconciliation.
+-- Run this in Supabase SQL Editor
+
+ALTER TABLE fuel_transactions ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'settled'; -- pending, settled, declined, reversed
+
+UPDATE fuel_transactions SET status = raw_data->>'status' WHERE raw_data->>'status' IS NOT NULL;
@@ -11,6 +11,7 @@ async function syncDate(dateStr) {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        'x-sync-key': process.env.SYNC_API_KEY || '',
       },
       body: JSON.stringify({
         date: dateStr,
@@ -11,7 +11,7 @@ async function backfillDay(date) {
   try {
     const response = await fetch(`${BASE_URL}/api/sync-data`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', 'x-sync-key': process.env.SYNC_API_KEY || '' },
       body: JSON.stringify({
         date: dateStr,
         firstJobOnly: false  // Explicitly request all jobs
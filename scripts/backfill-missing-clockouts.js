@@ -78,7 +78,7 @@ async function syncDate(date) {
   try {
     const response = await fetch(`${API_BASE}/api/sync-punches`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', 'x-sync-key': process.env.SYNC_API_KEY || '' },
       body: JSON.stringify({ date }),
     });
 
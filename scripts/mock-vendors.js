@@ -0,0 +1,459 @@
+// Local stand-in for the vendor APIs (Service Titan, Verizon Connect, Paylocity, Material Checkout, Coast)
+// Serves fixture data from fixtures/vendors/ so the sync routes can run without credentials
+//
+// Run with: node scripts/mock-vendors.js
+// Port:     MOCK_VENDORS_PORT (default 4010)
+// Point the app at it with the .env.local block in README.md ("Running Against Local Vendor Stand-ins")
+
+const fs = require('fs');
+const path = require('path');
+const http = require('http');
+
+const PORT = Number(process.env.MOCK_VENDORS_PORT || 4010);
+const FIXTURES_DIR = path.join(__dirname, '..', 'fixtures', 'vendors');
+
+function loadFixture(name) {
+  return JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, `${name}.json`), 'utf8'));
+}
+
+// Re-read on every request so fixture edits show up without a restart
+function fixtures() {
+  return {
+    serviceTitan: loadFixture('service-titan'),
+    verizon: loadFixture('verizon-connect'),
+    paylocity: loadFixture('paylocity'),
+    materialCheckout: loadFixture('material-checkout'),
+    coast: loadFixture('coast'),
+  };
+}
+
+// Verizon and Paylocity timestamps often come without a zone - treat them as UTC for comparisons
+function toTime(value) {
+  if (!value) return NaN;
+  const hasZone = value.endsWith('Z') || value.includes('+') || value.lastIndexOf('-') > 10;
+  return new Date(hasZone ? value : `${value}Z`).getTime();
+}
+
+function inRange(value, start, end) {
+  const t = toTime(value);
+  if (start && t < toTime(start)) return false;
+  if (end && t >= toTime(end)) return false;
+  return true;
+}
+
+// Service Titan style paged response
+function paged(items, query) {
+  const page = Number(query.get('page') || 1);
+  const pageSize = Number(query.get('pageSize') || 50);
+  const start = (page - 1) * pageSize;
+  return {
+    page,
+    pageSize,
+    totalCount: items.length,
+    hasMore: start + pageSize < items.length,
+    data: items.slice(start, start + pageSize),
+  };
+}
+
+function send(res, status, body, headers = {}) {
+  const payload = typeof body === 'string' ? body : JSON.stringify(body);
+  res.writeHead(status, {
+    'Content-Type': typeof body === 'string' ? 'text/plain' : 'application/json',
+    ...headers,
+  });
+  res.end(payload);
+}
+
+// ============================================
+// SERVICE TITAN
+// ============================================
+
+function handleServiceTitan(pathname, query, data) {
+  const st = data.serviceTitan;
+  let match;
+
+  if (pathname === '/connect/token') {
+    return { status: 200, body: { access_token: 'mock-st-token', expires_in: 3600 } };
+  }
+
+  if ((match = pathname.match(/^\/settings\/v2\/tenant\/[^/]+\/technicians(?:\/(\d+))?$/))) {
+    if (match[1]) return findById(st.technicians, match[1]);
+    const active = query.get('active');
+    const techs = active === null ? st.technicians : st.technicians.filter(t => String(t.active) === active);
+    return { status: 200, body: paged(techs, query) };
+  }
+
+  if ((match = pathname.match(/^\/jpm\/v2\/tenant\/[^/]+\/appointments$/))) {
+    const technicianId = query.get('technicianId');
+    const assignedJobs = technicianId
+      ? new Set(st.appointmentAssignments.filter(a => String(a.technicianId) === technicianId).map(a => a.appointmentId))
+      : null;
+    const appointments = st.appointments
+      .filter(a => inRange(a.start, query.get('startsOnOrAfter'), query.get('startsBefore')))
+      .filter(a => !assignedJobs || assignedJobs.has(a.id));
+    return { status: 200, body: paged(appointments, query) };
+  }
+
+  if ((match = pathname.match(/^\/jpm\/v2\/tenant\/[^/]+\/jobs(?:\/(\d+))?$/))) {
+    if (match[1]) return findById(st.jobs, match[1]);
+    return { status: 200, body: paged(st.jobs, query) };
+  }
+
+  if ((match = pathname.match(/^\/jpm\/v2\/tenant\/[^/]+\/job-types\/(\d+)$/))) {
+    return findById(st.jobTypes, match[1]);
+  }
+
+  if ((match = pathname.match(/^\/dispatch\/v2\/tenant\/[^/]+\/appointment-assignments$/))) {
+    const jobId = query.get('jobId');
+    const assignments = jobId
+      ? st.appointmentAssignments.filter(a => String(a.jobId) === jobId)
+      : st.appointmentAssignments;
+    return { status: 200, body: paged(assignments, query) };
+  }
+
+  if ((match = pathname.match(/^\/crm\/v2\/tenant\/[^/]+\/locations\/(\d+)$/))) {
+    return findById(st.locations, match[1]);
+  }
+
+  if ((match = pathname.match(/^\/crm\/v2\/tenant\/[^/]+\/customers\/(\d+)$/))) {
+    return findById(st.customers, match[1]);
+  }
+
+  if ((match = pathname.match(/^\/sales\/v2\/tenant\/[^/]+\/estimates\/(\d+)\/items$/))) {
+    return { status: 200, body: paged(st.estimateItems[match[1]] || [], query) };
+  }
+
+  if ((match = pathname.match(/^\/sales\/v2\/tenant\/[^/]+\/estimates(?:\/(\d+))?$/))) {
+    if (match[1]) return findById(st.estimates, match[1]);
+    const jobId = query.get('jobId');
+    const estimates = st.estimates
+      .filter(e => !jobId || String(e.jobId) === jobId)
+      .filter(e => inRange(e.modifiedOn, query.get('modifiedOnOrAfter'), query.get('modifiedBefore')))
+      .filter(e => inRange(e.createdOn, query.get('createdOnOrAfter'), query.get('createdBefore')));
+    return { status: 200, body: paged(estimates, query) };
+  }
+
+  return null;
+}
+
+function findById(items, id) {
+  const item = items.find(i => String(i.id) === String(id));
+  return item ? { status: 200, body: item } : { status: 404, body: { error: `Not found: ${id}` } };
+}
+
+// ============================================
+// VERIZON CONNECT
+// ============================================
+
+function handleVerizon(pathname, query, data) {
+  const vz = data.verizon;
+  let match;
+
+  if (pathname === '/token') {
+    return { status: 200, body: 'mock-verizon-token' };
+  }
+
+  if (pathname === '/rad/v1/vehicles') {
+    return { status: 200, body: vz.vehicles };
+  }
+
+  if (pathname === '/rad/v1/drivers') {
+    return { status: 200, body: vz.drivers || [] };
+  }
+
+  if (pathname === '/rad/v1/vehicles/locations') {
+    const locations = vz.vehicles
+      .map(v => currentLocation(v.VehicleNumber, vz.segments[v.VehicleNumber] || []))
+      .filter(Boolean);
+    return { status: 200, body: locations };
+  }
+
+  if ((match = pathname.match(/^\/rad\/v1\/vehicles\/([^/]+)\/location$/))) {
+    const location = currentLocation(match[1], vz.segments[match[1]] || []);
+    return location ? { status: 200, body: location } : { status: 404, body: { error: `No location for ${match[1]}` } };
+  }
+
+  if ((match = pathname.match(/^\/rad\/v1\/vehicles\/([^/]+)\/segments$/))) {
+    const vehicle = vz.vehicles.find(v => v.VehicleNumber === match[1]);
+    if (!vehicle) return { status: 404, body: { error: `Unknown vehicle ${match[1]}` } };
+
+    const start = query.get('startdateutc');
+    const end = query.get('enddateutc') || new Date(toTime(start) + 24 * 60 * 60 * 1000).toISOString();
+    const segments = (vz.segments[match[1]] || []).filter(s => inRange(s.StartDateUtc, start, end));
+
+    // API returns an array with one element containing the vehicle data
+    return {
+      status: 200,
+      body: [{
+        Driver: { Number: null, FirstName: '', LastName: '' },
+        Vehicle: { Number: vehicle.VehicleNumber, Name: vehicle.Name },
+        Segments: segments,
+      }],
+    };
+  }
+
+  if ((match = pathname.match(/^\/rad\/v1\/vehicles\/([^/]+)\/status\/history$/))) {
+    const points = segmentsToHistory(match[1], vz.segments[match[1]] || [])
+      .filter(p => inRange(p.UpdateUtc, query.get('startdatetimeutc'), query.get('enddatetimeutc')));
+    return { status: 200, body: points };
+  }
+
+  if ((match = pathname.match(/^\/rad\/v1\/vehicles\/([^/]+)$/))) {
+    const vehicle = vz.vehicles.find(v => v.VehicleNumber === match[1]);
+    return vehicle ? { status: 200, body: vehicle } : { status: 404, body: { error: `Unknown vehicle ${match[1]}` } };
+  }
+
+  return null;
+}
+
+// Derive breadcrumbs from the recorded segments: a point where each trip starts and ends
+function segmentsToHistory(vehicleNumber, segments) {
+  const points = [];
+  for (const segment of segments) {
+    points.push(historyPoint(vehicleNumber, segment.StartDateUtc, segment.StartLocation, 0));
+    if (segment.EndDateUtc && segment.EndLocation) {
+      points.push(historyPoint(vehicleNumber, segment.EndDateUtc, segment.EndLocation, 0));
+    }
+  }
+  return points.sort((a, b) => toTime(a.UpdateUtc) - toTime(b.UpdateUtc));
+}
+
+// Current position: parked where the last recorded trip ended, or driving if it never ended
+function currentLocation(vehicleNumber, segments) {
+  const last = [...segments].sort((a, b) => toTime(a.StartDateUtc) - toTime(b.StartDateUtc)).pop();
+  if (!last) return null;
+
+  const moving = !last.EndDateUtc || !last.EndLocation;
+  const location = moving ? last.StartLocation : last.EndLocation;
+  const point = historyPoint(vehicleNumber, moving ? last.StartDateUtc : last.EndDateUtc, location, moving ? 35 : 0);
+  return {
+    VehicleNumber: vehicleNumber,
+    Latitude: point.Latitude,
+    Longitude: point.Longitude,
+    Address: point.Address,
+    Speed: point.Speed,
+    Heading: 0,
+    Direction: 'N',
+    DisplayState: moving ? 'Moving' : 'Stop',
+    UpdateUTC: point.UpdateUtc,
+  };
+}
+
+function historyPoint(vehicleNumber, timestamp, location, speed) {
+  return {
+    VehicleNumber: vehicleNumber,
+    VehicleName: `Truck ${vehicleNumber}`,
+    UpdateUtc: timestamp,
+    OdometerInKM: 0,
+    IsPrivate: false,
+    DriverNumber: null,
+    FirstName: null,
+    LastName: null,
+    Address: {
+      AddressLine1: location.AddressLine1,
+      AddressLine2: location.AddressLine2,
+      Locality: location.Locality,
+      AdministrativeArea: location.AdministrativeArea,
+      PostalCode: location.PostalCode,
+      Country: location.Country,
+    },
+    Latitude: location.Latitude,
+    Longitude: location.Longitude,
+    Speed: speed,
+    BatteryLevel: null,
+  };
+}
+
+// ============================================
+// PAYLOCITY
+// ============================================
+
+// Punch detail operations created by POST, keyed by operation ID
+const punchOperations = new Map();
+let nextOperationId = 1;
+
+// Punch import operations (write-back of approved proposed punches), keyed by operation ID
+const punchImports = new Map();
+const PUNCH_IMPORT_TYPES = ['ClockIn', 'ClockOut', 'MealStart', 'MealEnd'];
+
+// Validate each imported punch the way Paylocity reports per-punch results
+function punchImportResults(punches, employees) {
+  return punches.map((punch, i) => {
+    const base = { externalId: punch.externalId, employeeId: punch.employeeId };
+    if (!employees.some(e => e.id === punch.employeeId)) {
+      return { ...base, status: 'Error', message: `Employee ${punch.employeeId} not found` };
+    }
+    if (!PUNCH_IMPORT_TYPES.includes(punch.punchType)) {
+      return { ...base, status: 'Error', message: `Invalid punch type ${punch.punchType}` };
+    }
+    if (!punch.punchDateTime || isNaN(toTime(punch.punchDateTime))) {
+      return { ...base, status: 'Error', message: 'Invalid punch time' };
+    }
+    return { ...base, status: 'Success', punchId: `imported-${punch.employeeId}-${Date.now()}-${i}` };
+  });
+}
+
+function handlePaylocity(method, pathname, query, body, data) {
+  const pl = data.paylocity;
+  let match;
+
+  if (pathname === '/public/security/v1/token') {
+    return { status: 200, body: { access_token: 'mock-paylocity-token', expires_in: 3600 } };
+  }
+
+  if ((match = pathname.match(/^\/coreHr\/v1\/companies\/[^/]+\/employees$/))) {
+    return { status: 200, body: { employees: pl.employees, nextToken: null } };
+  }
+
+  // Step 1: create the punch detail operation (async, 202 + Location header)
+  if (method === 'POST' && (match = pathname.match(/^\/apiHub\/time\/v2\/companies\/([^/]+)\/punchdetails$/))) {
+    const request = body ? JSON.parse(body) : {};
+    const operationId = `op-${nextOperationId++}`;
+    punchOperations.set(operationId, { relativeStart: request.relativeStart, relativeEnd: request.relativeEnd });
+    return {
+      status: 202,
+      body: '',
+      headers: { Location: `/apiHub/time/v2/companies/${match[1]}/PunchDetailOperations/${operationId}` },
+    };
+  }
+
+  // Step 2: poll the operation - completes immediately
+  if ((match = pathname.match(/^\/apiHub\/time\/v2\/companies\/[^/]+\/PunchDetailOperations\/([^/]+)$/))) {
+    if (!punchOperations.has(match[1])) return { status: 404, body: { error: 'Unknown operation' } };
+    return { status: 200, body: { status: 'Succeeded', resourceId: match[1] } };
+  }
+
+  // Punch import: queue the punches (async, 202 + Location header)
+  if (method === 'POST' && (match = pathname.match(/^\/apiHub\/time\/v2\/companies\/([^/]+)\/punchImport$/))) {
+    const request = body ? JSON.parse(body) : {};
+    if (!Array.isArray(request.punches) || request.punches.length === 0) {
+      return { status: 400, body: { error: 'punches is required' } };
+    }
+    const operationId = `import-${nextOperationId++}`;
+    punchImports.set(operationId, punchImportResults(request.punches, pl.employees));
+    console.log(`  Punch import ${operationId}: ${request.punches.length} punch(es)`);
+    return {
+      status: 202,
+      body: '',
+      headers: { Location: `/apiHub/time/v2/companies/${match[1]}/PunchImportOperations/${operationId}` },
+    };
+  }
+
+  // Punch import status - completes immediately with per-punch results
+  if ((match = pathname.match(/^\/apiHub\/time\/v2\/companies\/[^/]+\/PunchImportOperations\/([^/]+)$/))) {
+    const results = punchImports.get(match[1]);
+    if (!results) return { status: 404, body: { error: 'Unknown operation' } };
+    return { status: 200, body: { status: 'Succeeded', results } };
+  }
+
+  // Step 3: fetch the results as an array-like object with numeric keys
+  if ((match = pathname.match(/^\/apiHub\/time\/v2\/companies\/[^/]+\/PunchDetails\/([^/]+)$/))) {
+    const operation = punchOperations.get(match[1]);
+    if (!operation) return { status: 404, body: { error: 'Unknown resource' } };
+
+    const records = pl.punches
+      .map(record => ({
+        ...record,
+        segments: record.segments.filter(s => s.relativeStart >= operation.relativeStart && s.relativeStart <= operation.relativeEnd),
+      }))
+      .filter(record => record.segments.length > 0);
+
+    const offset = Number(query.get('offset') || 0);
+    const limit = Number(query.get('limit') || 100);
+    const result = {};
+    records.slice(offset, offset + limit).forEach((record, i) => { result[String(i)] = record; });
+    return { status: 200, body: result };
+  }
+
+  return null;
+}
+
+// ============================================
+// MATERIAL CHECKOUT (PostgREST view)
+// ============================================
+
+function handleMaterialCheckout(pathname, query, data) {
+  if (pathname !== '/rest/v1/v_transaction_details') return null;
+
+  let rows = data.materialCheckout.transactionDetails;
+
+  for (const column of ['tech_name', 'truck_number']) {
+    const filter = query.get(column);
+    if (filter && filter.startsWith('eq.')) {
+      rows = rows.filter(r => r[column] === filter.slice(3));
+    }
+  }
+
+  // timestamp=gte.X&timestamp=lte.Y
+  for (const filter of query.getAll('timestamp')) {
+    const [op, value] = [filter.slice(0, filter.indexOf('.')), filter.slice(filter.indexOf('.') + 1)];
+    if (op === 'gte') rows = rows.filter(r => toTime(r.timestamp) >= toTime(value));
+    if (op === 'lte') rows = rows.filter(r => toTime(r.timestamp) <= toTime(value));
+  }
+
+  rows = [...rows].sort((a, b) => toTime(a.timestamp) - toTime(b.timestamp));
+  return { status: 200, body: rows };
+}
+
+// ============================================
+// COAST (fuel cards)
+// ============================================
+
+function handleCoast(pathname, query, data) {
+  if (!/^\/policy-v2\/[^/]+\/transactions$/.test(pathname)) return null;
+
+  const transactions = data.coast.transactions
+    .filter(t => inRange(t.authorized_at, query.get('start_time'), query.get('end_time')))
+    .sort((a, b) => toTime(a.authorized_at) - toTime(b.authorized_at));
+
+  // Cursor is the offset of the next page
+  const offset = Number(query.get('cursor') || 0);
+  const limit = Number(query.get('limit') || 100);
+  const next = offset + limit;
+  return {
+    status: 200,
+    body: {
+      transactions: transactions.slice(offset, next),
+      next_cursor: next < transactions.length ? String(next) : null,
+    },
+  };
+}
+
+// ============================================
+// SERVER
+// ============================================
+
+const server = http.createServer((req, res) => {
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => {
+    const url = new URL(req.url, `http://localhost:${PORT}`);
+
+    try {
+      const data = fixtures();
+      const result =
+        handleServiceTitan(url.pathname, url.searchParams, data) ||
+        handleVerizon(url.pathname, url.searchParams, data) ||
+        handlePaylocity(req.method, url.pathname, url.searchParams, body, data) ||
+        handleMaterialCheckout(url.pathname, url.searchParams, data) ||
+        handleCoast(url.pathname, url.searchParams, data);
+
+      if (!result) {
+        console.log(`  ✗ ${req.method} ${url.pathname}${url.search} - no mock route`);
+        send(res, 404, { error: `No mock route for ${req.method} ${url.pathname}` });
+        return;
+      }
+
+      console.log(`  ${result.status} ${req.method} ${url.pathname}${url.search}`);
+      send(res, result.status, result.body, result.headers);
+    } catch (error) {
+      console.error(`  ✗ ${req.method} ${url.pathname}: ${error.message}`);
+      send(res, 500, { error: error.message });
+    }
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock vendor APIs listening on http://localhost:${PORT}`);
+  console.log(`Serving fixtures from ${FIXTURES_DIR}`);
+});
@@ -0,0 +1,49 @@
+// Record a real tech-day as an offline timeline fixture
+// Pulls the builder input (segments, jobs, punches, material checkouts, fuel purchases) from the running app
+//
+// Run with: node scripts/record-timeline-fixture.js <technicianId> <YYYY-MM-DD> [name]
+// Then:     node scripts/run-timeline-fixtures.js <name> --update   (writes the golden snapshot)
+
+const fs = require('fs');
+const path = require('path');
+
+const BASE_URL = process.env.BASE_URL || 'http://localhost:3000';
+const FIXTURES_DIR = path.join(__dirname, '..', 'fixtures', 'timelines');
+
+async function main() {
+  const [technicianId, date, nameArg] = process.argv.slice(2);
+
+  if (!technicianId || !date) {
+    console.log('Usage: node scripts/record-timeline-fixture.js <technicianId> <YYYY-MM-DD> [name]');
+    process.exit(1);
+  }
+
+  const url = `${BASE_URL}/api/reports/technician-timeline?technicianId=${technicianId}&date=${date}&recordFixture=true`;
+  console.log(`Fetching ${url}`);
+
+  const response = await fetch(url);
+  const result = await response.json();
+
+  if (!result.success || !result.fixtureInput) {
+    console.log(`  ✗ ${result.error || 'No fixture input returned'}`);
+    process.exit(1);
+  }
+
+  const input = result.fixtureInput;
+  const name = nameArg || `${input.technicianName.toLowerCase().replace(/[^a-z0-9]+/g, '-')}-${date}`;
+  const fixture = {
+    description: `Recorded ${date} for ${input.technicianName}`,
+    input,
+  };
+
+  fs.mkdirSync(FIXTURES_DIR, { recursive: true });
+  fs.writeFileSync(path.join(FIXTURES_DIR, `${name}.json`), JSON.stringify(fixture, null, 2) + '\n');
+
+  console.log(`  ✓ Saved fixtures/timelines/${name}.json`);
+  console.log(`    ${input.segments.length} segments, ${input.jobs.length} jobs, ${(input.punches || []).length} punches, ${(input.materialCheckouts || []).length} checkouts, ${(input.fuelPurchases || []).length} fuel purchases`);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
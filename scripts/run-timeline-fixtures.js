@@ -0,0 +1,126 @@
+// Replay recorded tech-days through the timeline builder and compare against golden snapshots
+// No server, database or vendor APIs needed - everything comes from fixtures/timelines/
+//
+// Run with: node scripts/run-timeline-fixtures.js            (compare all fixtures; npm run test:timelines)
+//           node scripts/run-timeline-fixtures.js some-day    (only fixtures whose name contains "some-day")
+//           node scripts/run-timeline-fixtures.js --update    (rewrite golden snapshots after an intended change)
+//
+// Fixture format: fixtures/timelines/<name>.json  -> { description?, input: TimelineInput }
+// Golden snapshot: fixtures/timelines/<name>.golden.json -> DayTimeline as JSON
+//                  fixtures/timelines/<name>.detections.golden.json -> punch, office visit and
+//                  job arrival detection on the same day (detectFixtureDay)
+// A fixture without a golden snapshot fails - write it with --update
+// Record a real day with scripts/record-timeline-fixture.js
+
+// Day-of-week and other local-time formatting must not depend on the machine running this
+process.env.TZ = 'America/New_York';
+
+const fs = require('fs');
+const path = require('path');
+const Module = require('module');
+const ts = require('typescript');
+
+const ROOT = path.join(__dirname, '..');
+const SRC_DIR = path.join(ROOT, 'src');
+const FIXTURES_DIR = path.join(ROOT, 'fixtures', 'timelines');
+
+// Load TypeScript sources directly: transpile on require and resolve the @/ path alias
+require.extensions['.ts'] = (module, filename) => {
+  const source = fs.readFileSync(filename, 'utf8');
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2019,
+      esModuleInterop: true,
+    },
+    fileName: filename,
+  });
+  module._compile(outputText, filename);
+};
+
+const originalResolve = Module._resolveFilename;
+Module._resolveFilename = function (request, ...rest) {
+  if (request.startsWith('@/')) {
+    request = path.join(SRC_DIR, request.slice(2));
+  }
+  return originalResolve.call(this, request, ...rest);
+};
+
+const { buildFixtureTimeline, detectFixtureDay, toSnapshot, diffSnapshots } = require(path.join(SRC_DIR, 'lib', 'timeline-fixtures.ts'));
+
+function main() {
+  const args = process.argv.slice(2);
+  const update = args.includes('--update');
+  const filter = args.find(arg => !arg.startsWith('--'));
+
+  const names = fs.readdirSync(FIXTURES_DIR)
+    .filter(file => file.endsWith('.json') && !file.endsWith('.golden.json'))
+    .map(file => file.replace(/\.json$/, ''))
+    .filter(name => !filter || name.includes(filter))
+    .sort();
+
+  if (names.length === 0) {
+    console.log('No fixtures found');
+    process.exit(1);
+  }
+
+  const snapshots = [];
+  for (const name of names) {
+    const fixture = JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, `${name}.json`), 'utf8'));
+    const timeline = toSnapshot(buildFixtureTimeline(fixture));
+    const detections = toSnapshot(detectFixtureDay(fixture));
+
+    snapshots.push({
+      label: name,
+      goldenPath: path.join(FIXTURES_DIR, `${name}.golden.json`),
+      actual: timeline,
+      written: `${timeline.events.length} events`,
+    });
+    snapshots.push({
+      label: `${name} (detections)`,
+      goldenPath: path.join(FIXTURES_DIR, `${name}.detections.golden.json`),
+      actual: detections,
+      written: `${detections.officeVisits.length} office visits, ${detections.jobArrivals.length} job arrivals`,
+    });
+  }
+
+  let failed = 0;
+
+  for (const { label, goldenPath, actual, written } of snapshots) {
+    if (update) {
+      fs.writeFileSync(goldenPath, JSON.stringify(actual, null, 2) + '\n');
+      console.log(`  ✎ ${label}: snapshot written (${written})`);
+      continue;
+    }
+
+    if (!fs.existsSync(goldenPath)) {
+      failed++;
+      console.log(`  ✗ ${label}: no golden snapshot`);
+      continue;
+    }
+
+    const expected = JSON.parse(fs.readFileSync(goldenPath, 'utf8'));
+    const diffs = diffSnapshots(expected, actual);
+
+    if (diffs.length === 0) {
+      console.log(`  ✓ ${label}`);
+    } else {
+      failed++;
+      console.log(`  ✗ ${label}: ${diffs.length} difference(s)`);
+      for (const diff of diffs.slice(0, 20)) {
+        console.log(`      ${diff}`);
+      }
+      if (diffs.length > 20) {
+        console.log(`      ... and ${diffs.length - 20} more`);
+      }
+    }
+  }
+
+  console.log(`\n${snapshots.length - failed}/${snapshots.length} snapshots match`);
+  if (failed > 0) {
+    console.log('If the change is intended (or the fixture is new), re-run with --update and review the snapshot diff');
+    process.exit(1);
+  }
+}
+
+main();
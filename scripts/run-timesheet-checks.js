@@ -0,0 +1,112 @@
+// Check payroll hour calculations against hand-worked punch days
+// No server, database or vendor APIs needed
+//
+// Run with: node scripts/run-timesheet-checks.js   (or npm run test:timesheet)
+
+// Punch times are shown in Eastern time in warnings
+process.env.TZ = 'America/New_York';
+
+const assert = require('assert');
+const fs = require('fs');
+const path = require('path');
+const Module = require('module');
+const ts = require('typescript');
+
+const ROOT = path.join(__dirname, '..');
+const SRC_DIR = path.join(ROOT, 'src');
+
+// Load TypeScript sources directly: transpile on require and resolve the @/ path alias
+require.extensions['.ts'] = (module, filename) => {
+  const source = fs.readFileSync(filename, 'utf8');
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2019,
+      esModuleInterop: true,
+    },
+    fileName: filename,
+  });
+  module._compile(outputText, filename);
+};
+
+const originalResolve = Module._resolveFilename;
+Module._resolveFilename = function (request, ...rest) {
+  if (request.startsWith('@/')) {
+    request = path.join(SRC_DIR, request.slice(2));
+  }
+  return originalResolve.call(this, request, ...rest);
+};
+
+const { computeWorkedHours } = require(path.join(SRC_DIR, 'lib', 'timesheet.ts'));
+
+function day(...punches) {
+  return punches.map(([punchType, time]) => ({
+    employeeId: 'E1',
+    technicianId: null,
+    date: '2025-12-15',
+    punchType,
+    time: `2025-12-15T${time}:00-05:00`,
+    source: 'paylocity',
+  }));
+}
+
+const checks = [
+  {
+    name: 'straight day',
+    punches: day(['ClockIn', '08:00'], ['ClockOut', '16:30']),
+    workedHours: 8.5,
+    warnings: 0,
+  },
+  {
+    name: 'lunch day',
+    punches: day(['ClockIn', '08:00'], ['MealStart', '12:00'], ['MealEnd', '12:30'], ['ClockOut', '17:00']),
+    workedHours: 8.5,
+    warnings: 0,
+  },
+  {
+    // How sync-punches stores a lunch segment: the meal has its own pair between two work segments
+    name: 'lunch day stored as three segments',
+    punches: day(
+      ['ClockIn', '08:00'], ['ClockOut', '12:00'], ['MealStart', '12:00'],
+      ['MealEnd', '12:30'], ['ClockIn', '12:30'], ['ClockOut', '17:00']
+    ),
+    workedHours: 8.5,
+    warnings: 0,
+  },
+  {
+    // Paylocity splits the day into segments that touch - the meal end can share the meal start's minute
+    name: 'lunch day with touching segments, listed out of order',
+    punches: day(['MealEnd', '12:00'], ['ClockIn', '08:00'], ['ClockOut', '16:00'], ['MealStart', '12:00']),
+    workedHours: 8,
+    warnings: 0,
+  },
+  {
+    name: 'clock out and back in at the same minute',
+    punches: day(['ClockIn', '07:00'], ['ClockIn', '11:00'], ['ClockOut', '11:00'], ['ClockOut', '15:00']),
+    workedHours: 8,
+    warnings: 0,
+  },
+  {
+    name: 'missing clock out',
+    punches: day(['ClockIn', '08:00'], ['MealStart', '12:00'], ['MealEnd', '12:30']),
+    workedHours: 4,
+    warnings: 1,
+  },
+];
+
+let failed = 0;
+
+for (const check of checks) {
+  const { workedHours, warnings } = computeWorkedHours(check.punches);
+  try {
+    assert.strictEqual(workedHours, check.workedHours, `worked ${workedHours}h, expected ${check.workedHours}h`);
+    assert.strictEqual(warnings.length, check.warnings, `warnings: ${JSON.stringify(warnings)}`);
+    console.log(`  ✓ ${check.name}`);
+  } catch (error) {
+    failed++;
+    console.log(`  ✗ ${check.name}: ${error.message}`);
+  }
+}
+
+console.log(`\n${checks.length - failed}/${checks.length} checks pass`);
+if (failed > 0) process.exit(1);
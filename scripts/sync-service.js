@@ -1,7 +1,8 @@
 #!/usr/bin/env node
 /**
  * Tech Truth Sync Service
- * Runs continuously, syncing GPS, jobs, and punch data every 5 minutes
+ * Runs continuously, syncing GPS, jobs, and punch data every 5 minutes, then evaluating alerts
+ * and rebuilding stale stored timelines
  */
 
 const SYNC_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
@@ -25,7 +26,10 @@ async function runSync() {
     gps: null,
     jobs: null,
     punches: null,
+    alerts: null,
     estimates: null,
+    fuel: null,
+    timelines: null,
     errors: []
   };
 
@@ -34,7 +38,7 @@ async function runSync() {
     console.log('  → Syncing GPS data...');
     const gpsRes = await fetch(`${APP_URL}/api/sync-gps`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', 'x-sync-key': process.env.SYNC_API_KEY || '' },
       body: JSON.stringify({ date: today }),
     });
     results.gps = await gpsRes.json();
@@ -49,7 +53,7 @@ async function runSync() {
     console.log('  → Syncing job/arrival data...');
     const jobRes = await fetch(`${APP_URL}/api/sync-data`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', 'x-sync-key': process.env.SYNC_API_KEY || '' },
       body: JSON.stringify({ date: today }),
     });
     results.jobs = await jobRes.json();
@@ -64,7 +68,7 @@ async function runSync() {
     console.log('  → Syncing punch data...');
     const punchRes = await fetch(`${APP_URL}/api/sync-punches`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', 'x-sync-key': process.env.SYNC_API_KEY || '' },
       body: JSON.stringify({ date: today }),
     });
     results.punches = await punchRes.json();
@@ -74,12 +78,27 @@ async function runSync() {
     console.error(`    ✗ Punches error: ${err.message}`);
   }
 
-  // Step 4: Estimates Sync
+  // Step 4: Alerts - evaluated once GPS, arrivals and punches are fresh
+  try {
+    console.log('  → Evaluating alerts...');
+    const alertRes = await fetch(`${APP_URL}/api/alerts/evaluate`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-sync-key': process.env.SYNC_API_KEY || '' },
+      body: JSON.stringify({ date: today }),
+    });
+    results.alerts = await alertRes.json();
+    console.log(`    ✓ Alerts: ${results.alerts.summary?.raised || 0} new, ${results.alerts.summary?.delivered || 0} delivered`);
+  } catch (err) {
+    results.errors.push(`Alerts: ${err.message}`);
+    console.error(`    ✗ Alerts error: ${err.message}`);
+  }
+
+  // Step 5: Estimates Sync
   try {
     console.log('  → Syncing estimates data...');
     const estRes = await fetch(`${APP_URL}/api/sync-estimates`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', 'x-sync-key': process.env.SYNC_API_KEY || '' },
       body: JSON.stringify({ date: today }),
     });
     results.estimates = await estRes.json();
@@ -89,6 +108,40 @@ async function runSync() {
     console.error(`    ✗ Estimates error: ${err.message}`);
   }
 
+  // Step 6: Fuel Sync - skipped by the route (400) until Coast is configured
+  try {
+    console.log('  → Syncing fuel card transactions...');
+    const fuelRes = await fetch(`${APP_URL}/api/sync-fuel`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-sync-key': process.env.SYNC_API_KEY || '' },
+      body: JSON.stringify({ date: today }),
+    });
+    results.fuel = await fuelRes.json();
+    if (fuelRes.ok) {
+      console.log(`    ✓ Fuel: ${results.fuel.summary?.transactionsStored || 0} transactions`);
+    } else {
+      console.log(`    - Fuel skipped: ${results.fuel.error}`);
+    }
+  } catch (err) {
+    results.errors.push(`Fuel: ${err.message}`);
+    console.error(`    ✗ Fuel error: ${err.message}`);
+  }
+
+  // Step 7: Timelines - rebuild stored timelines invalidated by the syncs above
+  try {
+    console.log('  → Rebuilding stale timelines...');
+    const timelineRes = await fetch(`${APP_URL}/api/day-timelines/rebuild`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-sync-key': process.env.SYNC_API_KEY || '' },
+      body: JSON.stringify({}),
+    });
+    results.timelines = await timelineRes.json();
+    console.log(`    ✓ Timelines: ${results.timelines.summary?.rebuilt || 0} rebuilt, ${results.timelines.summary?.deferred || 0} deferred`);
+  } catch (err) {
+    results.errors.push(`Timelines: ${err.message}`);
+    console.error(`    ✗ Timelines error: ${err.message}`);
+  }
+
   const status = results.errors.length === 0 ? '✓ Complete' : '⚠ Completed with errors';
   console.log(`[${new Date().toLocaleString('en-US', { timeZone: 'America/New_York' })}] Sync ${status}\n`);
 
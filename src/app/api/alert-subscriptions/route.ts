@@ -0,0 +1,221 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase';
+import { Database } from '@/types/database';
+import { requireRole, REVIEWER_ROLES } from '@/lib/auth';
+import {
+  ALERT_CHANNELS,
+  ALERT_TYPES,
+  AlertChannel,
+  AlertSubscriptionRow,
+  rowToAlertSubscription,
+} from '@/types/alerts';
+
+type SubscriptionUpdate = Database['public']['Tables']['alert_subscriptions']['Update'];
+
+/**
+ * Check a channel target looks deliverable; returns an error message or null
+ */
+function validateTarget(channel: AlertChannel, target: string): string | null {
+  if (channel === 'email' && !/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(target)) {
+    return 'Email target must be an email address';
+  }
+  if (channel === 'sms' && !/^\+[1-9]\d{7,14}$/.test(target)) {
+    return 'SMS target must be a phone number in E.164 format (e.g. +13365551234)';
+  }
+  if (channel === 'webhook' && !/^https?:\/\//.test(target)) {
+    return 'Webhook target must be an http(s) URL';
+  }
+  return null;
+}
+
+function validateAlertTypes(alertTypes: unknown): string | null {
+  if (alertTypes === undefined) return null;
+  if (!Array.isArray(alertTypes) || alertTypes.some(t => !ALERT_TYPES.includes(t))) {
+    return `alertTypes must be a list of: ${ALERT_TYPES.join(', ')}`;
+  }
+  return null;
+}
+
+// GET - The signed-in manager's alert subscriptions (admins: ?all=true for everyone's)
+export async function GET(req: NextRequest) {
+  const auth = await requireRole(req, REVIEWER_ROLES);
+  if (auth.response) return auth.response;
+
+  const supabase = createServerClient();
+  const all = req.nextUrl.searchParams.get('all') === 'true' && auth.user.role === 'admin';
+
+  try {
+    let query = supabase
+      .from('alert_subscriptions')
+      .select('*')
+      .order('created_at');
+
+    if (!all) query = query.eq('user_id', auth.user.id);
+
+    const { data, error } = await query;
+
+    if (error) throw new Error(error.message);
+
+    return NextResponse.json({
+      success: true,
+      subscriptions: (data as AlertSubscriptionRow[] || []).map(rowToAlertSubscription),
+    });
+  } catch (error) {
+    console.error('Error fetching alert subscriptions:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch alert subscriptions' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Add an alert channel for the signed-in manager
+export async function POST(req: NextRequest) {
+  const auth = await requireRole(req, REVIEWER_ROLES);
+  if (auth.response) return auth.response;
+
+  const supabase = createServerClient();
+
+  try {
+    const { channel, target, alertTypes, officeId } = await req.json();
+
+    if (!ALERT_CHANNELS.includes(channel)) {
+      return NextResponse.json(
+        { error: `Invalid channel. Must be one of: ${ALERT_CHANNELS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const trimmedTarget = typeof target === 'string' ? target.trim() : '';
+    const validationError = validateTarget(channel, trimmedTarget) || validateAlertTypes(alertTypes);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const { data, error } = await supabase
+      .from('alert_subscriptions')
+      .insert({
+        user_id: auth.user.id,
+        channel,
+        target: trimmedTarget,
+        alert_types: alertTypes || [],
+        office_id: officeId || null,
+      })
+      .select()
+      .single();
+
+    if (error) throw new Error(error.message);
+
+    return NextResponse.json({
+      success: true,
+      subscription: rowToAlertSubscription(data as AlertSubscriptionRow),
+    });
+  } catch (error) {
+    console.error('Error creating alert subscription:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create alert subscription' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH - Change alert types, branch filter, target or pause a subscription
+export async function PATCH(req: NextRequest) {
+  const auth = await requireRole(req, REVIEWER_ROLES);
+  if (auth.response) return auth.response;
+
+  const supabase = createServerClient();
+
+  try {
+    const { id, target, alertTypes, officeId, active } = await req.json();
+
+    if (!id) {
+      return NextResponse.json({ error: 'ID is required' }, { status: 400 });
+    }
+
+    const { data: existing, error: fetchError } = await supabase
+      .from('alert_subscriptions')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (fetchError) throw new Error(fetchError.message);
+
+    // Managers edit their own subscriptions; admins can edit anyone's
+    if (!existing || (existing.user_id !== auth.user.id && auth.user.role !== 'admin')) {
+      return NextResponse.json({ error: 'Subscription not found' }, { status: 404 });
+    }
+
+    const updateData: SubscriptionUpdate = {};
+
+    if (target !== undefined) {
+      const trimmedTarget = String(target).trim();
+      const targetError = validateTarget(existing.channel as AlertChannel, trimmedTarget);
+      if (targetError) return NextResponse.json({ error: targetError }, { status: 400 });
+      updateData.target = trimmedTarget;
+    }
+
+    if (alertTypes !== undefined) {
+      const typesError = validateAlertTypes(alertTypes);
+      if (typesError) return NextResponse.json({ error: typesError }, { status: 400 });
+      updateData.alert_types = alertTypes;
+    }
+
+    if (officeId !== undefined) updateData.office_id = officeId || null;
+    if (active !== undefined) updateData.active = !!active;
+
+    const { data, error } = await supabase
+      .from('alert_subscriptions')
+      .update(updateData)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw new Error(error.message);
+
+    return NextResponse.json({
+      success: true,
+      subscription: rowToAlertSubscription(data as AlertSubscriptionRow),
+    });
+  } catch (error) {
+    console.error('Error updating alert subscription:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update alert subscription' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Remove a subscription (?id=)
+export async function DELETE(req: NextRequest) {
+  const auth = await requireRole(req, REVIEWER_ROLES);
+  if (auth.response) return auth.response;
+
+  const supabase = createServerClient();
+  const id = req.nextUrl.searchParams.get('id');
+
+  if (!id) {
+    return NextResponse.json({ error: 'ID is required' }, { status: 400 });
+  }
+
+  try {
+    let query = supabase
+      .from('alert_subscriptions')
+      .delete()
+      .eq('id', id);
+
+    if (auth.user.role !== 'admin') query = query.eq('user_id', auth.user.id);
+
+    const { error } = await query;
+
+    if (error) throw new Error(error.message);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting alert subscription:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to delete alert subscription' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { formatInTimeZone } from 'date-fns-tz';
+import { requireRole, SYNC_ROLES } from '@/lib/auth';
+import { evaluateAlerts } from '@/lib/alerts';
+import { createTimelineFetcher } from '@/lib/timeline-report';
+
+export const maxDuration = 60;
+
+const EST_TIMEZONE = 'America/New_York';
+
+/**
+ * POST - Evaluate alert conditions and deliver new alerts
+ * Run by the sync service after each GPS / punch sync cycle.
+ *
+ * Request body:
+ * - date: string (optional) - Day to evaluate (YYYY-MM-DD). Defaults to today (Eastern).
+ */
+export async function POST(req: NextRequest) {
+  const auth = await requireRole(req, SYNC_ROLES, { allowSyncKey: true });
+  if (auth.response) return auth.response;
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const date: string = body.date || formatInTimeZone(new Date(), EST_TIMEZONE, 'yyyy-MM-dd');
+
+    // Transit analysis comes from the timeline report, called with the caller's credentials
+    const fetchTimeline = createTimelineFetcher(req, 'Alerts');
+
+    const summary = await evaluateAlerts({ date, fetchTimeline });
+
+    console.log(`Alert evaluation for ${date}: ${JSON.stringify(summary)}`);
+
+    return NextResponse.json({
+      success: true,
+      summary,
+    });
+  } catch (error) {
+    console.error('Error evaluating alerts:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
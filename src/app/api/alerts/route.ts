@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase';
+import { requireRole, ANY_ROLE } from '@/lib/auth';
+import { AlertEventRow, rowToAlertEvent } from '@/types/alerts';
+
+// GET - Raised alerts, newest first, with their delivery attempts
+// Filters: date or startDate/endDate, technicianId, alertType
+export async function GET(req: NextRequest) {
+  const auth = await requireRole(req, ANY_ROLE);
+  if (auth.response) return auth.response;
+
+  const supabase = createServerClient();
+  const searchParams = req.nextUrl.searchParams;
+  const date = searchParams.get('date');
+  const startDate = searchParams.get('startDate');
+  const endDate = searchParams.get('endDate');
+  const technicianId = searchParams.get('technicianId');
+  const alertType = searchParams.get('alertType');
+  const limit = parseInt(searchParams.get('limit') || '100');
+
+  try {
+    let query = supabase
+      .from('alert_events')
+      .select('*, alert_deliveries (channel, target, status, attempts, error, sent_at)')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (date) query = query.eq('event_date', date);
+    if (startDate) query = query.gte('event_date', startDate);
+    if (endDate) query = query.lte('event_date', endDate);
+    if (technicianId) query = query.eq('technician_id', technicianId);
+    if (alertType) query = query.eq('alert_type', alertType);
+
+    const { data, error } = await query;
+
+    if (error) throw new Error(error.message);
+
+    return NextResponse.json({
+      success: true,
+      alerts: (data || []).map(row => ({
+        ...rowToAlertEvent(row as AlertEventRow),
+        deliveries: row.alert_deliveries || [],
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching alerts:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch alerts' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,6 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { requireRole, ANY_ROLE } from '@/lib/auth';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -9,7 +10,10 @@ const supabase = createClient(
 /**
  * GET - Get summary of all annotations and proposed punches for manager review
  */
-export async function GET() {
+export async function GET(req: NextRequest) {
+  const auth = await requireRole(req, ANY_ROLE);
+  if (auth.response) return auth.response;
+
   try {
     // Fetch all punch annotations with related punch record and technician info
     const { data: annotations, error: annotationsError } = await supabase
@@ -54,6 +58,9 @@ export async function GET() {
         status,
         created_at,
         created_by,
+        submission_error,
+        submission_attempts,
+        needs_paylocity_check,
         technicians (
           id,
           name
@@ -109,6 +116,9 @@ export async function GET() {
         status: p.status,
         created_at: p.created_at,
         created_by: p.created_by,
+        submissionError: p.submission_error,
+        submissionAttempts: p.submission_attempts,
+        needsPaylocityCheck: p.needs_paylocity_check,
       };
     });
 
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase';
+import { requireRole, ANY_ROLE } from '@/lib/auth';
+import { AuditEventRow, rowToAuditEvent } from '@/types/audit';
+
+// GET - Audit history, newest first
+// Filters: technicianId, date (single work day) or startDate/endDate, entityType, entityId
+export async function GET(req: NextRequest) {
+  const auth = await requireRole(req, ANY_ROLE);
+  if (auth.response) return auth.response;
+
+  const supabase = createServerClient();
+  const searchParams = req.nextUrl.searchParams;
+  const technicianId = searchParams.get('technicianId');
+  const date = searchParams.get('date');
+  const startDate = searchParams.get('startDate');
+  const endDate = searchParams.get('endDate');
+  const entityType = searchParams.get('entityType');
+  const entityId = searchParams.get('entityId');
+  const limit = parseInt(searchParams.get('limit') || '200');
+
+  try {
+    let query = supabase
+      .from('audit_events')
+      .select('*')
+      .order('occurred_at', { ascending: false })
+      .limit(limit);
+
+    if (technicianId) query = query.eq('technician_id', technicianId);
+    if (date) query = query.eq('event_date', date);
+    if (startDate) query = query.gte('event_date', startDate);
+    if (endDate) query = query.lte('event_date', endDate);
+    if (entityType) query = query.eq('entity_type', entityType);
+    if (entityId) query = query.eq('entity_id', entityId);
+
+    const { data, error } = await query;
+
+    if (error) throw new Error(error.message);
+
+    return NextResponse.json({
+      success: true,
+      events: (data as AuditEventRow[] || []).map(rowToAuditEvent),
+    });
+  } catch (error) {
+    console.error('Error fetching audit events:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch audit events' },
+      { status: 500 }
+    );
+  }
+}
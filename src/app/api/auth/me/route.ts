@@ -0,0 +1,13 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthUser } from '@/lib/auth';
+
+// GET - The signed-in user's profile and role (401 when signed out)
+export async function GET(req: NextRequest) {
+  const user = await getAuthUser(req);
+
+  if (!user) {
+    return NextResponse.json({ success: false, error: 'Not signed in' }, { status: 401 });
+  }
+
+  return NextResponse.json({ success: true, user });
+}
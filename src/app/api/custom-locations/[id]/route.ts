@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import { CustomLocationRow, rowToCustomLocation } from '@/types/custom-location';
+import { requireRole, ANY_ROLE, REVIEWER_ROLES } from '@/lib/auth';
+import { invalidateDayTimelines } from '@/lib/day-timelines';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -12,6 +14,9 @@ export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole(request, ANY_ROLE);
+  if (auth.response) return auth.response;
+
   try {
     const { id } = await params;
 
@@ -55,6 +60,9 @@ export async function PUT(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole(request, REVIEWER_ROLES);
+  if (auth.response) return auth.response;
+
   try {
     const { id } = await params;
     const body = await request.json();
@@ -141,6 +149,8 @@ export async function PUT(
 
     const location = rowToCustomLocation(data as CustomLocationRow);
 
+    await invalidateDayTimelines('custom_location');
+
     return NextResponse.json({
       success: true,
       location,
@@ -159,6 +169,9 @@ export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole(request, REVIEWER_ROLES);
+  if (auth.response) return auth.response;
+
   try {
     const { id } = await params;
 
@@ -175,6 +188,8 @@ export async function DELETE(
       );
     }
 
+    await invalidateDayTimelines('custom_location');
+
     return NextResponse.json({
       success: true,
       message: 'Custom location deleted',
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import { CustomLocationRow, rowToCustomLocation } from '@/types/custom-location';
+import { requireRole, ANY_ROLE, REVIEWER_ROLES } from '@/lib/auth';
+import { invalidateDayTimelines } from '@/lib/day-timelines';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -8,7 +10,10 @@ const supabase = createClient(
 );
 
 // GET - List all custom locations
-export async function GET() {
+export async function GET(req: NextRequest) {
+  const auth = await requireRole(req, ANY_ROLE);
+  if (auth.response) return auth.response;
+
   try {
     const { data, error } = await supabase
       .from('custom_locations')
@@ -40,6 +45,9 @@ export async function GET() {
 
 // POST - Create a new custom location
 export async function POST(request: NextRequest) {
+  const auth = await requireRole(request, REVIEWER_ROLES);
+  if (auth.response) return auth.response;
+
   try {
     const body = await request.json();
 
@@ -104,6 +112,7 @@ export async function POST(request: NextRequest) {
         boundary_type: boundaryType,
         boundary_polygon: boundaryPolygon || null,
         address: address || null,
+        created_by: auth.user.displayName,
       })
       .select()
       .single();
@@ -127,6 +136,9 @@ export async function POST(request: NextRequest) {
 
     const location = rowToCustomLocation(data as CustomLocationRow);
 
+    // Stops anywhere may now match this location
+    await invalidateDayTimelines('custom_location');
+
     return NextResponse.json({
       success: true,
       location,
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { formatInTimeZone } from 'date-fns-tz';
+import { requireRole, SYNC_ROLES } from '@/lib/auth';
+import { findTimelinesToRebuild } from '@/lib/day-timelines';
+import { createTimelineFetcher } from '@/lib/timeline-report';
+
+export const maxDuration = 60;
+
+const EST_TIMEZONE = 'America/New_York';
+
+// Stop starting new builds after this long so the request finishes inside maxDuration
+const TIME_BUDGET_MS = 45 * 1000;
+
+/**
+ * POST - Rebuild stale stored timelines and prebuild recent days
+ * Run by the sync service after each cycle; anything left over is picked up next run.
+ *
+ * Request body:
+ * - limit: number (optional) - Most timelines to build this run (default 15)
+ * - days: number (optional) - How far back to prebuild days that were never opened (default 7)
+ */
+export async function POST(req: NextRequest) {
+  const auth = await requireRole(req, SYNC_ROLES, { allowSyncKey: true });
+  if (auth.response) return auth.response;
+
+  const startTime = Date.now();
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const limit = Math.min(Number(body.limit) || 15, 100);
+    const days = Math.min(Number(body.days) || 7, 62);
+    const today = formatInTimeZone(new Date(), EST_TIMEZONE, 'yyyy-MM-dd');
+
+    const queue = await findTimelinesToRebuild({ today, days, limit });
+    const fetchTimeline = createTimelineFetcher(req, 'Timeline Rebuild', { refresh: true });
+
+    let rebuilt = 0;
+    const failed: { technicianId: string; date: string }[] = [];
+
+    // One at a time - each build calls the GPS vendor and Google Directions
+    for (const day of queue) {
+      if (Date.now() - startTime > TIME_BUDGET_MS) break;
+
+      const timeline = await fetchTimeline(day.technicianId, day.date);
+      if (timeline) {
+        rebuilt++;
+      } else {
+        failed.push(day);
+      }
+    }
+
+    const remaining = queue.length - rebuilt - failed.length;
+    console.log(`[Timeline Rebuild] ${rebuilt} rebuilt, ${failed.length} failed, ${remaining} deferred in ${Date.now() - startTime}ms`);
+
+    return NextResponse.json({
+      success: true,
+      summary: {
+        queued: queue.length,
+        rebuilt,
+        failed: failed.length,
+        deferred: remaining,
+        durationMs: Date.now() - startTime,
+      },
+      failed: failed.length > 0 ? failed : null,
+    });
+  } catch (error) {
+    console.error('Error rebuilding timelines:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
@@ -1,10 +1,14 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole, ADMIN_ROLES } from '@/lib/auth';
 
 /**
  * Debug endpoint to check environment variable status
  * Does NOT expose actual values, just checks if they're set
  */
-export async function GET() {
+export async function GET(req: NextRequest) {
+  const auth = await requireRole(req, ADMIN_ROLES);
+  if (auth.response) return auth.response;
+
   const envCheck = {
     // Supabase
     NEXT_PUBLIC_SUPABASE_URL: !!process.env.NEXT_PUBLIC_SUPABASE_URL,
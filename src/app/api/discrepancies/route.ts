@@ -1,8 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@/lib/supabase';
 import { format, parseISO } from 'date-fns';
+import { requireRole, ANY_ROLE, REVIEWER_ROLES } from '@/lib/auth';
+import { recordAuditEvent } from '@/lib/audit';
 
 export async function GET(req: NextRequest) {
+  const auth = await requireRole(req, ANY_ROLE);
+  if (auth.response) return auth.response;
+
   const supabase = createServerClient();
 
   try {
@@ -71,11 +76,14 @@ export async function GET(req: NextRequest) {
 
 // PATCH to update a discrepancy (mark as reviewed, add notes)
 export async function PATCH(req: NextRequest) {
+  const auth = await requireRole(req, REVIEWER_ROLES);
+  if (auth.response) return auth.response;
+
   const supabase = createServerClient();
 
   try {
     const body = await req.json();
-    const { id, reviewed, notes, reviewed_by } = body;
+    const { id, reviewed, notes } = body;
 
     if (!id) {
       return NextResponse.json({ error: 'ID is required' }, { status: 400 });
@@ -84,13 +92,19 @@ export async function PATCH(req: NextRequest) {
     // Build update object inline to avoid type issues
     const now = new Date().toISOString();
 
+    const { data: previous } = await supabase
+      .from('arrival_discrepancies')
+      .select('*')
+      .eq('id', id)
+      .single();
+
     // First, update the record
     const { error: updateError } = await supabase
       .from('arrival_discrepancies')
       .update({
         reviewed: reviewed ?? undefined,
         reviewed_at: reviewed ? now : undefined,
-        reviewed_by: reviewed && reviewed_by ? reviewed_by : undefined,
+        reviewed_by: reviewed ? auth.user.displayName : undefined, // Stamped from the signed-in user
         notes: notes ?? undefined,
       })
       .eq('id', id);
@@ -106,6 +120,18 @@ export async function PATCH(req: NextRequest) {
 
     if (fetchError) throw fetchError;
 
+    await recordAuditEvent({
+      actor: auth.user,
+      entityType: 'discrepancy',
+      verb: reviewed && !previous?.reviewed ? 'reviewed' : 'updated',
+      entityId: id,
+      technicianId: data.technician_id,
+      eventDate: data.job_date,
+      before: previous,
+      after: data,
+      note: notes ?? null,
+    });
+
     return NextResponse.json({
       success: true,
       discrepancy: data,
@@ -1,5 +1,8 @@
 import { NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { requireRole, ANY_ROLE, REVIEWER_ROLES } from '@/lib/auth';
+import { recordAuditEvent } from '@/lib/audit';
+import { invalidateDayTimelines } from '@/lib/day-timelines';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -10,6 +13,9 @@ const supabase = createClient(
  * GET - Check if a technician has an excused office visit for a date
  */
 export async function GET(request: Request) {
+  const auth = await requireRole(request, ANY_ROLE);
+  if (auth.response) return auth.response;
+
   const { searchParams } = new URL(request.url);
   const technicianId = searchParams.get('technicianId');
   const visitDate = searchParams.get('visitDate');
@@ -52,9 +58,12 @@ export async function GET(request: Request) {
  * POST - Create an excused office visit
  */
 export async function POST(request: Request) {
+  const auth = await requireRole(request, REVIEWER_ROLES);
+  if (auth.response) return auth.response;
+
   try {
     const body = await request.json();
-    const { technicianId, visitDate, reason, notes, excusedBy } = body;
+    const { technicianId, visitDate, reason, notes } = body;
 
     if (!technicianId || !visitDate || !reason) {
       return NextResponse.json({
@@ -80,6 +89,14 @@ export async function POST(request: Request) {
       }, { status: 400 });
     }
 
+    // Existing excuse (if any) for the audit trail
+    const { data: previous } = await supabase
+      .from('excused_office_visits')
+      .select('*')
+      .eq('technician_id', technicianId)
+      .eq('visit_date', visitDate)
+      .maybeSingle();
+
     // Insert or update
     const { data, error } = await supabase
       .from('excused_office_visits')
@@ -88,7 +105,7 @@ export async function POST(request: Request) {
         visit_date: visitDate,
         reason,
         notes: notes || null,
-        excused_by: excusedBy || null,
+        excused_by: auth.user.displayName,
       }, {
         onConflict: 'technician_id,visit_date',
       })
@@ -115,6 +132,20 @@ export async function POST(request: Request) {
       console.warn('Failed to update punch records:', updateError.message);
     }
 
+    await recordAuditEvent({
+      actor: auth.user,
+      entityType: 'excused_visit',
+      verb: previous ? 'updated' : 'created',
+      entityId: data.id,
+      technicianId,
+      eventDate: visitDate,
+      before: previous,
+      after: data,
+      note: notes || reason,
+    });
+
+    await invalidateDayTimelines('excused_visit', { technicianIds: [technicianId], dates: [visitDate] });
+
     return NextResponse.json({
       success: true,
       excusedVisit: data,
@@ -132,6 +163,9 @@ export async function POST(request: Request) {
  * DELETE - Remove an excused office visit
  */
 export async function DELETE(request: Request) {
+  const auth = await requireRole(request, REVIEWER_ROLES);
+  if (auth.response) return auth.response;
+
   const { searchParams } = new URL(request.url);
   const technicianId = searchParams.get('technicianId');
   const visitDate = searchParams.get('visitDate');
@@ -144,6 +178,13 @@ export async function DELETE(request: Request) {
   }
 
   try {
+    const { data: previous } = await supabase
+      .from('excused_office_visits')
+      .select('*')
+      .eq('technician_id', technicianId)
+      .eq('visit_date', visitDate)
+      .maybeSingle();
+
     const { error } = await supabase
       .from('excused_office_visits')
       .delete()
@@ -171,6 +212,20 @@ export async function DELETE(request: Request) {
       console.warn('Failed to update punch records:', updateError.message);
     }
 
+    if (previous) {
+      await recordAuditEvent({
+        actor: auth.user,
+        entityType: 'excused_visit',
+        verb: 'deleted',
+        entityId: previous.id,
+        technicianId,
+        eventDate: visitDate,
+        before: previous,
+      });
+    }
+
+    await invalidateDayTimelines('excused_visit', { technicianIds: [technicianId], dates: [visitDate] });
+
     return NextResponse.json({
       success: true,
       message: 'Excused visit removed',
@@ -1,11 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { geocodeAddress, isGeocodingError } from '@/lib/geocoding';
+import { requireRole, ANY_ROLE } from '@/lib/auth';
 
 /**
  * POST /api/geocode
  * Geocode an address to get coordinates
  */
 export async function POST(req: NextRequest) {
+  const auth = await requireRole(req, ANY_ROLE);
+  if (auth.response) return auth.response;
+
   try {
     const body = await req.json();
     const { address } = body;
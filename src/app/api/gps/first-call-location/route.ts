@@ -2,9 +2,15 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@/lib/supabase';
 import { parseISO, subMinutes, addMinutes, format } from 'date-fns';
 import { calculateDistanceFeet, parseVerizonUtcTimestamp } from '@/lib/geo-utils';
-import { getVehicleGPSData, getVehicleSegments, GPSHistoryPoint } from '@/lib/verizon-connect';
+import { getVehicleGPSData, GPSHistoryPoint } from '@/lib/verizon-connect';
+import { requireRole, ANY_ROLE } from '@/lib/auth';
+import { getWorkdaySegments } from '@/lib/segment-repository';
+import { getDayVehicle } from '@/lib/ride-alongs';
 
 export async function GET(req: NextRequest) {
+  const auth = await requireRole(req, ANY_ROLE);
+  if (auth.response) return auth.response;
+
   const supabase = createServerClient();
   const searchParams = req.nextUrl.searchParams;
 
@@ -23,7 +29,7 @@ export async function GET(req: NextRequest) {
     // Get job info including location
     const { data: job, error: jobError } = await supabase
       .from('jobs')
-      .select('id, job_latitude, job_longitude, job_address')
+      .select('id, job_date, job_latitude, job_longitude, job_address')
       .eq('id', jobId)
       .single();
 
@@ -90,14 +96,10 @@ export async function GET(req: NextRequest) {
       };
     } else {
       // No DB data - fetch directly from Verizon API
-      // Get technician's Verizon vehicle ID
-      const { data: technician, error: techError } = await supabase
-        .from('technicians')
-        .select('verizon_vehicle_id')
-        .eq('id', technicianId)
-        .single();
-
-      if (techError || !technician?.verizon_vehicle_id) {
+      // Get the Verizon vehicle the technician had (or rode in) on the job's day
+      const { vehicleId } = await getDayVehicle(technicianId, job.job_date);
+
+      if (!vehicleId) {
         // No vehicle assigned, can't fetch GPS
         return NextResponse.json({
           success: true,
@@ -125,10 +127,8 @@ export async function GET(req: NextRequest) {
         let gpsPoints: GPSHistoryPoint[] = [];
 
         if (isSameDay) {
-          // Use segments endpoint for same-day data
-          const todayStr = format(today, 'yyyy-MM-dd') + 'T00:00:00Z';
-          const segmentsData = await getVehicleSegments(technician.verizon_vehicle_id, todayStr);
-          const segments = segmentsData.Segments || [];
+          // Use segments for same-day data (stored trips plus the live tail)
+          const { segments } = await getWorkdaySegments(vehicleId, format(today, 'yyyy-MM-dd'));
 
           // Convert segment locations to GPS-like points
           for (const seg of segments) {
@@ -186,7 +186,7 @@ export async function GET(req: NextRequest) {
         } else {
           // Use GPS history endpoint for past days
           gpsPoints = await getVehicleGPSData(
-            technician.verizon_vehicle_id,
+            vehicleId,
             fetchStart.toISOString(),
             fetchEnd.toISOString()
           );
@@ -1,10 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@/lib/supabase';
 import { calculateDistanceFeet } from '@/lib/geo-utils';
+import { requireRole, ANY_ROLE } from '@/lib/auth';
 
 export const dynamic = 'force-dynamic';
 
 export async function GET(req: NextRequest) {
+  const auth = await requireRole(req, ANY_ROLE);
+  if (auth.response) return auth.response;
+
   const supabase = createServerClient();
   const searchParams = req.nextUrl.searchParams;
 
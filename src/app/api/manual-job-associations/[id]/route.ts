@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@/lib/supabase';
+import { requireRole, REVIEWER_ROLES } from '@/lib/auth';
+import { recordAuditEvent } from '@/lib/audit';
+import { invalidateDayTimelines } from '@/lib/day-timelines';
 
 export const dynamic = 'force-dynamic';
 
@@ -8,6 +11,9 @@ export async function DELETE(
   req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole(req, REVIEWER_ROLES);
+  if (auth.response) return auth.response;
+
   const supabase = createServerClient();
   const { id } = await params;
 
@@ -22,7 +28,7 @@ export async function DELETE(
     // Get the association first to find the job
     const { data: association, error: fetchError } = await supabase
       .from('manual_job_associations')
-      .select('job_id, gps_timestamp')
+      .select('*')
       .eq('id', id)
       .single();
 
@@ -41,6 +47,16 @@ export async function DELETE(
 
     if (deleteError) throw deleteError;
 
+    await recordAuditEvent({
+      actor: auth.user,
+      entityType: 'manual_job_association',
+      verb: 'deleted',
+      entityId: id,
+      technicianId: association.technician_id,
+      eventDate: association.job_date,
+      before: association,
+    });
+
     // Optionally clear the job's actual_arrival if it was set by this association
     // We check if the job's actual_arrival matches the association's timestamp
     if (association.job_id) {
@@ -64,6 +80,11 @@ export async function DELETE(
       }
     }
 
+    await invalidateDayTimelines('manual_job_association', {
+      technicianIds: [association.technician_id],
+      dates: [association.job_date],
+    });
+
     return NextResponse.json({
       success: true,
       message: 'Association removed successfully',
@@ -1,10 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@/lib/supabase';
+import { requireRole, ANY_ROLE, REVIEWER_ROLES } from '@/lib/auth';
+import { recordAuditEvent } from '@/lib/audit';
+import { invalidateDayTimelines } from '@/lib/day-timelines';
 
 export const dynamic = 'force-dynamic';
 
 // POST - Create a new manual job association
 export async function POST(req: NextRequest) {
+  const auth = await requireRole(req, REVIEWER_ROLES);
+  if (auth.response) return auth.response;
+
   const supabase = createServerClient();
 
   try {
@@ -75,6 +81,19 @@ export async function POST(req: NextRequest) {
         .eq('id', jobId);
     }
 
+    await recordAuditEvent({
+      actor: auth.user,
+      entityType: 'manual_job_association',
+      verb: 'created',
+      entityId: association.id,
+      technicianId,
+      eventDate: jobDate,
+      after: association,
+      note: notes || null,
+    });
+
+    await invalidateDayTimelines('manual_job_association', { technicianIds: [technicianId], dates: [jobDate] });
+
     return NextResponse.json({
       success: true,
       association: {
@@ -95,6 +114,9 @@ export async function POST(req: NextRequest) {
 
 // GET - List associations for a technician/date
 export async function GET(req: NextRequest) {
+  const auth = await requireRole(req, ANY_ROLE);
+  if (auth.response) return auth.response;
+
   const supabase = createServerClient();
   const searchParams = req.nextUrl.searchParams;
 
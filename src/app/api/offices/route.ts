@@ -0,0 +1,199 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase';
+import { Database } from '@/types/database';
+import { OfficeRow, rowToOffice } from '@/types/office';
+import { requireRole, ADMIN_ROLES, ANY_ROLE } from '@/lib/auth';
+import { invalidateDayTimelines } from '@/lib/day-timelines';
+
+// A geofence bigger than this would swallow the neighbourhood around the office
+const MAX_RADIUS_FEET = 5280;
+
+/**
+ * Check the geofence fields that were given
+ * Returns what's wrong, or null when they're all usable.
+ */
+function geofenceError(fields: { centerLatitude?: unknown; centerLongitude?: unknown; radiusFeet?: unknown }): string | null {
+  const { centerLatitude, centerLongitude, radiusFeet } = fields;
+  const inRange = (value: unknown, min: number, max: number) =>
+    typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+
+  if (centerLatitude !== undefined && !inRange(centerLatitude, -90, 90)) {
+    return 'centerLatitude must be a number between -90 and 90';
+  }
+  if (centerLongitude !== undefined && !inRange(centerLongitude, -180, 180)) {
+    return 'centerLongitude must be a number between -180 and 180';
+  }
+  if (radiusFeet !== undefined && !inRange(radiusFeet, 1, MAX_RADIUS_FEET)) {
+    return `radiusFeet must be a number between 1 and ${MAX_RADIUS_FEET}`;
+  }
+  return null;
+}
+
+// GET - List offices (active only unless activeOnly=false)
+export async function GET(req: NextRequest) {
+  const auth = await requireRole(req, ANY_ROLE);
+  if (auth.response) return auth.response;
+
+  const supabase = createServerClient();
+
+  try {
+    const activeOnly = req.nextUrl.searchParams.get('activeOnly') !== 'false';
+
+    let query = supabase
+      .from('offices')
+      .select('*')
+      .order('name');
+
+    if (activeOnly) {
+      query = query.eq('active', true);
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw new Error(error.message);
+
+    return NextResponse.json({
+      success: true,
+      offices: (data as OfficeRow[] || []).map(rowToOffice),
+    });
+  } catch (error) {
+    console.error('Error fetching offices:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch offices' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Create a new office
+export async function POST(req: NextRequest) {
+  const auth = await requireRole(req, ADMIN_ROLES);
+  if (auth.response) return auth.response;
+
+  const supabase = createServerClient();
+
+  try {
+    const body = await req.json();
+    const {
+      name,
+      address,
+      centerLatitude,
+      centerLongitude,
+      radiusFeet = 500,
+      boundaryType = 'circle',
+      boundaryPolygon,
+    } = body;
+
+    if (!name || centerLatitude === undefined || centerLongitude === undefined) {
+      return NextResponse.json(
+        { error: 'Missing required fields: name, centerLatitude, centerLongitude' },
+        { status: 400 }
+      );
+    }
+
+    const invalid = geofenceError({ centerLatitude, centerLongitude, radiusFeet });
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    if (boundaryType === 'polygon' && (!Array.isArray(boundaryPolygon) || boundaryPolygon.length < 3)) {
+      return NextResponse.json(
+        { error: 'Polygon boundary requires at least 3 coordinate points' },
+        { status: 400 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from('offices')
+      .insert({
+        name,
+        address: address || null,
+        center_latitude: centerLatitude,
+        center_longitude: centerLongitude,
+        radius_feet: radiusFeet,
+        boundary_type: boundaryType,
+        boundary_polygon: boundaryPolygon || null,
+      })
+      .select()
+      .single();
+
+    if (error) throw new Error(error.message);
+
+    await invalidateDayTimelines('office');
+
+    return NextResponse.json({
+      success: true,
+      office: rowToOffice(data as OfficeRow),
+    });
+  } catch (error) {
+    console.error('Error creating office:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create office' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH - Update an office (geofence, name, or deactivate)
+export async function PATCH(req: NextRequest) {
+  const auth = await requireRole(req, ADMIN_ROLES);
+  if (auth.response) return auth.response;
+
+  const supabase = createServerClient();
+
+  try {
+    const body = await req.json();
+    const {
+      id,
+      name,
+      address,
+      centerLatitude,
+      centerLongitude,
+      radiusFeet,
+      boundaryType,
+      boundaryPolygon,
+      active,
+    } = body;
+
+    if (!id) {
+      return NextResponse.json({ error: 'ID is required' }, { status: 400 });
+    }
+
+    const invalid = geofenceError({ centerLatitude, centerLongitude, radiusFeet });
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    const updateData: Database['public']['Tables']['offices']['Update'] = { updated_at: new Date().toISOString() };
+    if (name !== undefined) updateData.name = name;
+    if (address !== undefined) updateData.address = address;
+    if (centerLatitude !== undefined) updateData.center_latitude = centerLatitude;
+    if (centerLongitude !== undefined) updateData.center_longitude = centerLongitude;
+    if (radiusFeet !== undefined) updateData.radius_feet = radiusFeet;
+    if (boundaryType !== undefined) updateData.boundary_type = boundaryType;
+    if (boundaryPolygon !== undefined) updateData.boundary_polygon = boundaryPolygon;
+    if (active !== undefined) updateData.active = active;
+
+    const { data, error } = await supabase
+      .from('offices')
+      .update(updateData)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw new Error(error.message);
+
+    await invalidateDayTimelines('office');
+
+    return NextResponse.json({
+      success: true,
+      office: rowToOffice(data as OfficeRow),
+    });
+  } catch (error) {
+    console.error('Error updating office:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update office' },
+      { status: 500 }
+    );
+  }
+}
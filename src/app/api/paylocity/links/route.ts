@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole, ADMIN_ROLES, PAYROLL_ROLES } from '@/lib/auth';
+import { recordAuditEvent } from '@/lib/audit';
+import { invalidateDayTimelines } from '@/lib/day-timelines';
+import { getLinkQueue, reviewLinkSuggestion } from '@/lib/paylocity-linking';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET - Paylocity link review queue
+ * Returns queued matches (suggestions), employees claimed by several technicians (conflicts)
+ * and active technicians with no link (unlinked).
+ */
+export async function GET(req: NextRequest) {
+  const auth = await requireRole(req, PAYROLL_ROLES);
+  if (auth.response) return auth.response;
+
+  try {
+    const queue = await getLinkQueue();
+    return NextResponse.json({ success: true, ...queue });
+  } catch (error) {
+    console.error('Error fetching Paylocity link queue:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to fetch link queue' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH - Approve or reject a queued match
+ * Body: { id, decision: 'approved' | 'rejected' }
+ * Approving links the technician; it is refused (409) if the employee is linked to someone else.
+ */
+export async function PATCH(req: NextRequest) {
+  const auth = await requireRole(req, ADMIN_ROLES);
+  if (auth.response) return auth.response;
+
+  try {
+    const { id, decision } = await req.json();
+
+    if (!id || (decision !== 'approved' && decision !== 'rejected')) {
+      return NextResponse.json(
+        { success: false, error: "id and decision ('approved' or 'rejected') are required" },
+        { status: 400 }
+      );
+    }
+
+    const { suggestion, refused } = await reviewLinkSuggestion(id, decision, auth.user.displayName);
+
+    if (!suggestion) {
+      return NextResponse.json({ success: false, error: 'Suggestion not found' }, { status: 404 });
+    }
+    if (refused) {
+      return NextResponse.json({ success: false, error: refused }, { status: 409 });
+    }
+
+    await recordAuditEvent({
+      actor: auth.user,
+      entityType: 'paylocity_link',
+      verb: decision,
+      entityId: suggestion.id,
+      technicianId: suggestion.technicianId,
+      after: suggestion,
+    });
+
+    if (decision === 'approved') {
+      await invalidateDayTimelines('technician', { technicianIds: [suggestion.technicianId] });
+    }
+
+    return NextResponse.json({ success: true, suggestion });
+  } catch (error) {
+    console.error('Error reviewing Paylocity link:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to review match' },
+      { status: 500 }
+    );
+  }
+}
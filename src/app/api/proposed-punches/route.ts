@@ -1,15 +1,24 @@
 import { NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { requireRole, ANY_ROLE, PAYROLL_ROLES } from '@/lib/auth';
+import { recordAuditEvent } from '@/lib/audit';
+import { invalidateDayTimelines } from '@/lib/day-timelines';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
   process.env.SUPABASE_SERVICE_ROLE_KEY!
 );
 
+// Paylocity has received these - only the write-back moves them on
+const LOCKED_STATUSES = ['submitted', 'applied'];
+
 /**
  * GET - Get proposed punches for a technician on a date
  */
 export async function GET(request: Request) {
+  const auth = await requireRole(request, ANY_ROLE);
+  if (auth.response) return auth.response;
+
   const { searchParams } = new URL(request.url);
   const technicianId = searchParams.get('technicianId');
   const date = searchParams.get('date');
@@ -50,6 +59,9 @@ export async function GET(request: Request) {
  * POST - Create a proposed punch (for missing clock in/out, meal breaks)
  */
 export async function POST(request: Request) {
+  const auth = await requireRole(request, PAYROLL_ROLES);
+  if (auth.response) return auth.response;
+
   try {
     const body = await request.json();
     const { technicianId, date, punchType, proposedTime, note } = body;
@@ -94,7 +106,7 @@ export async function POST(request: Request) {
         proposed_time: proposedTime,
         note,
         status: 'pending',
-        created_by: 'admin',
+        created_by: auth.user.displayName,
       })
       .select()
       .single();
@@ -103,6 +115,19 @@ export async function POST(request: Request) {
       throw new Error(`Failed to create proposed punch: ${error.message}`);
     }
 
+    await recordAuditEvent({
+      actor: auth.user,
+      entityType: 'proposed_punch',
+      verb: 'created',
+      entityId: data.id,
+      technicianId,
+      eventDate: date,
+      after: data,
+      note,
+    });
+
+    await invalidateDayTimelines('proposed_punch', { technicianIds: [technicianId], dates: [date] });
+
     return NextResponse.json({
       success: true,
       proposedPunch: data,
@@ -118,8 +143,13 @@ export async function POST(request: Request) {
 
 /**
  * PATCH - Update a proposed punch status or details
+ * Reviewers move punches between pending, approved and rejected only - submitted, applied and
+ * failed are set by the Paylocity write-back. Punches Paylocity has received can't be edited (409).
  */
 export async function PATCH(request: Request) {
+  const auth = await requireRole(request, PAYROLL_ROLES);
+  if (auth.response) return auth.response;
+
   try {
     const body = await request.json();
     const { id, status, proposedTime, note } = body;
@@ -135,7 +165,7 @@ export async function PATCH(request: Request) {
     const updates: Record<string, any> = {};
 
     if (status) {
-      const validStatuses = ['pending', 'submitted', 'applied', 'rejected'];
+      const validStatuses = ['pending', 'approved', 'rejected'];
       if (!validStatuses.includes(status)) {
         return NextResponse.json({
           success: false,
@@ -143,6 +173,12 @@ export async function PATCH(request: Request) {
         }, { status: 400 });
       }
       updates.status = status;
+
+      // Record who moved it out of pending
+      if (status !== 'pending') {
+        updates.reviewed_by = auth.user.displayName;
+        updates.reviewed_at = new Date().toISOString();
+      }
     }
 
     if (proposedTime) {
@@ -160,17 +196,61 @@ export async function PATCH(request: Request) {
       }, { status: 400 });
     }
 
-    const { data, error } = await supabase
+    const { data: previous } = await supabase
+      .from('proposed_punches')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (!previous) {
+      return NextResponse.json({
+        success: false,
+        error: 'Proposed punch not found',
+      }, { status: 404 });
+    }
+
+    if (LOCKED_STATUSES.includes(previous.status)) {
+      return NextResponse.json({
+        success: false,
+        error: `This punch has already been sent to Paylocity (${previous.status}) and can no longer be changed`,
+      }, { status: 409 });
+    }
+
+    // Only if the write-back hasn't picked it up since it was read
+    const { data: rows, error } = await supabase
       .from('proposed_punches')
       .update(updates)
       .eq('id', id)
-      .select()
-      .single();
+      .eq('status', previous.status)
+      .select();
 
     if (error) {
       throw new Error(`Failed to update proposed punch: ${error.message}`);
     }
 
+    const data = rows?.[0];
+    if (!data) {
+      return NextResponse.json({
+        success: false,
+        error: 'This punch changed while you were editing it - reload and try again',
+      }, { status: 409 });
+    }
+
+    // Status changes are recorded by name (approved, rejected, ...), other edits as 'updated'
+    await recordAuditEvent({
+      actor: auth.user,
+      entityType: 'proposed_punch',
+      verb: status && status !== previous?.status ? status : 'updated',
+      entityId: id,
+      technicianId: data.technician_id,
+      eventDate: data.date,
+      before: previous,
+      after: data,
+      note: note !== undefined ? note : null,
+    });
+
+    await invalidateDayTimelines('proposed_punch', { technicianIds: [data.technician_id], dates: [data.date] });
+
     return NextResponse.json({
       success: true,
       proposedPunch: data,
@@ -188,6 +268,9 @@ export async function PATCH(request: Request) {
  * DELETE - Remove a proposed punch
  */
 export async function DELETE(request: Request) {
+  const auth = await requireRole(request, PAYROLL_ROLES);
+  if (auth.response) return auth.response;
+
   const { searchParams } = new URL(request.url);
   const id = searchParams.get('id');
 
@@ -199,6 +282,12 @@ export async function DELETE(request: Request) {
   }
 
   try {
+    const { data: previous } = await supabase
+      .from('proposed_punches')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
     const { error } = await supabase
       .from('proposed_punches')
       .delete()
@@ -208,6 +297,20 @@ export async function DELETE(request: Request) {
       throw new Error(`Failed to delete proposed punch: ${error.message}`);
     }
 
+    if (previous) {
+      await recordAuditEvent({
+        actor: auth.user,
+        entityType: 'proposed_punch',
+        verb: 'deleted',
+        entityId: id,
+        technicianId: previous.technician_id,
+        eventDate: previous.date,
+        before: previous,
+      });
+
+      await invalidateDayTimelines('proposed_punch', { technicianIds: [previous.technician_id], dates: [previous.date] });
+    }
+
     return NextResponse.json({
       success: true,
       message: 'Proposed punch deleted',
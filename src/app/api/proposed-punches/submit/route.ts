@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { requireRole, PAYROLL_ROLES } from '@/lib/auth';
+import { writeBackProposedPunches } from '@/lib/punch-writeback';
+
+/**
+ * POST - Push approved proposed punches to Paylocity
+ * Body (all optional):
+ * - ids: string[] - only these proposed punches
+ * - retryFailed: boolean - also resubmit punches whose last attempt failed
+ *
+ * Punches move approved -> submitted -> applied / failed. Punches Paylocity is still
+ * processing stay 'submitted' and are settled on the next call.
+ */
+export async function POST(req: Request) {
+  const auth = await requireRole(req, PAYROLL_ROLES, { allowSyncKey: true });
+  if (auth.response) return auth.response;
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const { ids, retryFailed } = body;
+
+    if (ids !== undefined && (!Array.isArray(ids) || ids.some((id: unknown) => typeof id !== 'string'))) {
+      return NextResponse.json({
+        success: false,
+        error: 'ids must be an array of proposed punch ids',
+      }, { status: 400 });
+    }
+
+    const summary = await writeBackProposedPunches({
+      actor: auth.user,
+      ids,
+      retryFailed: !!retryFailed,
+    });
+
+    return NextResponse.json({
+      success: true,
+      ...summary,
+    });
+  } catch (error) {
+    console.error('Error writing back proposed punches:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { requireRole, ANY_ROLE, PAYROLL_ROLES } from '@/lib/auth';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -10,6 +11,9 @@ const supabase = createClient(
  * GET - Get annotations for a punch record
  */
 export async function GET(request: Request) {
+  const auth = await requireRole(request, ANY_ROLE);
+  if (auth.response) return auth.response;
+
   const { searchParams } = new URL(request.url);
   const punchRecordId = searchParams.get('punchRecordId');
 
@@ -48,6 +52,9 @@ export async function GET(request: Request) {
  * POST - Create an annotation on a punch record
  */
 export async function POST(request: Request) {
+  const auth = await requireRole(request, PAYROLL_ROLES);
+  if (auth.response) return auth.response;
+
   try {
     const body = await request.json();
     const { punchRecordId, note, proposedTime, annotationType } = body;
@@ -91,7 +98,7 @@ export async function POST(request: Request) {
         note,
         proposed_time: proposedTime || null,
         annotation_type: type,
-        created_by: 'admin',
+        created_by: auth.user.displayName,
       })
       .select()
       .single();
@@ -117,6 +124,9 @@ export async function POST(request: Request) {
  * DELETE - Remove an annotation
  */
 export async function DELETE(request: Request) {
+  const auth = await requireRole(request, PAYROLL_ROLES);
+  if (auth.response) return auth.response;
+
   const { searchParams } = new URL(request.url);
   const id = searchParams.get('id');
 
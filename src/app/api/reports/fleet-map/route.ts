@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole, ANY_ROLE } from '@/lib/auth';
+import { buildFleetMap } from '@/lib/fleet-map';
+
+/**
+ * GET - Every truck's current position, technician, appointment and punch status
+ *
+ * No query params - always right now. Filtering by status happens on the page.
+ */
+export async function GET(req: NextRequest) {
+  const auth = await requireRole(req, ANY_ROLE);
+  if (auth.response) return auth.response;
+
+  try {
+    const fleet = await buildFleetMap();
+
+    return NextResponse.json({
+      success: true,
+      fleet,
+    });
+  } catch (error) {
+    console.error('Error building fleet map:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to build fleet map',
+    }, { status: 500 });
+  }
+}
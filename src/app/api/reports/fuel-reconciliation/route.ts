@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { addDays, format, parseISO } from 'date-fns';
+import { formatInTimeZone } from 'date-fns-tz';
+import { requireRole, ANY_ROLE } from '@/lib/auth';
+import { getWorkweekStart } from '@/lib/timesheet';
+import { buildFuelReconciliationReport } from '@/lib/fuel-reconciliation';
+
+const EST_TIMEZONE = 'America/New_York';
+const MAX_WEEKS = 12;
+
+/**
+ * GET - Fuel card gallons per truck against GPS miles, plus purchases made away from the truck
+ *
+ * Query params:
+ * - weekStart: Any date in the first week (YYYY-MM-DD); snapped to Sunday.
+ *   Defaults to the range that ends with the current week.
+ * - weeks: Number of weeks to cover (default 4, max 12)
+ */
+export async function GET(req: NextRequest) {
+  const auth = await requireRole(req, ANY_ROLE);
+  if (auth.response) return auth.response;
+
+  const searchParams = req.nextUrl.searchParams;
+  const weeks = Math.min(Math.max(parseInt(searchParams.get('weeks') || '4', 10) || 4, 1), MAX_WEEKS);
+
+  const currentWeek = getWorkweekStart(formatInTimeZone(new Date(), EST_TIMEZONE, 'yyyy-MM-dd'));
+  const requestedWeek = searchParams.get('weekStart') ||
+    format(addDays(parseISO(currentWeek), -(weeks - 1) * 7), 'yyyy-MM-dd');
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(requestedWeek)) {
+    return NextResponse.json({ success: false, error: 'weekStart must be YYYY-MM-DD' }, { status: 400 });
+  }
+
+  try {
+    const report = await buildFuelReconciliationReport({ weekStart: getWorkweekStart(requestedWeek), weeks });
+
+    return NextResponse.json({
+      success: true,
+      report,
+    });
+  } catch (error) {
+    console.error('Error building fuel reconciliation report:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to build fuel reconciliation report',
+    }, { status: 500 });
+  }
+}
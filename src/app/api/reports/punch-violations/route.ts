@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { requireRole, ANY_ROLE } from '@/lib/auth';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -13,6 +14,9 @@ const supabase = createClient(
  * - Missing clock-outs (technicians who clocked in but didn't clock out)
  */
 export async function GET(request: Request) {
+  const auth = await requireRole(request, ANY_ROLE);
+  if (auth.response) return auth.response;
+
   const { searchParams } = new URL(request.url);
   const startDate = searchParams.get('startDate');
   const endDate = searchParams.get('endDate');
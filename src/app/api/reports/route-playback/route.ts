@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole, ANY_ROLE } from '@/lib/auth';
+import { buildRoutePlayback } from '@/lib/route-playback';
+
+/**
+ * GET - Trips, breadcrumb paths and places for replaying a technician's day on a map
+ *
+ * Query params:
+ * - technicianId: Technician UUID
+ * - date: Workday (YYYY-MM-DD)
+ */
+export async function GET(req: NextRequest) {
+  const auth = await requireRole(req, ANY_ROLE);
+  if (auth.response) return auth.response;
+
+  const searchParams = req.nextUrl.searchParams;
+  const technicianId = searchParams.get('technicianId');
+  const date = searchParams.get('date');
+
+  if (!technicianId || !date) {
+    return NextResponse.json({ success: false, error: 'technicianId and date are required' }, { status: 400 });
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return NextResponse.json({ success: false, error: 'date must be YYYY-MM-DD' }, { status: 400 });
+  }
+
+  try {
+    const playback = await buildRoutePlayback(technicianId, date);
+    if (!playback) {
+      return NextResponse.json({ success: false, error: 'Technician not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      playback,
+    });
+  } catch (error) {
+    console.error('Error building route playback:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to build route playback',
+    }, { status: 500 });
+  }
+}
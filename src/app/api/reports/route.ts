@@ -1,8 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@/lib/supabase';
 import { format, parseISO, subDays, startOfDay, endOfDay, differenceInMinutes } from 'date-fns';
+import { requireRole, ANY_ROLE } from '@/lib/auth';
 
 export async function GET(req: NextRequest) {
+  const auth = await requireRole(req, ANY_ROLE);
+  if (auth.response) return auth.response;
+
   const supabase = createServerClient();
   const searchParams = req.nextUrl.searchParams;
 
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { formatInTimeZone } from 'date-fns-tz';
+import { requireRole, ANY_ROLE } from '@/lib/auth';
+import { getWorkweekStart } from '@/lib/timesheet';
+import { buildTechnicianScorecard, scorecardToPdf } from '@/lib/scorecard';
+import { createTimelineFetcher } from '@/lib/timeline-report';
+
+export const maxDuration = 60;
+
+const EST_TIMEZONE = 'America/New_York';
+
+/**
+ * GET - Weekly scorecard for one technician
+ * First-job punctuality, punch violations, unnecessary office visits, suspicious transits,
+ * unknown-stop minutes and material pickups come from the day timelines; close rate from estimates.
+ *
+ * Query params:
+ * - technicianId: string (required)
+ * - weekStart: Any date in the week (YYYY-MM-DD); snapped to Sunday. Defaults to the current week.
+ * - format: 'json' (default) or 'pdf' (printable scorecard)
+ */
+export async function GET(req: NextRequest) {
+  const auth = await requireRole(req, ANY_ROLE);
+  if (auth.response) return auth.response;
+
+  const searchParams = req.nextUrl.searchParams;
+  const technicianId = searchParams.get('technicianId');
+  const outputFormat = searchParams.get('format') || 'json';
+
+  if (!technicianId) {
+    return NextResponse.json({ success: false, error: 'technicianId is required' }, { status: 400 });
+  }
+
+  const requestedWeek = searchParams.get('weekStart') || formatInTimeZone(new Date(), EST_TIMEZONE, 'yyyy-MM-dd');
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(requestedWeek)) {
+    return NextResponse.json({ success: false, error: 'weekStart must be YYYY-MM-DD' }, { status: 400 });
+  }
+  const weekStart = getWorkweekStart(requestedWeek);
+
+  try {
+    const scorecard = await buildTechnicianScorecard({
+      technicianId,
+      weekStart,
+      fetchTimeline: createTimelineFetcher(req, 'Scorecard'),
+    });
+
+    if (!scorecard) {
+      return NextResponse.json({ success: false, error: 'Technician not found' }, { status: 404 });
+    }
+
+    if (outputFormat === 'pdf') {
+      const fileName = `scorecard-${scorecard.technicianName.replace(/[^A-Za-z0-9]+/g, '-')}-${weekStart}.pdf`;
+      return new NextResponse(new Uint8Array(scorecardToPdf(scorecard)), {
+        headers: {
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `inline; filename="${fileName}"`,
+        },
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      scorecard,
+    });
+  } catch (error) {
+    console.error('Error building scorecard:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to build scorecard',
+    }, { status: 500 });
+  }
+}
@@ -2,8 +2,12 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@/lib/supabase';
 import { parseISO, differenceInMinutes } from 'date-fns';
 import { DayDetail, JobDetail } from '@/types/reports';
+import { requireRole, ANY_ROLE } from '@/lib/auth';
 
 export async function GET(req: NextRequest) {
+  const auth = await requireRole(req, ANY_ROLE);
+  if (auth.response) return auth.response;
+
   const supabase = createServerClient();
   const searchParams = req.nextUrl.searchParams;
 
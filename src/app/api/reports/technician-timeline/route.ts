@@ -1,18 +1,31 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@/lib/supabase';
-import { getVehicleSegments } from '@/lib/verizon-connect';
-import { buildDayTimeline } from '@/lib/timeline-builder';
+import { getVehicleGPSHistory, GPSHistoryPoint } from '@/lib/verizon-connect';
+import { buildDayTimeline, materialCheckoutToEvent } from '@/lib/timeline-builder';
 import { JobDetail } from '@/types/reports';
-import { TechTimelineConfig, DayTimeline, TimelinePunchRecord, ManualJobAssociation, JobEstimateSummary, EstimateDetail, EstimateItemDetail, TransitAnalysis, MaterialCheckoutItemDetail } from '@/types/timeline';
-import { getDrivingDuration } from '@/lib/google-directions';
+import { TechTimelineConfig, DayTimeline, TimelineInput, TimelinePunchRecord, ManualJobAssociation, JobEstimateSummary, EstimateDetail, EstimateItemDetail, MaterialCheckoutItemDetail, StopDetectionMode } from '@/types/timeline';
 import { CustomLocationRow, rowToCustomLocation } from '@/types/custom-location';
-import { OFFICE_LOCATION } from '@/lib/geo-utils';
-import { parseISO, differenceInMinutes, addDays, format } from 'date-fns';
-import { getMaterialCheckouts, getMaterialRequests, getLinkedRequestIds } from '@/lib/material-checkout';
+import { DEFAULT_OFFICE, sortOfficesForTech } from '@/lib/geo-utils';
+import { OfficeRow, rowToOffice } from '@/types/office';
+import { parseISO, differenceInMinutes } from 'date-fns';
+import { getMaterialCheckouts, getMaterialRequests, getLinkedRequestIds, MaterialCheckout } from '@/lib/material-checkout';
+import { requireRole, ANY_ROLE } from '@/lib/auth';
+import { getStoredDayTimeline, saveDayTimeline } from '@/lib/day-timelines';
+import { getWorkdaySegments, getWorkdaySegmentWindow } from '@/lib/segment-repository';
+import { getDrivingThresholds } from '@/lib/driving-safety';
+import { analyzeTransitLegs } from '@/lib/transit-analysis';
+import { addFuelPurchaseEvents } from '@/lib/fuel-purchases';
+import { VOID_TRANSACTION_STATUSES } from '@/lib/coast';
+import { FuelPurchase, FuelTransactionRow, rowToFuelPurchase } from '@/types/fuel';
+import { getDayVehicle } from '@/lib/ride-alongs';
 
 export const dynamic = 'force-dynamic';
 
 export async function GET(req: NextRequest) {
+  // Sync key allowed: alert evaluation reads transit analysis from here
+  const auth = await requireRole(req, ANY_ROLE, { allowSyncKey: true });
+  if (auth.response) return auth.response;
+
   const supabase = createServerClient();
   const searchParams = req.nextUrl.searchParams;
 
@@ -26,9 +39,30 @@ export async function GET(req: NextRequest) {
     );
   }
 
+  // refresh=true skips the stored copy (used by the background rebuild)
+  const refresh = searchParams.get('refresh') === 'true';
+  const recordFixture = searchParams.get('recordFixture') === 'true';
+  // stopDetection=breadcrumbs also finds stops inside segments from GPS history points.
+  // Stored timelines are segment-only, so this always builds fresh and isn't saved.
+  const stopDetection: StopDetectionMode = searchParams.get('stopDetection') === 'breadcrumbs' ? 'breadcrumbs' : 'segments';
+
   try {
-    // Get technician info including home location and vehicle ID
-    const { data: technician, error: techError } = await supabase
+    if (!refresh && !recordFixture && stopDetection === 'segments') {
+      const stored = await getStoredDayTimeline(technicianId, date);
+      if (stored) {
+        return NextResponse.json({
+          success: true,
+          timeline: stored.timeline,
+          cached: true,
+          builtAt: stored.builtAt,
+        });
+      }
+    }
+
+    const buildStartedAt = new Date();
+
+    // Get technician info including home location
+    const { data: techRow, error: techError } = await supabase
       .from('technicians')
       .select(`
         id,
@@ -38,22 +72,28 @@ export async function GET(req: NextRequest) {
         home_longitude,
         home_address,
         exclude_from_office_visits,
-        verizon_vehicle_id
+        verizon_vehicle_id,
+        home_office_id
       `)
       .eq('id', technicianId)
       .single();
 
-    if (techError || !technician) {
+    if (techError || !techRow) {
       return NextResponse.json(
         { error: 'Technician not found' },
         { status: 404 }
       );
     }
 
+    // The truck they drove that day - a later reassignment mustn't pull in the new driver's trips.
+    // A helper riding along uses the lead's truck.
+    const { vehicleId, rideAlong } = await getDayVehicle(techRow.id, date);
+    const technician = { ...techRow, verizon_vehicle_id: vehicleId };
+
     // Check if technician has GPS tracking
     if (!technician.verizon_vehicle_id) {
       return NextResponse.json(
-        { error: 'No GPS vehicle assigned to this technician' },
+        { error: 'No GPS vehicle assigned to this technician on this date, and no ride-along recorded' },
         { status: 400 }
       );
     }
@@ -131,107 +171,24 @@ export async function GET(req: NextRequest) {
       };
     });
 
-    // Get GPS segments - for current day always use live API for fresh data
-    // For past dates, use stored data for performance
-    const targetDate = parseISO(date);
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const isToday = targetDate >= today;
-
-    let segments: Awaited<ReturnType<typeof getVehicleSegments>>['Segments'] = [];
-    let usedStoredData = false;
-
-    // For current day, skip stored data - always fetch fresh from live API
-    // This ensures we get the latest GPS data including recent departures
-    if (!isToday) {
-      // Try to get stored segments for past dates
-      const { data: storedSegments, error: storedError } = await supabase
-        .from('gps_segments')
-        .select('*')
-        .eq('technician_id', technicianId)
-        .eq('segment_date', date)
-        .order('start_time', { ascending: true });
-
-      if (!storedError && storedSegments && storedSegments.length > 0) {
-        // Convert stored segments back to Verizon API format for timeline builder
-        segments = storedSegments.map(seg => ({
-          StartDateUtc: seg.start_time?.replace('Z', '').replace('.000', '') || '',
-          EndDateUtc: seg.end_time?.replace('Z', '').replace('.000', '') || null,
-          IsComplete: seg.is_complete || false,
-          StartLocation: {
-            Latitude: seg.start_latitude,
-            Longitude: seg.start_longitude,
-            AddressLine1: seg.start_address?.split(',')[0] || '',
-            AddressLine2: '',
-            Locality: seg.start_address?.split(',')[1]?.trim() || '',
-            AdministrativeArea: seg.start_address?.split(',')[2]?.trim() || '',
-            PostalCode: seg.start_address?.split(',')[3]?.trim() || '',
-            Country: 'USA',
-          },
-          StartLocationIsPrivate: false,
-          EndLocation: seg.end_latitude && seg.end_longitude ? {
-            Latitude: seg.end_latitude,
-            Longitude: seg.end_longitude,
-            AddressLine1: seg.end_address?.split(',')[0] || '',
-            AddressLine2: '',
-            Locality: seg.end_address?.split(',')[1]?.trim() || '',
-            AdministrativeArea: seg.end_address?.split(',')[2]?.trim() || '',
-            PostalCode: seg.end_address?.split(',')[3]?.trim() || '',
-            Country: 'USA',
-          } : null,
-          EndLocationIsPrivate: false,
-          DistanceTraveled: seg.distance_miles || 0,
-          DistanceKilometers: (seg.distance_miles || 0) * 1.60934,
-          MaxSpeed: seg.max_speed || 0,
-          IdleTime: seg.idle_minutes ? seg.idle_minutes * 60 : 0,
-        }));
-        usedStoredData = true;
-        console.log(`[Timeline] Using ${segments.length} stored segments for ${technician.name} on ${date}`);
-      }
-    } else {
-      console.log(`[Timeline] Current day detected - will fetch fresh data from Verizon API for ${technician.name}`);
-    }
-
-    // For current day, or if no stored data for past dates, fetch from live API
-    if (segments.length === 0) {
-      console.log(`[Timeline] No stored segments, fetching from Verizon API for ${technician.name} on ${date}`);
-
-      // Query window: 4 AM EST (9 AM UTC) day-of to 5 AM EST (10 AM UTC) next day
-      const startDateUtc = `${date}T09:00:00Z`;
-      const nextDay = format(addDays(targetDate, 1), 'yyyy-MM-dd');
-      const endDateUtc = `${nextDay}T10:00:00Z`;
-
+    // Get GPS segments for the workday - stored trips, plus a live fetch for today's open tail
+    const { segments, source: segmentSource, storedCount, liveCount } = await getWorkdaySegments(
+      technician.verizon_vehicle_id,
+      date
+    );
+    console.log(`[Timeline] ${technician.name} on ${date}: ${storedCount} stored + ${liveCount} live segments (${segmentSource})`);
+
+    // GPS history points give breadcrumb stops and per-road speeding / harsh driving. The
+    // history endpoint isn't reliable for a day in progress, so segment-mode builds only
+    // ask for it once the workday is over (the build that gets stored).
+    let gpsPoints: GPSHistoryPoint[] | undefined;
+    const { startUtc: windowStart, endUtc: windowEnd } = getWorkdaySegmentWindow(date);
+    if (stopDetection === 'breadcrumbs' || windowEnd <= new Date()) {
       try {
-        const segmentsResponse = await getVehicleSegments(
-          technician.verizon_vehicle_id,
-          startDateUtc,
-          endDateUtc
-        );
-        const allSegments = segmentsResponse?.Segments || [];
-
-        // Filter segments to only include this day's work
-        const dayStart = new Date(Date.UTC(
-          targetDate.getUTCFullYear(),
-          targetDate.getUTCMonth(),
-          targetDate.getUTCDate(),
-          9, 0, 0 // 9 AM UTC = 4 AM EST
-        ));
-
-        const nextDayWorkStart = new Date(Date.UTC(
-          targetDate.getUTCFullYear(),
-          targetDate.getUTCMonth(),
-          targetDate.getUTCDate() + 1,
-          10, 0, 0 // 10 AM UTC = 5 AM EST
-        ));
-
-        segments = allSegments.filter(seg => {
-          if (!seg.StartDateUtc) return false;
-          const startTime = new Date(seg.StartDateUtc + (seg.StartDateUtc.includes('Z') ? '' : 'Z'));
-          return startTime >= dayStart && startTime < nextDayWorkStart;
-        });
-      } catch (gpsError: any) {
-        console.error('Error fetching GPS segments:', gpsError);
-        segments = [];
+        gpsPoints = await getVehicleGPSHistory(technician.verizon_vehicle_id, windowStart.toISOString(), windowEnd.toISOString());
+        console.log(`[Timeline] ${gpsPoints.length} GPS history points`);
+      } catch (historyError) {
+        console.error('[Timeline] GPS history fetch failed, using segments only:', historyError);
       }
     }
 
@@ -243,6 +200,18 @@ export async function GET(req: NextRequest) {
     const customLocations = (customLocationRows as CustomLocationRow[] || [])
       .map(rowToCustomLocation);
 
+    // Fetch offices, checking the technician's home branch first
+    const { data: officeRows } = await supabase
+      .from('offices')
+      .select('*')
+      .eq('active', true);
+
+    const offices = sortOfficesForTech(
+      (officeRows as OfficeRow[] || []).map(rowToOffice),
+      technician.home_office_id
+    );
+    const homeOffice = offices[0] || DEFAULT_OFFICE;
+
     // Fetch punch records for this technician on this date
     const { data: punchRecords } = await supabase
       .from('punch_records')
@@ -419,9 +388,10 @@ export async function GET(req: NextRequest) {
           }
         : undefined,
       officeLocation: {
-        lat: OFFICE_LOCATION.latitude,
-        lon: OFFICE_LOCATION.longitude,
+        lat: homeOffice.centerLatitude,
+        lon: homeOffice.centerLongitude,
       },
+      offices,
       excludeFromOfficeVisits: technician.exclude_from_office_visits || false,
     };
 
@@ -434,7 +404,7 @@ export async function GET(req: NextRequest) {
       .order('proposed_time', { ascending: true });
 
     // Build the timeline
-    const timeline: DayTimeline = buildDayTimeline({
+    const timelineInput: TimelineInput = {
       date,
       technicianId: technician.id,
       technicianName: technician.name,
@@ -445,7 +415,13 @@ export async function GET(req: NextRequest) {
       punches,
       excusedOfficeVisit,
       manualAssociations,
-    });
+      stopDetection,
+      gpsPoints,
+      drivingThresholds: getDrivingThresholds(),
+    };
+    const timeline: DayTimeline = buildDayTimeline(timelineInput);
+    timeline.segmentSource = segmentSource;
+    if (rideAlong) timeline.rideAlong = rideAlong;
 
     // Add proposed punches as events in the timeline
     if (proposedPunches && proposedPunches.length > 0) {
@@ -464,6 +440,7 @@ export async function GET(req: NextRequest) {
 
     // Fetch material requests and checkouts from the inventory system
     let materialCheckoutCount = 0;
+    const directCheckouts: MaterialCheckout[] = [];
     try {
       // Fetch both material requests (from Field Materials Request app) and direct checkouts
       const [materialRequests, materialCheckouts] = await Promise.all([
@@ -533,26 +510,8 @@ export async function GET(req: NextRequest) {
           }
 
           directCheckoutCount++;
-          const checkoutItems: MaterialCheckoutItemDetail[] = checkout.items.map(item => ({
-            partId: item.partId,
-            partNumber: item.partNumber,
-            description: item.description,
-            quantity: item.quantity,
-          }));
-
-          timeline.events.push({
-            id: `checkout-${checkout.transactionGroup}`,
-            type: 'material_checkout',
-            timestamp: checkout.timestamp,
-            checkoutId: checkout.id,
-            checkoutTransactionGroup: checkout.transactionGroup,
-            checkoutTruckNumber: checkout.truckNumber,
-            checkoutPoNumber: checkout.poNumber || undefined,
-            checkoutTotalItems: checkout.totalItems,
-            checkoutTotalQuantity: checkout.totalQuantity,
-            checkoutItems: checkoutItems,
-            checkoutTechName: checkout.techName,
-          });
+          directCheckouts.push(checkout);
+          timeline.events.push(materialCheckoutToEvent(checkout));
         }
 
         if (directCheckoutCount > 0) {
@@ -579,6 +538,23 @@ export async function GET(req: NextRequest) {
       new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
     );
 
+    // Fuel card purchases (synced from Coast), matched to the gas station stops built above
+    let fuelPurchases: FuelPurchase[] = [];
+    const { data: fuelRows, error: fuelError } = await supabase
+      .from('fuel_transactions')
+      .select('*')
+      .eq('technician_id', technicianId)
+      .eq('transaction_date', date)
+      .not('status', 'in', `(${VOID_TRANSACTION_STATUSES.join(',')})`)
+      .order('transaction_time', { ascending: true });
+
+    if (fuelError) {
+      console.error('[Timeline] Error fetching fuel purchases:', fuelError);
+    } else {
+      fuelPurchases = ((fuelRows || []) as FuelTransactionRow[]).map(rowToFuelPurchase);
+      addFuelPurchaseEvents(timeline, fuelPurchases);
+    }
+
     // Enrich job events with estimate data
     const jobEvents = timeline.events.filter(e => e.type === 'arrived_job' && e.jobId);
     if (jobEvents.length > 0) {
@@ -685,88 +661,25 @@ export async function GET(req: NextRequest) {
       }
     }
 
-    // Calculate transit analysis for job-to-job transitions
-    // Find pairs of left_job -> arrived_job and calculate expected vs actual drive time
-    const events = timeline.events;
-    for (let i = 0; i < events.length; i++) {
-      const currentEvent = events[i];
-
-      // Only process arrived_job events
-      if (currentEvent.type !== 'arrived_job') continue;
-
-      // Find the most recent left_job event before this arrived_job
-      let leftJobEvent = null;
-      let mealBreakMinutes = 0;
-
-      for (let j = i - 1; j >= 0; j--) {
-        const prevEvent = events[j];
-
-        // Track meal breaks between jobs
-        if (prevEvent.type === 'meal_end') {
-          // Find the corresponding meal_start
-          for (let k = j - 1; k >= 0; k--) {
-            if (events[k].type === 'meal_start') {
-              const mealStart = parseISO(events[k].timestamp);
-              const mealEnd = parseISO(prevEvent.timestamp);
-              mealBreakMinutes += differenceInMinutes(mealEnd, mealStart);
-              break;
-            }
-          }
-        }
+    // Expected vs. actual drive time for every leg between known stops
+    await analyzeTransitLegs(timeline);
 
-        // Found left_job - this is our starting point
-        if (prevEvent.type === 'left_job') {
-          leftJobEvent = prevEvent;
-          break;
-        }
-
-        // If we hit another arrived_job before finding left_job, stop
-        if (prevEvent.type === 'arrived_job') break;
-      }
+    // Optionally return the builder input so the day can be saved as an offline fixture
+    // (see scripts/record-timeline-fixture.js)
+    const fixtureInput = recordFixture
+      ? { ...timelineInput, materialCheckouts: directCheckouts, fuelPurchases }
+      : undefined;
 
-      // If we found a left_job before this arrived_job, calculate transit analysis
-      if (leftJobEvent && leftJobEvent.latitude && leftJobEvent.longitude &&
-          currentEvent.latitude && currentEvent.longitude) {
-
-        const leftTime = parseISO(leftJobEvent.timestamp);
-        const arrivedTime = parseISO(currentEvent.timestamp);
-        const actualElapsedMinutes = differenceInMinutes(arrivedTime, leftTime);
-
-        // Get expected drive time from Google Directions
-        const directionsResult = await getDrivingDuration(
-          leftJobEvent.latitude,
-          leftJobEvent.longitude,
-          currentEvent.latitude,
-          currentEvent.longitude
-        );
-
-        if (directionsResult.status === 'ok') {
-          const expectedDriveMinutes = directionsResult.durationMinutes;
-          const onClockTransitMinutes = actualElapsedMinutes - mealBreakMinutes;
-          const excessMinutes = onClockTransitMinutes - expectedDriveMinutes;
-
-          const transitAnalysis: TransitAnalysis = {
-            fromJobNumber: leftJobEvent.jobNumber || 'Unknown',
-            toJobNumber: currentEvent.jobNumber || 'Unknown',
-            fromAddress: leftJobEvent.address || 'Unknown',
-            toAddress: currentEvent.address || 'Unknown',
-            expectedDriveMinutes,
-            actualElapsedMinutes,
-            mealBreakMinutes,
-            onClockTransitMinutes,
-            excessMinutes,
-            isSuspicious: excessMinutes >= 15,
-            distanceMiles: directionsResult.distanceMiles,
-          };
-
-          currentEvent.transitAnalysis = transitAnalysis;
-        }
-      }
+    if (stopDetection === 'segments') {
+      await saveDayTimeline(timeline, buildStartedAt);
     }
 
     return NextResponse.json({
       success: true,
       timeline,
+      cached: false,
+      builtAt: buildStartedAt.toISOString(),
+      fixtureInput,
     });
   } catch (error: any) {
     console.error('Error fetching technician timeline:', error);
@@ -0,0 +1,182 @@
+import { NextResponse } from 'next/server';
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import { createServerClient } from '@/lib/supabase';
+import { requireRole, PAYROLL_ROLES } from '@/lib/auth';
+import {
+  buildEmployeeTimesheet,
+  getWorkweekStart,
+  mergeProposedPunches,
+  timesheetToPaylocityCsv,
+} from '@/lib/timesheet';
+import {
+  PAYROLL_PROPOSED_STATUSES,
+  TimesheetExport,
+  TimesheetPunch,
+  TimesheetPunchType,
+} from '@/types/timesheet';
+
+// Longest pay period we'll export in one request
+const MAX_PERIOD_DAYS = 31;
+
+// Supabase caps each response, so punch records are read in pages
+const PAGE_SIZE = 1000;
+
+const PUNCH_TYPES: TimesheetPunchType[] = ['ClockIn', 'ClockOut', 'MealStart', 'MealEnd'];
+
+/**
+ * GET - Pay-period timesheet export
+ * Merges Paylocity punch records with approved proposed punches and splits hours into
+ * regular and weekly overtime per employee.
+ *
+ * Query params:
+ * - startDate, endDate: Pay period (YYYY-MM-DD, inclusive)
+ * - format: 'json' (default, summary with per-day detail) or 'csv' (Paylocity import file)
+ */
+export async function GET(req: Request) {
+  const auth = await requireRole(req, PAYROLL_ROLES);
+  if (auth.response) return auth.response;
+
+  const { searchParams } = new URL(req.url);
+  const startDate = searchParams.get('startDate');
+  const endDate = searchParams.get('endDate');
+  const outputFormat = searchParams.get('format') || 'json';
+
+  if (!startDate || !endDate) {
+    return NextResponse.json({
+      success: false,
+      error: 'startDate and endDate are required',
+    }, { status: 400 });
+  }
+
+  const periodDays = differenceInCalendarDays(parseISO(endDate), parseISO(startDate)) + 1;
+  if (isNaN(periodDays) || periodDays < 1 || periodDays > MAX_PERIOD_DAYS) {
+    return NextResponse.json({
+      success: false,
+      error: `Pay period must be between 1 and ${MAX_PERIOD_DAYS} days`,
+    }, { status: 400 });
+  }
+
+  try {
+    const supabase = createServerClient();
+
+    // Start at the beginning of the first workweek so overtime counts hours before the period
+    const loadStart = getWorkweekStart(startDate);
+
+    const { data: technicians, error: techError } = await supabase
+      .from('technicians')
+      .select('id, name, paylocity_employee_id');
+
+    if (techError) throw new Error(techError.message);
+
+    const techById = new Map((technicians || []).map(t => [t.id, t]));
+    const techByEmployeeId = new Map(
+      (technicians || [])
+        .filter(t => t.paylocity_employee_id)
+        .map(t => [t.paylocity_employee_id!, t])
+    );
+
+    // Recorded punches from Paylocity
+    const recorded: TimesheetPunch[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data: page, error } = await supabase
+        .from('punch_records')
+        .select('paylocity_employee_id, technician_id, punch_date, punch_time, punch_type')
+        .gte('punch_date', loadStart)
+        .lte('punch_date', endDate)
+        .order('punch_time', { ascending: true })
+        .order('id', { ascending: true }) // Many punches share a time - without this, pages can repeat or drop rows
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) throw new Error(error.message);
+
+      for (const row of page || []) {
+        if (!PUNCH_TYPES.includes(row.punch_type as TimesheetPunchType)) continue;
+        recorded.push({
+          employeeId: row.paylocity_employee_id,
+          technicianId: row.technician_id,
+          date: row.punch_date,
+          punchType: row.punch_type as TimesheetPunchType,
+          time: row.punch_time,
+          source: 'paylocity',
+        });
+      }
+
+      if (!page || page.length < PAGE_SIZE) break;
+    }
+
+    // Approved corrections
+    const { data: proposedRows, error: proposedError } = await supabase
+      .from('proposed_punches')
+      .select('id, technician_id, date, punch_type, proposed_time')
+      .in('status', PAYROLL_PROPOSED_STATUSES)
+      .gte('date', loadStart)
+      .lte('date', endDate);
+
+    if (proposedError) throw new Error(proposedError.message);
+
+    const warnings: string[] = [];
+    const proposed: TimesheetPunch[] = [];
+
+    for (const row of proposedRows || []) {
+      const tech = techById.get(row.technician_id);
+      if (!tech?.paylocity_employee_id) {
+        warnings.push(`Approved ${row.punch_type} on ${row.date} for ${tech?.name || 'unknown technician'} skipped - no Paylocity employee id`);
+        continue;
+      }
+      proposed.push({
+        employeeId: tech.paylocity_employee_id,
+        technicianId: tech.id,
+        date: row.date,
+        punchType: row.punch_type as TimesheetPunchType,
+        time: row.proposed_time,
+        source: 'proposed',
+        proposedPunchId: row.id,
+      });
+    }
+
+    const punches = mergeProposedPunches(recorded, proposed);
+
+    const byEmployee = new Map<string, TimesheetPunch[]>();
+    for (const punch of punches) {
+      const list = byEmployee.get(punch.employeeId) || [];
+      list.push(punch);
+      byEmployee.set(punch.employeeId, list);
+    }
+
+    const employees = Array.from(byEmployee.entries())
+      .map(([employeeId, employeePunches]) => {
+        const tech = techByEmployeeId.get(employeeId);
+        return buildEmployeeTimesheet(
+          employeeId,
+          employeePunches,
+          startDate,
+          endDate,
+          tech ? { id: tech.id, name: tech.name } : null
+        );
+      })
+      .filter(e => e.days.length > 0)
+      .sort((a, b) => (a.technicianName || a.employeeId).localeCompare(b.technicianName || b.employeeId));
+
+    const timesheet: TimesheetExport = { startDate, endDate, employees, warnings };
+
+    if (outputFormat === 'csv') {
+      return new NextResponse(timesheetToPaylocityCsv(timesheet), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="paylocity-hours-${startDate}-to-${endDate}.csv"`,
+        },
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      ...timesheet,
+    });
+  } catch (error) {
+    console.error('Error building timesheet export:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole, ANY_ROLE, REVIEWER_ROLES } from '@/lib/auth';
+import { recordAuditEvent } from '@/lib/audit';
+import { invalidateDayTimelines } from '@/lib/day-timelines';
+import { deleteRideAlong, loadRideAlongs, saveRideAlong } from '@/lib/ride-alongs';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET - Ride-alongs for a technician's day
+ *
+ * Query params:
+ * - technicianId: Technician (required)
+ * - date: Day (YYYY-MM-DD, required)
+ *
+ * Returns the lead they rode with (rideAlong) and any helpers who rode with them (helpers).
+ */
+export async function GET(req: NextRequest) {
+  const auth = await requireRole(req, ANY_ROLE);
+  if (auth.response) return auth.response;
+
+  const searchParams = req.nextUrl.searchParams;
+  const technicianId = searchParams.get('technicianId');
+  const date = searchParams.get('date');
+
+  if (!technicianId || !date) {
+    return NextResponse.json({ success: false, error: 'technicianId and date are required' }, { status: 400 });
+  }
+
+  try {
+    const rideAlongs = await loadRideAlongs({ dates: [date] });
+
+    return NextResponse.json({
+      success: true,
+      rideAlong: rideAlongs.find(r => r.helperTechnicianId === technicianId) || null,
+      helpers: rideAlongs.filter(r => r.leadTechnicianId === technicianId),
+    });
+  } catch (error) {
+    console.error('Error fetching ride-alongs:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to fetch ride-alongs' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST - Record that a helper rode in a lead's truck for a day
+ * Body: { helperTechnicianId, leadTechnicianId, rideDate, notes }
+ * Replaces any pairing the helper already has that day, including a derived one.
+ */
+export async function POST(req: NextRequest) {
+  const auth = await requireRole(req, REVIEWER_ROLES);
+  if (auth.response) return auth.response;
+
+  try {
+    const { helperTechnicianId, leadTechnicianId, rideDate, notes } = await req.json();
+
+    if (!helperTechnicianId || !leadTechnicianId || !rideDate) {
+      return NextResponse.json(
+        { success: false, error: 'helperTechnicianId, leadTechnicianId and rideDate are required' },
+        { status: 400 }
+      );
+    }
+    if (helperTechnicianId === leadTechnicianId) {
+      return NextResponse.json({ success: false, error: 'A technician cannot ride with themselves' }, { status: 400 });
+    }
+
+    const rideAlong = await saveRideAlong({
+      helperTechnicianId,
+      leadTechnicianId,
+      rideDate,
+      notes,
+      createdBy: auth.user.displayName,
+    });
+
+    await recordAuditEvent({
+      actor: auth.user,
+      entityType: 'ride_along',
+      verb: 'created',
+      entityId: rideAlong.id,
+      technicianId: helperTechnicianId,
+      eventDate: rideDate,
+      after: rideAlong,
+      note: notes || null,
+    });
+
+    await invalidateDayTimelines('ride_along', { technicianIds: [helperTechnicianId], dates: [rideDate] });
+
+    return NextResponse.json({ success: true, rideAlong });
+  } catch (error) {
+    console.error('Error recording ride-along:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to record ride-along' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE - Remove a ride-along (?id=)
+ * A derived pairing comes back on the next sync-data run if ServiceTitan still shows it.
+ */
+export async function DELETE(req: NextRequest) {
+  const auth = await requireRole(req, REVIEWER_ROLES);
+  if (auth.response) return auth.response;
+
+  const id = req.nextUrl.searchParams.get('id');
+  if (!id) {
+    return NextResponse.json({ success: false, error: 'id is required' }, { status: 400 });
+  }
+
+  try {
+    const deleted = await deleteRideAlong(id);
+    if (!deleted) {
+      return NextResponse.json({ success: false, error: 'Ride-along not found' }, { status: 404 });
+    }
+
+    await recordAuditEvent({
+      actor: auth.user,
+      entityType: 'ride_along',
+      verb: 'deleted',
+      entityId: deleted.id,
+      technicianId: deleted.helperTechnicianId,
+      eventDate: deleted.rideDate,
+      before: deleted,
+    });
+
+    await invalidateDayTimelines('ride_along', { technicianIds: [deleted.helperTechnicianId], dates: [deleted.rideDate] });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting ride-along:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to delete ride-along' },
+      { status: 500 }
+    );
+  }
+}
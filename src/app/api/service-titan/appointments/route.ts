@@ -2,8 +2,12 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getAppointments, getJob } from '@/lib/service-titan';
 import { createServerClient } from '@/lib/supabase';
 import { startOfDay, endOfDay, format, parseISO } from 'date-fns';
+import { requireRole, ANY_ROLE } from '@/lib/auth';
 
 export async function GET(req: NextRequest) {
+  const auth = await requireRole(req, ANY_ROLE);
+  if (auth.response) return auth.response;
+
   try {
     const { searchParams } = new URL(req.url);
     const dateParam = searchParams.get('date');
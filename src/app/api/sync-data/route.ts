@@ -1,10 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@/lib/supabase';
 import { getTechnicians, getAppointments, getAppointmentAssignmentsByJobId, getJob, getLocation, getJobTypeWithCache } from '@/lib/service-titan';
-import { getVehicleGPSData, getVehicleSegments, GPSHistoryPoint, VehicleSegment } from '@/lib/verizon-connect';
+import { getVehicleGPSData, GPSHistoryPoint, VehicleSegment } from '@/lib/verizon-connect';
 import { parseISO, differenceInMinutes, subMinutes, addHours, format } from 'date-fns';
 import { toZonedTime, fromZonedTime, formatInTimeZone } from 'date-fns-tz';
-import { findArrivalTime, findArrivalFromSegments, ARRIVAL_RADIUS_FEET, detectOfficeVisits, TechOfficeConfig, geocodeAddress } from '@/lib/geo-utils';
+import { findArrivalTime, findArrivalFromSegments, ARRIVAL_RADIUS_FEET, detectOfficeVisits, TechOfficeConfig, geocodeAddress, sortOfficesForTech } from '@/lib/geo-utils';
+import { OfficeRow, rowToOffice } from '@/types/office';
+import { requireRole, ANY_ROLE, SYNC_ROLES } from '@/lib/auth';
+import { invalidateDayTimelines } from '@/lib/day-timelines';
+import { getVehicleSegmentsForRange } from '@/lib/segment-repository';
+import { withVehiclesForDate } from '@/lib/truck-assignments';
+import { syncServiceTitanRideAlongs } from '@/lib/ride-alongs';
 
 export const maxDuration = 60; // Vercel/Netlify function timeout (up to 60s on pro)
 
@@ -32,6 +38,9 @@ interface SyncResult {
 }
 
 export async function POST(req: NextRequest) {
+  const auth = await requireRole(req, SYNC_ROLES, { allowSyncKey: true });
+  if (auth.response) return auth.response;
+
   const supabase = createServerClient();
 
   try {
@@ -85,17 +94,25 @@ export async function POST(req: NextRequest) {
       await supabase.from('technicians').upsert(techUpserts, { onConflict: 'st_technician_id' });
     }
 
-    // Get technicians WITH trucks assigned from our database
-    const { data: techsWithTrucks } = await supabase
+    // Get technicians WITH trucks assigned on the date from our database
+    const { data: techRows } = await supabase
       .from('technicians')
-      .select('id, st_technician_id, name, verizon_vehicle_id, exclude_from_office_visits, takes_truck_home, home_latitude, home_longitude')
-      .not('verizon_vehicle_id', 'is', null);
+      .select('id, st_technician_id, name, verizon_vehicle_id, exclude_from_office_visits, takes_truck_home, home_latitude, home_longitude, home_office_id');
+
+    const techsForDate = await withVehiclesForDate(techRows || [], dateStr);
+    const techsWithTrucks = techsForDate.filter(t => t.verizon_vehicle_id);
 
     const techLookup = new Map();
     for (const t of techsWithTrucks || []) {
       techLookup.set(t.st_technician_id, t);
     }
 
+    // Technicians without a truck on the date - on a shared job they ride with the tech who has one
+    const techsWithoutTruckLookup = new Map();
+    for (const t of techsForDate) {
+      if (!t.verizon_vehicle_id) techsWithoutTruckLookup.set(t.st_technician_id, t);
+    }
+
     console.log(`Found ${techsWithTrucks?.length || 0} technicians with trucks assigned`);
 
     // Step 2: Get APPOINTMENTS for the date (not appointment-assignments!)
@@ -117,6 +134,8 @@ export async function POST(req: NextRequest) {
     const processedTechFirstJob = new Set<number>();
     // Track first job scheduled time per technician (for office visit classification)
     const techFirstJobTime = new Map<string, Date>(); // technician UUID -> first job scheduled time
+    // Helper technician UUID -> lead they rode with (first shared job of the day wins)
+    const rideAlongPairs = new Map<string, { helperTechnicianId: string; leadTechnicianId: string; stJobId: number | null }>();
     let jobsProcessed = 0;
     let discrepanciesFound = 0;
 
@@ -166,6 +185,18 @@ export async function POST(req: NextRequest) {
           continue;
         }
 
+        // Assigned techs without a truck rode along in this tech's truck
+        for (const assignment of activeAssignments) {
+          const helper = techsWithoutTruckLookup.get(assignment.technicianId);
+          if (helper && !rideAlongPairs.has(helper.id)) {
+            rideAlongPairs.set(helper.id, {
+              helperTechnicianId: helper.id,
+              leadTechnicianId: techData.id,
+              stJobId: appointment.jobId ?? null,
+            });
+          }
+        }
+
         const scheduledTime = new Date(appointment.start);
 
         // Step 3b: Get job details for location AND job type
@@ -262,11 +293,14 @@ export async function POST(req: NextRequest) {
           // For same-day data, try segment-based arrival detection first (more accurate)
           if (isSameDay) {
             try {
-              const todayStr = format(today, 'yyyy-MM-dd') + 'T00:00:00Z';
-              const todayEndStr = format(today, 'yyyy-MM-dd') + 'T23:59:59Z';
-              const segmentsData = await getVehicleSegments(techData.verizon_vehicle_id, todayStr, todayEndStr);
-              segments = segmentsData.Segments || [];
-              console.log(`    Vehicle segments: ${segments.length}`);
+              const todayStr = format(today, 'yyyy-MM-dd');
+              const segmentsData = await getVehicleSegmentsForRange(
+                techData.verizon_vehicle_id,
+                fromZonedTime(`${todayStr}T00:00:00`, EST_TIMEZONE),
+                fromZonedTime(`${todayStr}T23:59:59`, EST_TIMEZONE)
+              );
+              segments = segmentsData.segments;
+              console.log(`    Vehicle segments: ${segments.length} (${segmentsData.source})`);
 
               // Try to find arrival from segment end times (truck stopped)
               segmentArrival = findArrivalFromSegments(
@@ -429,6 +463,13 @@ export async function POST(req: NextRequest) {
       .delete()
       .eq('visit_date', dateStr);
 
+    // Fetch offices so visits are attributed to the right shop
+    const { data: officeRows } = await supabase
+      .from('offices')
+      .select('*')
+      .eq('active', true);
+    const offices = (officeRows as OfficeRow[] || []).map(rowToOffice);
+
     for (const tech of techsWithTrucks || []) {
       // Skip if no vehicle ID (shouldn't happen due to query filter, but TypeScript needs this)
       if (!tech.verizon_vehicle_id) continue;
@@ -439,14 +480,11 @@ export async function POST(req: NextRequest) {
       try {
         // Get today's segments for this technician's vehicle
         // Use full day window to capture all segments including late arrivals
-        const dayStartUtc = fromZonedTime(`${dateStr}T00:00:00`, EST_TIMEZONE).toISOString();
-        const dayEndUtc = fromZonedTime(`${dateStr}T23:59:59`, EST_TIMEZONE).toISOString();
-        const segmentsData = await getVehicleSegments(
+        const { segments } = await getVehicleSegmentsForRange(
           tech.verizon_vehicle_id,
-          dayStartUtc,
-          dayEndUtc
+          fromZonedTime(`${dateStr}T00:00:00`, EST_TIMEZONE),
+          fromZonedTime(`${dateStr}T23:59:59`, EST_TIMEZONE)
         );
-        const segments = segmentsData.Segments || [];
 
         if (segments.length === 0) {
           continue;
@@ -461,6 +499,7 @@ export async function POST(req: NextRequest) {
           homeLocation: tech.home_latitude && tech.home_longitude
             ? { lat: tech.home_latitude, lon: tech.home_longitude }
             : null,
+          offices: sortOfficesForTech(offices, tech.home_office_id),
         };
         const officeVisits = detectOfficeVisits(segments, firstJobTime, techConfig);
 
@@ -483,6 +522,7 @@ export async function POST(req: NextRequest) {
               duration_minutes: visit.durationMinutes,
               visit_type: visit.visitType,
               is_unnecessary: visit.isUnnecessary || false,
+              office_id: visit.officeId || null,
             }, {
               onConflict: 'technician_id,visit_date,arrival_time',
             });
@@ -497,7 +537,7 @@ export async function POST(req: NextRequest) {
               if (visit.isUnnecessary) {
                 console.log(`  ${tech.name}: Mid-day visit (UNNECESSARY) - ${visit.durationMinutes || '?'} min - take-home truck went to office before first job`);
               } else {
-                console.log(`  ${tech.name}: Mid-day visit - ${visit.durationMinutes || '?'} min`);
+                console.log(`  ${tech.name}: Mid-day visit to ${visit.officeName} - ${visit.durationMinutes || '?'} min`);
               }
             }
           }
@@ -513,6 +553,22 @@ export async function POST(req: NextRequest) {
 
     console.log(`Office visits detected: ${officeVisitsDetected} total, ${midDayVisitsFound} mid-day, ${unnecessaryVisitsFound} unnecessary`);
 
+    // Record ride-alongs derived from shared jobs (hand-entered pairings are kept)
+    let rideAlongsChanged = 0;
+    try {
+      const changedHelpers = await syncServiceTitanRideAlongs(dateStr, [...rideAlongPairs.values()]);
+      rideAlongsChanged = changedHelpers.length;
+      console.log(`Ride-alongs: ${rideAlongPairs.size} derived from shared jobs, ${rideAlongsChanged} changed`);
+    } catch (rideAlongError) {
+      errors.push({
+        type: 'ride_alongs',
+        error: rideAlongError instanceof Error ? rideAlongError.message : 'Failed to record ride-alongs',
+      });
+    }
+
+    // Covers helpers whose ride-along changed, too
+    await invalidateDayTimelines('jobs', { dates: [dateStr] });
+
     // Update sync log
     if (syncLog) {
       await supabase
@@ -533,6 +589,8 @@ export async function POST(req: NextRequest) {
       date: dateStr,
       summary: {
         techniciansWithTrucks: techsWithTrucks?.length || 0,
+        rideAlongsDerived: rideAlongPairs.size,
+        rideAlongsChanged,
         appointmentsFound: appointments.length,
         jobsProcessed: jobsProcessed,
         lateArrivals: discrepanciesFound,
@@ -555,7 +613,10 @@ export async function POST(req: NextRequest) {
 }
 
 // GET endpoint to retrieve sync status
-export async function GET() {
+export async function GET(req: NextRequest) {
+  const auth = await requireRole(req, ANY_ROLE, { allowSyncKey: true });
+  if (auth.response) return auth.response;
+
   const supabase = createServerClient();
 
   try {
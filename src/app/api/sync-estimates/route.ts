@@ -3,6 +3,8 @@ import { createServerClient } from '@/lib/supabase';
 import { getEstimates, ServiceTitanEstimate } from '@/lib/service-titan';
 import { format, parseISO, differenceInMinutes } from 'date-fns';
 import { fromZonedTime } from 'date-fns-tz';
+import { requireRole, ANY_ROLE, SYNC_ROLES } from '@/lib/auth';
+import { invalidateDayTimelines } from '@/lib/day-timelines';
 
 // Items are embedded in estimate response, not fetched separately
 interface EmbeddedEstimateItem {
@@ -62,6 +64,9 @@ interface EstimateItemRow {
  * This syncs all estimates created or modified on the given date
  */
 export async function POST(req: NextRequest) {
+  const auth = await requireRole(req, SYNC_ROLES, { allowSyncKey: true });
+  if (auth.response) return auth.response;
+
   const supabase = createServerClient();
   const startTime = Date.now();
 
@@ -149,7 +154,7 @@ export async function POST(req: NextRequest) {
     const jobIds = [...new Set(allEstimates.map(e => e.jobId).filter(Boolean))];
     const { data: jobs } = await supabase
       .from('jobs')
-      .select('id, st_job_id, actual_arrival, technician_id')
+      .select('id, st_job_id, actual_arrival, technician_id, job_date')
       .in('st_job_id', jobIds);
 
     const jobLookup = new Map(jobs?.map(j => [j.st_job_id, j]) || []);
@@ -164,6 +169,7 @@ export async function POST(req: NextRequest) {
     const errors: { estimateId: number; error: string }[] = [];
     let estimatesStored = 0;
     let itemsStored = 0;
+    const changedJobs: NonNullable<typeof jobs> = [];
 
     // Process each estimate
     for (const estimate of allEstimates) {
@@ -232,6 +238,7 @@ export async function POST(req: NextRequest) {
         }
 
         estimatesStored++;
+        if (job) changedJobs.push(job);
 
         // Extract and store estimate items from the embedded items array
         if (syncItems && upsertedEstimate) {
@@ -279,6 +286,12 @@ export async function POST(req: NextRequest) {
       }
     }
 
+    // Estimates show on the job cards of the days they were written
+    await invalidateDayTimelines('estimates', {
+      technicianIds: changedJobs.map(j => j.technician_id),
+      dates: changedJobs.map(j => j.job_date),
+    });
+
     const duration = Date.now() - startTime;
 
     // Update sync log
@@ -317,7 +330,10 @@ export async function POST(req: NextRequest) {
   }
 }
 
-export async function GET() {
+export async function GET(req: NextRequest) {
+  const auth = await requireRole(req, ANY_ROLE, { allowSyncKey: true });
+  if (auth.response) return auth.response;
+
   return NextResponse.json({
     message: 'Estimates Sync endpoint. POST to trigger sync.',
     usage: {
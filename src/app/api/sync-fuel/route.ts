@@ -0,0 +1,169 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase';
+import { getFuelTransactions, isCoastConfigured } from '@/lib/coast';
+import { format, parseISO, addDays } from 'date-fns';
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+import { requireRole, ANY_ROLE, SYNC_ROLES } from '@/lib/auth';
+import { invalidateDayTimelines } from '@/lib/day-timelines';
+import { loadTruckAssignments, resolveVehicle } from '@/lib/truck-assignments';
+import type { Json } from '@/types/database';
+
+export const maxDuration = 60;
+
+const EST_TIMEZONE = 'America/New_York';
+
+/**
+ * Sync fuel card transactions from Coast to Supabase
+ * Pulls every transaction on the given Eastern date and attributes it to the technician
+ * holding the card (technicians.coast_card_id). Cards no technician holds are still stored.
+ * Declined and reversed transactions are stored with their status, which voids an earlier
+ * pending copy; the timeline and fuel reconciliation skip them.
+ */
+export async function POST(req: NextRequest) {
+  const auth = await requireRole(req, SYNC_ROLES, { allowSyncKey: true });
+  if (auth.response) return auth.response;
+
+  if (!isCoastConfigured()) {
+    return NextResponse.json(
+      { success: false, error: 'Coast is not configured (COAST_API_KEY)' },
+      { status: 400 }
+    );
+  }
+
+  const supabase = createServerClient();
+  const startTime = Date.now();
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const dateStr = body.date || format(new Date(), 'yyyy-MM-dd');
+    const dayStart = fromZonedTime(`${dateStr}T00:00:00`, EST_TIMEZONE);
+    const dayEnd = fromZonedTime(`${format(addDays(parseISO(dateStr), 1), 'yyyy-MM-dd')}T00:00:00`, EST_TIMEZONE);
+
+    console.log(`[Fuel Sync] Starting sync for ${dateStr}`);
+
+    const { data: syncLog } = await supabase
+      .from('sync_logs')
+      .insert({
+        sync_type: 'fuel',
+        status: 'running',
+        records_processed: 0,
+      })
+      .select()
+      .single();
+
+    const transactions = await getFuelTransactions(dayStart, dayEnd);
+    console.log(`[Fuel Sync] Fetched ${transactions.length} transactions`);
+
+    const { data: technicians, error: techError } = await supabase
+      .from('technicians')
+      .select('id, name, coast_card_id')
+      .not('coast_card_id', 'is', null);
+
+    if (techError) throw new Error(techError.message);
+
+    const techByCard = new Map((technicians || []).map(t => [t.coast_card_id!, t]));
+    const assignments = await loadTruckAssignments({ from: dateStr, to: dateStr });
+
+    const errors: { transactionId: string; error: string }[] = [];
+    const unmatchedCards = new Set<string>();
+    const changedDays: { technicianId: string; date: string }[] = [];
+    let stored = 0;
+
+    for (const transaction of transactions) {
+      const tech = techByCard.get(transaction.cardId);
+      if (!tech) unmatchedCards.add(transaction.cardId);
+
+      const transactionDate = formatInTimeZone(parseISO(transaction.transactionTime), EST_TIMEZONE, 'yyyy-MM-dd');
+
+      const { error } = await supabase
+        .from('fuel_transactions')
+        .upsert({
+          coast_transaction_id: transaction.id,
+          coast_card_id: transaction.cardId,
+          technician_id: tech?.id || null,
+          vehicle_id: tech ? resolveVehicle(assignments, tech.id, transactionDate) : null,
+          transaction_time: transaction.transactionTime,
+          transaction_date: transactionDate,
+          merchant_name: transaction.merchantName,
+          merchant_address: transaction.merchantAddress,
+          merchant_latitude: transaction.latitude,
+          merchant_longitude: transaction.longitude,
+          amount_cents: transaction.amountCents,
+          gallons: transaction.gallons,
+          fuel_type: transaction.fuelType,
+          status: transaction.status,
+          raw_data: transaction.raw as unknown as Json,
+        }, {
+          onConflict: 'coast_transaction_id',
+        });
+
+      if (error) {
+        errors.push({ transactionId: transaction.id, error: error.message });
+        continue;
+      }
+
+      stored++;
+      if (tech) changedDays.push({ technicianId: tech.id, date: transactionDate });
+    }
+
+    if (unmatchedCards.size > 0) {
+      console.log(`[Fuel Sync] No technician for card(s): ${[...unmatchedCards].join(', ')}`);
+    }
+
+    // Purchases show on the day timelines of the techs who made them
+    await invalidateDayTimelines('fuel_transactions', {
+      technicianIds: changedDays.map(d => d.technicianId),
+      dates: changedDays.map(d => d.date),
+    });
+
+    const duration = Date.now() - startTime;
+
+    if (syncLog) {
+      await supabase
+        .from('sync_logs')
+        .update({
+          status: errors.length > 0 ? 'completed_with_errors' : 'completed',
+          records_processed: stored,
+          errors: errors.length > 0 ? errors : null,
+          completed_at: new Date().toISOString(),
+        })
+        .eq('id', syncLog.id);
+    }
+
+    console.log(`[Fuel Sync] Complete: ${stored} transactions, ${errors.length} errors, ${duration}ms`);
+
+    return NextResponse.json({
+      success: true,
+      date: dateStr,
+      summary: {
+        transactionsFetched: transactions.length,
+        transactionsStored: stored,
+        unmatchedCards: [...unmatchedCards],
+        errors: errors.length,
+        durationMs: duration,
+      },
+      errors: errors.length > 0 ? errors : null,
+    });
+  } catch (error) {
+    console.error('[Fuel Sync] Fatal error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Fuel sync failed' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(req: NextRequest) {
+  const auth = await requireRole(req, ANY_ROLE, { allowSyncKey: true });
+  if (auth.response) return auth.response;
+
+  return NextResponse.json({
+    message: 'Fuel Sync endpoint. POST to trigger sync.',
+    usage: {
+      method: 'POST',
+      body: {
+        date: 'YYYY-MM-DD (optional, defaults to today)',
+      },
+    },
+  });
+}
@@ -1,33 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@/lib/supabase';
-import { getVehicleSegments, VehicleSegment } from '@/lib/verizon-connect';
-import { format, subDays, parseISO, addDays } from 'date-fns';
-import { fromZonedTime } from 'date-fns-tz';
+import { getVehicleSegments } from '@/lib/verizon-connect';
+import { format, subDays, parseISO } from 'date-fns';
+import { requireRole, ANY_ROLE, SYNC_ROLES } from '@/lib/auth';
+import { invalidateDayTimelines } from '@/lib/day-timelines';
+import { getWorkdaySegmentWindow, storeVehicleSegments } from '@/lib/segment-repository';
+import { withVehiclesForDate } from '@/lib/truck-assignments';
 
 export const maxDuration = 60;
 
-const EST_TIMEZONE = 'America/New_York';
-
-interface GPSSegmentRow {
-  vehicle_id: string;
-  technician_id: string;
-  segment_date: string;
-  start_time: string;
-  end_time: string | null;
-  is_complete: boolean;
-  start_latitude: number;
-  start_longitude: number;
-  start_address: string | null;
-  end_latitude: number | null;
-  end_longitude: number | null;
-  end_address: string | null;
-  distance_miles: number | null;
-  duration_minutes: number | null;
-  idle_minutes: number | null;
-  max_speed: number | null;
-  raw_segment: any;
-}
-
 interface GPSEvent {
   technician_id: string;
   latitude: number;
@@ -45,6 +26,9 @@ interface GPSEvent {
  * This should run every 15 minutes to maintain comprehensive GPS history
  */
 export async function POST(req: NextRequest) {
+  const auth = await requireRole(req, SYNC_ROLES, { allowSyncKey: true });
+  if (auth.response) return auth.response;
+
   const supabase = createServerClient();
   const startTime = Date.now();
 
@@ -70,27 +54,29 @@ export async function POST(req: NextRequest) {
       .select()
       .single();
 
-    // Get all technicians with vehicles assigned
-    const { data: technicians, error: techError } = await supabase
+    // Get all technicians with a truck on the date - segments are stored against that day's driver
+    const { data: techRows, error: techError } = await supabase
       .from('technicians')
       .select('id, name, verizon_vehicle_id')
-      .not('verizon_vehicle_id', 'is', null)
       .eq('active', true);
 
     if (techError) throw techError;
 
+    const technicians = (await withVehiclesForDate(techRows || [], dateStr)).filter(t => t.verizon_vehicle_id);
+
     console.log(`[GPS Sync] Found ${technicians?.length || 0} technicians with vehicles`);
 
     const errors: { tech: string; vehicleId: string; error: string }[] = [];
     let totalEventsInserted = 0;
     let totalSegmentsFetched = 0;
     let totalSegmentsStored = 0;
+    const techsWithStoredSegments: string[] = [];
 
     // Time window: 4 AM EST day-of to 5 AM EST next day
     // This captures early morning starts and late night returns home
-    const dayStartUtc = fromZonedTime(`${dateStr}T04:00:00`, EST_TIMEZONE).toISOString();
-    const nextDay = format(addDays(targetDate, 1), 'yyyy-MM-dd');
-    const dayEndUtc = fromZonedTime(`${nextDay}T05:00:00`, EST_TIMEZONE).toISOString();
+    const { startUtc, endUtc } = getWorkdaySegmentWindow(dateStr);
+    const dayStartUtc = startUtc.toISOString();
+    const dayEndUtc = endUtc.toISOString();
 
     for (const tech of technicians || []) {
       if (!tech.verizon_vehicle_id) continue;
@@ -115,78 +101,24 @@ export async function POST(req: NextRequest) {
         console.log(`[GPS Sync] ${tech.name}: ${segments.length} segments`);
 
         // Store full segments to gps_segments table for reliable timeline building
-        const segmentRows: GPSSegmentRow[] = [];
-
-        for (const segment of segments) {
-          if (!segment.StartLocation || !segment.StartDateUtc) continue;
-
-          const startTimestamp = segment.StartDateUtc.includes('Z')
-            ? segment.StartDateUtc
-            : segment.StartDateUtc + 'Z';
-
-          const endTimestamp = segment.EndDateUtc
-            ? (segment.EndDateUtc.includes('Z') ? segment.EndDateUtc : segment.EndDateUtc + 'Z')
-            : null;
-
-          const formatAddress = (loc: any) => {
-            if (!loc) return null;
-            return [loc.AddressLine1, loc.Locality, loc.AdministrativeArea, loc.PostalCode]
-              .filter(Boolean).join(', ') || null;
-          };
-
-          // Calculate duration in minutes
-          let durationMinutes: number | null = null;
-          if (startTimestamp && endTimestamp) {
-            durationMinutes = Math.round(
-              (new Date(endTimestamp).getTime() - new Date(startTimestamp).getTime()) / 60000
-            );
-          }
+        const { stored, error: segmentError } = await storeVehicleSegments(
+          tech.verizon_vehicle_id,
+          tech.id,
+          dateStr,
+          segments
+        );
 
-          // Access raw segment properties (API may return more than typed interface)
-          const rawSeg = segment as any;
-          const distanceKm = segment.DistanceKilometers || rawSeg.DistanceKilometers || 0;
-          const distanceMiles = distanceKm ? distanceKm * 0.621371 : (rawSeg.DistanceTraveled || null);
-
-          segmentRows.push({
-            vehicle_id: tech.verizon_vehicle_id,
-            technician_id: tech.id,
-            segment_date: dateStr,
-            start_time: startTimestamp,
-            end_time: endTimestamp,
-            is_complete: segment.IsComplete || false,
-            start_latitude: segment.StartLocation.Latitude,
-            start_longitude: segment.StartLocation.Longitude,
-            start_address: formatAddress(segment.StartLocation),
-            end_latitude: segment.EndLocation?.Latitude || null,
-            end_longitude: segment.EndLocation?.Longitude || null,
-            end_address: formatAddress(segment.EndLocation),
-            distance_miles: distanceMiles,
-            duration_minutes: durationMinutes,
-            idle_minutes: rawSeg.IdleTime ? Math.round(rawSeg.IdleTime / 60) : null,
-            max_speed: rawSeg.MaxSpeed || null,
-            raw_segment: segment,
+        if (segmentError) {
+          console.error(`[GPS Sync] Segment storage error for ${tech.name}:`, segmentError);
+          errors.push({
+            tech: tech.name,
+            vehicleId: tech.verizon_vehicle_id,
+            error: `Segment storage: ${segmentError}`,
           });
-        }
-
-        // Upsert segments (update if start_time matches, insert if new)
-        if (segmentRows.length > 0) {
-          const { error: segmentError } = await supabase
-            .from('gps_segments')
-            .upsert(segmentRows, {
-              onConflict: 'vehicle_id,start_time',
-            });
-
-          if (segmentError) {
-            console.error(`[GPS Sync] Segment storage error for ${tech.name}:`, segmentError.message);
-            errors.push({
-              tech: tech.name,
-              vehicleId: tech.verizon_vehicle_id,
-              error: `Segment storage: ${segmentError.message}`,
-            });
-          } else {
-            totalSegmentsStored += segmentRows.length;
-            console.log(`[GPS Sync] ${tech.name}: Stored ${segmentRows.length} segments to gps_segments`);
-          }
+        } else if (stored > 0) {
+          totalSegmentsStored += stored;
+          techsWithStoredSegments.push(tech.id);
+          console.log(`[GPS Sync] ${tech.name}: Stored ${stored} segments to gps_segments`);
         }
 
         // ALSO convert segments to GPS events (legacy support)
@@ -293,6 +225,8 @@ export async function POST(req: NextRequest) {
       }
     }
 
+    await invalidateDayTimelines('gps_segments', { technicianIds: techsWithStoredSegments, dates: [dateStr] });
+
     const duration = Date.now() - startTime;
 
     // Update sync log
@@ -332,7 +266,10 @@ export async function POST(req: NextRequest) {
   }
 }
 
-export async function GET() {
+export async function GET(req: NextRequest) {
+  const auth = await requireRole(req, ANY_ROLE, { allowSyncKey: true });
+  if (auth.response) return auth.response;
+
   return NextResponse.json({
     message: 'GPS Sync endpoint. POST to trigger sync.',
     usage: {
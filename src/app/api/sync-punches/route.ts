@@ -4,7 +4,25 @@ import { getCompanyPunchDetails, type PunchRecord } from '@/lib/paylocity';
 import {
   determineLocationType,
 } from '@/lib/punch-utils';
-import { getVehicleGPSHistory, type GPSHistoryPoint } from '@/lib/verizon-connect';
+import { getVehicleGPSHistory, type GPSHistoryPoint, type VehicleSegment } from '@/lib/verizon-connect';
+import { sortOfficesForTech, parseVerizonUtcTimestamp } from '@/lib/geo-utils';
+import { getWorkdaySegments } from '@/lib/segment-repository';
+import { resolveRuleSet, evaluateClockInRules, evaluateClockOutRules } from '@/lib/violation-rules';
+import { rowToOffice, type OfficeRow } from '@/types/office';
+import {
+  rowToViolationRuleSet,
+  rowToCrew,
+  type ViolationRuleSetRow,
+  type ViolationRuleRow,
+  type CrewRow,
+} from '@/types/violation-rules';
+import { requireRole, ANY_ROLE, SYNC_ROLES } from '@/lib/auth';
+import { invalidateDayTimelines } from '@/lib/day-timelines';
+import { withVehiclesForDate } from '@/lib/truck-assignments';
+import { withRideAlongVehicles } from '@/lib/ride-alongs';
+import { reconcilePaylocityLinks } from '@/lib/paylocity-linking';
+import { recordAuditEvent } from '@/lib/audit';
+import type { PaylocityReconciliation } from '@/types/paylocity-link';
 
 /**
  * Convert Paylocity local time (Eastern) to proper ISO timestamp with timezone
@@ -48,12 +66,6 @@ const supabase = createClient(
   process.env.SUPABASE_SERVICE_ROLE_KEY!
 );
 
-// Office location (Go Green headquarters)
-const OFFICE_LOCATION = {
-  lat: 36.0952,
-  lon: -79.8273,
-};
-
 /**
  * Find the GPS location closest to a given time from GPS history points
  * GPS history gives us actual breadcrumb trail, not just stops
@@ -95,10 +107,42 @@ function findLocationFromGPSHistory(
   };
 }
 
+/**
+ * Find when the technician last left one of their jobs before clocking out, and what kind of
+ * place their last stop was. A stop starts where a segment ends and lasts until the next one starts.
+ */
+function findClockOutContext(
+  segments: VehicleSegment[],
+  clockOutTime: Date,
+  classifyStop: (latitude: number, longitude: number) => string
+): { lastJobDepartureTime: Date | null; lastStopType: string | null } {
+  let lastJobDepartureTime: Date | null = null;
+  let lastStopType: string | null = null;
+
+  for (let i = 0; i < segments.length; i++) {
+    const { EndDateUtc, EndLocation } = segments[i];
+    if (!EndDateUtc || !EndLocation) continue;
+    if (parseVerizonUtcTimestamp(EndDateUtc) > clockOutTime) break;
+
+    lastStopType = classifyStop(EndLocation.Latitude, EndLocation.Longitude);
+    if (lastStopType !== 'job') continue;
+
+    // Still at the job when they clocked out - there's no departure to measure from
+    const next = segments[i + 1];
+    const departure = next ? parseVerizonUtcTimestamp(next.StartDateUtc) : null;
+    lastJobDepartureTime = departure && departure <= clockOutTime ? departure : null;
+  }
+
+  return { lastJobDepartureTime, lastStopType };
+}
+
 /**
  * GET - Fetch punch violations for a date
  */
 export async function GET(request: Request) {
+  const auth = await requireRole(request, ANY_ROLE, { allowSyncKey: true });
+  if (auth.response) return auth.response;
+
   const { searchParams } = new URL(request.url);
   const date = searchParams.get('date') || new Date().toISOString().split('T')[0];
 
@@ -165,8 +209,9 @@ async function syncPunchesForDate(date: string): Promise<{
 }> {
   console.log(`Starting punch sync for ${date}...`);
 
-  // Step 1: Fetch technicians with Paylocity IDs and GPS vehicle IDs
-  const { data: technicians, error: techError } = await supabase
+  // Step 1: Fetch technicians with Paylocity IDs, with the truck each had on the date
+  // (helpers riding along are checked against the lead's truck)
+  const { data: techRows, error: techError } = await supabase
     .from('technicians')
     .select(`
       id,
@@ -175,7 +220,10 @@ async function syncPunchesForDate(date: string): Promise<{
       takes_truck_home,
       home_latitude,
       home_longitude,
-      verizon_vehicle_id
+      verizon_vehicle_id,
+      home_office_id,
+      crew_id,
+      violation_rule_set_id
     `)
     .not('paylocity_employee_id', 'is', null);
 
@@ -183,6 +231,8 @@ async function syncPunchesForDate(date: string): Promise<{
     throw new Error(`Failed to fetch technicians: ${techError.message}`);
   }
 
+  const technicians = await withRideAlongVehicles(await withVehiclesForDate(techRows || [], date), date);
+
   console.log(`Found ${technicians?.length || 0} technicians with Paylocity IDs`);
 
   // Create lookup by Paylocity employee ID
@@ -220,6 +270,23 @@ async function syncPunchesForDate(date: string): Promise<{
     .from('custom_locations')
     .select('*');
 
+  // Fetch offices (each tech's home branch is checked first)
+  const { data: officeRows } = await supabase
+    .from('offices')
+    .select('*')
+    .eq('active', true);
+  const offices = (officeRows as OfficeRow[] || []).map(rowToOffice);
+
+  // Fetch violation rule sets and crews (resolved per technician below)
+  const [{ data: ruleSetRows }, { data: ruleRows }, { data: crewRows }] = await Promise.all([
+    supabase.from('violation_rule_sets').select('*').eq('active', true),
+    supabase.from('violation_rules').select('*'),
+    supabase.from('crews').select('*'),
+  ]);
+  const ruleSets = (ruleSetRows as ViolationRuleSetRow[] || [])
+    .map(row => rowToViolationRuleSet(row, ruleRows as ViolationRuleRow[] || []));
+  const crews = (crewRows as CrewRow[] || []).map(rowToCrew);
+
   // Step 4: Fetch excused office visits for the date
   const { data: excusedVisits } = await supabase
     .from('excused_office_visits')
@@ -231,15 +298,16 @@ async function syncPunchesForDate(date: string): Promise<{
   // Step 5: Fetch jobs for the date to get job locations
   const { data: jobs } = await supabase
     .from('jobs')
-    .select('job_date, latitude, longitude, address')
+    .select('technician_id, job_latitude, job_longitude, job_address')
     .eq('job_date', date)
-    .not('latitude', 'is', null);
+    .not('job_latitude', 'is', null);
 
-  const jobLocations = jobs?.map(j => ({
-    lat: j.latitude,
-    lon: j.longitude,
-    address: j.address,
-  })) || [];
+  const toJobLocation = (j: NonNullable<typeof jobs>[number]) => ({
+    lat: j.job_latitude,
+    lon: j.job_longitude,
+    address: j.job_address,
+  });
+  const jobLocations = jobs?.map(toJobLocation) || [];
 
   // Step 6: Process each punch and correlate with GPS
   const results = {
@@ -308,7 +376,7 @@ async function syncPunchesForDate(date: string): Promise<{
           clockInLocationType = determineLocationType(
             gpsAtClockIn.latitude,
             gpsAtClockIn.longitude,
-            OFFICE_LOCATION,
+            sortOfficesForTech(offices, tech.home_office_id),
             homeLocation,
             customLocations || [],
             jobLocations
@@ -316,37 +384,19 @@ async function syncPunchesForDate(date: string): Promise<{
         }
       }
 
-      // Check for clock-in violation
-      let isViolation = false;
-      let violationReason: string | null = null;
-      let canBeExcused = false;
-      let expectedLocationType = tech.takes_truck_home ? 'job' : 'office';
+      // Check for clock-in violation against the technician's rule set
+      const ruleSet = resolveRuleSet(tech, ruleSets, crews);
       const hasExcusedVisit = excusedTechIds.has(tech.id);
 
       const firstClockIn = firstClockInByEmployee.get(punch.employeeId);
       const isFirstClockIn = firstClockIn === punch.clockInTime;
 
-      if (!isMealSegment && clockInLocationType !== 'no_gps' && clockInLocationType !== 'unknown') {
-        if (tech.takes_truck_home) {
-          if (isFirstClockIn && clockInLocationType === 'home') {
-            isViolation = true;
-            violationReason = 'Clocked in at HOME instead of job site';
-            canBeExcused = false;
-          } else if (isFirstClockIn && clockInLocationType === 'office' && !hasExcusedVisit) {
-            isViolation = true;
-            violationReason = 'Clocked in at OFFICE - should go direct to job';
-            canBeExcused = true;
-          }
-        } else {
-          if (isFirstClockIn && clockInLocationType !== 'office') {
-            isViolation = true;
-            violationReason = `Clocked in at ${clockInLocationType.toUpperCase()} instead of office`;
-            canBeExcused = false;
-          }
-        }
-      }
+      const clockInResult = evaluateClockInRules(ruleSet, clockInLocationType, hasExcusedVisit);
+      const clockInViolation = !isMealSegment && isFirstClockIn && clockInResult.isViolation
+        ? clockInResult
+        : null;
 
-      if (isViolation) results.violations++;
+      if (clockInViolation) results.violations++;
 
       const clockInTimestamp = toEasternTimestamp(punch.clockInTime);
       const clockOutTimestamp = toEasternTimestamp(punch.clockOutTime);
@@ -378,10 +428,12 @@ async function syncPunchesForDate(date: string): Promise<{
           gps_location_type: clockInLocationType,
           gps_timestamp: gpsAtClockIn?.timestamp?.toISOString(),
           gps_distance_from_punch_feet: 0,
-          is_violation: isViolation,
-          violation_reason: violationReason,
-          expected_location_type: expectedLocationType,
-          can_be_excused: canBeExcused,
+          is_violation: !!clockInViolation,
+          violation_reason: clockInViolation?.reason ?? null,
+          violation_rule_id: clockInViolation?.ruleId ?? null,
+          violation_rule_name: clockInViolation?.ruleName ?? null,
+          expected_location_type: clockInResult.expectedLocationType,
+          can_be_excused: clockInViolation?.canBeExcused ?? false,
           clock_in_time: clockInTimestamp,
           clock_out_time: clockOutTimestamp,
           duration_hours: punch.durationHours,
@@ -416,7 +468,7 @@ async function syncPunchesForDate(date: string): Promise<{
             clockOutLocationType = determineLocationType(
               gpsAtClockOut.latitude,
               gpsAtClockOut.longitude,
-              OFFICE_LOCATION,
+              sortOfficesForTech(offices, tech.home_office_id),
               homeLocation,
               customLocations || [],
               jobLocations
@@ -424,19 +476,44 @@ async function syncPunchesForDate(date: string): Promise<{
           }
         }
 
-        let clockOutViolation = false;
-        let clockOutViolationReason: string | null = null;
-
         const lastClockOut = lastClockOutByEmployee.get(punch.employeeId);
         const isLastClockOut = lastClockOut === punch.clockOutTime;
 
-        if (!isMealSegment && clockOutLocationType !== 'no_gps' && clockOutLocationType !== 'unknown') {
-          if (isLastClockOut && tech.takes_truck_home && clockOutLocationType === 'home') {
-            clockOutViolation = true;
-            clockOutViolationReason = 'Clocked out at HOME - should clock out when leaving last job';
-          }
+        // Only the day's final clock-out is checked, so only it needs the day's stops
+        let clockOutContext: { lastJobDepartureTime: Date | null; lastStopType: string | null } = {
+          lastJobDepartureTime: null,
+          lastStopType: null,
+        };
+        if (!isMealSegment && isLastClockOut) {
+          const homeLocation = tech.home_latitude && tech.home_longitude
+            ? { lat: tech.home_latitude, lon: tech.home_longitude }
+            : null;
+          const techJobLocations = (jobs || []).filter(j => j.technician_id === tech.id).map(toJobLocation);
+          const { segments } = await getWorkdaySegments(tech.verizon_vehicle_id, date);
+
+          clockOutContext = findClockOutContext(segments, new Date(clockOutTimestamp), (latitude, longitude) =>
+            determineLocationType(
+              latitude,
+              longitude,
+              sortOfficesForTech(offices, tech.home_office_id),
+              homeLocation,
+              customLocations || [],
+              techJobLocations
+            )
+          );
         }
 
+        const clockOutResult = evaluateClockOutRules(
+          ruleSet,
+          new Date(clockOutTimestamp),
+          clockOutLocationType,
+          clockOutContext.lastJobDepartureTime,
+          clockOutContext.lastStopType
+        );
+        const clockOutViolation = !isMealSegment && isLastClockOut && clockOutResult.isViolation
+          ? clockOutResult
+          : null;
+
         if (clockOutViolation) results.violations++;
 
         const { error: clockOutError } = await supabase
@@ -453,10 +530,12 @@ async function syncPunchesForDate(date: string): Promise<{
             gps_location_type: clockOutLocationType,
             gps_timestamp: gpsAtClockOut?.timestamp?.toISOString(),
             gps_distance_from_punch_feet: 0,
-            is_violation: clockOutViolation,
-            violation_reason: clockOutViolationReason,
-            expected_location_type: tech.takes_truck_home ? 'job' : 'office',
-            can_be_excused: false,
+            is_violation: !!clockOutViolation,
+            violation_reason: clockOutViolation?.reason ?? null,
+            violation_rule_id: clockOutViolation?.ruleId ?? null,
+            violation_rule_name: clockOutViolation?.ruleName ?? null,
+            expected_location_type: clockOutResult.expectedLocationType,
+            can_be_excused: clockOutViolation?.canBeExcused ?? false,
             clock_in_time: clockInTimestamp,
             clock_out_time: clockOutTimestamp,
             duration_hours: punch.durationHours,
@@ -495,8 +574,14 @@ async function syncPunchesForDate(date: string): Promise<{
  * - { "date": "2025-12-15" } - Syncs specific date only
  * - { "days": 2 } - Syncs today and yesterday
  * - { "days": 3 } - Syncs today, yesterday, and day before
+ *
+ * Unlinked technicians are matched to Paylocity employees first (98%+ matches are linked, the
+ * rest queued for review in Settings), so newly linked technicians are verified in the same run.
  */
 export async function POST(request: Request) {
+  const auth = await requireRole(request, SYNC_ROLES, { allowSyncKey: true });
+  if (auth.response) return auth.response;
+
   let syncLogId: string | null = null;
 
   try {
@@ -538,6 +623,25 @@ export async function POST(request: Request) {
       syncLogId = syncLog.id;
     }
 
+    // Link technicians to Paylocity employees before their punches are needed
+    let paylocityLinks: PaylocityReconciliation | null = null;
+    try {
+      paylocityLinks = await reconcilePaylocityLinks(auth.user.displayName);
+      console.log(`Paylocity links: ${paylocityLinks.autoLinked.length} auto-linked, ${paylocityLinks.queued} queued, ` +
+        `${paylocityLinks.conflicts.length} conflicts, ${paylocityLinks.unlinked.length} still unlinked`);
+      for (const link of paylocityLinks.autoLinked) {
+        await recordAuditEvent({
+          actor: auth.user,
+          entityType: 'paylocity_link',
+          verb: 'auto_linked',
+          technicianId: link.technicianId,
+          after: link,
+        });
+      }
+    } catch (linkError) {
+      console.warn('Paylocity link reconciliation failed:', linkError);
+    }
+
     // Sync each date
     const allResults: Array<{
       date: string;
@@ -594,6 +698,8 @@ export async function POST(request: Request) {
 
     console.log(`Multi-day punch sync complete: ${JSON.stringify(totals)}`);
 
+    await invalidateDayTimelines('punches', { dates: datesToSync });
+
     // Update sync log with success
     if (syncLogId) {
       await supabase
@@ -614,6 +720,7 @@ export async function POST(request: Request) {
         success: true,
         date: datesToSync[0],
         ...totals,
+        paylocityLinks,
       });
     } else {
       // Multi-day: include per-day breakdown
@@ -623,6 +730,7 @@ export async function POST(request: Request) {
         dates: datesToSync,
         totals,
         results: allResults,
+        paylocityLinks,
       });
     }
   } catch (error) {
@@ -1,5 +1,7 @@
 import { NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { requireRole, ANY_ROLE } from '@/lib/auth';
+import { getUnlinkedActiveTechnicians } from '@/lib/paylocity-linking';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -8,9 +10,13 @@ const supabase = createClient(
 
 /**
  * GET - Get sync status for all data sources
- * Returns last successful sync time and any recent failures
+ * Returns last successful sync time and any recent failures, and the active technicians
+ * punch verification skips because they aren't linked to a Paylocity employee
  */
 export async function GET(request: Request) {
+  const auth = await requireRole(request, ANY_ROLE, { allowSyncKey: true });
+  if (auth.response) return auth.response;
+
   const { searchParams } = new URL(request.url);
   const technicianId = searchParams.get('technicianId');
   const date = searchParams.get('date');
@@ -72,6 +78,18 @@ export async function GET(request: Request) {
       }
     }
 
+    // Technicians without a Paylocity link get no punch verification at all
+    const unlinkedTechnicians = await getUnlinkedActiveTechnicians();
+    let technicianLinked: boolean | null = null;
+    if (technicianId) {
+      const { data: tech } = await supabase
+        .from('technicians')
+        .select('paylocity_employee_id')
+        .eq('id', technicianId)
+        .maybeSingle();
+      technicianLinked = !!tech?.paylocity_employee_id;
+    }
+
     // Calculate overall health
     const paylocitySync = latestByType['paylocity_punches'];
     const arrivalSync = latestByType['arrival_detection'] || latestByType['daily_arrival_check'];
@@ -104,6 +122,8 @@ export async function GET(request: Request) {
       success: true,
       syncHealth,
       punchDataStatus,
+      unlinkedTechnicians,
+      technicianLinked,
       latestSyncs: latestByType,
       recentFailures: failuresByType,
     });
@@ -5,6 +5,10 @@ import { getVehicleSegments } from '@/lib/verizon-connect';
 import { getCompanyPunchDetails } from '@/lib/paylocity';
 import { format, parseISO } from 'date-fns';
 import { fromZonedTime } from 'date-fns-tz';
+import { requireRole, SYNC_ROLES } from '@/lib/auth';
+import { invalidateDayTimelines } from '@/lib/day-timelines';
+import { getWorkdaySegmentWindow, storeVehicleSegments } from '@/lib/segment-repository';
+import { getDayVehicle } from '@/lib/ride-alongs';
 
 export const maxDuration = 60;
 
@@ -21,6 +25,9 @@ interface SyncResult {
  * This ensures the timeline has fresh data from GPS, Service Titan, and Paylocity
  */
 export async function POST(req: NextRequest) {
+  const auth = await requireRole(req, SYNC_ROLES, { allowSyncKey: true });
+  if (auth.response) return auth.response;
+
   const supabase = createServerClient();
   const startTime = Date.now();
 
@@ -39,19 +46,27 @@ export async function POST(req: NextRequest) {
     console.log(`[Sync Timeline] Starting sync for tech ${technicianId} on ${dateStr}`);
 
     // Get technician info
-    const { data: technician, error: techError } = await supabase
+    const { data: techRow, error: techError } = await supabase
       .from('technicians')
       .select('id, name, st_technician_id, verizon_vehicle_id, paylocity_employee_id')
       .eq('id', technicianId)
       .single();
 
-    if (techError || !technician) {
+    if (techError || !techRow) {
       return NextResponse.json(
         { error: 'Technician not found' },
         { status: 404 }
       );
     }
 
+    // The truck they had that day, not the one they have now (the lead's, on a ride-along)
+    const { vehicleId, rideAlong } = await getDayVehicle(techRow.id, dateStr);
+    const technician = { ...techRow, verizon_vehicle_id: vehicleId };
+    // The lead's segments are stored as the lead's, same as their own sync would
+    const gpsDriver = rideAlong
+      ? { ...technician, id: rideAlong.leadTechnicianId, name: rideAlong.leadTechnicianName }
+      : technician;
+
     const result: SyncResult = {
       gps: { synced: 0, errors: [] },
       jobs: { synced: 0, errors: [] },
@@ -60,7 +75,7 @@ export async function POST(req: NextRequest) {
 
     // Run all syncs in parallel for speed
     const [gpsResult, jobsResult, punchesResult] = await Promise.allSettled([
-      syncGPSData(supabase, technician, dateStr),
+      syncGPSData(gpsDriver, dateStr),
       syncJobsData(supabase, technician, dateStr),
       syncPunchData(supabase, technician, dateStr),
     ]);
@@ -86,6 +101,8 @@ export async function POST(req: NextRequest) {
       result.punches.errors.push(punchesResult.reason?.message || 'Punches sync failed');
     }
 
+    await invalidateDayTimelines('resync', { technicianIds: [technicianId], dates: [date] });
+
     const elapsed = Date.now() - startTime;
     console.log(`[Sync Timeline] Completed in ${elapsed}ms:`, result);
 
@@ -110,7 +127,6 @@ export async function POST(req: NextRequest) {
  * Sync GPS segments for a specific technician and date
  */
 async function syncGPSData(
-  supabase: any,
   technician: any,
   dateStr: string
 ): Promise<{ synced: number; errors: string[] }> {
@@ -124,7 +140,12 @@ async function syncGPSData(
   try {
     console.log(`[GPS Sync] Fetching segments for vehicle ${technician.verizon_vehicle_id} on ${dateStr}`);
 
-    const segmentsResponse = await getVehicleSegments(technician.verizon_vehicle_id, dateStr);
+    const { startUtc, endUtc } = getWorkdaySegmentWindow(dateStr);
+    const segmentsResponse = await getVehicleSegments(
+      technician.verizon_vehicle_id,
+      startUtc.toISOString(),
+      endUtc.toISOString()
+    );
     const segments = segmentsResponse?.Segments || [];
 
     if (segments.length === 0) {
@@ -132,44 +153,17 @@ async function syncGPSData(
       return { synced: 0, errors: [] };
     }
 
-    // Upsert segments to database
-    for (const segment of segments) {
-      // Build full address from location components
-      const buildAddress = (loc: any) => {
-        if (!loc) return null;
-        const parts = [loc.AddressLine1, loc.Locality, loc.AdministrativeArea].filter(Boolean);
-        return parts.join(', ') || null;
-      };
-
-      const segmentRow = {
-        vehicle_id: technician.verizon_vehicle_id,
-        technician_id: technician.id,
-        segment_date: dateStr,
-        start_time: segment.StartDateUtc,
-        end_time: segment.EndDateUtc || null,
-        is_complete: segment.IsComplete,
-        start_latitude: segment.StartLocation?.Latitude || null,
-        start_longitude: segment.StartLocation?.Longitude || null,
-        start_address: buildAddress(segment.StartLocation),
-        end_latitude: segment.EndLocation?.Latitude || null,
-        end_longitude: segment.EndLocation?.Longitude || null,
-        end_address: buildAddress(segment.EndLocation),
-        distance_miles: segment.DistanceKilometers ? segment.DistanceKilometers * 0.621371 : null,
-        raw_segment: segment,
-      };
-
-      const { error } = await supabase
-        .from('gps_segments')
-        .upsert(segmentRow, {
-          onConflict: 'vehicle_id,start_time',
-          ignoreDuplicates: false,
-        });
+    const { stored, error } = await storeVehicleSegments(
+      technician.verizon_vehicle_id,
+      technician.id,
+      dateStr,
+      segments
+    );
 
-      if (error) {
-        errors.push(`Segment upsert error: ${error.message}`);
-      } else {
-        synced++;
-      }
+    if (error) {
+      errors.push(`Segment upsert error: ${error}`);
+    } else {
+      synced = stored;
     }
 
     console.log(`[GPS Sync] Synced ${synced} segments for ${technician.name}`);
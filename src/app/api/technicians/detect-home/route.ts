@@ -1,14 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@/lib/supabase';
-import { getVehicleSegments } from '@/lib/verizon-connect';
 import { detectHomeLocation, DailyFirstSegment } from '@/lib/geo-utils';
+import { OfficeRow, rowToOffice } from '@/types/office';
 import { subDays, format } from 'date-fns';
+import { requireRole, ANY_ROLE } from '@/lib/auth';
+import { getWorkdaySegments } from '@/lib/segment-repository';
+import { loadTruckAssignments, resolveVehicle } from '@/lib/truck-assignments';
 
 /**
  * GET /api/technicians/detect-home?technicianId=xxx
  * Analyzes GPS data to suggest a home location for a technician
  */
 export async function GET(req: NextRequest) {
+  const auth = await requireRole(req, ANY_ROLE);
+  if (auth.response) return auth.response;
+
   const supabase = createServerClient();
   const searchParams = req.nextUrl.searchParams;
   const technicianId = searchParams.get('technicianId');
@@ -43,9 +49,13 @@ export async function GET(req: NextRequest) {
       });
     }
 
-    // Analyze last 30 days of GPS data
+    // Analyze last 30 days of GPS data, from whichever truck they had each day
     const today = new Date();
     const dailyFirstSegments: DailyFirstSegment[] = [];
+    const assignments = await loadTruckAssignments({
+      technicianIds: [technician.id],
+      from: format(subDays(today, 30), 'yyyy-MM-dd'),
+    });
 
     console.log(`Detecting home location for ${technician.name}...`);
 
@@ -60,49 +70,43 @@ export async function GET(req: NextRequest) {
       }
 
       const dateStr = format(date, 'yyyy-MM-dd');
+      const vehicleId = resolveVehicle(assignments, technician.id, dateStr);
+      if (!vehicleId) continue;
 
       try {
-        // Get segments for this day
-        const segmentsData = await getVehicleSegments(
-          technician.verizon_vehicle_id,
-          `${dateStr}T00:00:00Z`
-        );
-        const segments = segmentsData.Segments || [];
-
-        if (segments.length === 0) {
-          continue;
+        // Get segments for this workday (oldest first) - stored unless the day was never synced
+        const { segments, source } = await getWorkdaySegments(vehicleId, dateStr);
+
+        const firstSegment = segments.find(seg => seg.StartDateUtc && seg.StartLocation);
+        if (firstSegment) {
+          dailyFirstSegments.push({
+            date: dateStr,
+            startLat: firstSegment.StartLocation.Latitude,
+            startLon: firstSegment.StartLocation.Longitude,
+            address: firstSegment.StartLocation.AddressLine1 || '',
+          });
         }
 
-        // Sort by start time and get the first segment
-        const sortedSegments = [...segments]
-          .filter(seg => seg.StartDateUtc && seg.StartLocation)
-          .sort((a, b) =>
-            new Date(a.StartDateUtc!).getTime() - new Date(b.StartDateUtc!).getTime()
-          );
-
-        if (sortedSegments.length > 0) {
-          const firstSegment = sortedSegments[0];
-          if (firstSegment.StartLocation) {
-            dailyFirstSegments.push({
-              date: dateStr,
-              startLat: firstSegment.StartLocation.Latitude,
-              startLon: firstSegment.StartLocation.Longitude,
-              address: firstSegment.StartLocation.AddressLine1 || '',
-            });
-          }
+        // Small delay to avoid overwhelming the API
+        if (source !== 'stored') {
+          await new Promise(resolve => setTimeout(resolve, 100));
         }
       } catch (segError: any) {
         console.log(`  Skipping ${dateStr}: ${segError.message}`);
       }
-
-      // Small delay to avoid overwhelming the API
-      await new Promise(resolve => setTimeout(resolve, 100));
     }
 
     console.log(`  Analyzed ${dailyFirstSegments.length} days of GPS data`);
 
+    // Days starting at any shop are not home starts
+    const { data: officeRows } = await supabase
+      .from('offices')
+      .select('*')
+      .eq('active', true);
+    const offices = (officeRows as OfficeRow[] || []).map(rowToOffice);
+
     // Detect home location from the collected data
-    const suggestion = detectHomeLocation(dailyFirstSegments);
+    const suggestion = detectHomeLocation(dailyFirstSegments, offices);
 
     if (!suggestion) {
       return NextResponse.json({
@@ -1,7 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { formatInTimeZone } from 'date-fns-tz';
 import { createServerClient } from '@/lib/supabase';
+import { requireRole, ADMIN_ROLES, ANY_ROLE } from '@/lib/auth';
+import { invalidateDayTimelines } from '@/lib/day-timelines';
+import { recordTruckAssignment } from '@/lib/truck-assignments';
+
+const EST_TIMEZONE = 'America/New_York';
 
 export async function GET(req: NextRequest) {
+  const auth = await requireRole(req, ANY_ROLE);
+  if (auth.response) return auth.response;
+
   const supabase = createServerClient();
 
   try {
@@ -54,6 +63,9 @@ export async function GET(req: NextRequest) {
 
 // PATCH to update technician (e.g., link Verizon vehicle ID, configure office visit tracking)
 export async function PATCH(req: NextRequest) {
+  const auth = await requireRole(req, ADMIN_ROLES);
+  if (auth.response) return auth.response;
+
   const supabase = createServerClient();
 
   try {
@@ -68,14 +80,30 @@ export async function PATCH(req: NextRequest) {
       home_latitude,
       home_longitude,
       home_address,
+      home_office_id,
+      crew_id,
+      violation_rule_set_id,
+      coast_card_id,
     } = body;
 
     if (!id) {
       return NextResponse.json({ error: 'ID is required' }, { status: 400 });
     }
 
+    // Truck changes are dated assignments starting today (POST /api/truck-assignments to backdate);
+    // recording one also keeps verizon_vehicle_id current
+    const affectedTechnicianIds = [id];
+    if (verizon_vehicle_id !== undefined) {
+      const { affectedTechnicianIds: affected } = await recordTruckAssignment({
+        technicianId: id,
+        vehicleId: verizon_vehicle_id || null,
+        effectiveFrom: formatInTimeZone(new Date(), EST_TIMEZONE, 'yyyy-MM-dd'),
+        createdBy: auth.user.displayName,
+      });
+      affectedTechnicianIds.push(...affected);
+    }
+
     const updateData: any = { updated_at: new Date().toISOString() };
-    if (verizon_vehicle_id !== undefined) updateData.verizon_vehicle_id = verizon_vehicle_id;
     if (verizon_driver_id !== undefined) updateData.verizon_driver_id = verizon_driver_id;
     if (active !== undefined) updateData.active = active;
     if (exclude_from_office_visits !== undefined) updateData.exclude_from_office_visits = exclude_from_office_visits;
@@ -83,6 +111,10 @@ export async function PATCH(req: NextRequest) {
     if (home_latitude !== undefined) updateData.home_latitude = home_latitude;
     if (home_longitude !== undefined) updateData.home_longitude = home_longitude;
     if (home_address !== undefined) updateData.home_address = home_address;
+    if (home_office_id !== undefined) updateData.home_office_id = home_office_id;
+    if (crew_id !== undefined) updateData.crew_id = crew_id;
+    if (violation_rule_set_id !== undefined) updateData.violation_rule_set_id = violation_rule_set_id;
+    if (coast_card_id !== undefined) updateData.coast_card_id = coast_card_id || null;
 
     const { data, error } = await supabase
       .from('technicians')
@@ -93,6 +125,19 @@ export async function PATCH(req: NextRequest) {
 
     if (error) throw error;
 
+    // Vehicle, home and branch settings change how every one of the tech's days is built
+    const timelineFields = [
+      verizon_vehicle_id,
+      exclude_from_office_visits,
+      takes_truck_home,
+      home_latitude,
+      home_longitude,
+      home_office_id,
+    ];
+    if (timelineFields.some(value => value !== undefined)) {
+      await invalidateDayTimelines('technician', { technicianIds: affectedTechnicianIds });
+    }
+
     return NextResponse.json({
       success: true,
       technician: data,
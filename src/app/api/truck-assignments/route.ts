@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { formatInTimeZone } from 'date-fns-tz';
+import { requireRole, ADMIN_ROLES, ANY_ROLE } from '@/lib/auth';
+import { recordAuditEvent } from '@/lib/audit';
+import { invalidateDayTimelines } from '@/lib/day-timelines';
+import { deleteTruckAssignment, loadTruckAssignments, recordTruckAssignment } from '@/lib/truck-assignments';
+
+export const dynamic = 'force-dynamic';
+
+const EST_TIMEZONE = 'America/New_York';
+
+/**
+ * GET - Dated truck assignments, oldest first
+ *
+ * Query params:
+ * - technicianId: Only this technician's assignments (optional)
+ * - vehicleId: Only this truck's assignments (optional)
+ */
+export async function GET(req: NextRequest) {
+  const auth = await requireRole(req, ANY_ROLE);
+  if (auth.response) return auth.response;
+
+  const searchParams = req.nextUrl.searchParams;
+  const technicianId = searchParams.get('technicianId');
+  const vehicleId = searchParams.get('vehicleId');
+
+  try {
+    const assignments = await loadTruckAssignments({
+      technicianIds: technicianId ? [technicianId] : undefined,
+      vehicleIds: vehicleId ? [vehicleId] : undefined,
+    });
+
+    return NextResponse.json({
+      success: true,
+      assignments,
+    });
+  } catch (error) {
+    console.error('Error fetching truck assignments:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to fetch truck assignments' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST - Record that a technician has a truck from a date on
+ * Body: { technicianId, vehicleId (null for no truck), effectiveFrom (YYYY-MM-DD, default today), notes }
+ * Whoever had the truck, and the technician's previous truck, end the day before.
+ */
+export async function POST(req: NextRequest) {
+  const auth = await requireRole(req, ADMIN_ROLES);
+  if (auth.response) return auth.response;
+
+  try {
+    const body = await req.json();
+    const { technicianId, vehicleId, notes } = body;
+    const effectiveFrom = body.effectiveFrom || formatInTimeZone(new Date(), EST_TIMEZONE, 'yyyy-MM-dd');
+
+    if (!technicianId) {
+      return NextResponse.json({ success: false, error: 'technicianId is required' }, { status: 400 });
+    }
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(effectiveFrom)) {
+      return NextResponse.json({ success: false, error: 'effectiveFrom must be YYYY-MM-DD' }, { status: 400 });
+    }
+
+    const { assignment, affectedTechnicianIds } = await recordTruckAssignment({
+      technicianId,
+      vehicleId: vehicleId || null,
+      effectiveFrom,
+      notes,
+      createdBy: auth.user.displayName,
+    });
+
+    await recordAuditEvent({
+      actor: auth.user,
+      entityType: 'truck_assignment',
+      verb: vehicleId ? 'assigned' : 'unassigned',
+      entityId: assignment?.id,
+      technicianId,
+      eventDate: effectiveFrom,
+      after: assignment,
+      note: notes || null,
+    });
+
+    // Every day from the change on may now be built from a different truck
+    await invalidateDayTimelines('truck_assignment', { technicianIds: affectedTechnicianIds });
+
+    return NextResponse.json({
+      success: true,
+      assignment,
+      affectedTechnicianIds,
+    });
+  } catch (error) {
+    console.error('Error recording truck assignment:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to record truck assignment' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE - Remove a dated assignment (?id=)
+ * Its days are left without a truck until another assignment covers them.
+ */
+export async function DELETE(req: NextRequest) {
+  const auth = await requireRole(req, ADMIN_ROLES);
+  if (auth.response) return auth.response;
+
+  const id = req.nextUrl.searchParams.get('id');
+  if (!id) {
+    return NextResponse.json({ success: false, error: 'id is required' }, { status: 400 });
+  }
+
+  try {
+    const deleted = await deleteTruckAssignment(id);
+    if (!deleted) {
+      return NextResponse.json({ success: false, error: 'Assignment not found' }, { status: 404 });
+    }
+
+    await recordAuditEvent({
+      actor: auth.user,
+      entityType: 'truck_assignment',
+      verb: 'deleted',
+      entityId: deleted.id,
+      technicianId: deleted.technicianId,
+      eventDate: deleted.effectiveFrom,
+      before: deleted,
+    });
+
+    await invalidateDayTimelines('truck_assignment', { technicianIds: [deleted.technicianId] });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting truck assignment:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to delete truck assignment' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@/lib/supabase';
+import { requireRole, ADMIN_ROLES, ANY_ROLE } from '@/lib/auth';
 
 // GET - Fetch all trucks
-export async function GET() {
+export async function GET(req: NextRequest) {
+  const auth = await requireRole(req, ANY_ROLE);
+  if (auth.response) return auth.response;
+
   try {
     const supabase = createServerClient();
 
@@ -26,3 +30,43 @@ export async function GET() {
     );
   }
 }
+
+// PATCH - Update a truck's expected fuel economy (used by the fuel reconciliation report)
+export async function PATCH(req: NextRequest) {
+  const auth = await requireRole(req, ADMIN_ROLES);
+  if (auth.response) return auth.response;
+
+  try {
+    const supabase = createServerClient();
+    const { id, expected_mpg } = await req.json();
+
+    if (!id) {
+      return NextResponse.json({ error: 'ID is required' }, { status: 400 });
+    }
+
+    const expectedMpg = expected_mpg === null || expected_mpg === '' ? null : Number(expected_mpg);
+    if (expectedMpg !== null && (!Number.isFinite(expectedMpg) || expectedMpg <= 0 || expectedMpg >= 1000)) {
+      return NextResponse.json({ error: 'expected_mpg must be a positive number' }, { status: 400 });
+    }
+
+    const { data, error } = await supabase
+      .from('trucks')
+      .update({ expected_mpg: expectedMpg })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw new Error(error.message);
+
+    return NextResponse.json({
+      success: true,
+      truck: data,
+    });
+  } catch (error) {
+    console.error('Error updating truck:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update truck' },
+      { status: 500 }
+    );
+  }
+}
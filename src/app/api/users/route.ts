@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase';
+import { Database } from '@/types/database';
+import { requireRole, ADMIN_ROLES } from '@/lib/auth';
+import { USER_ROLES, UserProfileRow, rowToAppUser } from '@/types/auth';
+
+// GET - List users and their roles (admin only)
+export async function GET(req: NextRequest) {
+  const auth = await requireRole(req, ADMIN_ROLES);
+  if (auth.response) return auth.response;
+
+  const supabase = createServerClient();
+
+  try {
+    const { data, error } = await supabase
+      .from('user_profiles')
+      .select('*')
+      .order('email');
+
+    if (error) throw new Error(error.message);
+
+    return NextResponse.json({
+      success: true,
+      users: (data as UserProfileRow[] || []).map(rowToAppUser),
+    });
+  } catch (error) {
+    console.error('Error fetching users:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch users' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH - Change a user's role, display name, or deactivate them (admin only)
+export async function PATCH(req: NextRequest) {
+  const auth = await requireRole(req, ADMIN_ROLES);
+  if (auth.response) return auth.response;
+
+  const supabase = createServerClient();
+
+  try {
+    const { id, role, displayName, active } = await req.json();
+
+    if (!id) {
+      return NextResponse.json({ error: 'ID is required' }, { status: 400 });
+    }
+
+    if (role !== undefined && !USER_ROLES.includes(role)) {
+      return NextResponse.json(
+        { error: `Invalid role. Must be one of: ${USER_ROLES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // Don't let an admin lock themselves out
+    if (id === auth.user.id && ((role !== undefined && role !== 'admin') || active === false)) {
+      return NextResponse.json({ error: 'You cannot remove your own admin access' }, { status: 400 });
+    }
+
+    const updateData: Database['public']['Tables']['user_profiles']['Update'] = { updated_at: new Date().toISOString() };
+    if (role !== undefined) updateData.role = role;
+    if (displayName !== undefined) updateData.display_name = displayName;
+    if (active !== undefined) updateData.active = active;
+
+    const { data, error } = await supabase
+      .from('user_profiles')
+      .update(updateData)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw new Error(error.message);
+
+    return NextResponse.json({
+      success: true,
+      user: rowToAppUser(data as UserProfileRow),
+    });
+  } catch (error) {
+    console.error('Error updating user:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update user' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getAllVehicleLocations, getVehicleLocationHistory } from '@/lib/verizon-connect';
 import { createServerClient } from '@/lib/supabase';
+import { requireRole, ANY_ROLE } from '@/lib/auth';
 
 export async function GET(req: NextRequest) {
+  const auth = await requireRole(req, ANY_ROLE);
+  if (auth.response) return auth.response;
+
   try {
     const { searchParams } = new URL(req.url);
     const vehicleId = searchParams.get('vehicleId');
@@ -1,7 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getVehicles, getVehicle, getAllVehicleLocations, getVehicleLocation } from '@/lib/verizon-connect';
+import { requireRole, ANY_ROLE } from '@/lib/auth';
 
 export async function GET(req: NextRequest) {
+  const auth = await requireRole(req, ANY_ROLE);
+  if (auth.response) return auth.response;
+
   try {
     const { searchParams } = new URL(req.url);
     const vehicleId = searchParams.get('id');
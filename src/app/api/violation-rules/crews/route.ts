@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase';
+import { Database } from '@/types/database';
+import { rowToCrew, CrewRow } from '@/types/violation-rules';
+import { requireRole, ADMIN_ROLES } from '@/lib/auth';
+
+/**
+ * POST - Create a crew
+ *
+ * Body: { name, violationRuleSetId? }
+ */
+export async function POST(req: NextRequest) {
+  const auth = await requireRole(req, ADMIN_ROLES);
+  if (auth.response) return auth.response;
+
+  const supabase = createServerClient();
+
+  try {
+    const { name, violationRuleSetId } = await req.json();
+
+    if (!name) {
+      return NextResponse.json({ error: 'name is required' }, { status: 400 });
+    }
+
+    const { data, error } = await supabase
+      .from('crews')
+      .insert({ name, violation_rule_set_id: violationRuleSetId || null })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json({ error: 'A crew with this name already exists' }, { status: 409 });
+      }
+      throw new Error(error.message);
+    }
+
+    return NextResponse.json({ success: true, crew: rowToCrew(data as CrewRow) });
+  } catch (error) {
+    console.error('Error creating crew:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create crew' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH - Rename a crew or change its rule set
+ *
+ * Body: { id, name?, violationRuleSetId? } - violationRuleSetId null falls back to the defaults
+ */
+export async function PATCH(req: NextRequest) {
+  const auth = await requireRole(req, ADMIN_ROLES);
+  if (auth.response) return auth.response;
+
+  const supabase = createServerClient();
+
+  try {
+    const { id, name, violationRuleSetId } = await req.json();
+
+    if (!id) {
+      return NextResponse.json({ error: 'ID is required' }, { status: 400 });
+    }
+
+    const updateData: Database['public']['Tables']['crews']['Update'] = {};
+    if (name !== undefined) updateData.name = name;
+    if (violationRuleSetId !== undefined) updateData.violation_rule_set_id = violationRuleSetId || null;
+
+    const { data, error } = await supabase
+      .from('crews')
+      .update(updateData)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return NextResponse.json({ error: 'Crew not found' }, { status: 404 });
+      }
+      if (error.code === '23505') {
+        return NextResponse.json({ error: 'A crew with this name already exists' }, { status: 409 });
+      }
+      throw new Error(error.message);
+    }
+
+    return NextResponse.json({ success: true, crew: rowToCrew(data as CrewRow) });
+  } catch (error) {
+    console.error('Error updating crew:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update crew' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE - Remove a crew (?id=)
+ * Its technicians are left without a crew and fall back to their own or the default rule set.
+ */
+export async function DELETE(req: NextRequest) {
+  const auth = await requireRole(req, ADMIN_ROLES);
+  if (auth.response) return auth.response;
+
+  const id = req.nextUrl.searchParams.get('id');
+  if (!id) {
+    return NextResponse.json({ error: 'id is required' }, { status: 400 });
+  }
+
+  const supabase = createServerClient();
+
+  try {
+    const { data, error } = await supabase
+      .from('crews')
+      .delete()
+      .eq('id', id)
+      .select();
+
+    if (error) throw new Error(error.message);
+
+    if (!data || data.length === 0) {
+      return NextResponse.json({ error: 'Crew not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting crew:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to delete crew' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,194 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase';
+import { Database } from '@/types/database';
+import {
+  rowToViolationRuleSet,
+  rowToViolationRule,
+  rowToCrew,
+  ViolationRuleSetRow,
+  ViolationRuleRow,
+  CrewRow,
+  VIOLATION_RULE_KINDS,
+} from '@/types/violation-rules';
+import { requireRole, ADMIN_ROLES, ANY_ROLE } from '@/lib/auth';
+
+/**
+ * GET - List violation rule sets (with their rules) and crews
+ */
+export async function GET(req: NextRequest) {
+  const auth = await requireRole(req, ANY_ROLE);
+  if (auth.response) return auth.response;
+
+  const supabase = createServerClient();
+
+  try {
+    const [setsResult, rulesResult, crewsResult] = await Promise.all([
+      supabase.from('violation_rule_sets').select('*').eq('active', true).order('name'),
+      supabase.from('violation_rules').select('*').order('priority'),
+      supabase.from('crews').select('*').order('name'),
+    ]);
+
+    if (setsResult.error) throw new Error(setsResult.error.message);
+    if (rulesResult.error) throw new Error(rulesResult.error.message);
+    if (crewsResult.error) throw new Error(crewsResult.error.message);
+
+    const ruleRows = rulesResult.data as ViolationRuleRow[] || [];
+
+    return NextResponse.json({
+      success: true,
+      ruleSets: (setsResult.data as ViolationRuleSetRow[] || []).map(row => rowToViolationRuleSet(row, ruleRows)),
+      crews: (crewsResult.data as CrewRow[] || []).map(rowToCrew),
+    });
+  } catch (error) {
+    console.error('Error fetching violation rules:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch violation rules' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST - Create a rule set, optionally copying the rules of an existing one
+ *
+ * Body: { name, description?, copyFromId? }
+ */
+export async function POST(req: NextRequest) {
+  const auth = await requireRole(req, ADMIN_ROLES);
+  if (auth.response) return auth.response;
+
+  const supabase = createServerClient();
+
+  try {
+    const { name, description, copyFromId } = await req.json();
+
+    if (!name) {
+      return NextResponse.json({ error: 'name is required' }, { status: 400 });
+    }
+
+    const { data: ruleSet, error } = await supabase
+      .from('violation_rule_sets')
+      .insert({ name, description: description || null })
+      .select()
+      .single();
+
+    if (error) throw new Error(error.message);
+
+    if (copyFromId) {
+      const { data: sourceRules, error: sourceError } = await supabase
+        .from('violation_rules')
+        .select('*')
+        .eq('rule_set_id', copyFromId);
+
+      if (sourceError) throw new Error(sourceError.message);
+
+      if (sourceRules && sourceRules.length > 0) {
+        const { error: copyError } = await supabase
+          .from('violation_rules')
+          .insert(sourceRules.map(rule => ({
+            rule_set_id: ruleSet.id,
+            name: rule.name,
+            kind: rule.kind,
+            allowed_location_types: rule.allowed_location_types,
+            disallowed_location_types: rule.disallowed_location_types,
+            excusable_location_types: rule.excusable_location_types,
+            exempt_last_stop_types: rule.exempt_last_stop_types,
+            max_minutes: rule.max_minutes,
+            expected_location_type: rule.expected_location_type,
+            reason: rule.reason,
+            priority: rule.priority,
+            active: rule.active,
+          })));
+
+        if (copyError) throw new Error(copyError.message);
+      }
+    }
+
+    const { data: ruleRows } = await supabase
+      .from('violation_rules')
+      .select('*')
+      .eq('rule_set_id', ruleSet.id);
+
+    return NextResponse.json({
+      success: true,
+      ruleSet: rowToViolationRuleSet(ruleSet as ViolationRuleSetRow, ruleRows as ViolationRuleRow[] || []),
+    });
+  } catch (error) {
+    console.error('Error creating violation rule set:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create violation rule set' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH - Update a single rule (thresholds, location types, reason, on/off)
+ * Rules are added and removed through /api/violation-rules/rules, crews through /api/violation-rules/crews.
+ */
+export async function PATCH(req: NextRequest) {
+  const auth = await requireRole(req, ADMIN_ROLES);
+  if (auth.response) return auth.response;
+
+  const supabase = createServerClient();
+
+  try {
+    const body = await req.json();
+    const {
+      id,
+      kind,
+      allowedLocationTypes,
+      disallowedLocationTypes,
+      excusableLocationTypes,
+      exemptLastStopTypes,
+      maxMinutes,
+      expectedLocationType,
+      reason,
+      priority,
+      active,
+    } = body;
+
+    if (!id) {
+      return NextResponse.json({ error: 'ID is required' }, { status: 400 });
+    }
+
+    if (kind !== undefined && !VIOLATION_RULE_KINDS.includes(kind)) {
+      return NextResponse.json(
+        { error: `Invalid kind. Must be one of: ${VIOLATION_RULE_KINDS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const updateData: Database['public']['Tables']['violation_rules']['Update'] = {};
+    if (kind !== undefined) updateData.kind = kind;
+    if (allowedLocationTypes !== undefined) updateData.allowed_location_types = allowedLocationTypes;
+    if (disallowedLocationTypes !== undefined) updateData.disallowed_location_types = disallowedLocationTypes;
+    if (excusableLocationTypes !== undefined) updateData.excusable_location_types = excusableLocationTypes;
+    if (exemptLastStopTypes !== undefined) updateData.exempt_last_stop_types = exemptLastStopTypes;
+    if (maxMinutes !== undefined) updateData.max_minutes = maxMinutes;
+    if (expectedLocationType !== undefined) updateData.expected_location_type = expectedLocationType;
+    if (reason !== undefined) updateData.reason = reason;
+    if (priority !== undefined) updateData.priority = priority;
+    if (active !== undefined) updateData.active = active;
+
+    const { data, error } = await supabase
+      .from('violation_rules')
+      .update(updateData)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw new Error(error.message);
+
+    return NextResponse.json({
+      success: true,
+      rule: rowToViolationRule(data as ViolationRuleRow),
+    });
+  } catch (error) {
+    console.error('Error updating violation rule:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update violation rule' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase';
+import { rowToViolationRule, ViolationRuleRow, VIOLATION_RULE_KINDS } from '@/types/violation-rules';
+import { requireRole, ADMIN_ROLES } from '@/lib/auth';
+
+/**
+ * POST - Add a rule to a rule set
+ *
+ * Body: { ruleSetId, name, kind, reason, allowedLocationTypes?, disallowedLocationTypes?,
+ *         excusableLocationTypes?, exemptLastStopTypes?, maxMinutes?, expectedLocationType?, priority? }
+ */
+export async function POST(req: NextRequest) {
+  const auth = await requireRole(req, ADMIN_ROLES);
+  if (auth.response) return auth.response;
+
+  const supabase = createServerClient();
+
+  try {
+    const {
+      ruleSetId,
+      name,
+      kind,
+      reason,
+      allowedLocationTypes,
+      disallowedLocationTypes,
+      excusableLocationTypes,
+      exemptLastStopTypes,
+      maxMinutes,
+      expectedLocationType,
+      priority,
+    } = await req.json();
+
+    if (!ruleSetId || !name || !reason) {
+      return NextResponse.json({ error: 'ruleSetId, name and reason are required' }, { status: 400 });
+    }
+
+    if (!VIOLATION_RULE_KINDS.includes(kind)) {
+      return NextResponse.json(
+        { error: `Invalid kind. Must be one of: ${VIOLATION_RULE_KINDS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from('violation_rules')
+      .insert({
+        rule_set_id: ruleSetId,
+        name,
+        kind,
+        reason,
+        allowed_location_types: allowedLocationTypes ?? null,
+        disallowed_location_types: disallowedLocationTypes ?? null,
+        excusable_location_types: excusableLocationTypes ?? null,
+        exempt_last_stop_types: exemptLastStopTypes ?? null,
+        max_minutes: maxMinutes ?? null,
+        expected_location_type: expectedLocationType ?? null,
+        priority: priority ?? 100,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { error: 'This rule set already has a rule with that name' },
+          { status: 409 }
+        );
+      }
+      if (error.code === '23503') {
+        return NextResponse.json({ error: 'Rule set not found' }, { status: 404 });
+      }
+      throw new Error(error.message);
+    }
+
+    return NextResponse.json({
+      success: true,
+      rule: rowToViolationRule(data as ViolationRuleRow),
+    });
+  } catch (error) {
+    console.error('Error creating violation rule:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create violation rule' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE - Remove a rule from its rule set (?id=)
+ * Punches already flagged by the rule keep its id and name.
+ */
+export async function DELETE(req: NextRequest) {
+  const auth = await requireRole(req, ADMIN_ROLES);
+  if (auth.response) return auth.response;
+
+  const id = req.nextUrl.searchParams.get('id');
+  if (!id) {
+    return NextResponse.json({ error: 'id is required' }, { status: 400 });
+  }
+
+  const supabase = createServerClient();
+
+  try {
+    const { data, error } = await supabase
+      .from('violation_rules')
+      .delete()
+      .eq('id', id)
+      .select();
+
+    if (error) throw new Error(error.message);
+
+    if (!data || data.length === 0) {
+      return NextResponse.json({ error: 'Rule not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting violation rule:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to delete violation rule' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,174 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { format, parseISO, addDays, startOfWeek } from 'date-fns';
+import { Fuel, ChevronLeft, ChevronRight, RefreshCw, AlertTriangle } from 'lucide-react';
+import { FleetIdleReport } from '@/types/fleet-idle';
+
+const WEEK_OPTIONS = [1, 4, 8, 12];
+
+function getWeekStart(date: Date): string {
+  return format(startOfWeek(date, { weekStartsOn: 0 }), 'yyyy-MM-dd');
+}
+
+export default function FleetIdlePage() {
+  const [lastWeek, setLastWeek] = useState(() => getWeekStart(new Date()));
+  const [weeks, setWeeks] = useState(4);
+  const [report, setReport] = useState<FleetIdleReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const firstWeek = format(addDays(parseISO(lastWeek), -(weeks - 1) * 7), 'yyyy-MM-dd');
+
+  const fetchReport = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/reports/fleet-idle?weekStart=${firstWeek}&weeks=${weeks}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+      setReport(data.report);
+    } catch (err) {
+      setReport(null);
+      setError(err instanceof Error ? err.message : 'Failed to load fleet idle report');
+    } finally {
+      setLoading(false);
+    }
+  }, [firstWeek, weeks]);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  const shiftWeek = (delta: number) => {
+    setLastWeek(prev => format(addDays(parseISO(prev), delta * 7), 'yyyy-MM-dd'));
+  };
+
+  const isCurrentWeek = lastWeek >= getWeekStart(new Date());
+  const lastWeekEnd = format(addDays(parseISO(lastWeek), 6), 'yyyy-MM-dd');
+  const maxPerWeek = Math.max(0, ...(report?.trucks || []).map(t => t.idleHoursPerWeek));
+  const weekColumns = report && report.weeks > 1
+    ? Array.from({ length: report.weeks }, (_, i) => format(addDays(parseISO(report.weekStart), i * 7), 'yyyy-MM-dd'))
+    : [];
+
+  return (
+    <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+      {/* Page Header */}
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Fleet Idle Time</h1>
+          <p className="text-gray-500 mt-1">Trucks ranked by engine idle hours per week</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <select
+            value={weeks}
+            onChange={(e) => setWeeks(Number(e.target.value))}
+            className="px-3 py-2 border rounded-lg text-sm text-gray-900 bg-white"
+          >
+            {WEEK_OPTIONS.map(n => (
+              <option key={n} value={n}>{n === 1 ? '1 week' : `${n} weeks`}</option>
+            ))}
+          </select>
+          <div className="flex items-center border rounded-lg bg-white">
+            <button onClick={() => shiftWeek(-1)} className="p-2 text-gray-500 hover:text-gray-900">
+              <ChevronLeft className="w-4 h-4" />
+            </button>
+            <span className="px-2 text-sm text-gray-900 whitespace-nowrap">
+              {format(parseISO(firstWeek), 'MMM d')} - {format(parseISO(lastWeekEnd), 'MMM d, yyyy')}
+            </span>
+            <button
+              onClick={() => shiftWeek(1)}
+              disabled={isCurrentWeek}
+              className="p-2 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+            >
+              <ChevronRight className="w-4 h-4" />
+            </button>
+          </div>
+          <button
+            onClick={fetchReport}
+            disabled={loading}
+            className="flex items-center gap-2 px-4 py-2 text-gray-600 hover:text-gray-900 border rounded-lg bg-white hover:bg-gray-50 disabled:opacity-50"
+          >
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-6 bg-red-50 border border-red-200 rounded-lg p-4 flex items-center gap-2 text-red-700">
+          <AlertTriangle className="w-5 h-5" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {loading && !report ? (
+        <div className="bg-white rounded-lg shadow-sm border p-12 text-center text-gray-500">
+          <RefreshCw className="w-6 h-6 mx-auto mb-3 animate-spin" />
+          Adding up idle time...
+        </div>
+      ) : report && (
+        <div className="bg-white rounded-lg shadow-sm border overflow-hidden">
+          <div className="px-4 py-3 border-b bg-gray-50 flex items-center justify-between">
+            <h2 className="font-semibold text-gray-900 flex items-center gap-2">
+              <Fuel className="w-4 h-4 text-amber-600" />
+              {report.trucks.length} truck(s)
+            </h2>
+            <span className="text-sm text-gray-500">{report.totalIdleHours} idle hours total</span>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 uppercase border-b">
+                  <th className="px-4 py-2">#</th>
+                  <th className="px-4 py-2">Truck</th>
+                  <th className="px-4 py-2">Technician</th>
+                  <th className="px-4 py-2">Idle / Week</th>
+                  {weekColumns.map(week => (
+                    <th key={week} className="px-4 py-2 whitespace-nowrap">
+                      {format(parseISO(week), 'M/d')}
+                    </th>
+                  ))}
+                  <th className="px-4 py-2">Idle %</th>
+                  <th className="px-4 py-2">Longest</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {report.trucks.map((truck, i) => (
+                  <tr key={truck.vehicleId} className="text-gray-900">
+                    <td className="px-4 py-2 text-gray-500">{i + 1}</td>
+                    <td className="px-4 py-2 font-medium">{truck.vehicleId}</td>
+                    <td className="px-4 py-2">{truck.technicianName || <span className="text-gray-400">Unassigned</span>}</td>
+                    <td className="px-4 py-2">
+                      <div className="flex items-center gap-2">
+                        <div className="w-24 h-2 bg-gray-100 rounded-full overflow-hidden">
+                          <div
+                            className="h-full bg-amber-500"
+                            style={{ width: `${maxPerWeek > 0 ? (truck.idleHoursPerWeek / maxPerWeek) * 100 : 0}%` }}
+                          />
+                        </div>
+                        <span className="font-semibold">{truck.idleHoursPerWeek}h</span>
+                      </div>
+                    </td>
+                    {weekColumns.length > 0 && truck.weeks.map(week => (
+                      <td key={week.weekStart} className="px-4 py-2 text-gray-600">{week.idleHours}h</td>
+                    ))}
+                    <td className="px-4 py-2">{truck.idlePercentage === null ? '-' : `${truck.idlePercentage}%`}</td>
+                    <td className="px-4 py-2">{truck.longestIdleMinutes}m</td>
+                  </tr>
+                ))}
+                {report.trucks.length === 0 && (
+                  <tr>
+                    <td colSpan={6 + weekColumns.length} className="px-4 py-6 text-center text-gray-500">
+                      No stored GPS segments in this range
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </main>
+  );
+}
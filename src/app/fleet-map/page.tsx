@@ -0,0 +1,336 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { differenceInMinutes, format, parseISO } from 'date-fns';
+import { toZonedTime } from 'date-fns-tz';
+import { Map as MapIcon, RefreshCw, AlertTriangle, Truck } from 'lucide-react';
+import type { DivIcon } from 'leaflet';
+import { MapContainer, TileLayer, Marker, Popup, MapFitBounds, MapRecenter } from '@/components/LeafletMapWrapper';
+import { FleetClockStatus, FleetMap, FleetTruck, FleetTruckStatus } from '@/types/fleet-map';
+
+const EST_TIMEZONE = 'America/New_York';
+const REFRESH_SECONDS = 60;
+
+const STATUS_LABELS: Record<FleetTruckStatus, string> = {
+  driving: 'Driving',
+  idling: 'Idling',
+  stopped: 'Stopped',
+  no_gps: 'No GPS',
+};
+const STATUS_COLORS: Record<FleetTruckStatus, string> = {
+  driving: '#3b82f6',
+  idling: '#f59e0b',
+  stopped: '#64748b',
+  no_gps: '#d1d5db',
+};
+const STATUS_BADGES: Record<FleetTruckStatus, string> = {
+  driving: 'bg-blue-100 text-blue-700',
+  idling: 'bg-amber-100 text-amber-700',
+  stopped: 'bg-slate-100 text-slate-700',
+  no_gps: 'bg-gray-100 text-gray-500',
+};
+const CLOCK_LABELS: Record<FleetClockStatus, string> = {
+  clocked_in: 'On the clock',
+  on_meal: 'On meal',
+  clocked_out: 'Clocked out',
+  not_clocked_in: 'Not clocked in',
+};
+const CLOCK_BADGES: Record<FleetClockStatus, string> = {
+  clocked_in: 'bg-green-100 text-green-700',
+  on_meal: 'bg-purple-100 text-purple-700',
+  clocked_out: 'bg-gray-100 text-gray-600',
+  not_clocked_in: 'bg-gray-100 text-gray-500',
+};
+
+type ClockFilter = 'all' | 'on_clock' | 'off_clock' | 'unassigned';
+const CLOCK_FILTERS: { value: ClockFilter; label: string }[] = [
+  { value: 'all', label: 'All trucks' },
+  { value: 'on_clock', label: 'On the clock' },
+  { value: 'off_clock', label: 'Off the clock' },
+  { value: 'unassigned', label: 'No technician' },
+];
+
+function formatTime(iso: string): string {
+  return format(toZonedTime(parseISO(iso), EST_TIMEZONE), 'h:mm a');
+}
+
+function formatDuration(minutes: number): string {
+  if (minutes < 60) {
+    return `${minutes}m`;
+  }
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  return mins > 0 ? `${hours}h ${mins}m` : `${hours}h`;
+}
+
+function matchesClockFilter(truck: FleetTruck, filter: ClockFilter): boolean {
+  switch (filter) {
+    case 'on_clock':
+      return truck.clockStatus === 'clocked_in' || truck.clockStatus === 'on_meal';
+    case 'off_clock':
+      return truck.clockStatus === 'clocked_out' || truck.clockStatus === 'not_clocked_in';
+    case 'unassigned':
+      return !truck.technicianId;
+    default:
+      return true;
+  }
+}
+
+export default function FleetMapPage() {
+  const [fleet, setFleet] = useState<FleetMap | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [autoRefresh, setAutoRefresh] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<FleetTruckStatus | 'all'>('all');
+  const [clockFilter, setClockFilter] = useState<ClockFilter>('all');
+  const [selected, setSelected] = useState<string | null>(null);
+  const [fitPoints, setFitPoints] = useState<[number, number][]>([]);
+  const [leaflet, setLeaflet] = useState<typeof import('leaflet') | null>(null);
+
+  // Leaflet touches window, so it's loaded on the client only
+  useEffect(() => {
+    import('leaflet').then(setLeaflet);
+  }, []);
+
+  const fetchFleet = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/reports/fleet-map');
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+      const next: FleetMap = data.fleet;
+      setFleet(next);
+      // Fit the map to the fleet once - refreshes shouldn't undo the user's panning
+      setFitPoints(prev => prev.length > 0 ? prev : next.trucks
+        .filter(t => t.latitude !== null && t.longitude !== null)
+        .map(t => [t.latitude, t.longitude] as [number, number]));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load fleet map');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchFleet();
+  }, [fetchFleet]);
+
+  useEffect(() => {
+    if (!autoRefresh) return;
+    const timer = setInterval(fetchFleet, REFRESH_SECONDS * 1000);
+    return () => clearInterval(timer);
+  }, [autoRefresh, fetchFleet]);
+
+  const clockMatches = useMemo(
+    () => (fleet?.trucks || []).filter(t => matchesClockFilter(t, clockFilter)),
+    [fleet, clockFilter]
+  );
+  const trucks = statusFilter === 'all' ? clockMatches : clockMatches.filter(t => t.status === statusFilter);
+  const statusCounts = (Object.keys(STATUS_LABELS) as FleetTruckStatus[]).map(status => ({
+    status,
+    count: clockMatches.filter(t => t.status === status).length,
+  }));
+
+  const icons = useMemo(() => {
+    if (!leaflet) return null;
+    const pin = (color: string, ring: boolean) => leaflet.divIcon({
+      className: '',
+      html: `<div style="width:18px;height:18px;border-radius:9999px;background:${color};` +
+        `border:${ring ? '3px solid #0f172a' : '2px solid white'};box-shadow:0 0 3px rgba(0,0,0,0.6)"></div>`,
+      iconSize: [18, 18],
+      iconAnchor: [9, 9],
+    });
+    const byStatus = (ring: boolean) => Object.fromEntries(
+      (Object.keys(STATUS_COLORS) as FleetTruckStatus[]).map(status => [status, pin(STATUS_COLORS[status], ring)])
+    ) as Record<FleetTruckStatus, DivIcon>;
+    return { normal: byStatus(false), selected: byStatus(true) };
+  }, [leaflet]);
+
+  const selectedTruck = trucks.find(t => t.vehicleId === selected && t.latitude !== null && t.longitude !== null);
+  const now = fleet ? parseISO(fleet.generatedAt) : new Date();
+
+  return (
+    <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+      {/* Page Header */}
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Live Fleet Map</h1>
+          <p className="text-gray-500 mt-1">
+            Where every truck is right now
+            {fleet && ` - updated ${formatTime(fleet.generatedAt)}`}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <select
+            value={clockFilter}
+            onChange={(e) => setClockFilter(e.target.value as ClockFilter)}
+            className="px-3 py-2 border rounded-lg text-sm text-gray-900 bg-white"
+          >
+            {CLOCK_FILTERS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={autoRefresh}
+              onChange={(e) => setAutoRefresh(e.target.checked)}
+              className="rounded"
+            />
+            Auto-refresh
+          </label>
+          <button
+            onClick={fetchFleet}
+            disabled={loading}
+            className="flex items-center gap-2 px-4 py-2 text-gray-600 hover:text-gray-900 border rounded-lg bg-white hover:bg-gray-50 disabled:opacity-50"
+          >
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-6 bg-red-50 border border-red-200 rounded-lg p-4 flex items-center gap-2 text-red-700">
+          <AlertTriangle className="w-5 h-5" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {/* Status Filter */}
+      <div className="flex flex-wrap gap-2 mb-4">
+        <button
+          onClick={() => setStatusFilter('all')}
+          className={`px-3 py-1.5 rounded-full text-sm border ${
+            statusFilter === 'all' ? 'bg-gray-900 text-white border-gray-900' : 'bg-white text-gray-700 hover:bg-gray-50'
+          }`}
+        >
+          All ({clockMatches.length})
+        </button>
+        {statusCounts.map(({ status, count }) => (
+          <button
+            key={status}
+            onClick={() => setStatusFilter(status)}
+            className={`flex items-center gap-2 px-3 py-1.5 rounded-full text-sm border ${
+              statusFilter === status ? 'bg-gray-900 text-white border-gray-900' : 'bg-white text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            <span className="w-2.5 h-2.5 rounded-full" style={{ background: STATUS_COLORS[status] }} />
+            {STATUS_LABELS[status]} ({count})
+          </button>
+        ))}
+      </div>
+
+      {loading && !fleet ? (
+        <div className="bg-white rounded-lg shadow-sm border p-12 text-center text-gray-500">
+          <RefreshCw className="w-6 h-6 mx-auto mb-3 animate-spin" />
+          Finding trucks...
+        </div>
+      ) : fleet && (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 h-[600px] bg-white rounded-lg shadow-sm border overflow-hidden">
+            {icons ? (
+              <MapContainer center={[36.07, -79.8]} zoom={10} className="h-full w-full">
+                <TileLayer
+                  attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+                  url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+                />
+                <MapFitBounds points={fitPoints} />
+                {selectedTruck && (
+                  <MapRecenter lat={selectedTruck.latitude!} lon={selectedTruck.longitude!} zoom={14} />
+                )}
+
+                {trucks.filter(t => t.latitude !== null && t.longitude !== null).map(truck => (
+                  <Marker
+                    key={truck.vehicleId}
+                    position={[truck.latitude!, truck.longitude!]}
+                    icon={(truck.vehicleId === selected ? icons.selected : icons.normal)[truck.status]}
+                    eventHandlers={{ click: () => setSelected(truck.vehicleId) }}
+                  >
+                    <Popup>
+                      <div className="text-sm">
+                        <p className="font-medium">
+                          {truck.technicianName || 'Unassigned'} - Truck {truck.vehicleId}
+                        </p>
+                        <p className="text-gray-600">
+                          {STATUS_LABELS[truck.status]}
+                          {truck.status === 'driving' && truck.speedMph !== null && ` at ${truck.speedMph} mph`}
+                        </p>
+                        {truck.address && <p className="text-gray-600">{truck.address}</p>}
+                      </div>
+                    </Popup>
+                  </Marker>
+                ))}
+              </MapContainer>
+            ) : (
+              <div className="h-full flex items-center justify-center bg-gray-100 text-gray-500 text-sm">
+                <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+                Loading map...
+              </div>
+            )}
+          </div>
+
+          <div className="bg-white rounded-lg shadow-sm border overflow-hidden flex flex-col h-[600px]">
+            <div className="px-4 py-3 border-b bg-gray-50">
+              <h2 className="font-semibold text-gray-900 flex items-center gap-2">
+                <MapIcon className="w-4 h-4 text-blue-600" />
+                {trucks.length} truck(s)
+              </h2>
+            </div>
+            <div className="flex-1 overflow-y-auto divide-y">
+              {trucks.map(truck => (
+                <button
+                  key={truck.vehicleId}
+                  onClick={() => setSelected(truck.vehicleId)}
+                  className={`w-full text-left px-4 py-3 hover:bg-gray-50 ${truck.vehicleId === selected ? 'bg-blue-50' : ''}`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium text-gray-900 truncate">
+                      {truck.technicianName || <span className="text-gray-400">Unassigned</span>}
+                    </span>
+                    <span className={`shrink-0 px-2 py-0.5 rounded text-xs font-medium ${STATUS_BADGES[truck.status]}`}>
+                      {STATUS_LABELS[truck.status]}
+                      {truck.status === 'driving' && truck.speedMph !== null && ` ${truck.speedMph} mph`}
+                    </span>
+                  </div>
+                  <div className="mt-1 flex items-center gap-2 text-xs text-gray-500">
+                    <Truck className="w-3 h-3" />
+                    <span>{truck.vehicleId}</span>
+                    {truck.clockStatus && (
+                      <span className={`px-1.5 py-0.5 rounded ${CLOCK_BADGES[truck.clockStatus]}`}>
+                        {CLOCK_LABELS[truck.clockStatus]}
+                        {truck.clockedInAt && truck.clockStatus !== 'not_clocked_in' && ` since ${formatTime(truck.clockedInAt)}`}
+                      </span>
+                    )}
+                  </div>
+                  {truck.address && <p className="mt-1 text-xs text-gray-600 truncate">{truck.address}</p>}
+                  {truck.stoppedSince && (
+                    <p className="mt-1 text-xs text-gray-600">
+                      Here {formatDuration(Math.max(0, differenceInMinutes(now, parseISO(truck.stoppedSince))))}
+                      {' '}(since {formatTime(truck.stoppedSince)})
+                    </p>
+                  )}
+                  {truck.appointment && (
+                    <p className="mt-1 text-xs text-gray-700">
+                      <span className="font-medium">{truck.appointment.relation === 'current' ? 'Now' : 'Next'}:</span>
+                      {' '}Job #{truck.appointment.jobNumber}
+                      {truck.appointment.customerName && ` - ${truck.appointment.customerName}`}
+                      {' '}({formatTime(truck.appointment.scheduledStart)})
+                    </p>
+                  )}
+                  {truck.updatedAt && differenceInMinutes(now, parseISO(truck.updatedAt)) >= 60 && (
+                    <p className="mt-1 text-xs text-gray-400">Last GPS update {formatTime(truck.updatedAt)}</p>
+                  )}
+                </button>
+              ))}
+              {trucks.length === 0 && (
+                <div className="px-4 py-6 text-center text-sm text-gray-500">No trucks match these filters</div>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </main>
+  );
+}
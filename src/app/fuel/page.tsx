@@ -0,0 +1,247 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { format, parseISO, addDays, startOfWeek } from 'date-fns';
+import { formatInTimeZone } from 'date-fns-tz';
+import { Droplet, ChevronLeft, ChevronRight, RefreshCw, AlertTriangle, MapPin } from 'lucide-react';
+import { FuelReconciliationReport, FuelPurchaseLocationCheck } from '@/types/fuel-reconciliation';
+
+const WEEK_OPTIONS = [1, 4, 8, 12];
+const EST_TIMEZONE = 'America/New_York';
+
+function getWeekStart(date: Date): string {
+  return format(startOfWeek(date, { weekStartsOn: 0 }), 'yyyy-MM-dd');
+}
+
+function formatDollars(cents: number): string {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+function describeLocationCheck(check: FuelPurchaseLocationCheck, distanceMiles: number | null): string {
+  if (check === 'moving') return 'Truck was driving';
+  if (check === 'far') return `Truck parked ${distanceMiles} mi away`;
+  if (check === 'near') return 'Truck at the pump';
+  return 'No truck GPS';
+}
+
+export default function FuelPage() {
+  const [lastWeek, setLastWeek] = useState(() => getWeekStart(new Date()));
+  const [weeks, setWeeks] = useState(4);
+  const [report, setReport] = useState<FuelReconciliationReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const firstWeek = format(addDays(parseISO(lastWeek), -(weeks - 1) * 7), 'yyyy-MM-dd');
+
+  const fetchReport = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/reports/fuel-reconciliation?weekStart=${firstWeek}&weeks=${weeks}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+      setReport(data.report);
+    } catch (err) {
+      setReport(null);
+      setError(err instanceof Error ? err.message : 'Failed to load fuel reconciliation report');
+    } finally {
+      setLoading(false);
+    }
+  }, [firstWeek, weeks]);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  const shiftWeek = (delta: number) => {
+    setLastWeek(prev => format(addDays(parseISO(prev), delta * 7), 'yyyy-MM-dd'));
+  };
+
+  const isCurrentWeek = lastWeek >= getWeekStart(new Date());
+  const lastWeekEnd = format(addDays(parseISO(lastWeek), 6), 'yyyy-MM-dd');
+  const outliers = (report?.trucks || []).filter(t => t.isOutlier).length;
+
+  return (
+    <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+      {/* Page Header */}
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Fuel Reconciliation</h1>
+          <p className="text-gray-500 mt-1">Fuel card gallons per truck against the miles its GPS logged</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <select
+            value={weeks}
+            onChange={(e) => setWeeks(Number(e.target.value))}
+            className="px-3 py-2 border rounded-lg text-sm text-gray-900 bg-white"
+          >
+            {WEEK_OPTIONS.map(n => (
+              <option key={n} value={n}>{n === 1 ? '1 week' : `${n} weeks`}</option>
+            ))}
+          </select>
+          <div className="flex items-center border rounded-lg bg-white">
+            <button onClick={() => shiftWeek(-1)} className="p-2 text-gray-500 hover:text-gray-900">
+              <ChevronLeft className="w-4 h-4" />
+            </button>
+            <span className="px-2 text-sm text-gray-900 whitespace-nowrap">
+              {format(parseISO(firstWeek), 'MMM d')} - {format(parseISO(lastWeekEnd), 'MMM d, yyyy')}
+            </span>
+            <button
+              onClick={() => shiftWeek(1)}
+              disabled={isCurrentWeek}
+              className="p-2 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+            >
+              <ChevronRight className="w-4 h-4" />
+            </button>
+          </div>
+          <button
+            onClick={fetchReport}
+            disabled={loading}
+            className="flex items-center gap-2 px-4 py-2 text-gray-600 hover:text-gray-900 border rounded-lg bg-white hover:bg-gray-50 disabled:opacity-50"
+          >
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-6 bg-red-50 border border-red-200 rounded-lg p-4 flex items-center gap-2 text-red-700">
+          <AlertTriangle className="w-5 h-5" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {loading && !report ? (
+        <div className="bg-white rounded-lg shadow-sm border p-12 text-center text-gray-500">
+          <RefreshCw className="w-6 h-6 mx-auto mb-3 animate-spin" />
+          Reconciling fuel purchases...
+        </div>
+      ) : report && (
+        <div className="space-y-6">
+          <div className="bg-white rounded-lg shadow-sm border overflow-hidden">
+            <div className="px-4 py-3 border-b bg-gray-50 flex items-center justify-between">
+              <h2 className="font-semibold text-gray-900 flex items-center gap-2">
+                <Droplet className="w-4 h-4 text-blue-600" />
+                {report.trucks.length} truck(s)
+                {outliers > 0 && <span className="text-red-600">- {outliers} outlier(s)</span>}
+              </h2>
+              <span className="text-sm text-gray-500">
+                {report.totalGallons} gal total
+                {report.unattributedGallons > 0 && ` (${report.unattributedGallons} gal on unassigned cards)`}
+              </span>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500 uppercase border-b">
+                    <th className="px-4 py-2">Truck</th>
+                    <th className="px-4 py-2">Technician</th>
+                    <th className="px-4 py-2">Purchases</th>
+                    <th className="px-4 py-2">Gallons</th>
+                    <th className="px-4 py-2">Spent</th>
+                    <th className="px-4 py-2">GPS Miles</th>
+                    <th className="px-4 py-2">MPG</th>
+                    <th className="px-4 py-2">Expected Gal</th>
+                    <th className="px-4 py-2">Excess Gal</th>
+                    <th className="px-4 py-2">Away From Truck</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {report.trucks.map(truck => (
+                    <tr key={truck.vehicleId} className={truck.isOutlier ? 'bg-red-50 text-gray-900' : 'text-gray-900'}>
+                      <td className="px-4 py-2 font-medium">{truck.truckNumber || truck.vehicleId}</td>
+                      <td className="px-4 py-2">{truck.technicianName || <span className="text-gray-400">Unassigned</span>}</td>
+                      <td className="px-4 py-2">{truck.purchases}</td>
+                      <td className="px-4 py-2">{truck.gallons}</td>
+                      <td className="px-4 py-2">{formatDollars(truck.amountCents)}</td>
+                      <td className="px-4 py-2">{truck.gpsMiles}</td>
+                      <td className="px-4 py-2">
+                        {truck.actualMpg === null ? '-' : truck.actualMpg}
+                        <span className="text-gray-400">
+                          {truck.expectedMpg === null ? ' / no target' : ` / ${truck.expectedMpg}`}
+                        </span>
+                        {truck.outlierReason && (
+                          <div className="text-xs text-red-600 flex items-center gap-1">
+                            <AlertTriangle className="w-3 h-3" />
+                            {truck.outlierReason}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-4 py-2">{truck.expectedGallons === null ? '-' : truck.expectedGallons}</td>
+                      <td className={`px-4 py-2 ${truck.excessGallons !== null && truck.excessGallons > 0 ? 'font-semibold text-red-600' : ''}`}>
+                        {truck.excessGallons === null ? '-' : truck.excessGallons}
+                      </td>
+                      <td className={`px-4 py-2 ${truck.purchasesAwayFromTruck > 0 ? 'font-semibold text-red-600' : ''}`}>
+                        {truck.purchasesAwayFromTruck}
+                      </td>
+                    </tr>
+                  ))}
+                  {report.trucks.length === 0 && (
+                    <tr>
+                      <td colSpan={10} className="px-4 py-6 text-center text-gray-500">
+                        No fuel purchases or GPS segments in this range
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-lg shadow-sm border overflow-hidden">
+            <div className="px-4 py-3 border-b bg-gray-50">
+              <h2 className="font-semibold text-gray-900 flex items-center gap-2">
+                <MapPin className="w-4 h-4 text-red-600" />
+                {report.flaggedPurchases.length} purchase(s) made away from the truck
+              </h2>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500 uppercase border-b">
+                    <th className="px-4 py-2">When</th>
+                    <th className="px-4 py-2">Technician</th>
+                    <th className="px-4 py-2">Merchant</th>
+                    <th className="px-4 py-2">Gallons</th>
+                    <th className="px-4 py-2">Amount</th>
+                    <th className="px-4 py-2">Truck</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {report.flaggedPurchases.map(purchase => (
+                    <tr key={purchase.id} className="text-gray-900">
+                      <td className="px-4 py-2 whitespace-nowrap">
+                        {formatInTimeZone(parseISO(purchase.transactionTime), EST_TIMEZONE, 'EEE M/d h:mm a')}
+                      </td>
+                      <td className="px-4 py-2">{purchase.technicianName || <span className="text-gray-400">Unassigned</span>}</td>
+                      <td className="px-4 py-2">
+                        <div className="font-medium">{purchase.merchantName || 'Unknown merchant'}</div>
+                        {purchase.merchantAddress && <div className="text-xs text-gray-500">{purchase.merchantAddress}</div>}
+                      </td>
+                      <td className="px-4 py-2">{purchase.gallons ?? '-'}</td>
+                      <td className="px-4 py-2">{formatDollars(purchase.amountCents)}</td>
+                      <td className="px-4 py-2">
+                        <div className="text-red-600 font-medium">
+                          {describeLocationCheck(purchase.locationCheck, purchase.truckDistanceMiles)}
+                        </div>
+                        {purchase.truckAddress && <div className="text-xs text-gray-500">{purchase.truckAddress}</div>}
+                      </td>
+                    </tr>
+                  ))}
+                  {report.flaggedPurchases.length === 0 && (
+                    <tr>
+                      <td colSpan={6} className="px-4 py-6 text-center text-gray-500">
+                        Every purchase with truck GPS was made at the truck
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      )}
+    </main>
+  );
+}
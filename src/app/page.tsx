@@ -16,6 +16,8 @@ import {
 } from 'lucide-react';
 import { supabase } from '@/lib/supabase';
 import AnnotationsReviewPanel from '@/components/AnnotationsReviewPanel';
+import TimesheetExportPanel from '@/components/TimesheetExportPanel';
+import { useAuth } from '@/components/AuthProvider';
 
 interface Technician {
   id: string;
@@ -47,6 +49,8 @@ interface Discrepancy {
 }
 
 export default function Dashboard() {
+  const { user } = useAuth();
+  const canExportPayroll = user?.role === 'admin' || user?.role === 'service_manager' || user?.role === 'payroll';
   const [discrepancies, setDiscrepancies] = useState<Discrepancy[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -417,6 +421,13 @@ export default function Dashboard() {
       <div className="mt-6">
         <AnnotationsReviewPanel />
       </div>
+
+      {/* Payroll Export */}
+      {canExportPayroll && (
+        <div className="mt-6">
+          <TimesheetExportPanel />
+        </div>
+      )}
     </main>
   );
 }
@@ -0,0 +1,345 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { format, parseISO, addDays, subDays, startOfWeek } from 'date-fns';
+import {
+  ClipboardCheck,
+  ChevronLeft,
+  ChevronRight,
+  RefreshCw,
+  FileDown,
+  AlertTriangle,
+  Clock,
+  Building,
+  Route,
+  HelpCircle,
+  Package,
+  DollarSign,
+  Gauge,
+} from 'lucide-react';
+import { TechnicianScorecard } from '@/types/scorecard';
+
+interface Technician {
+  id: string;
+  name: string;
+  verizon_vehicle_id: string | null;
+}
+
+function getWeekStart(date: Date): string {
+  return format(startOfWeek(date, { weekStartsOn: 0 }), 'yyyy-MM-dd');
+}
+
+function formatPercent(value: number | null): string {
+  return value === null ? '-' : `${value}%`;
+}
+
+function MetricTile({
+  icon,
+  label,
+  value,
+  detail,
+  flagged,
+}: {
+  icon: React.ReactNode;
+  label: string;
+  value: string;
+  detail: string;
+  flagged?: boolean;
+}) {
+  return (
+    <div className={`rounded-lg border p-4 ${flagged ? 'border-red-200 bg-red-50' : 'bg-white'}`}>
+      <div className="flex items-center gap-2 text-xs font-medium uppercase text-gray-500">
+        {icon}
+        {label}
+      </div>
+      <div className={`text-2xl font-bold mt-2 ${flagged ? 'text-red-700' : 'text-gray-900'}`}>{value}</div>
+      <div className="text-xs text-gray-500 mt-1">{detail}</div>
+    </div>
+  );
+}
+
+export default function ScorecardPage() {
+  const [technicians, setTechnicians] = useState<Technician[]>([]);
+  const [technicianId, setTechnicianId] = useState('');
+  const [weekStart, setWeekStart] = useState(() => getWeekStart(subDays(new Date(), 7)));
+  const [scorecard, setScorecard] = useState<TechnicianScorecard | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchTechnicians = async () => {
+      try {
+        const response = await fetch('/api/technicians');
+        const data = await response.json();
+        if (data.success) {
+          setTechnicians(data.technicians.filter((t: Technician) => t.verizon_vehicle_id));
+        }
+      } catch (err) {
+        console.error('Error fetching technicians:', err);
+      }
+    };
+    fetchTechnicians();
+  }, []);
+
+  const fetchScorecard = useCallback(async () => {
+    if (!technicianId) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/reports/scorecard?technicianId=${technicianId}&weekStart=${weekStart}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+      setScorecard(data.scorecard);
+    } catch (err) {
+      setScorecard(null);
+      setError(err instanceof Error ? err.message : 'Failed to load scorecard');
+    } finally {
+      setLoading(false);
+    }
+  }, [technicianId, weekStart]);
+
+  useEffect(() => {
+    fetchScorecard();
+  }, [fetchScorecard]);
+
+  const shiftWeek = (weeks: number) => {
+    setWeekStart(prev => format(addDays(parseISO(prev), weeks * 7), 'yyyy-MM-dd'));
+  };
+
+  const weekEnd = format(addDays(parseISO(weekStart), 6), 'yyyy-MM-dd');
+  const isCurrentWeek = weekStart >= getWeekStart(new Date());
+
+  return (
+    <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+      {/* Page Header */}
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Weekly Scorecard</h1>
+          <p className="text-gray-500 mt-1">One page per technician for one-on-ones</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <select
+            value={technicianId}
+            onChange={(e) => setTechnicianId(e.target.value)}
+            className="px-3 py-2 border rounded-lg text-sm text-gray-900 bg-white"
+          >
+            <option value="">Select technician...</option>
+            {technicians.map(t => (
+              <option key={t.id} value={t.id}>{t.name}</option>
+            ))}
+          </select>
+          <div className="flex items-center border rounded-lg bg-white">
+            <button onClick={() => shiftWeek(-1)} className="p-2 text-gray-500 hover:text-gray-900">
+              <ChevronLeft className="w-4 h-4" />
+            </button>
+            <span className="px-2 text-sm text-gray-900 whitespace-nowrap">
+              {format(parseISO(weekStart), 'MMM d')} - {format(parseISO(weekEnd), 'MMM d, yyyy')}
+            </span>
+            <button
+              onClick={() => shiftWeek(1)}
+              disabled={isCurrentWeek}
+              className="p-2 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+            >
+              <ChevronRight className="w-4 h-4" />
+            </button>
+          </div>
+          <button
+            onClick={fetchScorecard}
+            disabled={loading || !technicianId}
+            className="flex items-center gap-2 px-4 py-2 text-gray-600 hover:text-gray-900 border rounded-lg bg-white hover:bg-gray-50 disabled:opacity-50"
+          >
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </button>
+          {technicianId && (
+            <a
+              href={`/api/reports/scorecard?technicianId=${technicianId}&weekStart=${weekStart}&format=pdf`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+            >
+              <FileDown className="w-4 h-4" />
+              PDF
+            </a>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-6 bg-red-50 border border-red-200 rounded-lg p-4 flex items-center gap-2 text-red-700">
+          <AlertTriangle className="w-5 h-5" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {!technicianId ? (
+        <div className="bg-white rounded-lg shadow-sm border p-12 text-center text-gray-500">
+          <ClipboardCheck className="w-10 h-10 mx-auto mb-3 text-gray-300" />
+          Select a technician to build their scorecard
+        </div>
+      ) : loading && !scorecard ? (
+        <div className="bg-white rounded-lg shadow-sm border p-12 text-center text-gray-500">
+          <RefreshCw className="w-6 h-6 mx-auto mb-3 animate-spin" />
+          Building timelines for the week...
+        </div>
+      ) : scorecard && (
+        <div className="space-y-6">
+          <div className="text-sm text-gray-500">
+            {scorecard.technicianName} - {scorecard.daysWorked} day(s) worked
+          </div>
+
+          {/* Metric tiles */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <MetricTile
+              icon={<Clock className="w-4 h-4" />}
+              label="First Job On Time"
+              value={formatPercent(scorecard.firstJob.onTimePercentage)}
+              detail={`${scorecard.firstJob.onTime} of ${scorecard.firstJob.verifiedDays} days${
+                scorecard.firstJob.late > 0 ? `, avg ${scorecard.firstJob.avgLateMinutes}m late` : ''
+              }`}
+              flagged={scorecard.firstJob.late > 0}
+            />
+            <MetricTile
+              icon={<AlertTriangle className="w-4 h-4" />}
+              label="Punch Violations"
+              value={String(scorecard.punchViolations.count)}
+              detail="Clock events away from the expected location"
+              flagged={scorecard.punchViolations.count > 0}
+            />
+            <MetricTile
+              icon={<Building className="w-4 h-4" />}
+              label="Unnecessary Office Visits"
+              value={String(scorecard.officeVisits.unnecessary)}
+              detail={`${scorecard.officeVisits.unnecessaryMinutes} min at the shop`}
+              flagged={scorecard.officeVisits.unnecessary > 0}
+            />
+            <MetricTile
+              icon={<Route className="w-4 h-4" />}
+              label="Suspicious Transits"
+              value={String(scorecard.suspiciousTransits.count)}
+              detail={`${scorecard.suspiciousTransits.excessMinutes} min over expected drive time`}
+              flagged={scorecard.suspiciousTransits.count > 0}
+            />
+            <MetricTile
+              icon={<HelpCircle className="w-4 h-4" />}
+              label="Unknown Stops"
+              value={`${scorecard.unknownStops.minutes} min`}
+              detail={`${scorecard.unknownStops.count} unlabeled stop(s)`}
+            />
+            <MetricTile
+              icon={<Gauge className="w-4 h-4" />}
+              label="Driving Safety"
+              value={String(scorecard.safety.speedingEvents + scorecard.safety.harshBraking + scorecard.safety.harshAcceleration)}
+              detail={`${scorecard.safety.speedingEvents} speeding, ${scorecard.safety.harshBraking + scorecard.safety.harshAcceleration} harsh${
+                scorecard.safety.eventsPer100Miles !== null ? `, ${scorecard.safety.eventsPer100Miles} per 100 mi` : ''
+              }${scorecard.safety.maxSpeedMph !== null ? `, top ${scorecard.safety.maxSpeedMph} mph` : ''}`}
+              flagged={scorecard.safety.speedingEvents + scorecard.safety.harshBraking + scorecard.safety.harshAcceleration > 0}
+            />
+            <MetricTile
+              icon={<Package className="w-4 h-4" />}
+              label="Material Pickups"
+              value={formatPercent(scorecard.materials.pickupPercentage)}
+              detail={`${scorecard.materials.pickups} pickup(s) vs ${scorecard.materials.deliveries} deliver(ies)`}
+            />
+            <MetricTile
+              icon={<DollarSign className="w-4 h-4" />}
+              label="Estimate Close Rate"
+              value={formatPercent(scorecard.estimates.closeRate)}
+              detail={`${scorecard.estimates.sold} of ${scorecard.estimates.total} sold, $${Math.round(scorecard.estimates.soldValue).toLocaleString()} of $${Math.round(scorecard.estimates.totalValue).toLocaleString()}`}
+            />
+          </div>
+
+          {/* Daily breakdown */}
+          <div className="bg-white rounded-lg shadow-sm border overflow-hidden">
+            <div className="px-4 py-3 border-b bg-gray-50">
+              <h2 className="font-semibold text-gray-900">Daily Breakdown</h2>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500 uppercase border-b">
+                    <th className="px-4 py-2">Day</th>
+                    <th className="px-4 py-2">Jobs</th>
+                    <th className="px-4 py-2">First Job</th>
+                    <th className="px-4 py-2">Violations</th>
+                    <th className="px-4 py-2">Office</th>
+                    <th className="px-4 py-2">Transits</th>
+                    <th className="px-4 py-2">Unknown</th>
+                    <th className="px-4 py-2">Pickup / Delivery</th>
+                    <th className="px-4 py-2">Speeding / Harsh</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {scorecard.days.map(day => (
+                    <tr key={day.date} className="text-gray-900">
+                      <td className="px-4 py-2">
+                        <Link
+                          href={`/stops?technicianId=${scorecard.technicianId}&date=${day.date}`}
+                          className="text-blue-600 hover:underline"
+                        >
+                          {format(parseISO(day.date), 'EEE M/d')}
+                        </Link>
+                      </td>
+                      <td className="px-4 py-2">{day.totalJobs}</td>
+                      <td className={`px-4 py-2 ${day.firstJobOnTime === false ? 'text-red-600' : ''}`}>
+                        {day.firstJobOnTime === null
+                          ? '-'
+                          : day.firstJobOnTime ? 'On time' : `${day.firstJobVariance ?? 0}m late`}
+                      </td>
+                      <td className={`px-4 py-2 ${day.punchViolations > 0 ? 'text-red-600' : ''}`}>{day.punchViolations}</td>
+                      <td className={`px-4 py-2 ${day.unnecessaryOfficeVisits > 0 ? 'text-red-600' : ''}`}>{day.unnecessaryOfficeVisits}</td>
+                      <td className={`px-4 py-2 ${day.suspiciousTransits > 0 ? 'text-red-600' : ''}`}>{day.suspiciousTransits}</td>
+                      <td className="px-4 py-2">{day.unknownStopMinutes}m</td>
+                      <td className="px-4 py-2">{day.materialPickups} / {day.materialDeliveries}</td>
+                      <td className={`px-4 py-2 ${day.speedingEvents + day.harshDrivingEvents > 0 ? 'text-red-600' : ''}`}>
+                        {day.speedingEvents} / {day.harshDrivingEvents}
+                      </td>
+                    </tr>
+                  ))}
+                  {scorecard.days.length === 0 && (
+                    <tr>
+                      <td colSpan={9} className="px-4 py-6 text-center text-gray-500">No worked days this week</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+            {scorecard.unavailableDays.length > 0 && (
+              <div className="px-4 py-2 border-t text-xs text-red-600">
+                Timeline unavailable (not counted): {scorecard.unavailableDays.map(d => format(parseISO(d), 'EEE M/d')).join(', ')}
+              </div>
+            )}
+          </div>
+
+          {scorecard.punchViolations.reasons.length > 0 && (
+            <div className="bg-white rounded-lg shadow-sm border overflow-hidden">
+              <div className="px-4 py-3 border-b bg-gray-50">
+                <h2 className="font-semibold text-gray-900">Punch Violations</h2>
+              </div>
+              <ul className="divide-y text-sm text-gray-700">
+                {scorecard.punchViolations.reasons.map((reason, i) => (
+                  <li key={i} className="px-4 py-2">{reason}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {scorecard.safety.incidents.length > 0 && (
+            <div className="bg-white rounded-lg shadow-sm border overflow-hidden">
+              <div className="px-4 py-3 border-b bg-gray-50 flex items-center justify-between">
+                <h2 className="font-semibold text-gray-900">Driving Events</h2>
+                <span className="text-sm text-gray-500">{scorecard.safety.drivenMiles} mi driven</span>
+              </div>
+              <ul className="divide-y text-sm text-gray-700">
+                {scorecard.safety.incidents.map((incident, i) => (
+                  <li key={i} className="px-4 py-2">{incident}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,376 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { format, parseISO, subDays } from 'date-fns';
+import {
+  ArrowLeft,
+  Bell,
+  Mail,
+  MessageSquare,
+  Webhook,
+  Plus,
+  Trash2,
+  RefreshCw,
+  AlertTriangle,
+  CheckCircle,
+  X,
+} from 'lucide-react';
+import { useAuth } from '@/components/AuthProvider';
+import {
+  ALERT_CHANNELS,
+  ALERT_TYPES,
+  ALERT_TYPE_LABELS,
+  AlertChannel,
+  AlertEvent,
+  AlertSubscription,
+  AlertType,
+} from '@/types/alerts';
+
+interface OfficeInfo {
+  id: string;
+  name: string;
+}
+
+interface AlertDelivery {
+  channel: string;
+  target: string;
+  status: string;
+  attempts: number;
+  error: string | null;
+  sent_at: string | null;
+}
+
+interface AlertWithDeliveries extends AlertEvent {
+  deliveries: AlertDelivery[];
+}
+
+const CHANNEL_INFO: Record<AlertChannel, { label: string; icon: React.ReactNode; placeholder: string }> = {
+  email: { label: 'Email', icon: <Mail className="w-4 h-4" />, placeholder: 'you@example.com' },
+  sms: { label: 'SMS', icon: <MessageSquare className="w-4 h-4" />, placeholder: '+13365551234' },
+  webhook: { label: 'Webhook', icon: <Webhook className="w-4 h-4" />, placeholder: 'https://hooks.slack.com/services/...' },
+};
+
+export default function AlertSettingsPage() {
+  const { user } = useAuth();
+  const canManage = user?.role === 'admin' || user?.role === 'service_manager';
+
+  const [subscriptions, setSubscriptions] = useState<AlertSubscription[]>([]);
+  const [alerts, setAlerts] = useState<AlertWithDeliveries[]>([]);
+  const [offices, setOffices] = useState<OfficeInfo[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  // New subscription form
+  const [channel, setChannel] = useState<AlertChannel>('email');
+  const [target, setTarget] = useState('');
+  const [alertTypes, setAlertTypes] = useState<AlertType[]>([]);
+  const [officeId, setOfficeId] = useState('');
+
+  const fetchData = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const startDate = format(subDays(new Date(), 7), 'yyyy-MM-dd');
+      const [alertsResponse, officesResponse, subsResponse] = await Promise.all([
+        fetch(`/api/alerts?startDate=${startDate}`),
+        fetch('/api/offices'),
+        canManage ? fetch('/api/alert-subscriptions') : Promise.resolve(null),
+      ]);
+
+      const alertsData = await alertsResponse.json();
+      const officesData = await officesResponse.json();
+      if (!alertsResponse.ok) throw new Error(alertsData.error);
+      if (!officesResponse.ok) throw new Error(officesData.error);
+
+      setAlerts(alertsData.alerts || []);
+      setOffices(officesData.offices || []);
+
+      if (subsResponse) {
+        const subsData = await subsResponse.json();
+        if (!subsResponse.ok) throw new Error(subsData.error);
+        setSubscriptions(subsData.subscriptions || []);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load alerts');
+    } finally {
+      setLoading(false);
+    }
+  }, [canManage]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const toggleAlertType = (type: AlertType) => {
+    setAlertTypes(prev => (prev.includes(type) ? prev.filter(t => t !== type) : [...prev, type]));
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/alert-subscriptions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ channel, target, alertTypes, officeId: officeId || null }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      setSubscriptions(prev => [...prev, data.subscription]);
+      setTarget('');
+      setAlertTypes([]);
+      setOfficeId('');
+      setSuccess(`${CHANNEL_INFO[channel].label} alerts added`);
+      setTimeout(() => setSuccess(null), 3000);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add subscription');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (subscription: AlertSubscription) => {
+    try {
+      const response = await fetch('/api/alert-subscriptions', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: subscription.id, active: !subscription.active }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+      setSubscriptions(prev => prev.map(s => (s.id === subscription.id ? data.subscription : s)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update subscription');
+    }
+  };
+
+  const handleDelete = async (subscription: AlertSubscription) => {
+    if (!confirm(`Stop sending alerts to ${subscription.target}?`)) return;
+    try {
+      const response = await fetch(`/api/alert-subscriptions?id=${subscription.id}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+      setSubscriptions(prev => prev.filter(s => s.id !== subscription.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete subscription');
+    }
+  };
+
+  const officeName = (id?: string) => offices.find(o => o.id === id)?.name || 'Unknown branch';
+
+  return (
+    <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+      {/* Page Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-4">
+          <Link
+            href="/settings"
+            className="flex items-center gap-2 text-gray-500 hover:text-gray-700"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            Back
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Alerts</h1>
+            <p className="text-gray-500 mt-1">Get notified about violations during the workday</p>
+          </div>
+        </div>
+        <button
+          onClick={fetchData}
+          disabled={loading}
+          className="flex items-center gap-2 px-4 py-2 text-gray-600 hover:text-gray-900 border rounded-lg hover:bg-gray-50"
+        >
+          <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-6 bg-red-50 border border-red-200 rounded-lg p-4 flex items-center justify-between">
+          <div className="flex items-center gap-2 text-red-700">
+            <AlertTriangle className="w-5 h-5" />
+            <span>{error}</span>
+          </div>
+          <button onClick={() => setError(null)}>
+            <X className="w-5 h-5 text-red-500" />
+          </button>
+        </div>
+      )}
+
+      {success && (
+        <div className="mb-6 bg-green-50 border border-green-200 rounded-lg p-4 flex items-center gap-2 text-green-700">
+          <CheckCircle className="w-5 h-5" />
+          <span>{success}</span>
+        </div>
+      )}
+
+      {/* My Channels */}
+      {canManage && (
+        <div className="bg-white rounded-lg shadow-sm border overflow-hidden mb-6">
+          <div className="px-4 py-3 border-b bg-gray-50">
+            <h2 className="font-semibold text-gray-900">My Alert Channels</h2>
+          </div>
+
+          <form onSubmit={handleAdd} className="p-4 border-b space-y-3">
+            <div className="flex flex-wrap items-end gap-3">
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">Channel</label>
+                <select
+                  value={channel}
+                  onChange={(e) => setChannel(e.target.value as AlertChannel)}
+                  className="px-3 py-2 border rounded-lg text-sm text-gray-900"
+                >
+                  {ALERT_CHANNELS.map(c => (
+                    <option key={c} value={c}>{CHANNEL_INFO[c].label}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex-1 min-w-64">
+                <label className="block text-xs text-gray-500 mb-1">Send to</label>
+                <input
+                  type="text"
+                  value={target}
+                  onChange={(e) => setTarget(e.target.value)}
+                  placeholder={CHANNEL_INFO[channel].placeholder}
+                  required
+                  className="w-full px-3 py-2 border rounded-lg text-sm text-gray-900"
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">Technicians</label>
+                <select
+                  value={officeId}
+                  onChange={(e) => setOfficeId(e.target.value)}
+                  className="px-3 py-2 border rounded-lg text-sm text-gray-900"
+                >
+                  <option value="">All branches</option>
+                  {offices.map(o => (
+                    <option key={o.id} value={o.id}>{o.name}</option>
+                  ))}
+                </select>
+              </div>
+              <button
+                type="submit"
+                disabled={saving || !target}
+                className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+              >
+                <Plus className="w-4 h-4" />
+                Add
+              </button>
+            </div>
+            <div className="flex flex-wrap items-center gap-4 text-sm text-gray-700">
+              <span className="text-xs text-gray-500">Alert on (none checked = everything):</span>
+              {ALERT_TYPES.map(type => (
+                <label key={type} className="flex items-center gap-1.5">
+                  <input
+                    type="checkbox"
+                    checked={alertTypes.includes(type)}
+                    onChange={() => toggleAlertType(type)}
+                  />
+                  {ALERT_TYPE_LABELS[type]}
+                </label>
+              ))}
+            </div>
+          </form>
+
+          {subscriptions.length === 0 ? (
+            <div className="p-6 text-center text-gray-500 text-sm">No alert channels yet</div>
+          ) : (
+            <div className="divide-y">
+              {subscriptions.map(subscription => (
+                <div key={subscription.id} className="px-4 py-3 flex items-center justify-between gap-4">
+                  <div className="flex items-center gap-3 min-w-0">
+                    <span className="text-gray-500">{CHANNEL_INFO[subscription.channel].icon}</span>
+                    <div className="min-w-0">
+                      <div className={`font-medium truncate ${subscription.active ? 'text-gray-900' : 'text-gray-400 line-through'}`}>
+                        {subscription.target}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {subscription.alertTypes.length === 0
+                          ? 'All alerts'
+                          : subscription.alertTypes.map(t => ALERT_TYPE_LABELS[t]).join(', ')}
+                        {' · '}
+                        {subscription.officeId ? officeName(subscription.officeId) : 'All branches'}
+                      </div>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    <button
+                      onClick={() => handleToggleActive(subscription)}
+                      className="px-3 py-1 text-sm border rounded hover:bg-gray-50"
+                    >
+                      {subscription.active ? 'Pause' : 'Resume'}
+                    </button>
+                    <button
+                      onClick={() => handleDelete(subscription)}
+                      className="p-1.5 text-red-600 hover:bg-red-50 rounded"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Recent Alerts */}
+      <div className="bg-white rounded-lg shadow-sm border overflow-hidden">
+        <div className="px-4 py-3 border-b bg-gray-50 flex items-center gap-2">
+          <Bell className="w-4 h-4 text-gray-500" />
+          <h2 className="font-semibold text-gray-900">Alerts - Last 7 Days ({alerts.length})</h2>
+        </div>
+        {alerts.length === 0 ? (
+          <div className="p-6 text-center text-gray-500 text-sm">
+            {loading ? 'Loading...' : 'No alerts raised'}
+          </div>
+        ) : (
+          <div className="divide-y max-h-[32rem] overflow-y-auto">
+            {alerts.map(alert => {
+              const failed = alert.deliveries.filter(d => d.status === 'failed');
+              return (
+                <div key={alert.id} className="px-4 py-3">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <span className="text-xs font-medium px-2 py-0.5 rounded bg-orange-100 text-orange-700">
+                          {ALERT_TYPE_LABELS[alert.alertType] || alert.alertType}
+                        </span>
+                        {alert.technicianId ? (
+                          <Link
+                            href={`/stops?technicianId=${alert.technicianId}&date=${alert.eventDate}`}
+                            className="font-medium text-gray-900 hover:underline"
+                          >
+                            {alert.title}
+                          </Link>
+                        ) : (
+                          <span className="font-medium text-gray-900">{alert.title}</span>
+                        )}
+                      </div>
+                      <p className="text-sm text-gray-600 mt-1">{alert.message}</p>
+                      {failed.length > 0 && (
+                        <p className="text-xs text-red-600 mt-1">
+                          Delivery failed: {failed.map(d => `${d.target} (${d.error})`).join('; ')}
+                        </p>
+                      )}
+                    </div>
+                    <div className="text-right text-xs text-gray-500 flex-shrink-0">
+                      <div>{alert.createdAt ? format(parseISO(alert.createdAt), 'MMM d, h:mm a') : ''}</div>
+                      <div>{alert.deliveries.filter(d => d.status === 'sent').length} sent</div>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -1,7 +1,8 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { Fragment, useState, useEffect, useCallback } from 'react';
 import Link from 'next/link';
+import { format, parseISO } from 'date-fns';
 import {
   Truck,
   User,
@@ -15,7 +16,12 @@ import {
   MapPin,
   Check,
   Pencil,
+  Bell,
+  History,
+  Trash2,
 } from 'lucide-react';
+import PaylocityLinkQueue from '@/components/PaylocityLinkQueue';
+import type { TruckAssignment } from '@/types/truck-assignment';
 
 interface Technician {
   id: string;
@@ -28,6 +34,8 @@ interface Technician {
   home_latitude: number | null;
   home_longitude: number | null;
   home_address: string | null;
+  home_office_id: string | null;
+  coast_card_id: string | null;
 }
 
 interface HomeLocationSuggestion {
@@ -40,16 +48,23 @@ interface HomeLocationSuggestion {
   totalDaysAnalyzed: number;
 }
 
+interface OfficeInfo {
+  id: string;
+  name: string;
+}
+
 interface TruckInfo {
   id: string;
   truck_number: string;
   verizon_vehicle_id: string;
   description: string | null;
+  expected_mpg: number | null;
 }
 
 export default function SettingsPage() {
   const [technicians, setTechnicians] = useState<Technician[]>([]);
   const [trucks, setTrucks] = useState<TruckInfo[]>([]);
+  const [offices, setOffices] = useState<OfficeInfo[]>([]);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
@@ -62,20 +77,26 @@ export default function SettingsPage() {
   const [manualHomeAddress, setManualHomeAddress] = useState<string>('');
   const [geocoding, setGeocoding] = useState(false);
   const [geocodeError, setGeocodeError] = useState<string | null>(null);
+  const [assignmentDate, setAssignmentDate] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [historyTechId, setHistoryTechId] = useState<string | null>(null);
+  const [assignmentHistory, setAssignmentHistory] = useState<TruckAssignment[]>([]);
 
   const fetchData = useCallback(async () => {
     setLoading(true);
     try {
-      const [techResponse, trucksResponse] = await Promise.all([
+      const [techResponse, trucksResponse, officesResponse] = await Promise.all([
         fetch('/api/technicians?activeOnly=true'),
         fetch('/api/trucks'),
+        fetch('/api/offices'),
       ]);
 
       const techData = await techResponse.json();
       const trucksData = await trucksResponse.json();
+      const officesData = await officesResponse.json();
 
       if (!techResponse.ok) throw new Error(techData.error);
       if (!trucksResponse.ok) throw new Error(trucksData.error);
+      if (!officesResponse.ok) throw new Error(officesData.error);
 
       // Filter out system/placeholder technicians
       const realTechs = (techData.technicians || []).filter(
@@ -89,6 +110,7 @@ export default function SettingsPage() {
 
       setTechnicians(realTechs);
       setTrucks(trucksData.trucks || []);
+      setOffices(officesData.offices || []);
     } catch (err: any) {
       setError(err.message);
     } finally {
@@ -100,40 +122,188 @@ export default function SettingsPage() {
     fetchData();
   }, [fetchData]);
 
+  const loadAssignmentHistory = async (techId: string) => {
+    try {
+      const response = await fetch(`/api/truck-assignments?technicianId=${techId}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+      setAssignmentHistory((data.assignments || []).slice().reverse());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load truck history');
+    }
+  };
+
+  const toggleAssignmentHistory = (techId: string) => {
+    if (historyTechId === techId) {
+      setHistoryTechId(null);
+      return;
+    }
+    setHistoryTechId(techId);
+    setAssignmentHistory([]);
+    loadAssignmentHistory(techId);
+  };
+
   const handleTruckAssignment = async (techId: string, truckNumber: string | null) => {
     setSaving(techId);
     setError(null);
     setSuccess(null);
 
+    try {
+      // Recorded as a dated change - days before it keep the truck they had
+      const response = await fetch('/api/truck-assignments', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          technicianId: techId,
+          vehicleId: truckNumber,
+          effectiveFrom: assignmentDate,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      // Update local state - a change from today or earlier is the current assignment,
+      // and takes the truck from whoever had it
+      if (assignmentDate <= format(new Date(), 'yyyy-MM-dd')) {
+        setTechnicians((prev) =>
+          prev.map((t) =>
+            t.id === techId
+              ? { ...t, verizon_vehicle_id: truckNumber }
+              : truckNumber && t.verizon_vehicle_id === truckNumber
+              ? { ...t, verizon_vehicle_id: null }
+              : t
+          )
+        );
+      }
+      if (historyTechId === techId) loadAssignmentHistory(techId);
+
+      setSuccess(`Truck assignment updated from ${format(parseISO(assignmentDate), 'MMM d, yyyy')}`);
+      setTimeout(() => setSuccess(null), 3000);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update truck assignment');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const handleDeleteAssignment = async (assignment: TruckAssignment) => {
+    if (!confirm(`Delete ${assignment.vehicleId} from ${assignment.effectiveFrom}? Those days will have no truck.`)) return;
+
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/truck-assignments?id=${assignment.id}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      await Promise.all([fetchData(), loadAssignmentHistory(assignment.technicianId)]);
+      setSuccess('Truck assignment deleted');
+      setTimeout(() => setSuccess(null), 3000);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete truck assignment');
+    }
+  };
+
+  const handleHomeOfficeChange = async (techId: string, officeId: string | null) => {
+    setSaving(techId);
+    setError(null);
+
     try {
       const response = await fetch('/api/technicians', {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           id: techId,
-          verizon_vehicle_id: truckNumber,
+          home_office_id: officeId,
         }),
       });
 
       const data = await response.json();
       if (!response.ok) throw new Error(data.error);
 
-      // Update local state
       setTechnicians((prev) =>
         prev.map((t) =>
-          t.id === techId ? { ...t, verizon_vehicle_id: truckNumber } : t
+          t.id === techId ? { ...t, home_office_id: officeId } : t
         )
       );
 
-      setSuccess(`Truck assignment updated successfully`);
+      setSuccess('Home branch updated');
       setTimeout(() => setSuccess(null), 3000);
-    } catch (err: any) {
-      setError(err.message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update home branch');
     } finally {
       setSaving(null);
     }
   };
 
+  const handleFuelCardChange = async (techId: string, cardId: string) => {
+    const coastCardId = cardId.trim() || null;
+    if (technicians.find((t) => t.id === techId)?.coast_card_id === coastCardId) return;
+
+    setSaving(techId);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/technicians', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          id: techId,
+          coast_card_id: coastCardId,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      setTechnicians((prev) =>
+        prev.map((t) =>
+          t.id === techId ? { ...t, coast_card_id: coastCardId } : t
+        )
+      );
+
+      setSuccess('Fuel card updated');
+      setTimeout(() => setSuccess(null), 3000);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update fuel card');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const handleExpectedMpgChange = async (truckId: string, value: string) => {
+    const expectedMpg = value.trim() === '' ? null : Number(value);
+    if (trucks.find((t) => t.id === truckId)?.expected_mpg === expectedMpg) return;
+
+    setError(null);
+
+    try {
+      const response = await fetch('/api/trucks', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          id: truckId,
+          expected_mpg: expectedMpg,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      setTrucks((prev) =>
+        prev.map((t) =>
+          t.id === truckId ? { ...t, expected_mpg: data.truck.expected_mpg } : t
+        )
+      );
+
+      setSuccess('Expected MPG updated');
+      setTimeout(() => setSuccess(null), 3000);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update expected MPG');
+    }
+  };
+
   const handleOfficeEmployeeToggle = async (techId: string, checked: boolean) => {
     setSaving(techId);
     setError(null);
@@ -443,6 +613,13 @@ export default function SettingsPage() {
             <MapPin className="w-4 h-4" />
             Custom Locations
           </Link>
+          <Link
+            href="/settings/alerts"
+            className="flex items-center gap-2 px-4 py-2 text-gray-600 hover:text-gray-900 border rounded-lg hover:bg-gray-50"
+          >
+            <Bell className="w-4 h-4" />
+            Alerts
+          </Link>
           <button
             onClick={fetchData}
             disabled={loading}
@@ -510,6 +687,9 @@ export default function SettingsPage() {
           </div>
         </div>
 
+        {/* Paylocity link review queue */}
+        <PaylocityLinkQueue />
+
         {/* Filters */}
         <div className="bg-white rounded-lg shadow-sm border p-4 mb-6">
           <div className="flex flex-wrap items-center gap-4">
@@ -532,6 +712,16 @@ export default function SettingsPage() {
               />
               <span className="text-sm text-gray-700">Show unassigned only</span>
             </label>
+            <label className="flex items-center gap-2">
+              <span className="text-sm text-gray-700">Truck changes take effect</span>
+              <input
+                type="date"
+                value={assignmentDate}
+                onChange={(e) => e.target.value && setAssignmentDate(e.target.value)}
+                className="border rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                title="Backdate a truck change to re-attribute the GPS from that day on"
+              />
+            </label>
           </div>
         </div>
 
@@ -542,7 +732,8 @@ export default function SettingsPage() {
               Assign Trucks to Technicians
             </h2>
             <p className="text-sm text-gray-500 mt-1">
-              Select a truck for each technician to enable GPS arrival tracking
+              Select a truck for each technician to enable GPS arrival tracking. Changes are dated - earlier
+              days keep the truck the technician had then.
             </p>
           </div>
 
@@ -562,6 +753,12 @@ export default function SettingsPage() {
                     <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
                       Assigned Truck
                     </th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                      Home Branch
+                    </th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                      Fuel Card
+                    </th>
                     <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase">
                       Office Employee
                     </th>
@@ -587,8 +784,8 @@ export default function SettingsPage() {
                     const isEditingHome = editingHomeAddress === tech.id;
 
                     return (
+                      <Fragment key={tech.id}>
                       <tr
-                        key={tech.id}
                         className={`hover:bg-gray-50 ${
                           isOfficeEmployee
                             ? 'bg-blue-50'
@@ -630,11 +827,11 @@ export default function SettingsPage() {
                                 const isAssignedToOther =
                                   assignedTech && assignedTech.id !== tech.id;
 
+                                // Picking a truck someone else has moves it from the effective date
                                 return (
                                   <option
                                     key={truck.id}
                                     value={truck.truck_number}
-                                    disabled={isAssignedToOther}
                                   >
                                     {truck.truck_number}
                                     {truck.description ? ` - ${truck.description}` : ''}
@@ -645,11 +842,49 @@ export default function SettingsPage() {
                                 );
                               })}
                             </select>
+                            <button
+                              onClick={() => toggleAssignmentHistory(tech.id)}
+                              className={`p-1 rounded hover:bg-gray-100 ${historyTechId === tech.id ? 'text-blue-600' : 'text-gray-400'}`}
+                              title="Truck history"
+                            >
+                              <History className="w-4 h-4" />
+                            </button>
                             {isSaving && (
                               <RefreshCw className="w-4 h-4 text-blue-500 animate-spin" />
                             )}
                           </div>
                         </td>
+                        <td className="px-4 py-3">
+                          <select
+                            value={tech.home_office_id || ''}
+                            onChange={(e) =>
+                              handleHomeOfficeChange(tech.id, e.target.value || null)
+                            }
+                            disabled={isSaving}
+                            className="border rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 min-w-[130px]"
+                          >
+                            <option value="">-- Select Branch --</option>
+                            {offices.map((office) => (
+                              <option key={office.id} value={office.id}>
+                                {office.name}
+                              </option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="px-4 py-3">
+                          <input
+                            type="text"
+                            defaultValue={tech.coast_card_id || ''}
+                            onBlur={(e) => handleFuelCardChange(tech.id, e.target.value)}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter') e.currentTarget.blur();
+                            }}
+                            disabled={isSaving}
+                            placeholder="Coast card ID"
+                            className="border rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 w-[130px]"
+                            title="Coast fuel card - purchases on it show on this tech's timeline"
+                          />
+                        </td>
                         <td className="px-4 py-3 text-center">
                           <input
                             type="checkbox"
@@ -833,6 +1068,41 @@ export default function SettingsPage() {
                           )}
                         </td>
                       </tr>
+                      {historyTechId === tech.id && (
+                        <tr className="bg-gray-50">
+                          <td colSpan={8} className="px-4 py-3">
+                            <p className="text-xs font-medium text-gray-500 uppercase mb-2">Truck history</p>
+                            {assignmentHistory.length === 0 ? (
+                              <p className="text-sm text-gray-500">No dated truck assignments</p>
+                            ) : (
+                              <ul className="space-y-1">
+                                {assignmentHistory.map((assignment) => (
+                                  <li key={assignment.id} className="flex items-center gap-3 text-sm text-gray-900">
+                                    <Truck className="w-4 h-4 text-gray-400" />
+                                    <span className="font-medium w-20">{assignment.vehicleId}</span>
+                                    <span className="text-gray-600">
+                                      {format(parseISO(assignment.effectiveFrom), 'MMM d, yyyy')}
+                                      {' - '}
+                                      {assignment.effectiveTo ? format(parseISO(assignment.effectiveTo), 'MMM d, yyyy') : 'now'}
+                                    </span>
+                                    {assignment.createdBy && (
+                                      <span className="text-xs text-gray-400">by {assignment.createdBy}</span>
+                                    )}
+                                    <button
+                                      onClick={() => handleDeleteAssignment(assignment)}
+                                      className="ml-auto p-1 text-gray-400 hover:text-red-600"
+                                      title="Delete this assignment"
+                                    >
+                                      <Trash2 className="w-4 h-4" />
+                                    </button>
+                                  </li>
+                                ))}
+                              </ul>
+                            )}
+                          </td>
+                        </tr>
+                      )}
+                      </Fragment>
                     );
                   })}
                 </tbody>
@@ -846,7 +1116,7 @@ export default function SettingsPage() {
           <div className="px-4 py-3 border-b bg-gray-50">
             <h2 className="font-semibold text-gray-900">Available Trucks</h2>
             <p className="text-sm text-gray-500 mt-1">
-              Reference list of all Verizon GPS-tracked vehicles
+              Reference list of all Verizon GPS-tracked vehicles, with the MPG the fuel report expects of each
             </p>
           </div>
           <div className="p-4">
@@ -873,6 +1143,19 @@ export default function SettingsPage() {
                     <p className="text-xs text-gray-500 truncate">
                       {assignedTech ? assignedTech.name : 'Available'}
                     </p>
+                    <input
+                      type="number"
+                      min="1"
+                      step="0.1"
+                      defaultValue={truck.expected_mpg ?? ''}
+                      onBlur={(e) => handleExpectedMpgChange(truck.id, e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') e.currentTarget.blur();
+                      }}
+                      placeholder="MPG"
+                      className="mt-1 w-full border rounded px-2 py-1 text-xs bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      title="Expected miles per gallon - trucks well below it are flagged on the Fuel report"
+                    />
                   </div>
                 );
               })}
@@ -27,8 +27,11 @@ import AssignJobModal from '@/components/AssignJobModal';
 import PunchAnnotationModal from '@/components/PunchAnnotationModal';
 import ProposedPunchModal from '@/components/ProposedPunchModal';
 import ViolationsPanel, { Violation } from '@/components/ViolationsPanel';
+import AuditHistoryPanel from '@/components/AuditHistoryPanel';
 import DataStatusCard from '@/components/DataStatusCard';
+import RideAlongCard from '@/components/RideAlongCard';
 import { DayTimeline, TimelineEvent } from '@/types/timeline';
+import { AuditEvent } from '@/types/audit';
 import { LocationCategory, BoundaryType } from '@/types/custom-location';
 
 interface Technician {
@@ -105,6 +108,7 @@ export default function StopDetailsPage() {
   const [selectedTechId, setSelectedTechId] = useState<string>('');
   const [startDate, setStartDate] = useState<string>('');
   const [endDate, setEndDate] = useState<string>('');
+  const [breadcrumbStops, setBreadcrumbStops] = useState(false);
   const [timelines, setTimelines] = useState<DayTimeline[]>([]);
   const [loading, setLoading] = useState(false);
   const [loadingTechs, setLoadingTechs] = useState(true);
@@ -139,6 +143,9 @@ export default function StopDetailsPage() {
   // Violations state
   const [violations, setViolations] = useState<Violation[]>([]);
 
+  // Audit history state (who excused / approved / reviewed what)
+  const [auditEvents, setAuditEvents] = useState<AuditEvent[]>([]);
+
   // Initialize dates on client side
   useEffect(() => {
     const today = format(new Date(), 'yyyy-MM-dd');
@@ -153,9 +160,8 @@ export default function StopDetailsPage() {
         const response = await fetch('/api/technicians');
         const data = await response.json();
         if (data.success) {
-          // Filter to only technicians with GPS vehicles
-          const withGps = data.technicians.filter((t: Technician) => t.verizon_vehicle_id);
-          setTechnicians(withGps);
+          // Technicians without a truck are listed too - they may have ridden along with someone
+          setTechnicians(data.technicians);
         }
       } catch (err: any) {
         console.error('Error fetching technicians:', err);
@@ -228,11 +234,11 @@ export default function StopDetailsPage() {
       const end = parseISO(endDate);
       const dates = eachDayOfInterval({ start, end });
 
-      const [timelinesResults, violationsResponse] = await Promise.all([
+      const [timelinesResults, violationsResponse, auditResponse] = await Promise.all([
         Promise.all(dates.map(async (date) => {
           const dateStr = format(date, 'yyyy-MM-dd');
           const response = await fetch(
-            `/api/reports/technician-timeline?technicianId=${selectedTechId}&date=${dateStr}`
+            `/api/reports/technician-timeline?technicianId=${selectedTechId}&date=${dateStr}${breadcrumbStops ? '&stopDetection=breadcrumbs' : ''}`
           );
           const data = await response.json();
 
@@ -241,7 +247,8 @@ export default function StopDetailsPage() {
           }
           return null;
         })),
-        fetch(`/api/reports/punch-violations?startDate=${startDate}&endDate=${endDate}&technicianId=${selectedTechId}`)
+        fetch(`/api/reports/punch-violations?startDate=${startDate}&endDate=${endDate}&technicianId=${selectedTechId}`),
+        fetch(`/api/audit-events?technicianId=${selectedTechId}&startDate=${startDate}&endDate=${endDate}`),
       ]);
 
       const validTimelines = timelinesResults.filter((t): t is DayTimeline => t !== null);
@@ -251,10 +258,15 @@ export default function StopDetailsPage() {
       if (violationsData.success) {
         setViolations(violationsData.violations || []);
       }
+
+      const auditData = await auditResponse.json();
+      if (auditData.success) {
+        setAuditEvents(auditData.events || []);
+      }
     } catch (err: any) {
       console.error('[Fetch] Error:', err);
     }
-  }, [selectedTechId, startDate, endDate]);
+  }, [selectedTechId, startDate, endDate, breadcrumbStops]);
 
   const fetchTimelines = useCallback(async () => {
     if (!selectedTechId || !startDate || !endDate) return;
@@ -263,6 +275,7 @@ export default function StopDetailsPage() {
     setError(null);
     setTimelines([]);
     setViolations([]);
+    setAuditEvents([]);
     setExpandedCategory(null);
 
     try {
@@ -272,11 +285,11 @@ export default function StopDetailsPage() {
       const dates = eachDayOfInterval({ start, end });
 
       // Fetch timeline for each date and violations in parallel
-      const [timelinesResults, violationsResponse] = await Promise.all([
+      const [timelinesResults, violationsResponse, auditResponse] = await Promise.all([
         Promise.all(dates.map(async (date) => {
           const dateStr = format(date, 'yyyy-MM-dd');
           const response = await fetch(
-            `/api/reports/technician-timeline?technicianId=${selectedTechId}&date=${dateStr}`
+            `/api/reports/technician-timeline?technicianId=${selectedTechId}&date=${dateStr}${breadcrumbStops ? '&stopDetection=breadcrumbs' : ''}`
           );
           const data = await response.json();
 
@@ -285,7 +298,8 @@ export default function StopDetailsPage() {
           }
           return null;
         })),
-        fetch(`/api/reports/punch-violations?startDate=${startDate}&endDate=${endDate}&technicianId=${selectedTechId}`)
+        fetch(`/api/reports/punch-violations?startDate=${startDate}&endDate=${endDate}&technicianId=${selectedTechId}`),
+        fetch(`/api/audit-events?technicianId=${selectedTechId}&startDate=${startDate}&endDate=${endDate}`),
       ]);
 
       const validTimelines = timelinesResults.filter((t): t is DayTimeline => t !== null);
@@ -297,6 +311,12 @@ export default function StopDetailsPage() {
         setViolations(violationsData.violations || []);
       }
 
+      // Parse audit history
+      const auditData = await auditResponse.json();
+      if (auditData.success) {
+        setAuditEvents(auditData.events || []);
+      }
+
       // Trigger background sync to get fresh data
       // Don't await - let it run in background
       syncAndRefresh(false);
@@ -306,7 +326,7 @@ export default function StopDetailsPage() {
     } finally {
       setLoading(false);
     }
-  }, [selectedTechId, startDate, endDate, syncAndRefresh]);
+  }, [selectedTechId, startDate, endDate, breadcrumbStops, syncAndRefresh]);
 
   // Calculate time breakdown by category
   const categoryBreakdowns = useMemo((): CategoryBreakdown[] => {
@@ -698,7 +718,7 @@ export default function StopDetailsPage() {
               <option value="">Select a technician...</option>
               {technicians.map((tech) => (
                 <option key={tech.id} value={tech.id}>
-                  {tech.name}
+                  {tech.name}{!tech.verizon_vehicle_id && ' (no truck)'}
                 </option>
               ))}
             </select>
@@ -733,6 +753,20 @@ export default function StopDetailsPage() {
             />
           </div>
 
+          {/* Breadcrumb stop detection */}
+          <label
+            className="flex items-center gap-2 py-2.5 text-sm font-medium text-slate-700 cursor-pointer"
+            title="Also find stops made with the engine running, from GPS history points (slower)"
+          >
+            <input
+              type="checkbox"
+              checked={breadcrumbStops}
+              onChange={(e) => setBreadcrumbStops(e.target.checked)}
+              className="w-4 h-4 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+            />
+            Engine-on stops
+          </label>
+
           {/* Load Button */}
           <button
             onClick={fetchTimelines}
@@ -790,6 +824,17 @@ export default function StopDetailsPage() {
         </div>
       )}
 
+      {/* Ride-along - shown even without a timeline, since a helper has no GPS until it's recorded */}
+      {selectedTech && startDate && startDate === endDate && !loading && (
+        <RideAlongCard
+          technicianId={selectedTechId}
+          technicianName={selectedTech.name}
+          date={startDate}
+          technicians={technicians}
+          onChange={fetchTimelines}
+        />
+      )}
+
       {/* Content Area */}
       {!selectedTechId ? (
         <div className="bg-gradient-to-b from-white to-slate-50 rounded-2xl shadow-md border border-slate-200 p-16 text-center">
@@ -1017,6 +1062,14 @@ export default function StopDetailsPage() {
             />
           )}
 
+          {/* Audit History - who excused / approved / reviewed what, per day */}
+          {auditEvents.length > 0 && (
+            <AuditHistoryPanel
+              events={auditEvents}
+              technicianName={selectedTech?.name}
+            />
+          )}
+
           {/* Timeline List */}
           <div className="space-y-6">
             <h3 className="text-sm font-bold text-slate-700 uppercase tracking-wider">
@@ -13,11 +13,15 @@ import {
   ChevronUp,
   ExternalLink,
   Filter,
+  Check,
+  X,
+  Send,
 } from 'lucide-react';
 import Link from 'next/link';
+import { useAuth } from './AuthProvider';
 
 type AnnotationType = 'observation' | 'time_correction' | 'flagged';
-type ProposedStatus = 'pending' | 'submitted' | 'applied' | 'rejected';
+type ProposedStatus = 'pending' | 'approved' | 'submitted' | 'applied' | 'failed' | 'rejected';
 
 interface Annotation {
   id: string;
@@ -45,6 +49,9 @@ interface ProposedPunch {
   status: ProposedStatus;
   created_at: string;
   created_by: string;
+  submissionError: string | null;
+  submissionAttempts: number;
+  needsPaylocityCheck: boolean;
 }
 
 interface Stats {
@@ -81,8 +88,10 @@ const ANNOTATION_TYPE_INFO: Record<AnnotationType, { label: string; icon: React.
 
 const STATUS_INFO: Record<ProposedStatus, { label: string; bgColor: string; textColor: string }> = {
   pending: { label: 'Pending', bgColor: 'bg-yellow-100', textColor: 'text-yellow-700' },
+  approved: { label: 'Approved', bgColor: 'bg-teal-100', textColor: 'text-teal-700' },
   submitted: { label: 'Submitted', bgColor: 'bg-blue-100', textColor: 'text-blue-700' },
   applied: { label: 'Applied', bgColor: 'bg-green-100', textColor: 'text-green-700' },
+  failed: { label: 'Write-back Failed', bgColor: 'bg-rose-100', textColor: 'text-rose-700' },
   rejected: { label: 'Rejected', bgColor: 'bg-red-100', textColor: 'text-red-700' },
 };
 
@@ -97,6 +106,8 @@ function formatPunchType(type: string): string {
 }
 
 export default function AnnotationsReviewPanel() {
+  const { user } = useAuth();
+  const canReviewPunches = user?.role === 'admin' || user?.role === 'service_manager' || user?.role === 'payroll';
   const [loading, setLoading] = useState(true);
   const [stats, setStats] = useState<Stats>({
     totalObservations: 0,
@@ -111,6 +122,9 @@ export default function AnnotationsReviewPanel() {
   const [typeFilter, setTypeFilter] = useState<AnnotationType | 'all'>('all');
   const [statusFilter, setStatusFilter] = useState<ProposedStatus | 'all'>('all');
   const [expandedRows, setExpandedRows] = useState<Set<string>>(new Set());
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [writingBack, setWritingBack] = useState(false);
+  const [writebackMessage, setWritebackMessage] = useState<string | null>(null);
 
   const fetchData = async () => {
     setLoading(true);
@@ -133,6 +147,57 @@ export default function AnnotationsReviewPanel() {
     fetchData();
   }, []);
 
+  // Approve or reject a proposed punch; approved punches are included in the payroll export
+  const updateProposedStatus = async (id: string, status: ProposedStatus) => {
+    setUpdatingId(id);
+    try {
+      const response = await fetch('/api/proposed-punches', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id, status }),
+      });
+      const data = await response.json();
+      if (data.success) {
+        setProposedPunches(prev => prev.map(p => (p.id === id ? { ...p, status } : p)));
+        if (status !== 'pending') {
+          setStats(prev => ({ ...prev, pendingProposedPunches: Math.max(0, prev.pendingProposedPunches - 1) }));
+        }
+      } else {
+        console.error('Error updating proposed punch:', data.error);
+      }
+    } catch (err) {
+      console.error('Error updating proposed punch:', err);
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  // Push approved punches (or specific ones, e.g. a failed retry) to Paylocity
+  const writeBackToPaylocity = async (ids?: string[]) => {
+    setWritingBack(true);
+    setWritebackMessage(null);
+    try {
+      const response = await fetch('/api/proposed-punches/submit', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(ids ? { ids, retryFailed: true } : {}),
+      });
+      const data = await response.json();
+      if (data.success) {
+        const parts = [`${data.applied} applied`, `${data.failed} failed`];
+        if (data.stillProcessing > 0) parts.push(`${data.stillProcessing} still processing`);
+        setWritebackMessage(`Paylocity write-back: ${parts.join(', ')}`);
+        await fetchData();
+      } else {
+        setWritebackMessage(`Paylocity write-back failed: ${data.error}`);
+      }
+    } catch (err) {
+      setWritebackMessage(`Paylocity write-back failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setWritingBack(false);
+    }
+  };
+
   const toggleRow = (id: string) => {
     const newExpanded = new Set(expandedRows);
     if (newExpanded.has(id)) {
@@ -254,13 +319,29 @@ export default function AnnotationsReviewPanel() {
           >
             <option value="all">All Statuses</option>
             <option value="pending">Pending</option>
+            <option value="approved">Approved</option>
             <option value="submitted">Submitted</option>
             <option value="applied">Applied</option>
+            <option value="failed">Write-back Failed</option>
             <option value="rejected">Rejected</option>
           </select>
         )}
+        {activeTab === 'proposed' && canReviewPunches && (
+          <button
+            onClick={() => writeBackToPaylocity()}
+            disabled={writingBack || !proposedPunches.some(p => p.status === 'approved' || p.status === 'submitted')}
+            className="ml-auto inline-flex items-center gap-1 px-3 py-1 text-sm font-medium text-white bg-blue-600 rounded hover:bg-blue-700 disabled:opacity-50"
+          >
+            {writingBack ? <RefreshCw className="w-3 h-3 animate-spin" /> : <Send className="w-3 h-3" />}
+            Send Approved to Paylocity
+          </button>
+        )}
       </div>
 
+      {writebackMessage && activeTab === 'proposed' && (
+        <div className="px-4 py-2 border-b bg-blue-50 text-sm text-blue-800">{writebackMessage}</div>
+      )}
+
       {/* Content */}
       {loading ? (
         <div className="p-8 text-center">
@@ -397,7 +478,50 @@ export default function AnnotationsReviewPanel() {
                           <p className="text-xs text-gray-500 uppercase">Full Note / Evidence</p>
                           <p className="text-sm text-gray-900">{proposed.note}</p>
                         </div>
+                        {proposed.submissionError && (
+                          <div>
+                            <p className="text-xs text-gray-500 uppercase">
+                              Paylocity Error (attempt {proposed.submissionAttempts})
+                            </p>
+                            <p className="text-sm text-rose-700">{proposed.submissionError}</p>
+                          </div>
+                        )}
                         <div className="flex items-center gap-4">
+                          {canReviewPunches && proposed.status === 'pending' && (
+                            <>
+                              <button
+                                onClick={() => updateProposedStatus(proposed.id, 'approved')}
+                                disabled={updatingId === proposed.id}
+                                className="inline-flex items-center gap-1 px-3 py-1 text-sm font-medium text-white bg-teal-600 rounded hover:bg-teal-700 disabled:opacity-50"
+                              >
+                                <Check className="w-3 h-3" />
+                                Approve
+                              </button>
+                              <button
+                                onClick={() => updateProposedStatus(proposed.id, 'rejected')}
+                                disabled={updatingId === proposed.id}
+                                className="inline-flex items-center gap-1 px-3 py-1 text-sm font-medium text-red-700 bg-red-50 border border-red-200 rounded hover:bg-red-100 disabled:opacity-50"
+                              >
+                                <X className="w-3 h-3" />
+                                Reject
+                              </button>
+                            </>
+                          )}
+                          {canReviewPunches && proposed.status === 'failed' && (
+                            <button
+                              onClick={() => {
+                                // The interrupted import may have gone through - only the reviewer can tell
+                                if (proposed.needsPaylocityCheck &&
+                                    !confirm('This punch may already be in Paylocity. Send it again only if Paylocity does not show it.')) return;
+                                writeBackToPaylocity([proposed.id]);
+                              }}
+                              disabled={writingBack}
+                              className="inline-flex items-center gap-1 px-3 py-1 text-sm font-medium text-white bg-blue-600 rounded hover:bg-blue-700 disabled:opacity-50"
+                            >
+                              <Send className="w-3 h-3" />
+                              Retry Write-back
+                            </button>
+                          )}
                           <Link
                             href={`/stops?technicianId=${proposed.technicianId}&date=${proposed.date}`}
                             className="inline-flex items-center gap-1 text-sm text-blue-600 hover:underline"
@@ -0,0 +1,180 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { ChevronDown, ChevronUp, History, User } from 'lucide-react';
+import { AuditEvent } from '@/types/audit';
+
+interface AuditHistoryPanelProps {
+  events: AuditEvent[];
+  technicianName?: string;
+}
+
+const ACTION_LABELS: Record<string, string> = {
+  'excused_visit.created': 'Excused office visit',
+  'excused_visit.updated': 'Changed office visit excuse',
+  'excused_visit.deleted': 'Removed office visit excuse',
+  'proposed_punch.created': 'Proposed missing punch',
+  'proposed_punch.updated': 'Edited proposed punch',
+  'proposed_punch.approved': 'Approved proposed punch',
+  'proposed_punch.submitted': 'Submitted punch to Paylocity',
+  'proposed_punch.applied': 'Punch applied in Paylocity',
+  'proposed_punch.failed': 'Paylocity write-back failed',
+  'proposed_punch.rejected': 'Rejected proposed punch',
+  'proposed_punch.pending': 'Reopened proposed punch',
+  'proposed_punch.deleted': 'Deleted proposed punch',
+  'discrepancy.reviewed': 'Reviewed arrival discrepancy',
+  'discrepancy.updated': 'Updated arrival discrepancy',
+  'manual_job_association.created': 'Assigned stop to job',
+  'manual_job_association.deleted': 'Removed stop-to-job assignment',
+  'truck_assignment.assigned': 'Assigned truck',
+  'truck_assignment.unassigned': 'Removed truck',
+  'truck_assignment.deleted': 'Deleted truck assignment',
+  'ride_along.created': 'Recorded ride-along',
+  'ride_along.deleted': 'Removed ride-along',
+  'paylocity_link.auto_linked': 'Auto-linked to Paylocity employee',
+  'paylocity_link.approved': 'Linked to Paylocity employee',
+  'paylocity_link.rejected': 'Rejected Paylocity match',
+};
+
+function getActionLabel(action: string): string {
+  return ACTION_LABELS[action] || action.replace(/[._]/g, ' ');
+}
+
+function getActionColor(action: string): string {
+  if (action.endsWith('.deleted') || action.endsWith('.rejected') || action.endsWith('.failed')) return 'bg-red-100 text-red-700';
+  if (action.endsWith('.created') || action.endsWith('.approved') || action.endsWith('.reviewed')) return 'bg-green-100 text-green-700';
+  return 'bg-slate-100 text-slate-700';
+}
+
+// Short description of what changed, pulled from the before/after snapshots
+function getChangeSummary(event: AuditEvent): string | null {
+  const before = (event.before || {}) as Record<string, unknown>;
+  const after = (event.after || {}) as Record<string, unknown>;
+
+  if (event.entityType === 'proposed_punch') {
+    const row = event.after ? after : before;
+    const time = typeof row.proposed_time === 'string' ? format(parseISO(row.proposed_time), 'h:mm a') : null;
+    return [row.punch_type, time].filter(Boolean).join(' at ') || null;
+  }
+
+  if (event.entityType === 'excused_visit') {
+    const row = event.after ? after : before;
+    return typeof row.reason === 'string' ? `Reason: ${row.reason.replace(/_/g, ' ')}` : null;
+  }
+
+  if (event.entityType === 'discrepancy' && typeof after.variance_minutes === 'number') {
+    return `${after.variance_minutes} min variance`;
+  }
+
+  return null;
+}
+
+export default function AuditHistoryPanel({ events, technicianName }: AuditHistoryPanelProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [selectedDay, setSelectedDay] = useState<string>('all');
+
+  // Work days that have history, newest first
+  const days = useMemo(() => {
+    const unique = new Set(events.map(e => e.eventDate).filter((d): d is string => !!d));
+    return Array.from(unique).sort().reverse();
+  }, [events]);
+
+  const visibleEvents = selectedDay === 'all'
+    ? events
+    : events.filter(e => e.eventDate === selectedDay);
+
+  return (
+    <div className="bg-white rounded-2xl shadow-md border-2 border-slate-200 mb-6 overflow-hidden">
+      {/* Header */}
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between px-5 py-4 text-left bg-gradient-to-r from-slate-50 to-gray-50 hover:from-slate-100 hover:to-gray-100 transition-all"
+      >
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-xl bg-slate-600">
+            <History className="w-4 h-4 text-white" />
+          </div>
+          <span className="font-bold text-slate-800 uppercase tracking-wide">
+            Review History ({events.length})
+          </span>
+          {technicianName && (
+            <span className="text-sm text-slate-500">{technicianName}</span>
+          )}
+        </div>
+        {isExpanded ? (
+          <ChevronUp className="w-5 h-5 text-slate-500" />
+        ) : (
+          <ChevronDown className="w-5 h-5 text-slate-500" />
+        )}
+      </button>
+
+      {isExpanded && (
+        <div className="p-5 space-y-4">
+          {/* Day filter */}
+          {days.length > 1 && (
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={() => setSelectedDay('all')}
+                className={`px-3 py-1 text-sm font-semibold rounded-full transition-colors ${
+                  selectedDay === 'all' ? 'bg-slate-700 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+                }`}
+              >
+                All days
+              </button>
+              {days.map(day => (
+                <button
+                  key={day}
+                  onClick={() => setSelectedDay(day)}
+                  className={`px-3 py-1 text-sm font-semibold rounded-full transition-colors ${
+                    selectedDay === day ? 'bg-slate-700 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+                  }`}
+                >
+                  {format(parseISO(day), 'EEE, MMM d')}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {/* Entries */}
+          <div className="divide-y divide-slate-100">
+            {visibleEvents.map(event => {
+              const summary = getChangeSummary(event);
+              return (
+                <div key={event.id} className="py-3 flex items-start justify-between gap-4">
+                  <div>
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className={`text-xs font-bold px-2 py-0.5 rounded-full ${getActionColor(event.action)}`}>
+                        {getActionLabel(event.action)}
+                      </span>
+                      {event.eventDate && (
+                        <span className="text-xs text-slate-500">
+                          for {format(parseISO(event.eventDate), 'MMM d, yyyy')}
+                        </span>
+                      )}
+                    </div>
+                    {summary && (
+                      <div className="text-sm text-slate-700 mt-1">{summary}</div>
+                    )}
+                    {event.note && (
+                      <div className="text-sm text-slate-500 italic mt-1">&ldquo;{event.note}&rdquo;</div>
+                    )}
+                  </div>
+                  <div className="text-right shrink-0">
+                    <div className="text-sm font-medium text-slate-800 flex items-center justify-end gap-1">
+                      <User className="w-3.5 h-3.5 text-slate-400" />
+                      {event.actorName}
+                    </div>
+                    <div className="text-xs text-slate-500">
+                      {format(parseISO(event.occurredAt), 'MMM d, h:mm a')}
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
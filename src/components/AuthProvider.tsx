@@ -0,0 +1,102 @@
+'use client';
+
+import { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+import { Loader2 } from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+import { AppUser, AUTH_COOKIE } from '@/types/auth';
+
+interface AuthContextValue {
+  user: AppUser | null;
+  loading: boolean;
+  signOut: () => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextValue>({
+  user: null,
+  loading: true,
+  signOut: async () => {},
+  refresh: async () => {},
+});
+
+export function useAuth() {
+  return useContext(AuthContext);
+}
+
+// Pages that don't require a session
+const PUBLIC_PATHS = ['/login'];
+
+// API routes read the access token from this cookie, so existing fetch('/api/...') calls stay unchanged
+function setAuthCookie(accessToken: string | null, expiresAt?: number) {
+  if (accessToken) {
+    const maxAge = expiresAt ? Math.max(0, expiresAt - Math.floor(Date.now() / 1000)) : 3600;
+    document.cookie = `${AUTH_COOKIE}=${encodeURIComponent(accessToken)}; path=/; max-age=${maxAge}; SameSite=Lax`;
+  } else {
+    document.cookie = `${AUTH_COOKIE}=; path=/; max-age=0; SameSite=Lax`;
+  }
+}
+
+export default function AuthProvider({ children }: { children: React.ReactNode }) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const [user, setUser] = useState<AppUser | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch('/api/auth/me');
+      const data = await response.json();
+      setUser(data.success ? data.user : null);
+    } catch (err) {
+      console.error('Error fetching current user:', err);
+      setUser(null);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      setAuthCookie(session?.access_token || null, session?.expires_at);
+      refresh();
+    });
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      setAuthCookie(session?.access_token || null, session?.expires_at);
+      refresh();
+    });
+
+    return () => subscription.unsubscribe();
+  }, [refresh]);
+
+  const isPublic = PUBLIC_PATHS.includes(pathname);
+
+  // Send signed-out users to the login page
+  useEffect(() => {
+    if (!loading && !user && !isPublic) {
+      router.replace('/login');
+    }
+  }, [loading, user, isPublic, router]);
+
+  const signOut = useCallback(async () => {
+    await supabase.auth.signOut();
+    setAuthCookie(null);
+    setUser(null);
+    router.replace('/login');
+  }, [router]);
+
+  if (!isPublic && (loading || !user)) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  return (
+    <AuthContext.Provider value={{ user, loading, signOut, refresh }}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import Link from 'next/link';
 import { format, parseISO, formatDistanceToNow } from 'date-fns';
 import {
   AlertTriangle,
@@ -13,7 +14,9 @@ import {
   Database,
   Truck,
   CreditCard,
+  Link2,
 } from 'lucide-react';
+import type { UnlinkedTechnician } from '@/types/paylocity-link';
 
 interface SyncHealth {
   lastSync: string | null;
@@ -52,6 +55,8 @@ export default function DataStatusCard({
     arrival: SyncHealth;
   } | null>(null);
   const [punchDataStatus, setPunchDataStatus] = useState<PunchDataStatus | null>(null);
+  const [unlinkedTechnicians, setUnlinkedTechnicians] = useState<UnlinkedTechnician[]>([]);
+  const [technicianLinked, setTechnicianLinked] = useState<boolean | null>(null);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
@@ -68,6 +73,8 @@ export default function DataStatusCard({
         if (data.success) {
           setSyncHealth(data.syncHealth);
           setPunchDataStatus(data.punchDataStatus);
+          setUnlinkedTechnicians(data.unlinkedTechnicians || []);
+          setTechnicianLinked(data.technicianLinked ?? null);
         } else {
           setError(data.error);
         }
@@ -99,7 +106,9 @@ export default function DataStatusCard({
   const hasMissingClockIn = punchDataStatus && punchDataStatus.hasPunchData && !punchDataStatus.hasClockIn;
   const hasMissingClockOut = punchDataStatus && punchDataStatus.hasPunchData && !punchDataStatus.hasClockOut;
   const paylocityUnhealthy = syncHealth && !syncHealth.paylocity.isHealthy;
-  const hasIssues = hasMissingPunchData || hasMissingClockIn || hasMissingClockOut || paylocityUnhealthy;
+  const notLinked = technicianLinked === false;
+  const hasIssues = hasMissingPunchData || hasMissingClockIn || hasMissingClockOut || paylocityUnhealthy ||
+    notLinked || unlinkedTechnicians.length > 0;
 
   // If everything is healthy and we have data, show minimal indicator
   if (!hasIssues && !expanded) {
@@ -185,6 +194,18 @@ export default function DataStatusCard({
                 Paylocity sync issue
               </span>
             )}
+            {notLinked && (
+              <span className="inline-flex items-center gap-1.5 px-3 py-1.5 bg-red-100 text-red-700 rounded-full text-xs font-bold">
+                <Link2 className="w-3.5 h-3.5" />
+                Not linked to Paylocity
+              </span>
+            )}
+            {unlinkedTechnicians.length > 0 && (
+              <span className="inline-flex items-center gap-1.5 px-3 py-1.5 bg-amber-100 text-amber-700 rounded-full text-xs font-bold">
+                <Link2 className="w-3.5 h-3.5" />
+                {unlinkedTechnicians.length} active tech{unlinkedTechnicians.length !== 1 ? 's' : ''} unlinked
+              </span>
+            )}
           </div>
         )}
       </button>
@@ -308,6 +329,34 @@ export default function DataStatusCard({
             </div>
           </div>
 
+          {/* Paylocity links */}
+          {(notLinked || unlinkedTechnicians.length > 0) && (
+            <div className="bg-white rounded-xl border-2 border-slate-200 p-4 shadow-sm">
+              <div className="flex items-center gap-2 mb-3">
+                <div className="p-1.5 bg-slate-100 rounded-lg">
+                  <Link2 className="w-4 h-4 text-slate-600" />
+                </div>
+                <span className="font-bold text-slate-800">Paylocity Links</span>
+              </div>
+              <div className="text-sm space-y-2">
+                {notLinked && (
+                  <p className="text-red-600 font-semibold">
+                    {technicianName} isn&apos;t linked to a Paylocity employee - their punches aren&apos;t verified.
+                  </p>
+                )}
+                {unlinkedTechnicians.length > 0 && (
+                  <p className="text-slate-600">
+                    <span className="font-medium">Unlinked active technicians:</span>{' '}
+                    {unlinkedTechnicians.map(t => t.name).join(', ')}
+                  </p>
+                )}
+                <Link href="/settings" className="inline-block text-blue-600 font-semibold hover:underline">
+                  Review Paylocity matches in Settings
+                </Link>
+              </div>
+            </div>
+          )}
+
           {/* Help text */}
           {hasMissingPunchData && (
             <div className="text-xs text-slate-700 bg-slate-100 p-4 rounded-xl border border-slate-200">
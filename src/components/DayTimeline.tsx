@@ -4,10 +4,12 @@ import { format, parseISO } from 'date-fns';
 import { toZonedTime } from 'date-fns-tz';
 
 const EST_TIMEZONE = 'America/New_York';
-import { Home, Building, MapPin, Car, AlertTriangle, Clock, Navigation, HelpCircle, Tag, Coffee, Check, Briefcase, Link2, MessageSquare, Plus, DollarSign, ChevronDown, ChevronUp, Package, Timer, Truck } from 'lucide-react';
+import { Home, Building, MapPin, Car, AlertTriangle, Clock, Navigation, HelpCircle, Tag, Coffee, Check, Briefcase, Link2, MessageSquare, Plus, DollarSign, ChevronDown, ChevronUp, Package, Timer, Truck, Fuel, Gauge, ChevronsDown, ChevronsUp, Play, Users } from 'lucide-react';
 import { useState } from 'react';
-import { DayTimeline, TimelineEvent } from '@/types/timeline';
+import { DayTimeline, TimelineEvent, LONG_IDLE_MINUTES } from '@/types/timeline';
 import { getCategoryIcon, getCategoryColors } from '@/lib/location-logos';
+import type { RoadClass } from '@/lib/driving-safety';
+import RoutePlaybackMap from './RoutePlaybackMap';
 
 interface MapLocation {
   latitude: number;
@@ -58,6 +60,12 @@ interface DayTimelineProps {
   annotationCounts?: Record<string, number>; // punchId -> count of annotations
 }
 
+const ROAD_CLASS_LABELS: Record<RoadClass, string> = {
+  interstate: 'Interstate',
+  highway: 'Highway',
+  local: 'Local road',
+};
+
 function formatDuration(minutes: number): string {
   if (minutes < 60) {
     return `${minutes}m`;
@@ -212,7 +220,15 @@ function EstimateSummaryBadge({ event }: { event: TimelineEvent }) {
 }
 
 // Transit Alert Panel - displayed on the left side of the timeline
-function TransitAlertPanel({ analysis, isRed }: { analysis: NonNullable<TimelineEvent['transitAnalysis']>; isRed: boolean }) {
+function TransitAlertPanel({
+  analysis,
+  isRed,
+  onReplay,
+}: {
+  analysis: NonNullable<TimelineEvent['transitAnalysis']>;
+  isRed: boolean;
+  onReplay?: () => void;
+}) {
   return (
     <div className={`p-3 rounded-xl border-2 text-sm shadow-md ${
       isRed
@@ -227,11 +243,25 @@ function TransitAlertPanel({ analysis, isRed }: { analysis: NonNullable<Timeline
           Transit Alert
         </span>
       </div>
+      <div className="mb-1.5 text-xs font-medium text-slate-600 truncate" title={`${analysis.fromLabel} → ${analysis.toLabel}`}>
+        {analysis.fromLabel} → {analysis.toLabel}
+      </div>
       <div className="space-y-1.5 text-slate-700">
         <div className="flex justify-between items-center">
-          <span className="text-xs font-medium text-slate-500">Expected:</span>
+          <span className="text-xs font-medium text-slate-500">
+            {analysis.expectedDriveSource === 'estimate' ? 'Expected (est.):' : 'Expected:'}
+          </span>
           <span className="font-bold text-sm">{formatDuration(analysis.expectedDriveMinutes)}</span>
         </div>
+        {analysis.fleetDriveMinutes != null && (
+          <div
+            className="flex justify-between items-center"
+            title={`From ${analysis.fleetDriveSamples} past ${analysis.fleetDriveMethod === 'route' ? 'trips on this route' : 'trips of similar length'}`}
+          >
+            <span className="text-xs font-medium text-slate-500">Our trucks:</span>
+            <span className="font-bold text-sm">{formatDuration(analysis.fleetDriveMinutes)}</span>
+          </div>
+        )}
         <div className="flex justify-between items-center">
           <span className="text-xs font-medium text-slate-500">Actual:</span>
           <span className="font-bold text-sm">{formatDuration(analysis.onClockTransitMinutes)}</span>
@@ -242,6 +272,12 @@ function TransitAlertPanel({ analysis, isRed }: { analysis: NonNullable<Timeline
             <span className="text-xs">-{formatDuration(analysis.mealBreakMinutes)}</span>
           </div>
         )}
+        {analysis.offClockMinutes > 0 && (
+          <div className="flex justify-between items-center text-slate-500 italic">
+            <span className="text-xs">Off the clock:</span>
+            <span className="text-xs">-{formatDuration(analysis.offClockMinutes)}</span>
+          </div>
+        )}
       </div>
       <div className={`mt-2 pt-2 border-t-2 flex justify-between items-center font-bold ${
         isRed ? 'text-red-700 border-red-200' : 'text-amber-700 border-amber-200'
@@ -250,16 +286,29 @@ function TransitAlertPanel({ analysis, isRed }: { analysis: NonNullable<Timeline
         <span className={`text-base ${isRed ? 'text-red-600' : 'text-amber-600'}`}>+{formatDuration(analysis.excessMinutes)}</span>
       </div>
       <div className={`mt-1.5 text-xs font-medium ${isRed ? 'text-red-600' : 'text-amber-600'}`}>
-        {analysis.distanceMiles} mi direct route
+        {analysis.expectedDriveSource === 'estimate'
+          ? `~${analysis.distanceMiles} mi, estimated without Google`
+          : `${analysis.distanceMiles} mi direct route`}
       </div>
+      {onReplay && (
+        <button
+          onClick={onReplay}
+          className={`mt-2 w-full inline-flex items-center justify-center gap-1 px-2 py-1 rounded-lg text-xs font-semibold bg-white/70 hover:bg-white ${
+            isRed ? 'text-red-700' : 'text-amber-700'
+          }`}
+        >
+          <Play className="w-3 h-3" />
+          Replay drive
+        </button>
+      )}
     </div>
   );
 }
 
 // Identify transit alert spans in the events list
 interface TransitAlertSpan {
-  fromIndex: number;      // Index of left_job event
-  toIndex: number;        // Index of arrived_job event
+  fromIndex: number;      // Index of the left_* event the leg starts at
+  toIndex: number;        // Index of the arrival
   analysis: NonNullable<TimelineEvent['transitAnalysis']>;
   isRed: boolean;
 }
@@ -269,20 +318,18 @@ function findTransitAlertSpans(events: TimelineEvent[]): TransitAlertSpan[] {
 
   for (let i = 0; i < events.length; i++) {
     const event = events[i];
-    if (event.type === 'arrived_job' && event.transitAnalysis?.isSuspicious) {
-      // Find the corresponding left_job event
-      for (let j = i - 1; j >= 0; j--) {
-        if (events[j].type === 'left_job' && events[j].jobNumber === event.transitAnalysis.fromJobNumber) {
-          spans.push({
-            fromIndex: j,
-            toIndex: i,
-            analysis: event.transitAnalysis,
-            isRed: event.transitAnalysis.excessMinutes >= 30,
-          });
-          break;
-        }
-      }
-    }
+    if (!event.transitAnalysis?.isSuspicious) continue;
+
+    const fromId = event.transitAnalysis.fromEventId;
+    const fromIndex = events.findIndex(e => e.id === fromId);
+    if (fromIndex === -1 || fromIndex >= i) continue;
+
+    spans.push({
+      fromIndex,
+      toIndex: i,
+      analysis: event.transitAnalysis,
+      isRed: event.transitAnalysis.excessMinutes >= 30,
+    });
   }
 
   return spans;
@@ -325,6 +372,14 @@ function EventIcon({ type, isUnnecessary, customCategory }: { type: TimelineEven
       return <Truck className="w-4 h-4" />;
     case 'material_pickup':
       return <MapPin className="w-4 h-4" />;
+    case 'speeding':
+      return <Gauge className="w-4 h-4" />;
+    case 'harsh_braking':
+      return <ChevronsDown className="w-4 h-4" />;
+    case 'harsh_acceleration':
+      return <ChevronsUp className="w-4 h-4" />;
+    case 'fuel_purchase':
+      return <Fuel className="w-4 h-4" />;
     default:
       return <Clock className="w-4 h-4" />;
   }
@@ -337,9 +392,9 @@ function getEventLabel(event: TimelineEvent): string {
     case 'arrived_home':
       return 'Arrived Home';
     case 'left_office':
-      return 'Left Office';
+      return `Left ${event.officeName || 'Office'}`;
     case 'arrived_office':
-      return event.isUnnecessary ? 'Arrived at Office' : 'Arrived at Office';
+      return `Arrived at ${event.officeName || 'Office'}`;
     case 'arrived_job':
       return `Arrived at Job #${event.jobNumber}`;
     case 'left_job':
@@ -363,15 +418,17 @@ function getEventLabel(event: TimelineEvent): string {
     case 'missing_clock_out':
       return 'Missing Clock-Out';
     case 'overnight_at_office':
-      return 'Vehicle Parked at Office Overnight';
+      return `Vehicle Parked at ${event.officeName || 'Office'} Overnight`;
     case 'proposed_punch':
       const punchTypeLabel = event.proposedPunchType === 'ClockIn' ? 'Clock In' :
                              event.proposedPunchType === 'ClockOut' ? 'Clock Out' :
                              event.proposedPunchType === 'MealStart' ? 'Meal Start' :
                              event.proposedPunchType === 'MealEnd' ? 'Meal End' : 'Punch';
       const statusLabel = event.proposedPunchStatus === 'pending' ? 'Pending' :
+                          event.proposedPunchStatus === 'approved' ? 'Approved' :
                           event.proposedPunchStatus === 'submitted' ? 'Submitted' :
                           event.proposedPunchStatus === 'applied' ? 'Applied' :
+                          event.proposedPunchStatus === 'failed' ? 'Write-back Failed' :
                           event.proposedPunchStatus === 'rejected' ? 'Rejected' : '';
       return `Proposed ${punchTypeLabel} (${statusLabel})`;
     case 'material_checkout':
@@ -383,6 +440,14 @@ function getEventLabel(event: TimelineEvent): string {
     case 'material_pickup':
       const pickupItemCount = event.checkoutItems?.length || event.checkoutTotalItems || 0;
       return `Pickup Request (${pickupItemCount} items)`;
+    case 'speeding':
+      return `Speeding: ${event.speedMph} mph (limit ${event.speedThresholdMph})`;
+    case 'harsh_braking':
+      return `Harsh Braking: ${event.previousSpeedMph} to ${event.speedMph} mph`;
+    case 'harsh_acceleration':
+      return `Harsh Acceleration: ${event.previousSpeedMph} to ${event.speedMph} mph`;
+    case 'fuel_purchase':
+      return `Fuel Purchase${event.fuelMerchantName ? ` at ${event.fuelMerchantName}` : ''}`;
     default:
       return 'Unknown Event';
   }
@@ -530,7 +595,7 @@ function getEventStyles(event: TimelineEvent): {
           text: 'text-red-900',
         };
       } else {
-        // pending or submitted - orange/warning
+        // pending, approved, submitted or failed - orange/warning
         return {
           bg: 'bg-orange-50',
           border: 'border-orange-300',
@@ -562,6 +627,36 @@ function getEventStyles(event: TimelineEvent): {
         iconBg: 'bg-blue-500',
         text: 'text-blue-900',
       };
+    case 'speeding':
+      return {
+        bg: 'bg-red-50',
+        border: 'border-red-300',
+        iconBg: 'bg-red-500',
+        text: 'text-red-900',
+      };
+    case 'harsh_braking':
+    case 'harsh_acceleration':
+      return {
+        bg: 'bg-orange-50',
+        border: 'border-orange-300',
+        iconBg: 'bg-orange-500',
+        text: 'text-orange-900',
+      };
+    case 'fuel_purchase':
+      // On the clock - red; on the way to/from work - plain
+      return event.isOnClock
+        ? {
+            bg: 'bg-red-50',
+            border: 'border-red-300',
+            iconBg: 'bg-red-500',
+            text: 'text-red-900',
+          }
+        : {
+            bg: 'bg-slate-50',
+            border: 'border-slate-300',
+            iconBg: 'bg-slate-500',
+            text: 'text-slate-900',
+          };
     default:
       return {
         bg: 'bg-gray-50',
@@ -583,6 +678,8 @@ function TimelineEventCard({
   onAssignJob,
   onAnnotatePunch,
   annotationCount,
+  isPlaybackCurrent,
+  onPlaybackTime,
 }: {
   event: TimelineEvent;
   showTravelTime: boolean;
@@ -594,6 +691,8 @@ function TimelineEventCard({
   onAssignJob?: (data: AssignJobData) => void;
   onAnnotatePunch?: (data: AnnotatePunchData) => void;
   annotationCount?: number;
+  isPlaybackCurrent?: boolean;
+  onPlaybackTime?: (time: string) => void;
 }) {
   const styles = getEventStyles(event);
   const time = format(toZonedTime(parseISO(event.timestamp), EST_TIMEZONE), 'h:mm a');
@@ -622,7 +721,9 @@ function TimelineEventCard({
       )}
 
       {/* Event card */}
-      <div className={`flex items-start gap-4 ${styles.bg} border-l-4 ${styles.border} rounded-xl p-4 shadow-sm hover:shadow-md transition-shadow duration-200`}>
+      <div className={`flex items-start gap-4 ${styles.bg} border-l-4 ${styles.border} rounded-xl p-4 shadow-sm hover:shadow-md transition-shadow duration-200 ${
+        isPlaybackCurrent ? 'ring-2 ring-slate-800 ring-offset-1' : ''
+      }`}>
         {/* Icon */}
         <div className={`${styles.iconBg} text-white p-2 rounded-xl flex-shrink-0 shadow-sm`}>
           <EventIcon type={event.type} isUnnecessary={event.isUnnecessary} />
@@ -646,6 +747,16 @@ function TimelineEventCard({
                 </span>
               )}
 
+              {/* Engine-on stop badge */}
+              {event.detectedFromBreadcrumbs && (
+                <span
+                  title="Found in GPS history points - the engine stayed on, so Verizon didn't end a trip here"
+                  className="text-xs font-medium px-2 py-0.5 bg-amber-100 text-amber-700 rounded-full"
+                >
+                  Engine on
+                </span>
+              )}
+
               {/* First job badge */}
               {event.isFirstJob && (
                 <span className="text-xs font-semibold px-2 py-0.5 bg-blue-100 text-blue-700 rounded-full">
@@ -693,10 +804,20 @@ function TimelineEventCard({
               )}
             </div>
 
-            {/* Time */}
-            <span className="text-sm font-mono font-semibold text-slate-600 flex-shrink-0 bg-slate-100 px-2 py-0.5 rounded-lg">
-              {time}
-            </span>
+            {/* Time - moves the route playback here */}
+            {onPlaybackTime ? (
+              <button
+                onClick={() => onPlaybackTime(event.timestamp)}
+                title="Show on the route playback map"
+                className="text-sm font-mono font-semibold text-slate-600 flex-shrink-0 bg-slate-100 hover:bg-slate-200 px-2 py-0.5 rounded-lg"
+              >
+                {time}
+              </button>
+            ) : (
+              <span className="text-sm font-mono font-semibold text-slate-600 flex-shrink-0 bg-slate-100 px-2 py-0.5 rounded-lg">
+                {time}
+              </span>
+            )}
           </div>
 
           {/* Customer name */}
@@ -721,6 +842,56 @@ function TimelineEventCard({
             </div>
           )}
 
+          {/* Engine idling while parked (for arrivals) */}
+          {event.idleMinutes !== undefined && event.idleMinutes > 0 && (
+            <div className={`text-xs mt-1 flex items-center gap-1 ${
+              event.idleMinutes >= LONG_IDLE_MINUTES ? 'text-amber-700 font-medium' : 'text-gray-500'
+            }`}>
+              <Fuel className="w-3 h-3" />
+              Engine idled {formatDuration(event.idleMinutes)}
+            </div>
+          )}
+
+          {/* Driving details (speeding / harsh driving) */}
+          {event.type === 'speeding' && (
+            <div className="text-xs text-red-700 mt-1 flex items-center gap-1">
+              <Gauge className="w-3 h-3" />
+              {event.speedingMinutes === undefined
+                ? 'Trip max speed - exact time and place not recorded'
+                : event.speedingMinutes > 0 ? `Over for ${formatDuration(event.speedingMinutes)}` : 'Single reading'}
+              {event.roadClass && ` · ${ROAD_CLASS_LABELS[event.roadClass]}`}
+            </div>
+          )}
+          {(event.type === 'harsh_braking' || event.type === 'harsh_acceleration') && event.speedChangeMphPerSec !== undefined && (
+            <div className="text-xs text-orange-700 mt-1">
+              {event.speedChangeMphPerSec} mph per second
+            </div>
+          )}
+
+          {/* Fuel card purchase */}
+          {event.type === 'fuel_purchase' && (
+            <div className="mt-1 space-y-1">
+              <div className="flex items-center flex-wrap gap-2 text-xs text-gray-600">
+                {event.isOnClock && (
+                  <span className="inline-flex items-center gap-1 px-2 py-0.5 bg-red-100 text-red-700 rounded-full font-bold">
+                    <AlertTriangle className="w-3 h-3" />
+                    ON THE CLOCK
+                  </span>
+                )}
+                {event.fuelAmountCents !== undefined && (
+                  <span className="font-medium text-gray-700">${(event.fuelAmountCents / 100).toFixed(2)}</span>
+                )}
+                {event.fuelGallons !== undefined && <span>{event.fuelGallons.toFixed(1)} gal</span>}
+              </div>
+              <div className="text-xs text-gray-500 flex items-center gap-1">
+                <Clock className="w-3 h-3" />
+                {event.fuelStopEventId
+                  ? `${formatDuration(event.fuelStopMinutes || 0)} at the gas station stop`
+                  : 'No gas station stop found at this time'}
+              </div>
+            </div>
+          )}
+
           {/* Scheduled time for jobs */}
           {event.scheduledTime && (
             <div className="text-xs text-gray-500 mt-1">
@@ -965,7 +1136,7 @@ function TimelineEventCard({
   );
 }
 
-// Connector segment types - the bracket spans the entire job-to-job gap
+// Connector segment types - the bracket spans the entire transit leg
 type ConnectorSegment = 'none' | 'start' | 'middle' | 'end';
 
 // SVG Arrow pointing RIGHT - the termination point of the bracket
@@ -990,7 +1161,7 @@ function BracketArrow({ color }: { color: string }) {
 }
 
 // Component that renders events with left-side transit alerts
-// The bracket SPANS the entire job-to-job gap as ONE visual element
+// The bracket SPANS the entire transit leg as ONE visual element
 // Intermediate content (meals, stops) is INSIDE the bracket, subordinate to it
 function TimelineEventsWithAlerts({
   events,
@@ -1002,6 +1173,8 @@ function TimelineEventsWithAlerts({
   onAssignJob,
   onAnnotatePunch,
   annotationCounts,
+  playbackTime,
+  onPlaybackTime,
 }: {
   events: TimelineEvent[];
   technicianId: string;
@@ -1012,9 +1185,17 @@ function TimelineEventsWithAlerts({
   onAssignJob?: (data: AssignJobData) => void;
   onAnnotatePunch?: (data: AnnotatePunchData) => void;
   annotationCounts?: Record<string, number>;
+  playbackTime?: string | null;
+  onPlaybackTime?: (time: string) => void;
 }) {
   const alertSpans = findTransitAlertSpans(events);
 
+  // The latest event at or before the playback position is the current one
+  const playbackMs = playbackTime ? new Date(playbackTime).getTime() : null;
+  const playbackIndex = playbackMs === null
+    ? -1
+    : events.findLastIndex(e => new Date(e.timestamp).getTime() <= playbackMs);
+
   // Determine bracket segment type for each row
   const getConnectorInfo = (index: number): {
     segment: ConnectorSegment;
@@ -1072,17 +1253,21 @@ function TimelineEventsWithAlerts({
               {/* Alert panel - at START of bracket */}
               {segment === 'start' && alert && (
                 <div style={{ paddingRight: 16, paddingBottom: 4 }}>
-                  <TransitAlertPanel analysis={alert.analysis} isRed={isRed} />
+                  <TransitAlertPanel
+                    analysis={alert.analysis}
+                    isRed={isRed}
+                    onReplay={onPlaybackTime ? () => onPlaybackTime(events[alert.fromIndex].timestamp) : undefined}
+                  />
                 </div>
               )}
 
               {/* ═══ SPANNING BRACKET ═══ */}
-              {/* This bracket OWNS the entire job-to-job gap */}
+              {/* This bracket OWNS the entire transit leg */}
 
-              {/* BRACKET OPEN: Top of bracket at "Left Job" */}
+              {/* BRACKET OPEN: Top of bracket at the departure */}
               {segment === 'start' && (
                 <>
-                  {/* Horizontal bar connecting to Left Job card */}
+                  {/* Horizontal bar connecting to the departure card */}
                   <div
                     style={{
                       position: 'absolute',
@@ -1122,7 +1307,7 @@ function TimelineEventsWithAlerts({
                 />
               )}
 
-              {/* BRACKET CLOSE: Bottom of bracket at "Arrived at Job" */}
+              {/* BRACKET CLOSE: Bottom of bracket at the arrival */}
               {segment === 'end' && (
                 <>
                   {/* Vertical rail coming from above */}
@@ -1136,7 +1321,7 @@ function TimelineEventsWithAlerts({
                       backgroundColor: bracketColor,
                     }}
                   />
-                  {/* Horizontal bar turning toward the Arrived Job card */}
+                  {/* Horizontal bar turning toward the arrival card */}
                   <div
                     style={{
                       position: 'absolute',
@@ -1174,6 +1359,8 @@ function TimelineEventsWithAlerts({
                 onAssignJob={onAssignJob}
                 onAnnotatePunch={onAnnotatePunch}
                 annotationCount={event.punchId ? annotationCounts?.[event.punchId] : undefined}
+                isPlaybackCurrent={index === playbackIndex}
+                onPlaybackTime={onPlaybackTime}
               />
             </div>
           </div>
@@ -1194,6 +1381,8 @@ export default function DayTimelineComponent({
   annotationCounts,
 }: DayTimelineProps) {
   const formattedDate = format(parseISO(timeline.date), 'MMMM d, yyyy');
+  // Route playback position - null while the map is closed
+  const [playbackTime, setPlaybackTime] = useState<string | null>(null);
 
   if (timeline.events.length === 0) {
     return (
@@ -1226,6 +1415,16 @@ export default function DayTimelineComponent({
             <Briefcase className="w-3.5 h-3.5" />
             {timeline.totalJobs} job{timeline.totalJobs !== 1 ? 's' : ''}
           </span>
+          {/* Ride-along badge - GPS below is the lead's truck */}
+          {timeline.rideAlong && (
+            <span
+              className="inline-flex items-center gap-1.5 px-3 py-1 bg-indigo-100 text-indigo-700 rounded-full text-sm font-semibold"
+              title={`GPS from ${timeline.rideAlong.leadTechnicianName}'s truck${timeline.rideAlong.vehicleId ? ` (${timeline.rideAlong.vehicleId})` : ''}`}
+            >
+              <Users className="w-3.5 h-3.5" />
+              Riding with {timeline.rideAlong.leadTechnicianName}
+            </span>
+          )}
           {/* Office visits badge */}
           {timeline.totalOfficeVisits > 0 && (
             <span className="inline-flex items-center gap-1.5 px-3 py-1 bg-purple-100 text-purple-700 rounded-full text-sm font-semibold">
@@ -1240,6 +1439,52 @@ export default function DayTimelineComponent({
               {formatDuration(timeline.totalDriveMinutes)}
             </span>
           )}
+          {/* Idle time badge */}
+          {timeline.idleSummary.totalMinutes > 0 && (
+            <span
+              className="inline-flex items-center gap-1.5 px-3 py-1 bg-amber-100 text-amber-700 rounded-full text-sm font-semibold"
+              title={`Job ${formatDuration(timeline.idleSummary.jobMinutes)} · Home ${formatDuration(timeline.idleSummary.homeMinutes)} · Unknown ${formatDuration(timeline.idleSummary.unknownMinutes)}`}
+            >
+              <Fuel className="w-3.5 h-3.5" />
+              {formatDuration(timeline.idleSummary.totalMinutes)} idle
+            </span>
+          )}
+          {/* Excess drive time badge */}
+          {timeline.excessDriveMinutes > 0 && (
+            <span
+              className="inline-flex items-center gap-1.5 px-3 py-1 bg-red-100 text-red-700 rounded-full text-sm font-semibold"
+              title="On-the-clock transit over the expected drive time, summed over suspicious legs"
+            >
+              <Timer className="w-3.5 h-3.5" />
+              +{formatDuration(timeline.excessDriveMinutes)} drive
+            </span>
+          )}
+          {/* Driving safety badge */}
+          {(timeline.drivingSafety.speedingEvents > 0 ||
+            timeline.drivingSafety.harshBrakingEvents + timeline.drivingSafety.harshAccelerationEvents > 0) && (
+            <span
+              className="inline-flex items-center gap-1.5 px-3 py-1 bg-red-100 text-red-700 rounded-full text-sm font-semibold"
+              title={`${timeline.drivingSafety.speedingEvents} speeding · ${timeline.drivingSafety.harshBrakingEvents} harsh braking · ` +
+                `${timeline.drivingSafety.harshAccelerationEvents} harsh acceleration` +
+                (timeline.drivingSafety.maxSpeedMph !== null ? ` · top speed ${timeline.drivingSafety.maxSpeedMph} mph` : '')}
+            >
+              <Gauge className="w-3.5 h-3.5" />
+              {timeline.drivingSafety.speedingEvents + timeline.drivingSafety.harshBrakingEvents +
+                timeline.drivingSafety.harshAccelerationEvents} driving
+            </span>
+          )}
+          {/* Route playback toggle */}
+          <button
+            onClick={() => setPlaybackTime(playbackTime === null ? timeline.events[0].timestamp : null)}
+            className={`inline-flex items-center gap-1.5 px-3 py-1.5 text-xs font-semibold rounded-lg transition-all duration-200 border-2 ${
+              playbackTime === null
+                ? 'text-slate-700 border-slate-300 hover:bg-slate-100 hover:border-slate-400'
+                : 'text-white bg-slate-800 border-slate-800'
+            }`}
+          >
+            <Play className="w-3.5 h-3.5" />
+            Replay Day
+          </button>
           {/* Add Missing Punch button */}
           {onAddMissingPunch && (
             <button
@@ -1307,6 +1552,16 @@ export default function DayTimelineComponent({
         </div>
       )}
 
+      {/* Route playback map - its scrubber and the event list below follow each other */}
+      {playbackTime !== null && (
+        <RoutePlaybackMap
+          timeline={timeline}
+          time={playbackTime}
+          onTimeChange={setPlaybackTime}
+          onClose={() => setPlaybackTime(null)}
+        />
+      )}
+
       {/* Timeline events with left-side transit alerts */}
       <TimelineEventsWithAlerts
         events={timeline.events}
@@ -1318,6 +1573,8 @@ export default function DayTimelineComponent({
         onAssignJob={onAssignJob}
         onAnnotatePunch={onAnnotatePunch}
         annotationCounts={annotationCounts}
+        playbackTime={playbackTime}
+        onPlaybackTime={setPlaybackTime}
       />
 
       {/* Summary footer */}
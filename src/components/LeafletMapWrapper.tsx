@@ -46,6 +46,12 @@ export const MapRecenter = dynamic(
   { ssr: false }
 );
 
+// Zoom to fit a set of points (memoize the array - it refits whenever it changes)
+export const MapFitBounds = dynamic(
+  () => import('./MapFitBounds'),
+  { ssr: false }
+);
+
 // Draggable marker component
 export const DraggableMarker = dynamic(
   () => import('./DraggableMarker'),
@@ -0,0 +1,20 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useMap } from 'react-leaflet';
+
+interface MapFitBoundsProps {
+  points: [number, number][];
+  padding?: number;
+}
+
+export default function MapFitBounds({ points, padding = 24 }: MapFitBoundsProps) {
+  const map = useMap();
+
+  useEffect(() => {
+    if (points.length === 0) return;
+    map.fitBounds(points, { padding: [padding, padding] });
+  }, [points, padding, map]);
+
+  return null;
+}
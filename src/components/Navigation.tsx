@@ -9,12 +9,23 @@ import {
   RefreshCw,
   LayoutDashboard,
   MapPin,
+  ClipboardCheck,
+  Fuel,
+  Droplet,
+  Map as MapIcon,
   Settings,
+  LogOut,
 } from 'lucide-react';
+import { useAuth } from './AuthProvider';
+import { ROLE_LABELS } from '@/types/auth';
 
 const tabs = [
   { label: 'Dashboard', href: '/', icon: LayoutDashboard },
   { label: 'Stop Details', href: '/stops', icon: MapPin },
+  { label: 'Scorecards', href: '/scorecard', icon: ClipboardCheck },
+  { label: 'Fleet Idle', href: '/fleet-idle', icon: Fuel },
+  { label: 'Fuel', href: '/fuel', icon: Droplet },
+  { label: 'Live Map', href: '/fleet-map', icon: MapIcon },
   { label: 'Settings', href: '/settings', icon: Settings },
 ];
 
@@ -24,6 +35,7 @@ interface NavigationProps {
 
 export default function Navigation({ onSyncComplete }: NavigationProps) {
   const pathname = usePathname();
+  const { user, signOut } = useAuth();
   const [syncing, setSyncing] = useState(false);
   const [lastSync, setLastSync] = useState<string | null>(null);
 
@@ -44,8 +56,8 @@ export default function Navigation({ onSyncComplete }: NavigationProps) {
   }, []);
 
   useEffect(() => {
-    fetchLastSync();
-  }, [fetchLastSync]);
+    if (user) fetchLastSync();
+  }, [user, fetchLastSync]);
 
   const handleSync = async () => {
     setSyncing(true);
@@ -97,6 +109,11 @@ export default function Navigation({ onSyncComplete }: NavigationProps) {
     return pathname.startsWith(href);
   };
 
+  // Login page has no navigation
+  if (!user) return null;
+
+  const canSync = user.role === 'admin' || user.role === 'service_manager';
+
   return (
     <header className="bg-white shadow-sm border-b sticky top-0 z-40">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -115,14 +132,29 @@ export default function Navigation({ onSyncComplete }: NavigationProps) {
             {lastSync && (
               <span className="text-sm text-gray-500 hidden sm:inline">Last sync: {lastSync}</span>
             )}
-            <button
-              onClick={handleSync}
-              disabled={syncing}
-              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
-            >
-              <RefreshCw className={`w-4 h-4 ${syncing ? 'animate-spin' : ''}`} />
-              <span className="hidden sm:inline">{syncing ? 'Syncing...' : 'Sync Data'}</span>
-            </button>
+            {canSync && (
+              <button
+                onClick={handleSync}
+                disabled={syncing}
+                className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+              >
+                <RefreshCw className={`w-4 h-4 ${syncing ? 'animate-spin' : ''}`} />
+                <span className="hidden sm:inline">{syncing ? 'Syncing...' : 'Sync Data'}</span>
+              </button>
+            )}
+            <div className="flex items-center gap-2 pl-4 border-l">
+              <div className="text-right hidden sm:block">
+                <div className="text-sm font-medium text-gray-900">{user.displayName}</div>
+                <div className="text-xs text-gray-500">{ROLE_LABELS[user.role]}</div>
+              </div>
+              <button
+                onClick={signOut}
+                title="Sign out"
+                className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                <LogOut className="w-4 h-4" />
+              </button>
+            </div>
           </div>
         </div>
 
@@ -0,0 +1,191 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Link2, Check, X, RefreshCw, AlertTriangle } from 'lucide-react';
+import type {
+  PaylocityLinkConflict,
+  PaylocityLinkSuggestion,
+  UnlinkedTechnician,
+} from '@/types/paylocity-link';
+
+const CONFLICT_LABELS: Record<PaylocityLinkConflict['kind'], string> = {
+  shared_employee: 'linked to several technicians',
+  claimed_employee: 'already linked, but matched to another technician',
+  contested_suggestion: 'matched to several technicians',
+  ambiguous_match: 'on Paylocity more than once',
+};
+
+export default function PaylocityLinkQueue() {
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [suggestions, setSuggestions] = useState<PaylocityLinkSuggestion[]>([]);
+  const [conflicts, setConflicts] = useState<PaylocityLinkConflict[]>([]);
+  const [unlinked, setUnlinked] = useState<UnlinkedTechnician[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchQueue = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/paylocity/links');
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      setSuggestions(data.suggestions || []);
+      setConflicts(data.conflicts || []);
+      setUnlinked(data.unlinked || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load Paylocity matches');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchQueue();
+  }, [fetchQueue]);
+
+  const handleAutoLink = async () => {
+    setBusy('auto');
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch('/api/paylocity/employees', { method: 'PUT' });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      setMessage(`Linked ${data.linked} technician${data.linked !== 1 ? 's' : ''}, ${data.queued} queued for review`);
+      await fetchQueue();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Auto-link failed');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleReview = async (suggestion: PaylocityLinkSuggestion, decision: 'approved' | 'rejected') => {
+    setBusy(suggestion.id);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch('/api/paylocity/links', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: suggestion.id, decision }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      setMessage(decision === 'approved'
+        ? `Linked ${suggestion.technicianName} to ${suggestion.employeeName}`
+        : `Rejected ${suggestion.employeeName} for ${suggestion.technicianName}`);
+      await fetchQueue();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to review match');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const queuedTechIds = new Set(suggestions.map(s => s.technicianId));
+  const unmatched = unlinked.filter(t => !queuedTechIds.has(t.id));
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border overflow-hidden mb-6">
+      <div className="px-4 py-3 border-b bg-gray-50 flex items-center justify-between">
+        <div>
+          <h2 className="font-semibold text-gray-900 flex items-center gap-2">
+            <Link2 className="w-4 h-4 text-blue-600" />
+            Paylocity Links
+          </h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Punches are only verified for linked technicians. Matches of 98% or better are linked by the punch sync;
+            weaker matches wait here for approval.
+          </p>
+        </div>
+        <button
+          onClick={handleAutoLink}
+          disabled={busy !== null}
+          className="flex items-center gap-2 px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+        >
+          <RefreshCw className={`w-4 h-4 ${busy === 'auto' ? 'animate-spin' : ''}`} />
+          Auto-link
+        </button>
+      </div>
+
+      {(message || error) && (
+        <div className={`px-4 py-2 text-sm border-b ${error ? 'bg-red-50 text-red-700' : 'bg-green-50 text-green-700'}`}>
+          {error || message}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="p-4 text-sm text-gray-500 flex items-center gap-2">
+          <RefreshCw className="w-4 h-4 animate-spin" />
+          Loading matches...
+        </div>
+      ) : (
+        <div className="divide-y">
+          {conflicts.map((conflict) => (
+            <div key={`${conflict.kind}:${conflict.paylocityEmployeeId}:${conflict.technicians[0]?.id}`} className="px-4 py-3 flex items-start gap-2 bg-amber-50 text-sm">
+              <AlertTriangle className="w-4 h-4 text-amber-600 mt-0.5 flex-shrink-0" />
+              <span className="text-amber-800">
+                <span className="font-semibold">{conflict.employeeName || `Employee ${conflict.paylocityEmployeeId}`}</span>{' '}
+                is {CONFLICT_LABELS[conflict.kind]}
+                {conflict.employees && ` (${conflict.employees.map(e => `#${e.id}`).join(', ')})`}
+                : {conflict.technicians.map(t => t.name).join(', ')}
+              </span>
+            </div>
+          ))}
+
+          {suggestions.length === 0 && conflicts.length === 0 && (
+            <p className="px-4 py-3 text-sm text-gray-500">No matches waiting for review.</p>
+          )}
+
+          {suggestions.map((suggestion) => (
+            <div key={suggestion.id} className="px-4 py-3 flex flex-wrap items-center gap-3 text-sm">
+              <div className="flex-1 min-w-[240px]">
+                <span className="font-medium text-gray-900">{suggestion.technicianName}</span>
+                <span className="text-gray-400 mx-2">→</span>
+                <span className="text-gray-900">{suggestion.employeeName}</span>
+                <span className="text-gray-400 ml-2">#{suggestion.paylocityEmployeeId}</span>
+                {suggestion.matchReason && (
+                  <p className="text-xs text-gray-500">{suggestion.matchReason}</p>
+                )}
+              </div>
+              <span
+                className={`px-2 py-0.5 rounded-full text-xs font-semibold ${
+                  suggestion.confidence >= 0.9 ? 'bg-green-100 text-green-700' : 'bg-yellow-100 text-yellow-700'
+                }`}
+              >
+                {Math.round(suggestion.confidence * 100)}%
+              </span>
+              <button
+                onClick={() => handleReview(suggestion, 'approved')}
+                disabled={busy !== null}
+                className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-white bg-green-600 rounded-lg hover:bg-green-700 disabled:opacity-50"
+              >
+                <Check className="w-3 h-3" />
+                Approve
+              </button>
+              <button
+                onClick={() => handleReview(suggestion, 'rejected')}
+                disabled={busy !== null}
+                className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-gray-600 border rounded-lg hover:bg-gray-50 disabled:opacity-50"
+              >
+                <X className="w-3 h-3" />
+                Reject
+              </button>
+            </div>
+          ))}
+
+          {unmatched.length > 0 && (
+            <p className="px-4 py-3 text-sm text-gray-600">
+              <span className="font-medium">No match found:</span> {unmatched.map(t => t.name).join(', ')}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,7 +5,7 @@ import { X, Plus, Clock, Save, Loader2, Trash2 } from 'lucide-react';
 import { format, parseISO } from 'date-fns';
 
 type PunchType = 'ClockIn' | 'ClockOut' | 'MealStart' | 'MealEnd';
-type ProposedStatus = 'pending' | 'submitted' | 'applied' | 'rejected';
+type ProposedStatus = 'pending' | 'approved' | 'submitted' | 'applied' | 'failed' | 'rejected';
 
 interface ProposedPunch {
   id: string;
@@ -37,8 +37,10 @@ const PUNCH_TYPES: { value: PunchType; label: string }[] = [
 
 const STATUS_COLORS: Record<ProposedStatus, { bg: string; text: string }> = {
   pending: { bg: 'bg-yellow-100', text: 'text-yellow-700' },
+  approved: { bg: 'bg-teal-100', text: 'text-teal-700' },
   submitted: { bg: 'bg-blue-100', text: 'text-blue-700' },
   applied: { bg: 'bg-green-100', text: 'text-green-700' },
+  failed: { bg: 'bg-rose-100', text: 'text-rose-700' },
   rejected: { bg: 'bg-red-100', text: 'text-red-700' },
 };
 
@@ -0,0 +1,176 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Users, RefreshCw, X } from 'lucide-react';
+import { RideAlong } from '@/types/ride-along';
+
+interface RideAlongTechnician {
+  id: string;
+  name: string;
+}
+
+interface RideAlongCardProps {
+  technicianId: string;
+  technicianName: string;
+  date: string;
+  technicians: RideAlongTechnician[];
+  onChange?: () => void;
+}
+
+export default function RideAlongCard({
+  technicianId,
+  technicianName,
+  date,
+  technicians,
+  onChange,
+}: RideAlongCardProps) {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [rideAlong, setRideAlong] = useState<RideAlong | null>(null);
+  const [helpers, setHelpers] = useState<RideAlong[]>([]);
+  const [leadId, setLeadId] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const nameOf = (id: string) => technicians.find(t => t.id === id)?.name || 'Unknown technician';
+
+  const fetchRideAlongs = useCallback(async () => {
+    if (!technicianId || !date) return;
+
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/ride-alongs?technicianId=${technicianId}&date=${date}`);
+      const data = await response.json();
+
+      if (data.success) {
+        setRideAlong(data.rideAlong);
+        setHelpers(data.helpers || []);
+        setError(null);
+      } else {
+        setError(data.error);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch ride-alongs');
+    } finally {
+      setLoading(false);
+    }
+  }, [technicianId, date]);
+
+  useEffect(() => {
+    setLeadId('');
+    fetchRideAlongs();
+  }, [fetchRideAlongs]);
+
+  const handleSave = async () => {
+    if (!leadId) return;
+
+    setSaving(true);
+    try {
+      const response = await fetch('/api/ride-alongs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ helperTechnicianId: technicianId, leadTechnicianId: leadId, rideDate: date }),
+      });
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error);
+
+      setLeadId('');
+      await fetchRideAlongs();
+      onChange?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to record ride-along');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!rideAlong) return;
+
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/ride-alongs?id=${rideAlong.id}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error);
+
+      await fetchRideAlongs();
+      onChange?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove ride-along');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) return null;
+
+  const leads = technicians.filter(t => t.id !== technicianId);
+
+  return (
+    <div className="bg-gradient-to-r from-indigo-50 to-violet-50 rounded-2xl border-2 border-indigo-200 p-4 mb-6 shadow-sm">
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="p-2 bg-indigo-500 rounded-xl shadow-sm">
+          <Users className="w-4 h-4 text-white" />
+        </div>
+
+        {rideAlong ? (
+          <>
+            <span className="text-sm font-bold text-indigo-800">
+              {technicianName} rode with {nameOf(rideAlong.leadTechnicianId)}
+            </span>
+            <span className="text-xs font-medium text-indigo-600">
+              {rideAlong.source === 'service_titan' ? 'From shared ServiceTitan job' : `Recorded by ${rideAlong.createdBy || 'unknown'}`}
+            </span>
+            <button
+              onClick={handleRemove}
+              disabled={saving}
+              className="ml-auto flex items-center gap-1 px-3 py-1.5 text-xs font-semibold text-indigo-700 bg-white border border-indigo-200 rounded-lg hover:bg-indigo-100 disabled:opacity-50 transition-colors"
+            >
+              {saving ? <RefreshCw className="w-3 h-3 animate-spin" /> : <X className="w-3 h-3" />}
+              Remove
+            </button>
+          </>
+        ) : (
+          <>
+            <span className="text-sm font-bold text-indigo-800">Ride-along</span>
+            <span className="text-xs font-medium text-indigo-600">
+              If {technicianName} rode in someone else&apos;s truck, their GPS is used for the day
+            </span>
+            <div className="ml-auto flex items-center gap-2">
+              <select
+                value={leadId}
+                onChange={(e) => setLeadId(e.target.value)}
+                disabled={saving}
+                className="bg-white border border-indigo-200 rounded-lg px-3 py-1.5 text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                <option value="">Rode with...</option>
+                {leads.map((tech) => (
+                  <option key={tech.id} value={tech.id}>
+                    {tech.name}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={handleSave}
+                disabled={!leadId || saving}
+                className="flex items-center gap-1 px-3 py-1.5 text-xs font-semibold text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 disabled:opacity-50 transition-colors"
+              >
+                {saving && <RefreshCw className="w-3 h-3 animate-spin" />}
+                Save
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+
+      {helpers.length > 0 && (
+        <p className="text-xs font-medium text-indigo-700 mt-2 ml-11">
+          Riding along: {helpers.map(h => nameOf(h.helperTechnicianId)).join(', ')}
+        </p>
+      )}
+
+      {error && (
+        <p className="text-xs font-medium text-red-600 mt-2 ml-11">{error}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,353 @@
+'use client';
+
+import { Fragment, useState, useEffect, useCallback, useMemo } from 'react';
+import { format } from 'date-fns';
+import { toZonedTime } from 'date-fns-tz';
+import { X, Play, Pause, RefreshCw, AlertTriangle } from 'lucide-react';
+import type { DivIcon } from 'leaflet';
+import { MapContainer, TileLayer, Marker, Popup, Polyline, Circle, Polygon, MapFitBounds } from './LeafletMapWrapper';
+import { DayTimeline, TimelineEvent } from '@/types/timeline';
+import { PlaybackPlaceKind, PlaybackTrip, RoutePlayback } from '@/types/route-playback';
+
+const EST_TIMEZONE = 'America/New_York';
+const FEET_PER_METER = 3.28084;
+const SPEED_OPTIONS = [5, 15, 30]; // Minutes of the day per second of playback
+const TICK_MS = 100;
+const TRIP_MATCH_MS = 2 * 60 * 1000; // Arrival events this close to a trip's end belong to it
+
+// Trip colors follow the event card of the stop the trip ended at
+const ARRIVAL_COLORS: Partial<Record<TimelineEvent['type'], string>> = {
+  arrived_job: '#3b82f6',
+  arrived_office: '#a855f7',
+  arrived_home: '#22c55e',
+  arrived_custom: '#14b8a6',
+  arrived_unknown: '#eab308',
+};
+const DEFAULT_TRIP_COLOR = '#64748b';
+const PLACE_COLORS: Record<PlaybackPlaceKind, string> = {
+  home: '#22c55e',
+  office: '#a855f7',
+  custom: '#14b8a6',
+  job: '#3b82f6',
+};
+const DRIVING_EVENT_COLOR = '#dc2626';
+
+interface RoutePlaybackMapProps {
+  timeline: DayTimeline;
+  time: string;                        // Playback position (ISO datetime)
+  onTimeChange: (time: string) => void;
+  onClose: () => void;
+}
+
+function formatTime(ms: number): string {
+  return format(toZonedTime(new Date(ms), EST_TIMEZONE), 'h:mm a');
+}
+
+function tripEndMs(trip: PlaybackTrip): number {
+  return new Date(trip.endTime || trip.path[trip.path.length - 1].time).getTime();
+}
+
+/**
+ * Where the truck was at a moment - along a trip's path, or parked where the last trip ended
+ */
+function positionAt(trips: PlaybackTrip[], ms: number): {
+  lat: number;
+  lon: number;
+  speedMph: number | null;
+  trip: PlaybackTrip | null;
+} | null {
+  if (trips.length === 0) return null;
+
+  const trip = trips.find(t => new Date(t.startTime).getTime() <= ms && ms <= tripEndMs(t));
+  if (!trip) {
+    const parked = trips.filter(t => tripEndMs(t) < ms).pop();
+    const point = parked ? parked.path[parked.path.length - 1] : trips[0].path[0];
+    return { lat: point.lat, lon: point.lon, speedMph: null, trip: null };
+  }
+
+  const path = trip.path;
+  for (let i = 0; i < path.length - 1; i++) {
+    const fromMs = new Date(path[i].time).getTime();
+    const toMs = new Date(path[i + 1].time).getTime();
+    if (ms < fromMs || ms > toMs) continue;
+
+    const fraction = toMs > fromMs ? (ms - fromMs) / (toMs - fromMs) : 0;
+    return {
+      lat: path[i].lat + (path[i + 1].lat - path[i].lat) * fraction,
+      lon: path[i].lon + (path[i + 1].lon - path[i].lon) * fraction,
+      speedMph: path[i + 1].speedMph ?? path[i].speedMph,
+      trip,
+    };
+  }
+
+  const last = path[path.length - 1];
+  return { lat: last.lat, lon: last.lon, speedMph: last.speedMph, trip };
+}
+
+/**
+ * Color for a trip - red/amber if it ends at a job flagged for a suspicious transit
+ */
+function tripColor(trip: PlaybackTrip, arrivals: TimelineEvent[]): string {
+  if (!trip.endTime) return DEFAULT_TRIP_COLOR;
+  const endMs = new Date(trip.endTime).getTime();
+  const arrival = arrivals.find(e => Math.abs(new Date(e.timestamp).getTime() - endMs) <= TRIP_MATCH_MS);
+  if (!arrival) return DEFAULT_TRIP_COLOR;
+
+  if (arrival.transitAnalysis?.isSuspicious) {
+    return arrival.transitAnalysis.excessMinutes >= 30 ? '#dc2626' : '#d97706';
+  }
+  return ARRIVAL_COLORS[arrival.type] || DEFAULT_TRIP_COLOR;
+}
+
+export default function RoutePlaybackMap({ timeline, time, onTimeChange, onClose }: RoutePlaybackMapProps) {
+  const [playback, setPlayback] = useState<RoutePlayback | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [leaflet, setLeaflet] = useState<typeof import('leaflet') | null>(null);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(SPEED_OPTIONS[1]);
+
+  // Leaflet touches window, so it's loaded on the client only
+  useEffect(() => {
+    import('leaflet').then(setLeaflet);
+  }, []);
+
+  const fetchPlayback = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ technicianId: timeline.technicianId, date: timeline.date });
+      const response = await fetch(`/api/reports/route-playback?${params}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+      setPlayback(data.playback);
+    } catch (err) {
+      setPlayback(null);
+      setError(err instanceof Error ? err.message : 'Failed to load route');
+    } finally {
+      setLoading(false);
+    }
+  }, [timeline.technicianId, timeline.date]);
+
+  useEffect(() => {
+    fetchPlayback();
+  }, [fetchPlayback]);
+
+  const trips = useMemo(() => playback?.trips || [], [playback]);
+  const arrivals = useMemo(() => timeline.events.filter(e => e.type.startsWith('arrived_')), [timeline.events]);
+  const drivingEvents = useMemo(
+    () => timeline.events.filter(e =>
+      (e.type === 'speeding' || e.type === 'harsh_braking' || e.type === 'harsh_acceleration') &&
+      e.latitude !== undefined && e.longitude !== undefined
+    ),
+    [timeline.events]
+  );
+
+  // The scrubber covers every trip and every timeline event
+  const range = useMemo(() => {
+    const times = [
+      ...trips.flatMap(t => [new Date(t.startTime).getTime(), tripEndMs(t)]),
+      ...timeline.events.map(e => new Date(e.timestamp).getTime()),
+    ];
+    return times.length > 0
+      ? { min: Math.min(...times), max: Math.max(...times) }
+      : { min: 0, max: 0 };
+  }, [trips, timeline.events]);
+
+  const timeMs = Math.min(Math.max(new Date(time).getTime(), range.min), range.max);
+  const position = positionAt(trips, timeMs);
+
+  const boundsPoints = useMemo<[number, number][]>(() => {
+    const points: [number, number][] = trips.flatMap(t => t.path.map(p => [p.lat, p.lon] as [number, number]));
+    for (const place of playback?.places || []) {
+      if (place.kind !== 'custom') points.push([place.lat, place.lon]);
+    }
+    return points;
+  }, [trips, playback]);
+
+  const icons = useMemo(() => {
+    if (!leaflet) return null;
+    const dot = (color: string, size: number) => leaflet.divIcon({
+      className: '',
+      html: `<div style="width:${size}px;height:${size}px;border-radius:9999px;background:${color};` +
+        'border:2px solid white;box-shadow:0 0 3px rgba(0,0,0,0.6)"></div>',
+      iconSize: [size, size],
+      iconAnchor: [size / 2, size / 2],
+    });
+    const places: Record<PlaybackPlaceKind, DivIcon> = {
+      home: dot(PLACE_COLORS.home, 14),
+      office: dot(PLACE_COLORS.office, 14),
+      custom: dot(PLACE_COLORS.custom, 12),
+      job: dot(PLACE_COLORS.job, 14),
+    };
+    return { vehicle: dot('#0f172a', 18), drivingEvent: dot(DRIVING_EVENT_COLOR, 10), places };
+  }, [leaflet]);
+
+  // Advance the playback position while playing
+  useEffect(() => {
+    if (!playing) return;
+    const timer = setTimeout(() => {
+      const next = timeMs + speed * 60000 * (TICK_MS / 1000);
+      if (next >= range.max) {
+        setPlaying(false);
+        onTimeChange(new Date(range.max).toISOString());
+      } else {
+        onTimeChange(new Date(next).toISOString());
+      }
+    }, TICK_MS);
+    return () => clearTimeout(timer);
+  }, [playing, timeMs, speed, range.max, onTimeChange]);
+
+  const togglePlaying = () => {
+    if (!playing && timeMs >= range.max) onTimeChange(new Date(range.min).toISOString());
+    setPlaying(!playing);
+  };
+
+  return (
+    <div className="border-b border-slate-200 bg-slate-50">
+      <div className="px-5 py-2 flex items-center justify-between">
+        <div className="text-sm font-semibold text-slate-700">
+          Route Playback
+          {playback && (
+            <span className="ml-2 text-xs font-normal text-slate-500">
+              {trips.length} trip{trips.length !== 1 ? 's' : ''}
+              {playback.breadcrumbCount === 0 && trips.length > 0 && ' - no GPS history, trips drawn as straight lines'}
+            </span>
+          )}
+        </div>
+        <button onClick={onClose} className="p-1 hover:bg-slate-200 rounded transition-colors">
+          <X className="w-4 h-4 text-slate-500" />
+        </button>
+      </div>
+
+      {error && (
+        <div className="mx-5 mb-2 bg-red-50 border border-red-200 rounded-lg p-3 flex items-center gap-2 text-sm text-red-700">
+          <AlertTriangle className="w-4 h-4" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <div className="mx-5 h-80 rounded-lg overflow-hidden border border-slate-200">
+        {playback && icons ? (
+          <MapContainer center={position ? [position.lat, position.lon] : [36.07, -79.8]} zoom={12} className="h-full w-full">
+            <TileLayer
+              attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+              url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+            />
+            <MapFitBounds points={boundsPoints} />
+
+            {playback.places.map((place, i) => (
+              <Fragment key={`place-${i}`}>
+                {place.radiusFeet && (
+                  <Circle
+                    center={[place.lat, place.lon]}
+                    radius={place.radiusFeet / FEET_PER_METER}
+                    pathOptions={{ color: PLACE_COLORS[place.kind], weight: 1, fillOpacity: 0.08 }}
+                  />
+                )}
+                {place.polygon && place.polygon.length >= 3 && (
+                  <Polygon
+                    positions={place.polygon}
+                    pathOptions={{ color: PLACE_COLORS[place.kind], weight: 1, fillOpacity: 0.08 }}
+                  />
+                )}
+                <Marker position={[place.lat, place.lon]} icon={icons.places[place.kind]}>
+                  <Popup>
+                    <div className="text-sm">
+                      <p className="font-medium">
+                        {place.jobNumber ? `Job #${place.jobNumber} - ${place.name}` : place.name}
+                      </p>
+                      {place.address && <p className="text-gray-600">{place.address}</p>}
+                      {place.scheduledStart && (
+                        <p className="text-gray-600">Scheduled {formatTime(new Date(place.scheduledStart).getTime())}</p>
+                      )}
+                    </div>
+                  </Popup>
+                </Marker>
+              </Fragment>
+            ))}
+
+            {trips.map((trip, i) => {
+              const isCurrent = position?.trip === trip;
+              return (
+                <Polyline
+                  key={`trip-${i}`}
+                  positions={trip.path.map(p => [p.lat, p.lon] as [number, number])}
+                  pathOptions={{
+                    color: tripColor(trip, arrivals),
+                    weight: isCurrent ? 5 : 3,
+                    opacity: isCurrent ? 1 : 0.6,
+                    dashArray: trip.fromBreadcrumbs ? undefined : '6 8',
+                  }}
+                />
+              );
+            })}
+
+            {drivingEvents.map(event => (
+              <Marker key={event.id} position={[event.latitude!, event.longitude!]} icon={icons.drivingEvent}>
+                <Popup>
+                  <div className="text-sm">
+                    <p className="font-medium">
+                      {event.type === 'speeding'
+                        ? `Speeding ${event.speedMph} mph (limit ${event.speedThresholdMph})`
+                        : `${event.type === 'harsh_braking' ? 'Harsh braking' : 'Harsh acceleration'} ${event.previousSpeedMph} to ${event.speedMph} mph`}
+                    </p>
+                    <p className="text-gray-600">{formatTime(new Date(event.timestamp).getTime())}</p>
+                  </div>
+                </Popup>
+              </Marker>
+            ))}
+
+            {position && (
+              <Marker position={[position.lat, position.lon]} icon={icons.vehicle} zIndexOffset={1000} />
+            )}
+          </MapContainer>
+        ) : (
+          <div className="h-full flex items-center justify-center bg-gray-100 text-gray-500 text-sm">
+            {loading ? (
+              <>
+                <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+                Loading route...
+              </>
+            ) : error ? 'Route unavailable' : 'Loading map...'}
+          </div>
+        )}
+      </div>
+
+      {/* Scrubber - moving it highlights the matching event below */}
+      <div className="px-5 py-3 flex items-center gap-3">
+        <button
+          onClick={togglePlaying}
+          disabled={range.max <= range.min}
+          className="p-2 rounded-lg bg-slate-800 text-white hover:bg-slate-700 disabled:opacity-40"
+        >
+          {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+        </button>
+        <span className="text-sm font-mono font-semibold text-slate-700 w-20">{formatTime(timeMs)}</span>
+        <input
+          type="range"
+          min={range.min}
+          max={range.max}
+          step={15000}
+          value={timeMs}
+          onChange={(e) => onTimeChange(new Date(Number(e.target.value)).toISOString())}
+          className="flex-1"
+        />
+        <span className="text-xs text-slate-500 w-24 text-right">
+          {position?.trip
+            ? position.speedMph !== null ? `Driving ${Math.round(position.speedMph)} mph` : 'Driving'
+            : 'Parked'}
+        </span>
+        <select
+          value={speed}
+          onChange={(e) => setSpeed(Number(e.target.value))}
+          className="px-2 py-1 border rounded-lg text-xs text-gray-900 bg-white"
+        >
+          {SPEED_OPTIONS.map(option => (
+            <option key={option} value={option}>{option} min/s</option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+}
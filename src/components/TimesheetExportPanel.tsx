@@ -0,0 +1,155 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { format, parseISO, subDays } from 'date-fns';
+import { AlertTriangle, Download, FileSpreadsheet, RefreshCw } from 'lucide-react';
+import { EmployeeTimesheet } from '@/types/timesheet';
+
+interface ExportPreview {
+  employees: EmployeeTimesheet[];
+  warnings: string[];
+}
+
+export default function TimesheetExportPanel() {
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [preview, setPreview] = useState<ExportPreview | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Default to the last two weeks; set on the client to prevent hydration mismatch
+  useEffect(() => {
+    const today = new Date();
+    setStartDate(format(subDays(today, 14), 'yyyy-MM-dd'));
+    setEndDate(format(subDays(today, 1), 'yyyy-MM-dd'));
+  }, []);
+
+  const query = `startDate=${startDate}&endDate=${endDate}`;
+
+  const loadPreview = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/reports/timesheet-export?${query}`);
+      const data = await response.json();
+      if (data.success) {
+        setPreview({ employees: data.employees, warnings: data.warnings });
+      } else {
+        setError(data.error || 'Failed to build timesheet');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to build timesheet');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const dayWarnings = preview?.employees.flatMap(e =>
+    e.days.flatMap(d => d.warnings.map(w => `${e.technicianName || e.employeeId} ${format(parseISO(d.date), 'M/d')}: ${w}`))
+  ) || [];
+  const allWarnings = [...(preview?.warnings || []), ...dayWarnings];
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border overflow-hidden">
+      {/* Header */}
+      <div className="px-4 py-3 border-b bg-gray-50 flex items-center gap-2">
+        <FileSpreadsheet className="w-4 h-4 text-green-600" />
+        <h2 className="font-semibold text-gray-900">Payroll Timesheet Export</h2>
+      </div>
+
+      <div className="p-4 flex flex-wrap items-end gap-3 border-b">
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">Pay period start</label>
+          <input
+            type="date"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+            className="px-3 py-1.5 border rounded text-sm text-gray-900"
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">Pay period end</label>
+          <input
+            type="date"
+            value={endDate}
+            onChange={(e) => setEndDate(e.target.value)}
+            className="px-3 py-1.5 border rounded text-sm text-gray-900"
+          />
+        </div>
+        <button
+          onClick={loadPreview}
+          disabled={loading || !startDate || !endDate}
+          className="inline-flex items-center gap-2 px-3 py-1.5 text-sm border rounded hover:bg-gray-50 disabled:opacity-50"
+        >
+          <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          Preview
+        </button>
+        <a
+          href={`/api/reports/timesheet-export?${query}&format=csv`}
+          className="inline-flex items-center gap-2 px-3 py-1.5 text-sm text-white bg-green-600 rounded hover:bg-green-700"
+        >
+          <Download className="w-4 h-4" />
+          Download Paylocity CSV
+        </a>
+      </div>
+
+      {error && (
+        <div className="px-4 py-3 text-sm text-red-700 bg-red-50 border-b">{error}</div>
+      )}
+
+      {preview && (
+        <>
+          {allWarnings.length > 0 && (
+            <div className="px-4 py-3 bg-yellow-50 border-b">
+              <div className="flex items-center gap-2 text-sm font-medium text-yellow-800 mb-1">
+                <AlertTriangle className="w-4 h-4" />
+                {allWarnings.length} item{allWarnings.length !== 1 ? 's' : ''} need attention (hours not counted)
+              </div>
+              <ul className="text-xs text-yellow-800 space-y-0.5 max-h-32 overflow-y-auto">
+                {allWarnings.map((warning, i) => (
+                  <li key={i}>{warning}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="overflow-x-auto max-h-96 overflow-y-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr className="text-left text-xs text-gray-500 uppercase">
+                  <th className="px-4 py-2">Employee</th>
+                  <th className="px-4 py-2">Paylocity ID</th>
+                  <th className="px-4 py-2 text-right">Days</th>
+                  <th className="px-4 py-2 text-right">Regular</th>
+                  <th className="px-4 py-2 text-right">Overtime</th>
+                  <th className="px-4 py-2 text-right">Corrections</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {preview.employees.map(employee => (
+                  <tr key={employee.employeeId}>
+                    <td className="px-4 py-2 font-medium text-gray-900">{employee.technicianName || '—'}</td>
+                    <td className="px-4 py-2 text-gray-600">{employee.employeeId}</td>
+                    <td className="px-4 py-2 text-right text-gray-600">{employee.days.length}</td>
+                    <td className="px-4 py-2 text-right text-gray-900">{employee.regularHours.toFixed(2)}</td>
+                    <td className={`px-4 py-2 text-right ${employee.overtimeHours > 0 ? 'text-orange-600 font-medium' : 'text-gray-400'}`}>
+                      {employee.overtimeHours.toFixed(2)}
+                    </td>
+                    <td className="px-4 py-2 text-right text-gray-600">
+                      {employee.days.reduce((sum, d) => sum + d.proposedPunches, 0)}
+                    </td>
+                  </tr>
+                ))}
+                {preview.employees.length === 0 && (
+                  <tr>
+                    <td colSpan={6} className="px-4 py-6 text-center text-gray-500">No punches in this pay period</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
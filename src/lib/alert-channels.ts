@@ -0,0 +1,123 @@
+// Alert delivery channels - email (SendGrid), SMS (Twilio) and generic webhooks
+
+import type { AlertChannel, AlertEvent } from '@/types/alerts';
+
+const SENDGRID_CONFIG = {
+  apiKey: process.env.SENDGRID_API_KEY || '',
+  baseUrl: process.env.SENDGRID_BASE_URL || 'https://api.sendgrid.com',
+  from: process.env.ALERT_EMAIL_FROM || '',
+};
+
+const TWILIO_CONFIG = {
+  accountSid: process.env.TWILIO_ACCOUNT_SID || '',
+  authToken: process.env.TWILIO_AUTH_TOKEN || '',
+  fromNumber: process.env.TWILIO_FROM_NUMBER || '',
+  baseUrl: process.env.TWILIO_BASE_URL || 'https://api.twilio.com',
+};
+
+// Links in alerts point back at the Stops page
+const APP_URL = process.env.APP_URL || '';
+
+/**
+ * Link to the technician's day in the Stops page (empty if APP_URL isn't set)
+ */
+export function getAlertLink(alert: AlertEvent): string {
+  if (!APP_URL || !alert.technicianId) return '';
+  return `${APP_URL}/stops?technicianId=${alert.technicianId}&date=${alert.eventDate}`;
+}
+
+async function sendEmail(to: string, alert: AlertEvent): Promise<void> {
+  if (!SENDGRID_CONFIG.apiKey || !SENDGRID_CONFIG.from) {
+    throw new Error('Email alerts need SENDGRID_API_KEY and ALERT_EMAIL_FROM');
+  }
+
+  const link = getAlertLink(alert);
+  const response = await fetch(`${SENDGRID_CONFIG.baseUrl}/v3/mail/send`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${SENDGRID_CONFIG.apiKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      personalizations: [{ to: [{ email: to }] }],
+      from: { email: SENDGRID_CONFIG.from },
+      subject: `[Tech Truth] ${alert.title}`,
+      content: [{ type: 'text/plain', value: link ? `${alert.message}\n\n${link}` : alert.message }],
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`SendGrid error: ${response.status} - ${await response.text()}`);
+  }
+}
+
+async function sendSms(to: string, alert: AlertEvent): Promise<void> {
+  if (!TWILIO_CONFIG.accountSid || !TWILIO_CONFIG.authToken || !TWILIO_CONFIG.fromNumber) {
+    throw new Error('SMS alerts need TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and TWILIO_FROM_NUMBER');
+  }
+
+  const params = new URLSearchParams();
+  params.append('To', to);
+  params.append('From', TWILIO_CONFIG.fromNumber);
+  params.append('Body', `${alert.title}: ${alert.message}`);
+
+  const credentials = Buffer.from(`${TWILIO_CONFIG.accountSid}:${TWILIO_CONFIG.authToken}`).toString('base64');
+  const response = await fetch(
+    `${TWILIO_CONFIG.baseUrl}/2010-04-01/Accounts/${TWILIO_CONFIG.accountSid}/Messages.json`,
+    {
+      method: 'POST',
+      headers: {
+        'Authorization': `Basic ${credentials}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: params.toString(),
+    }
+  );
+
+  if (!response.ok) {
+    throw new Error(`Twilio error: ${response.status} - ${await response.text()}`);
+  }
+}
+
+async function sendWebhook(url: string, alert: AlertEvent): Promise<void> {
+  const link = getAlertLink(alert);
+
+  // 'text' makes the payload postable straight to Slack / Teams incoming webhooks
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      text: `*${alert.title}*\n${alert.message}${link ? `\n${link}` : ''}`,
+      alert: {
+        id: alert.id,
+        type: alert.alertType,
+        technicianId: alert.technicianId,
+        date: alert.eventDate,
+        title: alert.title,
+        message: alert.message,
+        details: alert.details,
+        link: link || undefined,
+      },
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Webhook error: ${response.status} - ${await response.text()}`);
+  }
+}
+
+/**
+ * Deliver an alert to one channel target (throws on failure)
+ */
+export async function deliverToChannel(channel: AlertChannel, target: string, alert: AlertEvent): Promise<void> {
+  switch (channel) {
+    case 'email':
+      return sendEmail(target, alert);
+    case 'sms':
+      return sendSms(target, alert);
+    case 'webhook':
+      return sendWebhook(target, alert);
+    default:
+      throw new Error(`Unknown alert channel: ${channel}`);
+  }
+}
@@ -0,0 +1,381 @@
+// Workday alerting - detects conditions after each sync, dedupes them and delivers to subscribers
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { formatInTimeZone } from 'date-fns-tz';
+import { createServerClient } from './supabase';
+import { deliverToChannel } from './alert-channels';
+import type { Database, Json } from '@/types/database';
+import type { TimelineFetcher } from './timeline-report';
+import {
+  AlertType,
+  AlertEvent,
+  AlertEventRow,
+  AlertSubscription,
+  AlertSubscriptionRow,
+  rowToAlertEvent,
+  rowToAlertSubscription,
+} from '@/types/alerts';
+
+const TIMEZONE = 'America/New_York';
+
+// Missing clock-outs are only raised once it's this late (Eastern hour, 24h clock)
+export const MISSING_CLOCK_OUT_HOUR = 19;
+
+// Failed deliveries are retried on later runs up to this many attempts
+const MAX_DELIVERY_ATTEMPTS = 3;
+
+type Supabase = SupabaseClient<Database>;
+
+interface AlertTechnician {
+  id: string;
+  name: string;
+  homeOfficeId: string | null;
+}
+
+export interface AlertCandidate {
+  alertType: AlertType;
+  dedupeKey: string;
+  technicianId: string;
+  eventDate: string;
+  title: string;
+  message: string;
+  details?: Record<string, unknown>;
+}
+
+export interface AlertRunSummary {
+  date: string;
+  detected: number;    // Conditions found this run (including already-alerted ones)
+  raised: number;      // New alerts after dedupe
+  delivered: number;
+  failedDeliveries: number;
+  errors: string[];
+}
+
+function formatTime(timestamp: string): string {
+  return formatInTimeZone(new Date(timestamp), TIMEZONE, 'h:mm a');
+}
+
+/**
+ * Punch records flagged as violations by the punch sync
+ */
+async function detectPunchViolations(
+  supabase: Supabase,
+  date: string,
+  techById: Map<string, AlertTechnician>
+): Promise<AlertCandidate[]> {
+  const { data, error } = await supabase
+    .from('punch_records')
+    .select('id, technician_id, punch_time, punch_type, violation_reason, gps_address')
+    .eq('punch_date', date)
+    .eq('is_violation', true);
+
+  if (error) throw new Error(`Punch violations: ${error.message}`);
+
+  return (data || [])
+    .filter(p => p.technician_id && techById.has(p.technician_id))
+    .map(p => {
+      const tech = techById.get(p.technician_id!)!;
+      return {
+        alertType: 'punch_violation' as const,
+        dedupeKey: `punch_violation:${p.id}`,
+        technicianId: tech.id,
+        eventDate: date,
+        title: `${tech.name}: ${p.punch_type} violation`,
+        message: `${p.violation_reason || 'Punch violation'} (${p.punch_type} at ${formatTime(p.punch_time)}${p.gps_address ? `, ${p.gps_address}` : ''})`,
+        details: { punchRecordId: p.id, punchType: p.punch_type, punchTime: p.punch_time },
+      };
+    });
+}
+
+/**
+ * Technicians still on the clock after MISSING_CLOCK_OUT_HOUR
+ */
+async function detectMissingClockOuts(
+  supabase: Supabase,
+  date: string,
+  now: Date,
+  techById: Map<string, AlertTechnician>
+): Promise<AlertCandidate[]> {
+  const today = formatInTimeZone(now, TIMEZONE, 'yyyy-MM-dd');
+  const hour = Number(formatInTimeZone(now, TIMEZONE, 'H'));
+  if (date === today && hour < MISSING_CLOCK_OUT_HOUR) return [];
+  if (date > today) return [];
+
+  const { data, error } = await supabase
+    .from('punch_records')
+    .select('technician_id, punch_time, punch_type')
+    .eq('punch_date', date)
+    .order('punch_time', { ascending: true });
+
+  if (error) throw new Error(`Missing clock-outs: ${error.message}`);
+
+  // Last punch per technician - anything but a ClockOut means they're still on the clock
+  const lastPunch = new Map<string, { punch_time: string; punch_type: string }>();
+  for (const punch of data || []) {
+    if (punch.technician_id) lastPunch.set(punch.technician_id, punch);
+  }
+
+  const candidates: AlertCandidate[] = [];
+  for (const [techId, punch] of lastPunch) {
+    const tech = techById.get(techId);
+    if (!tech || punch.punch_type === 'ClockOut') continue;
+
+    candidates.push({
+      alertType: 'missing_clock_out',
+      dedupeKey: `missing_clock_out:${techId}:${date}`,
+      technicianId: techId,
+      eventDate: date,
+      title: `${tech.name}: no clock-out`,
+      message: `Still on the clock after ${MISSING_CLOCK_OUT_HOUR % 12}pm - last punch was ${punch.punch_type} at ${formatTime(punch.punch_time)}`,
+      details: { lastPunchType: punch.punch_type, lastPunchTime: punch.punch_time },
+    });
+  }
+
+  return candidates;
+}
+
+/**
+ * Late first-job arrivals recorded by the job sync
+ */
+async function detectLateFirstJobs(
+  supabase: Supabase,
+  date: string,
+  techById: Map<string, AlertTechnician>
+): Promise<AlertCandidate[]> {
+  const { data, error } = await supabase
+    .from('arrival_discrepancies')
+    .select('id, technician_id, scheduled_arrival, actual_arrival, variance_minutes, jobs (job_number, customer_name)')
+    .eq('job_date', date)
+    .eq('is_first_job', true)
+    .eq('is_late', true);
+
+  if (error) throw new Error(`Late first jobs: ${error.message}`);
+
+  return (data || [])
+    .filter(d => d.technician_id && techById.has(d.technician_id))
+    .map(d => {
+      const tech = techById.get(d.technician_id!)!;
+      const job = d.jobs as { job_number: string; customer_name: string | null } | null;
+      return {
+        alertType: 'late_first_job' as const,
+        dedupeKey: `late_first_job:${d.id}`,
+        technicianId: tech.id,
+        eventDate: date,
+        title: `${tech.name}: late to first job`,
+        message: `Arrived ${formatTime(d.actual_arrival)}, scheduled ${formatTime(d.scheduled_arrival)} (${d.variance_minutes}m late)${job ? ` - job ${job.job_number}${job.customer_name ? `, ${job.customer_name}` : ''}` : ''}`,
+        details: { discrepancyId: d.id, varianceMinutes: d.variance_minutes, jobNumber: job?.job_number },
+      };
+    });
+}
+
+/**
+ * Suspicious transit legs from the day timeline's transit analysis
+ * Only technicians who arrived at a job that day are looked at, to keep timeline fetches down.
+ */
+async function detectSuspiciousTransit(
+  supabase: Supabase,
+  date: string,
+  techById: Map<string, AlertTechnician>,
+  fetchTimeline: TimelineFetcher
+): Promise<AlertCandidate[]> {
+  const { data: jobs, error } = await supabase
+    .from('jobs')
+    .select('technician_id')
+    .eq('job_date', date)
+    .not('actual_arrival', 'is', null);
+
+  if (error) throw new Error(`Suspicious transit: ${error.message}`);
+
+  const arrivedTechIds = new Set<string>();
+  for (const job of jobs || []) {
+    if (job.technician_id) arrivedTechIds.add(job.technician_id);
+  }
+
+  const candidates: AlertCandidate[] = [];
+  for (const techId of arrivedTechIds) {
+    const tech = techById.get(techId);
+    if (!tech) continue;
+
+    const timeline = await fetchTimeline(techId, date);
+    for (const event of timeline?.events || []) {
+      const transit = event.transitAnalysis;
+      if (!transit?.isSuspicious) continue;
+
+      const expectedMinutes = Math.max(transit.expectedDriveMinutes, transit.fleetDriveMinutes ?? 0);
+      candidates.push({
+        alertType: 'suspicious_transit',
+        dedupeKey: `suspicious_transit:${techId}:${date}:${transit.fromJobNumber || transit.fromLabel}:${transit.toJobNumber || transit.toLabel}`,
+        technicianId: techId,
+        eventDate: date,
+        title: `${tech.name}: ${transit.excessMinutes}m unexplained transit`,
+        message: `${transit.fromLabel} → ${transit.toLabel}: ${transit.onClockTransitMinutes}m on the clock for a ${expectedMinutes}m drive (arrived ${formatTime(event.timestamp)})`,
+        details: { ...transit },
+      });
+    }
+  }
+
+  return candidates;
+}
+
+function subscriptionMatches(subscription: AlertSubscription, alert: AlertEvent, techById: Map<string, AlertTechnician>): boolean {
+  if (!subscription.active) return false;
+  if (subscription.alertTypes.length > 0 && !subscription.alertTypes.includes(alert.alertType)) return false;
+  if (subscription.officeId) {
+    const tech = alert.technicianId ? techById.get(alert.technicianId) : undefined;
+    if (tech?.homeOfficeId !== subscription.officeId) return false;
+  }
+  return true;
+}
+
+/**
+ * Send one alert to one subscription and record the attempt
+ */
+async function deliver(
+  supabase: Supabase,
+  alert: AlertEvent,
+  subscription: { id: string | null; channel: string; target: string },
+  previousAttempts: number
+): Promise<boolean> {
+  let errorMessage: string | null = null;
+  try {
+    await deliverToChannel(subscription.channel as AlertSubscription['channel'], subscription.target, alert);
+  } catch (error) {
+    errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`[Alerts] ${subscription.channel} delivery to ${subscription.target} failed:`, errorMessage);
+  }
+
+  const { error } = await supabase
+    .from('alert_deliveries')
+    .upsert({
+      alert_event_id: alert.id,
+      subscription_id: subscription.id,
+      channel: subscription.channel,
+      target: subscription.target,
+      status: errorMessage ? 'failed' : 'sent',
+      attempts: previousAttempts + 1,
+      error: errorMessage,
+      sent_at: errorMessage ? null : new Date().toISOString(),
+    }, {
+      onConflict: 'alert_event_id,subscription_id',
+    });
+
+  if (error) {
+    console.error('[Alerts] Failed to record delivery:', error.message);
+  }
+
+  return !errorMessage;
+}
+
+/**
+ * Evaluate alert conditions for a day and deliver any new ones
+ * Each condition has a dedupe key, so re-running after every sync only alerts once.
+ * Deliveries that failed on earlier runs are retried up to MAX_DELIVERY_ATTEMPTS.
+ */
+export async function evaluateAlerts(options: {
+  date: string;
+  fetchTimeline: TimelineFetcher;
+  now?: Date;
+}): Promise<AlertRunSummary> {
+  const supabase = createServerClient();
+  const { date, fetchTimeline } = options;
+  const now = options.now ?? new Date();
+  const summary: AlertRunSummary = { date, detected: 0, raised: 0, delivered: 0, failedDeliveries: 0, errors: [] };
+
+  const { data: technicians, error: techError } = await supabase
+    .from('technicians')
+    .select('id, name, home_office_id')
+    .eq('active', true);
+
+  if (techError) throw new Error(techError.message);
+
+  const techById = new Map<string, AlertTechnician>(
+    (technicians || []).map(t => [t.id, { id: t.id, name: t.name, homeOfficeId: t.home_office_id }])
+  );
+
+  // Run each detector independently so one failing source doesn't hide the others
+  const detectors: Array<() => Promise<AlertCandidate[]>> = [
+    () => detectPunchViolations(supabase, date, techById),
+    () => detectMissingClockOuts(supabase, date, now, techById),
+    () => detectLateFirstJobs(supabase, date, techById),
+    () => detectSuspiciousTransit(supabase, date, techById, fetchTimeline),
+  ];
+
+  const candidates: AlertCandidate[] = [];
+  for (const detect of detectors) {
+    try {
+      candidates.push(...await detect());
+    } catch (error) {
+      summary.errors.push(error instanceof Error ? error.message : String(error));
+    }
+  }
+  summary.detected = candidates.length;
+
+  // Dedupe: existing keys are ignored, so only newly inserted rows come back
+  let newAlerts: AlertEvent[] = [];
+  if (candidates.length > 0) {
+    const { data: inserted, error: insertError } = await supabase
+      .from('alert_events')
+      .upsert(candidates.map(c => ({
+        alert_type: c.alertType,
+        dedupe_key: c.dedupeKey,
+        technician_id: c.technicianId,
+        event_date: c.eventDate,
+        title: c.title,
+        message: c.message,
+        details: (c.details ?? null) as Json,
+      })), {
+        onConflict: 'dedupe_key',
+        ignoreDuplicates: true,
+      })
+      .select();
+
+    if (insertError) throw new Error(`Failed to record alerts: ${insertError.message}`);
+
+    newAlerts = (inserted || []).map(row => rowToAlertEvent(row as AlertEventRow));
+    summary.raised = newAlerts.length;
+  }
+
+  const { data: subscriptionRows, error: subError } = await supabase
+    .from('alert_subscriptions')
+    .select('*')
+    .eq('active', true);
+
+  if (subError) throw new Error(subError.message);
+
+  const subscriptions = (subscriptionRows || []).map(row => rowToAlertSubscription(row as AlertSubscriptionRow));
+
+  for (const alert of newAlerts) {
+    for (const subscription of subscriptions.filter(s => subscriptionMatches(s, alert, techById))) {
+      const ok = await deliver(supabase, alert, subscription, 0);
+      if (ok) summary.delivered++;
+      else summary.failedDeliveries++;
+    }
+  }
+
+  // Retry earlier failures
+  const { data: failed, error: failedError } = await supabase
+    .from('alert_deliveries')
+    .select('subscription_id, channel, target, attempts, alert_events (*)')
+    .eq('status', 'failed')
+    .lt('attempts', MAX_DELIVERY_ATTEMPTS);
+
+  if (failedError) {
+    summary.errors.push(`Delivery retry: ${failedError.message}`);
+  } else {
+    for (const delivery of failed || []) {
+      const alertRow = delivery.alert_events as AlertEventRow | null;
+      if (!alertRow || newAlerts.some(a => a.id === alertRow.id)) continue;
+
+      const ok = await deliver(
+        supabase,
+        rowToAlertEvent(alertRow),
+        { id: delivery.subscription_id, channel: delivery.channel, target: delivery.target },
+        delivery.attempts
+      );
+      if (ok) summary.delivered++;
+      else summary.failedDeliveries++;
+    }
+  }
+
+  return summary;
+}
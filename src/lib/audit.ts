@@ -0,0 +1,45 @@
+// Audit trail - records review decisions to the append-only audit_events table
+
+import { createServerClient } from './supabase';
+import type { Json } from '@/types/database';
+import type { AppUser } from '@/types/auth';
+import type { AuditEntityType } from '@/types/audit';
+
+export interface AuditEventInput {
+  actor: AppUser;
+  entityType: AuditEntityType;
+  verb: string;                // Combined with entityType into the action, e.g. 'approved'
+  entityId?: string | null;
+  technicianId?: string | null;
+  eventDate?: string | null;
+  before?: unknown;
+  after?: unknown;
+  note?: string | null;
+}
+
+/**
+ * Append an audit event
+ * Failures are logged, not thrown - the decision itself has already been saved.
+ */
+export async function recordAuditEvent(input: AuditEventInput): Promise<void> {
+  const supabase = createServerClient();
+
+  const { error } = await supabase
+    .from('audit_events')
+    .insert({
+      actor_id: input.actor.id,
+      actor_name: input.actor.displayName,
+      action: `${input.entityType}.${input.verb}`,
+      entity_type: input.entityType,
+      entity_id: input.entityId ?? null,
+      technician_id: input.technicianId ?? null,
+      event_date: input.eventDate ?? null,
+      before: (input.before ?? null) as Json,
+      after: (input.after ?? null) as Json,
+      note: input.note ?? null,
+    });
+
+  if (error) {
+    console.error(`[Audit] Failed to record ${input.entityType}.${input.verb}:`, error.message);
+  }
+}
@@ -0,0 +1,111 @@
+// Server-side auth - resolves the Supabase Auth user behind an API request and enforces roles
+
+import { NextResponse } from 'next/server';
+import { createServerClient } from './supabase';
+import { AppUser, UserRole, UserProfileRow, rowToAppUser, AUTH_COOKIE } from '@/types/auth';
+
+// Header used by the sync service / scripts instead of a user session
+export const SYNC_KEY_HEADER = 'x-sync-key';
+
+// Role groups used by route handlers
+export const ANY_ROLE: UserRole[] = ['admin', 'service_manager', 'payroll', 'read_only'];
+export const REVIEWER_ROLES: UserRole[] = ['admin', 'service_manager'];
+export const PAYROLL_ROLES: UserRole[] = ['admin', 'service_manager', 'payroll'];
+export const SYNC_ROLES: UserRole[] = ['admin', 'service_manager'];
+export const ADMIN_ROLES: UserRole[] = ['admin'];
+
+// Stand-in user for requests authenticated with SYNC_API_KEY
+const SYNC_SERVICE_USER: AppUser = {
+  id: 'sync-service',
+  email: 'sync-service',
+  displayName: 'Sync Service',
+  role: 'admin',
+  active: true,
+};
+
+export type AuthResult =
+  | { user: AppUser; response: null }
+  | { user: null; response: NextResponse };
+
+/**
+ * Read the access token from the Authorization header or the session cookie
+ */
+function getAccessToken(req: Request): string | null {
+  const authHeader = req.headers.get('authorization');
+  if (authHeader?.startsWith('Bearer ')) {
+    return authHeader.slice(7);
+  }
+
+  const cookieHeader = req.headers.get('cookie') || '';
+  for (const part of cookieHeader.split(';')) {
+    const [name, ...value] = part.trim().split('=');
+    if (name === AUTH_COOKIE && value.length > 0) {
+      return decodeURIComponent(value.join('='));
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Get the signed-in user for a request (null if not signed in, unknown, or deactivated)
+ */
+export async function getAuthUser(req: Request): Promise<AppUser | null> {
+  const token = getAccessToken(req);
+  if (!token) return null;
+
+  const supabase = createServerClient();
+
+  const { data: { user }, error } = await supabase.auth.getUser(token);
+  if (error || !user) return null;
+
+  const { data: profile } = await supabase
+    .from('user_profiles')
+    .select('*')
+    .eq('id', user.id)
+    .single();
+
+  if (!profile) return null;
+
+  const appUser = rowToAppUser(profile as UserProfileRow);
+  return appUser.active ? appUser : null;
+}
+
+/**
+ * Require a signed-in user with one of the given roles
+ * Returns the user, or a 401/403 response for the route to return as-is.
+ *
+ * @param options.allowSyncKey - Also accept the SYNC_API_KEY header (sync service, scripts)
+ */
+export async function requireRole(
+  req: Request,
+  roles: UserRole[],
+  options: { allowSyncKey?: boolean } = {}
+): Promise<AuthResult> {
+  if (options.allowSyncKey && process.env.SYNC_API_KEY) {
+    if (req.headers.get(SYNC_KEY_HEADER) === process.env.SYNC_API_KEY) {
+      return { user: SYNC_SERVICE_USER, response: null };
+    }
+  }
+
+  const user = await getAuthUser(req);
+
+  if (!user) {
+    return {
+      user: null,
+      response: NextResponse.json({ success: false, error: 'Not signed in' }, { status: 401 }),
+    };
+  }
+
+  if (!roles.includes(user.role)) {
+    return {
+      user: null,
+      response: NextResponse.json(
+        { success: false, error: `Your role (${user.role}) is not allowed to do this` },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { user, response: null };
+}
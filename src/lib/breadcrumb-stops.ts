@@ -0,0 +1,180 @@
+// Breadcrumb stop detection - finds stops inside Verizon segments from GPS history points
+// Segments only break when the ignition turns off, so a 10-minute gas stop with the engine
+// running is invisible to them. Clustering the breadcrumbs by dwell time and radius finds it.
+
+import { GPSHistoryPoint, SegmentLocation, VehicleSegment } from './verizon-connect';
+import { calculateDistanceFeet, parseVerizonUtcTimestamp } from './geo-utils';
+
+export const BREADCRUMB_STOP_RADIUS_FEET = 250;
+export const BREADCRUMB_MIN_DWELL_MINUTES = 5;
+
+export interface BreadcrumbStop {
+  latitude: number;
+  longitude: number;
+  arrivalTime: Date;
+  departureTime: Date;
+  durationMinutes: number;
+  pointCount: number;
+  address: SegmentLocation;
+}
+
+export interface BreadcrumbStopOptions {
+  radiusFeet?: number;
+  minDwellMinutes?: number;
+}
+
+/**
+ * Cluster breadcrumb points into stops
+ * Consecutive points within radiusFeet of the cluster's center form one cluster; clusters
+ * that span at least minDwellMinutes are stops.
+ */
+export function detectBreadcrumbStops(
+  points: GPSHistoryPoint[],
+  options: BreadcrumbStopOptions = {}
+): BreadcrumbStop[] {
+  const radiusFeet = options.radiusFeet ?? BREADCRUMB_STOP_RADIUS_FEET;
+  const minDwellMinutes = options.minDwellMinutes ?? BREADCRUMB_MIN_DWELL_MINUTES;
+
+  const sorted = points
+    .filter(p => p.UpdateUtc && Number.isFinite(p.Latitude) && Number.isFinite(p.Longitude))
+    .map(p => ({ point: p, time: parseVerizonUtcTimestamp(p.UpdateUtc) }))
+    .sort((a, b) => a.time.getTime() - b.time.getTime());
+
+  const stops: BreadcrumbStop[] = [];
+  let cluster: typeof sorted = [];
+  let centerLat = 0;
+  let centerLon = 0;
+
+  const flush = () => {
+    if (cluster.length < 2) return;
+    const arrivalTime = cluster[0].time;
+    const departureTime = cluster[cluster.length - 1].time;
+    const durationMinutes = Math.round((departureTime.getTime() - arrivalTime.getTime()) / 60000);
+    if (durationMinutes < minDwellMinutes) return;
+
+    const { Address } = cluster[0].point;
+    stops.push({
+      latitude: centerLat,
+      longitude: centerLon,
+      arrivalTime,
+      departureTime,
+      durationMinutes,
+      pointCount: cluster.length,
+      address: { ...Address, Latitude: centerLat, Longitude: centerLon },
+    });
+  };
+
+  for (const entry of sorted) {
+    const { Latitude, Longitude } = entry.point;
+
+    if (cluster.length > 0 && calculateDistanceFeet(centerLat, centerLon, Latitude, Longitude) <= radiusFeet) {
+      cluster.push(entry);
+      // Running mean keeps the center on the parked spot rather than the first fix
+      centerLat += (Latitude - centerLat) / cluster.length;
+      centerLon += (Longitude - centerLon) / cluster.length;
+    } else {
+      flush();
+      cluster = [entry];
+      centerLat = Latitude;
+      centerLon = Longitude;
+    }
+  }
+  flush();
+
+  return stops;
+}
+
+function toVerizonTimestamp(time: Date): string {
+  return time.toISOString().replace(/\.\d{3}Z$/, '');
+}
+
+/**
+ * Split segments around breadcrumb stops that happened while the ignition stayed on
+ * A stop counts when it falls strictly inside a segment and away from both of its ends
+ * (those are already segment-derived stops). Distance is shared out by driving time.
+ * Returns the new segment list and the stops that were merged in.
+ */
+export function mergeBreadcrumbStops(
+  segments: VehicleSegment[],
+  stops: BreadcrumbStop[],
+  radiusFeet: number = BREADCRUMB_STOP_RADIUS_FEET
+): { segments: VehicleSegment[]; mergedStops: BreadcrumbStop[] } {
+  const merged: VehicleSegment[] = [];
+  const mergedStops: BreadcrumbStop[] = [];
+
+  for (const segment of segments) {
+    if (!segment.StartDateUtc || !segment.StartLocation) {
+      merged.push(segment);
+      continue;
+    }
+
+    const start = parseVerizonUtcTimestamp(segment.StartDateUtc);
+    const end = segment.EndDateUtc ? parseVerizonUtcTimestamp(segment.EndDateUtc) : null;
+    const awayFrom = (location: SegmentLocation | null, stop: BreadcrumbStop) => !location ||
+      calculateDistanceFeet(location.Latitude, location.Longitude, stop.latitude, stop.longitude) > radiusFeet;
+
+    const inside = stops
+      .filter(stop =>
+        stop.arrivalTime > start &&
+        (!end || stop.departureTime < end) &&
+        awayFrom(segment.StartLocation, stop) &&
+        awayFrom(segment.EndLocation, stop)
+      )
+      .sort((a, b) => a.arrivalTime.getTime() - b.arrivalTime.getTime());
+
+    if (inside.length === 0) {
+      merged.push(segment);
+      continue;
+    }
+
+    const totalDrivingMs = end
+      ? (end.getTime() - start.getTime()) - inside.reduce((sum, s) => sum + (s.departureTime.getTime() - s.arrivalTime.getTime()), 0)
+      : 0;
+    const shareOfDistance = (fromMs: number, toMs: number) =>
+      segment.DistanceKilometers != null && totalDrivingMs > 0
+        ? segment.DistanceKilometers * (toMs - fromMs) / totalDrivingMs
+        : null;
+
+    let legStart = start;
+    let legStartLocation = segment.StartLocation;
+    let legStartIsPrivate = segment.StartLocationIsPrivate;
+    let stoppedSeconds = 0;
+
+    for (const stop of inside) {
+      // Overlapping clusters - keep the first
+      if (stop.arrivalTime <= legStart) continue;
+
+      merged.push({
+        StartDateUtc: toVerizonTimestamp(legStart),
+        EndDateUtc: toVerizonTimestamp(stop.arrivalTime),
+        StartLocation: legStartLocation,
+        EndLocation: stop.address,
+        StartLocationIsPrivate: legStartIsPrivate,
+        EndLocationIsPrivate: false,
+        IsComplete: true,
+        DistanceKilometers: shareOfDistance(legStart.getTime(), stop.arrivalTime.getTime()),
+      });
+      mergedStops.push(stop);
+      stoppedSeconds += stop.durationMinutes * 60;
+
+      legStart = stop.departureTime;
+      legStartLocation = stop.address;
+      legStartIsPrivate = false;
+    }
+
+    merged.push({
+      StartDateUtc: toVerizonTimestamp(legStart),
+      EndDateUtc: segment.EndDateUtc,
+      StartLocation: legStartLocation,
+      EndLocation: segment.EndLocation,
+      StartLocationIsPrivate: legStartIsPrivate,
+      EndLocationIsPrivate: segment.EndLocationIsPrivate,
+      IsComplete: segment.IsComplete,
+      DistanceKilometers: end ? shareOfDistance(legStart.getTime(), end.getTime()) : null,
+      // Engine-on stops are idle time of their own - the rest stays with the final stop
+      IdleTime: segment.IdleTime != null ? Math.max(0, segment.IdleTime - stoppedSeconds) : segment.IdleTime,
+    });
+  }
+
+  return { segments: merged, mergedStops };
+}
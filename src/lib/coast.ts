@@ -0,0 +1,119 @@
+// Coast fuel card API client for Tech Truth
+// Coast hasn't published API docs yet (see docs/COAST_FUEL_INTEGRATION.md). The endpoint and
+// response shape below are what the discovery work points to, and what the local stand-in in
+// scripts/mock-vendors.js serves - adjust here once Coast confirms them.
+
+const COAST_CONFIG = {
+  baseUrl: process.env.COAST_API_URL || 'https://portal-api.coastpay.com',
+  apiKey: process.env.COAST_API_KEY || '',
+  policyId: process.env.COAST_POLICY_ID || '127683', // Admin policy - covers every card
+};
+
+export interface CoastTransaction {
+  id: string;
+  cardId: string;
+  cardholderName: string | null;
+  transactionTime: string; // ISO datetime (UTC)
+  merchantName: string | null;
+  merchantAddress: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  amountCents: number;
+  gallons: number | null;
+  fuelType: string | null;
+  status: string;
+  raw: RawCoastTransaction;
+}
+
+interface RawCoastTransaction {
+  id: string;
+  card: { id: string; last_four?: string; cardholder_name?: string | null };
+  authorized_at: string;
+  status: string; // 'pending', 'settled', 'declined', 'reversed'
+  amount_cents: number;
+  merchant?: {
+    name?: string | null;
+    address?: string | null;
+    latitude?: number | null;
+    longitude?: number | null;
+  } | null;
+  fuel?: { gallons?: number | null; product?: string | null } | null;
+}
+
+interface RawTransactionsPage {
+  transactions: RawCoastTransaction[];
+  next_cursor: string | null;
+}
+
+// Declined and reversed authorizations never put fuel in a truck
+export const VOID_TRANSACTION_STATUSES = ['declined', 'reversed'];
+
+export function isCoastConfigured(): boolean {
+  return !!COAST_CONFIG.apiKey;
+}
+
+async function coastFetch<T>(endpoint: string): Promise<T> {
+  const response = await fetch(`${COAST_CONFIG.baseUrl}${endpoint}`, {
+    headers: {
+      Authorization: `Bearer ${COAST_CONFIG.apiKey}`,
+      Accept: 'application/json',
+    },
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Coast API error (${response.status}): ${errorText}`);
+  }
+
+  return response.json();
+}
+
+function toTransaction(raw: RawCoastTransaction): CoastTransaction {
+  return {
+    id: raw.id,
+    cardId: raw.card.id,
+    cardholderName: raw.card.cardholder_name || null,
+    transactionTime: new Date(raw.authorized_at).toISOString(),
+    merchantName: raw.merchant?.name || null,
+    merchantAddress: raw.merchant?.address || null,
+    latitude: raw.merchant?.latitude ?? null,
+    longitude: raw.merchant?.longitude ?? null,
+    amountCents: raw.amount_cents,
+    gallons: raw.fuel?.gallons ?? null,
+    fuelType: raw.fuel?.product || null,
+    status: raw.status,
+    raw,
+  };
+}
+
+/**
+ * Card transactions authorized in [start, end), all pages
+ * Declined and reversed transactions are included so a purchase synced while pending can be
+ * voided - check status against VOID_TRANSACTION_STATUSES.
+ */
+export async function getFuelTransactions(start: Date, end: Date): Promise<CoastTransaction[]> {
+  if (!isCoastConfigured()) {
+    throw new Error('Coast is not configured (COAST_API_KEY)');
+  }
+
+  const transactions: CoastTransaction[] = [];
+  let cursor: string | null = null;
+
+  do {
+    const params = new URLSearchParams({
+      start_time: start.toISOString(),
+      end_time: end.toISOString(),
+      limit: '100',
+    });
+    if (cursor) params.set('cursor', cursor);
+
+    const page: RawTransactionsPage = await coastFetch(
+      `/policy-v2/${COAST_CONFIG.policyId}/transactions?${params.toString()}`
+    );
+
+    transactions.push(...(page.transactions || []).map(toTransaction));
+    cursor = page.next_cursor;
+  } while (cursor);
+
+  return transactions;
+}
@@ -0,0 +1,215 @@
+// Persisted day timelines - stored copies of the technician-timeline report, invalidated when inputs change
+
+import { addDays, format, parseISO } from 'date-fns';
+import { createServerClient } from './supabase';
+import { TIMELINE_BUILDER_VERSION } from './timeline-builder';
+import { loadTruckAssignments, resolveVehicle } from './truck-assignments';
+import { loadRideAlongs } from './ride-alongs';
+import type { Json } from '@/types/database';
+import type { DayTimeline } from '@/types/timeline';
+
+// What changed to make a stored timeline stale
+export type TimelineInvalidationReason =
+  | 'gps_segments'
+  | 'jobs'
+  | 'punches'
+  | 'estimates'
+  | 'fuel_transactions'
+  | 'proposed_punch'
+  | 'manual_job_association'
+  | 'excused_visit'
+  | 'custom_location'
+  | 'office'
+  | 'technician'
+  | 'truck_assignment'
+  | 'ride_along'
+  | 'resync'; // GPS, jobs and punches re-pulled for one tech/day from the Stops page
+
+export interface StoredDayTimeline {
+  timeline: DayTimeline;
+  builtAt: string;
+}
+
+/**
+ * End of a workday's GPS window (5 AM Eastern the next morning)
+ * Timelines built before then can still change, so they're never served from storage.
+ */
+export function getWorkdayWindowEnd(date: string): Date {
+  const nextDay = format(addDays(parseISO(date), 1), 'yyyy-MM-dd');
+  return new Date(`${nextDay}T10:00:00Z`);
+}
+
+/**
+ * The stored timeline for a technician and day, if it is current
+ * Returns null when there is none, it's stale, it was built by an older builder version,
+ * or it was built before the day was over.
+ */
+export async function getStoredDayTimeline(technicianId: string, date: string): Promise<StoredDayTimeline | null> {
+  const supabase = createServerClient();
+
+  const { data, error } = await supabase
+    .from('day_timelines')
+    .select('timeline, built_at, builder_version, is_stale')
+    .eq('technician_id', technicianId)
+    .eq('timeline_date', date)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`[DayTimelines] Failed to read ${technicianId} on ${date}:`, error.message);
+    return null;
+  }
+
+  if (!data || data.is_stale || data.builder_version !== TIMELINE_BUILDER_VERSION) return null;
+  if (new Date(data.built_at) < getWorkdayWindowEnd(date)) return null;
+
+  return { timeline: data.timeline as unknown as DayTimeline, builtAt: data.built_at };
+}
+
+/**
+ * Store a freshly built timeline
+ * If the day was invalidated while it was being built, the row stays stale so the
+ * background job picks it up again.
+ */
+export async function saveDayTimeline(timeline: DayTimeline, buildStartedAt: Date): Promise<void> {
+  const supabase = createServerClient();
+
+  const { data: existing } = await supabase
+    .from('day_timelines')
+    .select('is_stale, stale_at')
+    .eq('technician_id', timeline.technicianId)
+    .eq('timeline_date', timeline.date)
+    .maybeSingle();
+
+  const invalidatedDuringBuild = !!existing?.is_stale &&
+    !!existing.stale_at && new Date(existing.stale_at) > buildStartedAt;
+
+  const { error } = await supabase
+    .from('day_timelines')
+    .upsert({
+      technician_id: timeline.technicianId,
+      timeline_date: timeline.date,
+      builder_version: TIMELINE_BUILDER_VERSION,
+      timeline: timeline as unknown as Json,
+      built_at: buildStartedAt.toISOString(),
+      ...(invalidatedDuringBuild ? {} : { is_stale: false, stale_reason: null, stale_at: null }),
+    }, { onConflict: 'technician_id,timeline_date' });
+
+  if (error) {
+    console.error(`[DayTimelines] Failed to store ${timeline.technicianName} on ${timeline.date}:`, error.message);
+  }
+}
+
+/**
+ * Mark stored timelines stale so they're rebuilt
+ * Leave technicianIds / dates out to cover every technician / day (e.g. a custom location edit).
+ * Failures are logged, not thrown - the change itself has already been saved.
+ */
+export async function invalidateDayTimelines(
+  reason: TimelineInvalidationReason,
+  scope: { technicianIds?: (string | null | undefined)[]; dates?: (string | null | undefined)[] } = {}
+): Promise<void> {
+  const supabase = createServerClient();
+  const technicianIds = [...new Set((scope.technicianIds || []).filter((id): id is string => !!id))];
+  const dates = [...new Set((scope.dates || []).filter((d): d is string => !!d))];
+
+  // An explicit but empty scope (e.g. a sync that stored nothing) has nothing to invalidate
+  if ((scope.technicianIds && technicianIds.length === 0) || (scope.dates && dates.length === 0)) return;
+
+  let query = supabase
+    .from('day_timelines')
+    .update({ is_stale: true, stale_reason: reason, stale_at: new Date().toISOString() })
+    .not('id', 'is', null);
+
+  if (technicianIds.length > 0) query = query.in('technician_id', technicianIds);
+  if (dates.length > 0) query = query.in('timeline_date', dates);
+
+  const { error } = await query;
+
+  if (error) {
+    console.error(`[DayTimelines] Failed to invalidate (${reason}):`, error.message);
+  }
+}
+
+/**
+ * Technician days the background job should (re)build, most recent first
+ * - stored timelines that are stale or from an older builder version
+ * - finished days in the last `days` days whose stored timeline was built before the day was over
+ * - finished days in the last `days` days that have jobs but no stored timeline yet
+ */
+export async function findTimelinesToRebuild(options: {
+  today: string;
+  days: number;
+  limit: number;
+}): Promise<{ technicianId: string; date: string }[]> {
+  const supabase = createServerClient();
+  const { today, days, limit } = options;
+  const windowStart = format(addDays(parseISO(today), -days), 'yyyy-MM-dd');
+  const now = new Date();
+
+  const { data: outdated, error: outdatedError } = await supabase
+    .from('day_timelines')
+    .select('technician_id, timeline_date')
+    .or(`is_stale.eq.true,builder_version.neq.${TIMELINE_BUILDER_VERSION}`)
+    .lt('timeline_date', today)
+    .order('timeline_date', { ascending: false })
+    .limit(limit);
+
+  if (outdatedError) throw new Error(outdatedError.message);
+
+  const candidates = (outdated || []).map(row => ({ technicianId: row.technician_id, date: row.timeline_date }));
+  const seen = new Set(candidates.map(c => `${c.technicianId}:${c.date}`));
+
+  // Prebuild recent days that were never opened, for technicians who had (or rode in) a GPS vehicle that day
+  const [jobsResult, storedResult, techResult, assignments, rideAlongs] = await Promise.all([
+    supabase
+      .from('jobs')
+      .select('technician_id, job_date')
+      .gte('job_date', windowStart)
+      .lt('job_date', today)
+      .eq('is_first_job_of_day', true) // One row per tech-day
+      .not('technician_id', 'is', null),
+    supabase
+      .from('day_timelines')
+      .select('technician_id, timeline_date, built_at')
+      .gte('timeline_date', windowStart),
+    supabase
+      .from('technicians')
+      .select('id')
+      .eq('active', true),
+    loadTruckAssignments({ from: windowStart, to: today }),
+    loadRideAlongs({ from: windowStart, to: today }),
+  ]);
+
+  if (jobsResult.error) throw new Error(jobsResult.error.message);
+  if (storedResult.error) throw new Error(storedResult.error.message);
+  if (techResult.error) throw new Error(techResult.error.message);
+
+  const activeTechs = new Set((techResult.data || []).map(t => t.id));
+  // A day opened while it was still going was stored too early to ever be served - build it again
+  const builtEarly: { technicianId: string; date: string }[] = [];
+  for (const row of storedResult.data || []) {
+    const key = `${row.technician_id}:${row.timeline_date}`;
+    const windowEnd = getWorkdayWindowEnd(row.timeline_date);
+    if (!seen.has(key) && windowEnd <= now && new Date(row.built_at) < windowEnd) {
+      builtEarly.push({ technicianId: row.technician_id, date: row.timeline_date });
+    }
+    seen.add(key);
+  }
+  const rideAlongDays = new Set(rideAlongs.map(r => `${r.helperTechnicianId}:${r.rideDate}`));
+
+  const missing = (jobsResult.data || [])
+    .filter(job => activeTechs.has(job.technician_id!) && getWorkdayWindowEnd(job.job_date) <= now)
+    .filter(job => resolveVehicle(assignments, job.technician_id!, job.job_date) !== null ||
+      rideAlongDays.has(`${job.technician_id}:${job.job_date}`))
+    .map(job => ({ technicianId: job.technician_id!, date: job.job_date }))
+    .filter(day => {
+      const key = `${day.technicianId}:${day.date}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+
+  return [...candidates, ...builtEarly, ...missing]
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .slice(0, limit);
+}
@@ -0,0 +1,94 @@
+// Offline drive time estimate - used when Google Directions has no API key or fails
+// Straight-line distance is stretched to road miles and driven at the fleet's own average
+// trip speed from stored GPS segments.
+
+import { addDays, format } from 'date-fns';
+import { createServerClient } from './supabase';
+import { calculateDistanceFeet } from './geo-utils';
+
+// Road miles per straight-line mile
+const ROAD_FACTOR = 1.3;
+// Used until there are stored segments to learn from
+const DEFAULT_AVERAGE_MPH = 30;
+const SPEED_LOOKBACK_DAYS = 30;
+// Shorter trips are mostly moving the truck around a lot and drag the average down
+const MIN_TRIP_MILES = 0.5;
+const SPEED_CACHE_TTL_MS = 60 * 60 * 1000;
+const PAGE_SIZE = 1000;
+
+let averageSpeedCache: { mph: number; computedAt: number } | null = null;
+
+export interface DriveEstimate {
+  durationMinutes: number;
+  distanceMiles: number;       // Estimated road miles
+  averageMph: number;
+}
+
+/**
+ * Average moving speed across the fleet's trips over the last SPEED_LOOKBACK_DAYS
+ * Idle time is taken out of each trip. Falls back to DEFAULT_AVERAGE_MPH with no usable data.
+ * Cached per instance for an hour.
+ */
+export async function getFleetAverageSpeedMph(): Promise<number> {
+  if (averageSpeedCache && Date.now() - averageSpeedCache.computedAt < SPEED_CACHE_TTL_MS) {
+    return averageSpeedCache.mph;
+  }
+
+  const supabase = createServerClient();
+  const since = format(addDays(new Date(), -SPEED_LOOKBACK_DAYS), 'yyyy-MM-dd');
+  let miles = 0;
+  let movingMinutes = 0;
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data: page, error } = await supabase
+      .from('gps_segments')
+      .select('distance_miles, duration_minutes, idle_minutes')
+      .gte('segment_date', since)
+      .gte('distance_miles', MIN_TRIP_MILES)
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw new Error(error.message);
+
+    for (const segment of page || []) {
+      const moving = (segment.duration_minutes || 0) - (segment.idle_minutes || 0);
+      if (!segment.distance_miles || moving <= 0) continue;
+      miles += segment.distance_miles;
+      movingMinutes += moving;
+    }
+    if (!page || page.length < PAGE_SIZE) break;
+  }
+
+  const mph = movingMinutes > 0 ? miles / (movingMinutes / 60) : DEFAULT_AVERAGE_MPH;
+  // A handful of odd segments can give a nonsense average
+  const sane = mph >= 5 && mph <= 70 ? mph : DEFAULT_AVERAGE_MPH;
+
+  averageSpeedCache = { mph: sane, computedAt: Date.now() };
+  return sane;
+}
+
+/**
+ * Estimate a drive from straight-line distance and the fleet's average speed
+ */
+export async function estimateDrive(
+  originLat: number,
+  originLon: number,
+  destLat: number,
+  destLon: number
+): Promise<DriveEstimate> {
+  let averageMph = DEFAULT_AVERAGE_MPH;
+  try {
+    averageMph = await getFleetAverageSpeedMph();
+  } catch (error) {
+    console.error('[Drive Estimate] Average speed lookup failed, using default:', error);
+  }
+
+  const straightMiles = calculateDistanceFeet(originLat, originLon, destLat, destLon) / 5280;
+  const distanceMiles = Math.round(straightMiles * ROAD_FACTOR * 10) / 10;
+
+  return {
+    durationMinutes: Math.round((distanceMiles / averageMph) * 60),
+    distanceMiles,
+    averageMph: Math.round(averageMph * 10) / 10,
+  };
+}
@@ -0,0 +1,216 @@
+// Drive time model learned from our own trips in stored GPS segments
+// Google doesn't know that the drive out to a particular neighborhood always takes longer
+// than it says. Two ways to predict a drive, best first:
+//   - route: past trips that started and ended near the same two points
+//   - distance: minutes per straight-line mile for trips of about that length at that time of day
+// Medians throughout, so the odd detour in the history doesn't move the prediction.
+
+import { addDays, format } from 'date-fns';
+import { formatInTimeZone } from 'date-fns-tz';
+import { createServerClient } from './supabase';
+import { calculateDistanceFeet } from './geo-utils';
+
+const EST_TIMEZONE = 'America/New_York';
+const HISTORY_DAYS = 60;
+const MODEL_TTL_MS = 6 * 60 * 60 * 1000;
+const PAGE_SIZE = 1000;
+
+// Past trips starting and ending this close to the leg's endpoints drove the same route
+const ROUTE_MATCH_FEET = 1500;
+const MIN_ROUTE_SAMPLES = 3;
+const MIN_DISTANCE_SAMPLES = 10;
+// Shorter hops are mostly repositioning the truck and say nothing about road speed
+const MIN_TRIP_STRAIGHT_MILES = 0.1;
+
+// Straight-line distance bands (miles) - short trips spend more of their time on side streets
+const DISTANCE_BANDS = [2, 5, 10, 20, Infinity];
+
+type TimeOfDay = 'early' | 'morning_rush' | 'midday' | 'evening_rush' | 'night';
+
+export interface FleetDrivePrediction {
+  durationMinutes: number;
+  method: 'route' | 'distance';
+  sampleSize: number;          // Past trips the prediction came from
+}
+
+interface HistoricalTrip {
+  startLat: number;
+  startLon: number;
+  endLat: number;
+  endLon: number;
+  straightMiles: number;
+  minutes: number;
+  timeOfDay: TimeOfDay;
+}
+
+interface DriveTimeModel {
+  trips: HistoricalTrip[];
+  // Median minutes per straight-line mile, keyed "band:timeOfDay" and "band"
+  minutesPerMile: Map<string, { value: number; samples: number }>;
+}
+
+let modelCache: { model: DriveTimeModel; builtAt: number } | null = null;
+
+function getTimeOfDay(time: Date): TimeOfDay {
+  const hour = Number(formatInTimeZone(time, EST_TIMEZONE, 'H'));
+  if (hour < 7) return 'early';
+  if (hour < 9) return 'morning_rush';
+  if (hour < 16) return 'midday';
+  if (hour < 18) return 'evening_rush';
+  return 'night';
+}
+
+function distanceBand(straightMiles: number): number {
+  return DISTANCE_BANDS.findIndex(limit => straightMiles < limit);
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function straightMilesBetween(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  return calculateDistanceFeet(lat1, lon1, lat2, lon2) / 5280;
+}
+
+/**
+ * Build the model from a set of past trips
+ */
+function buildDriveTimeModel(trips: HistoricalTrip[]): DriveTimeModel {
+  const ratios = new Map<string, number[]>();
+  const add = (key: string, value: number) => {
+    if (!ratios.has(key)) ratios.set(key, []);
+    ratios.get(key)!.push(value);
+  };
+
+  for (const trip of trips) {
+    const band = distanceBand(trip.straightMiles);
+    const perMile = trip.minutes / trip.straightMiles;
+    add(`${band}:${trip.timeOfDay}`, perMile);
+    add(`${band}`, perMile);
+  }
+
+  const minutesPerMile = new Map<string, { value: number; samples: number }>();
+  for (const [key, values] of ratios) {
+    minutesPerMile.set(key, { value: median(values), samples: values.length });
+  }
+
+  return { trips, minutesPerMile };
+}
+
+async function fetchHistoricalTrips(): Promise<HistoricalTrip[]> {
+  const supabase = createServerClient();
+  const since = format(addDays(new Date(), -HISTORY_DAYS), 'yyyy-MM-dd');
+  const trips: HistoricalTrip[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data: page, error } = await supabase
+      .from('gps_segments')
+      .select('start_latitude, start_longitude, end_latitude, end_longitude, start_time, duration_minutes')
+      .gte('segment_date', since)
+      .not('end_latitude', 'is', null)
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw new Error(error.message);
+
+    for (const row of page || []) {
+      if (row.end_latitude == null || row.end_longitude == null || !row.duration_minutes || row.duration_minutes <= 0) continue;
+
+      const straightMiles = straightMilesBetween(row.start_latitude, row.start_longitude, row.end_latitude, row.end_longitude);
+      if (straightMiles < MIN_TRIP_STRAIGHT_MILES) continue;
+
+      trips.push({
+        startLat: row.start_latitude,
+        startLon: row.start_longitude,
+        endLat: row.end_latitude,
+        endLon: row.end_longitude,
+        straightMiles,
+        minutes: row.duration_minutes,
+        timeOfDay: getTimeOfDay(new Date(row.start_time)),
+      });
+    }
+    if (!page || page.length < PAGE_SIZE) break;
+  }
+
+  return trips;
+}
+
+/**
+ * The model for the last HISTORY_DAYS of trips, rebuilt every few hours per instance
+ */
+async function getDriveTimeModel(): Promise<DriveTimeModel> {
+  if (modelCache && Date.now() - modelCache.builtAt < MODEL_TTL_MS) return modelCache.model;
+
+  const model = buildDriveTimeModel(await fetchHistoricalTrips());
+  modelCache = { model, builtAt: Date.now() };
+  console.log(`[Drive Time Model] Built from ${model.trips.length} trips`);
+  return model;
+}
+
+/**
+ * Predict a drive with a built model
+ * Same-time-of-day route matches are preferred, then any route matches, then the distance
+ * band for that time of day, then the band alone. Null when none has enough history.
+ */
+function predictWithModel(
+  model: DriveTimeModel,
+  originLat: number,
+  originLon: number,
+  destLat: number,
+  destLon: number,
+  departure: Date
+): FleetDrivePrediction | null {
+  const timeOfDay = getTimeOfDay(departure);
+
+  const routeTrips = model.trips.filter(trip =>
+    calculateDistanceFeet(trip.startLat, trip.startLon, originLat, originLon) <= ROUTE_MATCH_FEET &&
+    calculateDistanceFeet(trip.endLat, trip.endLon, destLat, destLon) <= ROUTE_MATCH_FEET
+  );
+  const sameTime = routeTrips.filter(trip => trip.timeOfDay === timeOfDay);
+  for (const matches of [sameTime, routeTrips]) {
+    if (matches.length >= MIN_ROUTE_SAMPLES) {
+      return {
+        durationMinutes: Math.round(median(matches.map(trip => trip.minutes))),
+        method: 'route',
+        sampleSize: matches.length,
+      };
+    }
+  }
+
+  const straightMiles = straightMilesBetween(originLat, originLon, destLat, destLon);
+  const band = distanceBand(straightMiles);
+  for (const key of [`${band}:${timeOfDay}`, `${band}`]) {
+    const rate = model.minutesPerMile.get(key);
+    if (rate && rate.samples >= MIN_DISTANCE_SAMPLES) {
+      return {
+        durationMinutes: Math.round(straightMiles * rate.value),
+        method: 'distance',
+        sampleSize: rate.samples,
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Predict how long our trucks take to drive between two points, leaving at `departure`
+ * Returns null without enough history (or if the history can't be read).
+ */
+export async function predictFleetDriveMinutes(
+  originLat: number,
+  originLon: number,
+  destLat: number,
+  destLon: number,
+  departure: Date
+): Promise<FleetDrivePrediction | null> {
+  try {
+    const model = await getDriveTimeModel();
+    return predictWithModel(model, originLat, originLon, destLat, destLon, departure);
+  } catch (error) {
+    console.error('[Drive Time Model] Prediction failed:', error);
+    return null;
+  }
+}
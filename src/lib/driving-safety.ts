@@ -0,0 +1,192 @@
+// Driving safety - speeding and harsh braking/acceleration from GPS data
+// Breadcrumb points carry speed and a street address, so they give per-road-class speeding
+// and speed changes between fixes. Without them only a trip's max speed is known, which
+// can be checked against the flat threshold.
+
+import { GPSHistoryPoint, VehicleSegment } from './verizon-connect';
+import { parseVerizonUtcTimestamp } from './geo-utils';
+
+// Road class guessed from the street name - Verizon doesn't report speed limits
+export type RoadClass = 'interstate' | 'highway' | 'local';
+
+export interface DrivingThresholds {
+  speedingMph: number;             // Flat threshold, used when the road class is unknown
+  roadClassMph: Record<RoadClass, number>;
+  harshBrakingMphPerSec: number;   // Speed lost per second between breadcrumbs
+  harshAccelerationMphPerSec: number;
+}
+
+export const DEFAULT_DRIVING_THRESHOLDS: DrivingThresholds = {
+  speedingMph: 80,
+  roadClassMph: { interstate: 80, highway: 75, local: 60 },
+  harshBrakingMphPerSec: 8,
+  harshAccelerationMphPerSec: 7,
+};
+
+// Breadcrumbs further apart than this say nothing about braking or acceleration
+const HARSH_MAX_SAMPLE_SECONDS = 30;
+// Points over the threshold at most this far apart are one speeding episode
+const SPEEDING_EPISODE_GAP_MINUTES = 3;
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * Thresholds from the environment, falling back to DEFAULT_DRIVING_THRESHOLDS
+ */
+export function getDrivingThresholds(): DrivingThresholds {
+  const defaults = DEFAULT_DRIVING_THRESHOLDS;
+  return {
+    speedingMph: envNumber('SPEEDING_THRESHOLD_MPH', defaults.speedingMph),
+    roadClassMph: {
+      interstate: envNumber('SPEEDING_INTERSTATE_MPH', defaults.roadClassMph.interstate),
+      highway: envNumber('SPEEDING_HIGHWAY_MPH', defaults.roadClassMph.highway),
+      local: envNumber('SPEEDING_LOCAL_MPH', defaults.roadClassMph.local),
+    },
+    harshBrakingMphPerSec: envNumber('HARSH_BRAKING_MPH_PER_SEC', defaults.harshBrakingMphPerSec),
+    harshAccelerationMphPerSec: envNumber('HARSH_ACCELERATION_MPH_PER_SEC', defaults.harshAccelerationMphPerSec),
+  };
+}
+
+/**
+ * Guess the road class from a street address line
+ * Returns null when there's no street to go on.
+ */
+export function classifyRoad(addressLine: string | null | undefined): RoadClass | null {
+  if (!addressLine || !addressLine.trim()) return null;
+  if (/\b(I-?\s?\d+|Interstate)\b/i.test(addressLine)) return 'interstate';
+  if (/\b(US|NC|SC|VA|SR|State Route|Route|Rte|Hwy|Highway|Fwy|Freeway|Expy|Expressway|Pkwy|Parkway|Bypass|Byp)\b/i.test(addressLine)) {
+    return 'highway';
+  }
+  return 'local';
+}
+
+export interface SpeedingEpisode {
+  startTime: Date;
+  endTime: Date;
+  maxSpeedMph: number;
+  thresholdMph: number;          // Threshold at the fastest point
+  roadClass: RoadClass | null;   // Null when the street isn't known
+  source: 'breadcrumbs' | 'trip'; // 'trip' - only the trip's max speed, not when or where
+  latitude?: number;
+  longitude?: number;
+  address?: string;
+}
+
+export interface HarshEvent {
+  kind: 'braking' | 'acceleration';
+  time: Date;
+  fromMph: number;
+  toMph: number;
+  mphPerSec: number;
+  latitude: number;
+  longitude: number;
+  address: string;
+}
+
+export interface DrivingEvents {
+  speeding: SpeedingEpisode[];
+  harsh: HarshEvent[];
+}
+
+function pointAddress(point: GPSHistoryPoint): string {
+  const { AddressLine1, Locality, AdministrativeArea } = point.Address || {};
+  return [AddressLine1, Locality, AdministrativeArea].filter(Boolean).join(', ');
+}
+
+/**
+ * Find speeding episodes and harsh braking/acceleration for a day
+ * Breadcrumbs are checked against their road class's threshold. A trip whose max speed is over
+ * the flat threshold but has no breadcrumb episode (or no breadcrumbs at all) gets one episode
+ * for the whole trip.
+ */
+export function detectDrivingEvents(
+  segments: VehicleSegment[],
+  points: GPSHistoryPoint[] = [],
+  thresholds: DrivingThresholds = DEFAULT_DRIVING_THRESHOLDS
+): DrivingEvents {
+  const sorted = points
+    .filter(p => p.UpdateUtc && Number.isFinite(p.Speed) && !p.IsPrivate)
+    .map(p => ({ point: p, time: parseVerizonUtcTimestamp(p.UpdateUtc) }))
+    .sort((a, b) => a.time.getTime() - b.time.getTime());
+
+  const speeding: SpeedingEpisode[] = [];
+  const harsh: HarshEvent[] = [];
+  let episode: SpeedingEpisode | null = null;
+
+  for (let i = 0; i < sorted.length; i++) {
+    const { point, time } = sorted[i];
+    const roadClass = classifyRoad(point.Address?.AddressLine1);
+    const thresholdMph = roadClass ? thresholds.roadClassMph[roadClass] : thresholds.speedingMph;
+
+    if (point.Speed > thresholdMph) {
+      const continues = episode &&
+        time.getTime() - episode.endTime.getTime() <= SPEEDING_EPISODE_GAP_MINUTES * 60000;
+
+      if (!episode || !continues) {
+        episode = { startTime: time, endTime: time, maxSpeedMph: 0, thresholdMph, roadClass, source: 'breadcrumbs' };
+        speeding.push(episode);
+      }
+      episode.endTime = time;
+      if (point.Speed > episode.maxSpeedMph) {
+        Object.assign(episode, {
+          maxSpeedMph: point.Speed,
+          thresholdMph,
+          roadClass,
+          latitude: point.Latitude,
+          longitude: point.Longitude,
+          address: pointAddress(point),
+        });
+      }
+    } else {
+      episode = null;
+    }
+
+    if (i === 0) continue;
+    const previous = sorted[i - 1];
+    const seconds = (time.getTime() - previous.time.getTime()) / 1000;
+    if (seconds <= 0 || seconds > HARSH_MAX_SAMPLE_SECONDS) continue;
+
+    const mphPerSec = (point.Speed - previous.point.Speed) / seconds;
+    const kind = mphPerSec <= -thresholds.harshBrakingMphPerSec ? 'braking'
+      : mphPerSec >= thresholds.harshAccelerationMphPerSec ? 'acceleration'
+        : null;
+    if (!kind) continue;
+
+    harsh.push({
+      kind,
+      time,
+      fromMph: previous.point.Speed,
+      toMph: point.Speed,
+      mphPerSec: Math.round(Math.abs(mphPerSec) * 10) / 10,
+      latitude: point.Latitude,
+      longitude: point.Longitude,
+      address: pointAddress(point),
+    });
+  }
+
+  // Trips that went over the flat threshold without a breadcrumb to show where
+  for (const segment of segments) {
+    const maxSpeed = segment.MaxSpeed;
+    if (!segment.StartDateUtc || !maxSpeed || maxSpeed <= thresholds.speedingMph) continue;
+
+    const start = parseVerizonUtcTimestamp(segment.StartDateUtc);
+    const end = segment.EndDateUtc ? parseVerizonUtcTimestamp(segment.EndDateUtc) : null;
+    const covered = speeding.some(e => (!end || e.startTime <= end) && e.endTime >= start);
+    if (covered) continue;
+
+    speeding.push({
+      startTime: start,
+      endTime: start,
+      maxSpeedMph: maxSpeed,
+      thresholdMph: thresholds.speedingMph,
+      roadClass: null,
+      source: 'trip',
+    });
+  }
+
+  speeding.sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  return { speeding, harsh };
+}
@@ -0,0 +1,120 @@
+// Fleet idle report - engine idle time per truck per week, from stored GPS segments
+
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { createServerClient } from './supabase';
+import type { FleetIdleReport, FleetIdleTruck } from '@/types/fleet-idle';
+
+const PAGE_SIZE = 1000;
+
+function toHours(minutes: number): number {
+  return Math.round((minutes / 60) * 10) / 10;
+}
+
+/**
+ * Rank trucks by idle hours per week
+ * Covers `weeks` workweeks starting at weekStart (a Sunday). Trucks are named after the
+ * technician they're assigned to now, falling back to whoever drove them in the range.
+ */
+export async function buildFleetIdleReport(options: {
+  weekStart: string;
+  weeks: number;
+}): Promise<FleetIdleReport> {
+  const supabase = createServerClient();
+  const { weekStart, weeks } = options;
+  const rangeEnd = format(addDays(parseISO(weekStart), weeks * 7 - 1), 'yyyy-MM-dd');
+
+  const weekStarts = Array.from({ length: weeks }, (_, i) =>
+    format(addDays(parseISO(weekStart), i * 7), 'yyyy-MM-dd')
+  );
+
+  interface TruckTotals {
+    idleMinutes: number[];
+    engineMinutes: number[];
+    longestIdleMinutes: number;
+    technicianIds: Set<string>;
+  }
+  const trucks = new Map<string, TruckTotals>();
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data: page, error } = await supabase
+      .from('gps_segments')
+      .select('vehicle_id, technician_id, segment_date, idle_minutes, duration_minutes')
+      .gte('segment_date', weekStart)
+      .lte('segment_date', rangeEnd)
+      .order('start_time', { ascending: true })
+      .order('id', { ascending: true }) // Tie-breaker so pages never overlap or skip rows
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw new Error(error.message);
+
+    for (const row of page || []) {
+      const weekIndex = Math.floor(differenceInCalendarDays(parseISO(row.segment_date), parseISO(weekStart)) / 7);
+      if (weekIndex < 0 || weekIndex >= weeks) continue;
+
+      let truck = trucks.get(row.vehicle_id);
+      if (!truck) {
+        truck = {
+          idleMinutes: new Array(weeks).fill(0),
+          engineMinutes: new Array(weeks).fill(0),
+          longestIdleMinutes: 0,
+          technicianIds: new Set(),
+        };
+        trucks.set(row.vehicle_id, truck);
+      }
+
+      truck.idleMinutes[weekIndex] += row.idle_minutes || 0;
+      truck.engineMinutes[weekIndex] += Math.max(0, row.duration_minutes || 0);
+      truck.longestIdleMinutes = Math.max(truck.longestIdleMinutes, row.idle_minutes || 0);
+      if (row.technician_id) truck.technicianIds.add(row.technician_id);
+    }
+
+    if (!page || page.length < PAGE_SIZE) break;
+  }
+
+  const { data: technicians, error: techError } = await supabase
+    .from('technicians')
+    .select('id, name, verizon_vehicle_id');
+
+  if (techError) throw new Error(techError.message);
+
+  const techById = new Map((technicians || []).map(t => [t.id, t]));
+  const techByVehicle = new Map(
+    (technicians || []).filter(t => t.verizon_vehicle_id).map(t => [t.verizon_vehicle_id!, t])
+  );
+
+  const rows: FleetIdleTruck[] = [...trucks.entries()].map(([vehicleId, truck]) => {
+    const driver = techByVehicle.get(vehicleId) ||
+      [...truck.technicianIds].map(id => techById.get(id)).find(Boolean);
+    const idleMinutes = truck.idleMinutes.reduce((sum, m) => sum + m, 0);
+    const engineMinutes = truck.engineMinutes.reduce((sum, m) => sum + m, 0);
+
+    return {
+      vehicleId,
+      technicianId: driver?.id || null,
+      technicianName: driver?.name || null,
+      idleHours: toHours(idleMinutes),
+      idleHoursPerWeek: toHours(idleMinutes / weeks),
+      engineHours: toHours(engineMinutes),
+      idlePercentage: engineMinutes > 0 ? Math.round((idleMinutes / engineMinutes) * 100) : null,
+      longestIdleMinutes: truck.longestIdleMinutes,
+      weeks: weekStarts.map((start, i) => ({
+        weekStart: start,
+        idleHours: toHours(truck.idleMinutes[i]),
+        engineHours: toHours(truck.engineMinutes[i]),
+      })),
+    };
+  });
+
+  rows.sort((a, b) => b.idleHoursPerWeek - a.idleHoursPerWeek || b.idleHours - a.idleHours);
+
+  return {
+    weekStart,
+    weekEnd: rangeEnd,
+    weeks,
+    generatedAt: new Date().toISOString(),
+    trucks: rows,
+    totalIdleHours: toHours([...trucks.values()].reduce(
+      (sum, truck) => sum + truck.idleMinutes.reduce((s, m) => s + m, 0), 0
+    )),
+  };
+}
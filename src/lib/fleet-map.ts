@@ -0,0 +1,279 @@
+// Live fleet map - every truck's current position with its technician's appointment and punch status
+
+import { formatInTimeZone } from 'date-fns-tz';
+import { createServerClient } from './supabase';
+import { getAllVehicleLocations, getVehicleLocation, VehicleLocation } from './verizon-connect';
+import { calculateDistanceFeet, parseVerizonUtcTimestamp } from './geo-utils';
+import type {
+  FleetAppointment,
+  FleetClockStatus,
+  FleetMap,
+  FleetTruck,
+  FleetTruckStatus,
+} from '@/types/fleet-map';
+
+const EST_TIMEZONE = 'America/New_York';
+
+// A truck parked this close to a job is at that job
+const AT_JOB_RADIUS_FEET = 500;
+// The last stored trip ending this close to the truck's position started the current stop
+const STOP_MATCH_RADIUS_FEET = 1000;
+// How far back to look for the trip that ended at the current stop
+const STOP_LOOKBACK_HOURS = 36;
+// Below this the truck is standing still, whatever the state label says
+const MOVING_SPEED_MPH = 3;
+
+const FINISHED_JOB_STATUSES = new Set(['Done', 'Completed', 'Canceled']);
+const PAGE_SIZE = 1000;
+
+// Punches at the same minute end one segment before starting the next - a lunch is stored as
+// ClockOut + MealStart at noon and MealEnd + ClockIn when it ends
+const SAME_TIME_PUNCH_ORDER: Record<string, number> = { ClockOut: 0, MealStart: 1, MealEnd: 2, ClockIn: 3 };
+
+interface FleetJob {
+  technician_id: string | null;
+  job_number: string;
+  customer_name: string | null;
+  job_address: string | null;
+  job_latitude: number | null;
+  job_longitude: number | null;
+  scheduled_start: string;
+  actual_arrival: string | null;
+  status: string | null;
+}
+
+/**
+ * Current positions keyed by vehicle number
+ * The all-vehicles endpoint is one call; assigned trucks it leaves out are asked for one by one.
+ */
+async function fetchCurrentLocations(assignedVehicleIds: string[]): Promise<Map<string, VehicleLocation>> {
+  const locations = new Map<string, VehicleLocation>();
+
+  try {
+    const response = await getAllVehicleLocations();
+    const list: VehicleLocation[] = Array.isArray(response) ? response : response?.data || [];
+    for (const location of list) {
+      if (location?.VehicleNumber) locations.set(String(location.VehicleNumber), location);
+    }
+  } catch (error) {
+    console.error('[FleetMap] All-vehicle locations failed, asking per truck:', error);
+  }
+
+  const missing = assignedVehicleIds.filter(id => !locations.has(id));
+  await Promise.all(missing.map(async vehicleId => {
+    try {
+      const location: VehicleLocation | null = await getVehicleLocation(vehicleId);
+      if (location && Number.isFinite(location.Latitude)) locations.set(vehicleId, location);
+    } catch (error) {
+      console.error(`[FleetMap] Location for truck ${vehicleId} failed:`, error);
+    }
+  }));
+
+  return locations;
+}
+
+interface LastTrip {
+  vehicle_id: string;
+  end_time: string | null;
+  end_latitude: number | null;
+  end_longitude: number | null;
+}
+
+/**
+ * Newest stored trip per truck that started after `since`
+ */
+async function fetchLastTrips(since: Date): Promise<Map<string, LastTrip>> {
+  const supabase = createServerClient();
+  const lastTrips = new Map<string, LastTrip>();
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data: page, error } = await supabase
+      .from('gps_segments')
+      .select('vehicle_id, end_time, end_latitude, end_longitude')
+      .gte('start_time', since.toISOString())
+      .order('start_time', { ascending: false })
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw new Error(error.message);
+
+    for (const segment of page || []) {
+      if (!lastTrips.has(segment.vehicle_id)) lastTrips.set(segment.vehicle_id, segment);
+    }
+    if (!page || page.length < PAGE_SIZE) break;
+  }
+
+  return lastTrips;
+}
+
+function truckStatus(location: VehicleLocation | undefined): FleetTruckStatus {
+  if (!location || !Number.isFinite(location.Latitude) || !Number.isFinite(location.Longitude)) return 'no_gps';
+  if ((location.Speed || 0) >= MOVING_SPEED_MPH) return 'driving';
+  if (/idl/i.test(location.DisplayState || '')) return 'idling';
+  if (/mov|driv/i.test(location.DisplayState || '')) return 'driving';
+  return 'stopped';
+}
+
+function locationAddress(location: VehicleLocation): string | null {
+  const { AddressLine1, Locality, AdministrativeArea } = location.Address || {};
+  return [AddressLine1, Locality, AdministrativeArea].filter(Boolean).join(', ') || null;
+}
+
+/**
+ * Clock status from today's punches
+ */
+function clockStatus(punches: { punch_type: string; punch_time: string }[]): {
+  status: FleetClockStatus;
+  clockedInAt: string | null;
+} {
+  const sorted = [...punches].sort((a, b) =>
+    new Date(a.punch_time).getTime() - new Date(b.punch_time).getTime() ||
+    (SAME_TIME_PUNCH_ORDER[a.punch_type] ?? 0) - (SAME_TIME_PUNCH_ORDER[b.punch_type] ?? 0)
+  );
+  const last = sorted[sorted.length - 1];
+  const clockedInAt = sorted.find(p => p.punch_type === 'ClockIn')?.punch_time || null;
+  if (!last) return { status: 'not_clocked_in', clockedInAt };
+
+  const status: FleetClockStatus = last.punch_type === 'ClockOut' ? 'clocked_out'
+    : last.punch_type === 'MealStart' ? 'on_meal'
+      : 'clocked_in';
+  return { status, clockedInAt };
+}
+
+/**
+ * The appointment the technician is on now, or the next one they haven't reached
+ * "Now" is the job marked Working, or the open job the truck is parked at.
+ */
+function pickAppointment(
+  jobs: FleetJob[],
+  status: FleetTruckStatus,
+  location: VehicleLocation | undefined
+): FleetAppointment | null {
+  const open = jobs.filter(job => !FINISHED_JOB_STATUSES.has(job.status || ''));
+
+  const parkedAt = location && status !== 'driving' && status !== 'no_gps'
+    ? open.find(job =>
+      job.job_latitude != null && job.job_longitude != null &&
+      calculateDistanceFeet(location.Latitude, location.Longitude, job.job_latitude, job.job_longitude) <= AT_JOB_RADIUS_FEET
+    )
+    : undefined;
+  const current = parkedAt || open.find(job => job.status === 'Working');
+  const next = open.find(job => !job.actual_arrival && job !== current);
+
+  const job = current || next;
+  if (!job) return null;
+
+  return {
+    relation: current ? 'current' : 'next',
+    jobNumber: job.job_number,
+    customerName: job.customer_name,
+    address: job.job_address,
+    scheduledStart: job.scheduled_start,
+    status: job.status,
+  };
+}
+
+/**
+ * Where every truck is, who has it and what they're doing
+ * Trucks show up if Verizon reports them or a technician is assigned to them. Time at the
+ * current stop comes from the last stored trip - it's unknown until the GPS sync has stored
+ * the trip that ended there.
+ */
+export async function buildFleetMap(now: Date = new Date()): Promise<FleetMap> {
+  const supabase = createServerClient();
+  const today = formatInTimeZone(now, EST_TIMEZONE, 'yyyy-MM-dd');
+
+  const { data: technicians, error: techError } = await supabase
+    .from('technicians')
+    .select('id, name, verizon_vehicle_id')
+    .eq('active', true)
+    .not('verizon_vehicle_id', 'is', null);
+
+  if (techError) throw new Error(techError.message);
+
+  const techByVehicle = new Map<string, { id: string; name: string }>();
+  for (const tech of technicians || []) {
+    if (tech.verizon_vehicle_id) techByVehicle.set(tech.verizon_vehicle_id, { id: tech.id, name: tech.name });
+  }
+  const technicianIds = [...techByVehicle.values()].map(tech => tech.id);
+
+  const lookbackStart = new Date(now.getTime() - STOP_LOOKBACK_HOURS * 60 * 60 * 1000);
+  const [locations, lastTrips, jobsResult, punchesResult] = await Promise.all([
+    fetchCurrentLocations([...techByVehicle.keys()]),
+    fetchLastTrips(lookbackStart),
+    supabase
+      .from('jobs')
+      .select('technician_id, job_number, customer_name, job_address, job_latitude, job_longitude, scheduled_start, actual_arrival, status')
+      .in('technician_id', technicianIds)
+      .eq('job_date', today)
+      .order('scheduled_start', { ascending: true }),
+    supabase
+      .from('punch_records')
+      .select('technician_id, punch_type, punch_time')
+      .in('technician_id', technicianIds)
+      .eq('punch_date', today)
+      .order('punch_time', { ascending: true }),
+  ]);
+
+  if (jobsResult.error) throw new Error(jobsResult.error.message);
+  if (punchesResult.error) throw new Error(punchesResult.error.message);
+
+  const jobsByTech = new Map<string, FleetJob[]>();
+  for (const job of (jobsResult.data || []) as FleetJob[]) {
+    if (!job.technician_id) continue;
+    if (!jobsByTech.has(job.technician_id)) jobsByTech.set(job.technician_id, []);
+    jobsByTech.get(job.technician_id)!.push(job);
+  }
+
+  const punchesByTech = new Map<string, { punch_type: string; punch_time: string }[]>();
+  for (const punch of punchesResult.data || []) {
+    if (!punch.technician_id) continue;
+    if (!punchesByTech.has(punch.technician_id)) punchesByTech.set(punch.technician_id, []);
+    punchesByTech.get(punch.technician_id)!.push(punch);
+  }
+
+  const vehicleIds = new Set([...locations.keys(), ...techByVehicle.keys()]);
+  const trucks: FleetTruck[] = [...vehicleIds].map(vehicleId => {
+    const location = locations.get(vehicleId);
+    const tech = techByVehicle.get(vehicleId) || null;
+    const status = truckStatus(location);
+    const hasPosition = status !== 'no_gps' && location;
+
+    let stoppedSince: string | null = null;
+    const trip = lastTrips.get(vehicleId);
+    if (hasPosition && status !== 'driving' && trip?.end_time && trip.end_latitude != null && trip.end_longitude != null) {
+      const distance = calculateDistanceFeet(location.Latitude, location.Longitude, trip.end_latitude, trip.end_longitude);
+      if (distance <= STOP_MATCH_RADIUS_FEET) stoppedSince = new Date(trip.end_time).toISOString();
+    }
+
+    const clock = tech ? clockStatus(punchesByTech.get(tech.id) || []) : null;
+
+    return {
+      vehicleId,
+      technicianId: tech?.id || null,
+      technicianName: tech?.name || null,
+      status,
+      latitude: hasPosition ? location.Latitude : null,
+      longitude: hasPosition ? location.Longitude : null,
+      address: hasPosition ? locationAddress(location) : null,
+      speedMph: hasPosition && Number.isFinite(location.Speed) ? Math.round(location.Speed) : null,
+      heading: hasPosition && Number.isFinite(location.Heading) ? location.Heading : null,
+      updatedAt: location?.UpdateUTC ? parseVerizonUtcTimestamp(location.UpdateUTC).toISOString() : null,
+      stoppedSince,
+      clockStatus: clock?.status || null,
+      clockedInAt: clock?.clockedInAt || null,
+      appointment: tech ? pickAppointment(jobsByTech.get(tech.id) || [], status, location) : null,
+    };
+  });
+
+  trucks.sort((a, b) => {
+    if (!!a.technicianName !== !!b.technicianName) return a.technicianName ? -1 : 1;
+    return (a.technicianName || a.vehicleId).localeCompare(b.technicianName || b.vehicleId);
+  });
+
+  return {
+    date: today,
+    generatedAt: now.toISOString(),
+    trucks,
+  };
+}
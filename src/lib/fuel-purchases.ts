@@ -0,0 +1,104 @@
+// Fuel purchases on the day timeline - Coast card transactions matched to gas station stops
+// A purchase belongs to the gas station stop (custom location with category gas_station) the
+// truck was parked at when the card was run. Purchases made on the clock are flagged: techs
+// should fill up on the way to or from work, not during billable hours.
+
+import type { DayTimeline, TimelineEvent, TimelineEventType } from '@/types/timeline';
+import type { FuelPurchase } from '@/types/fuel';
+
+// Card authorization times drift a few minutes from the truck's GPS arrival/departure
+const STOP_MATCH_TOLERANCE_MINUTES = 10;
+
+interface Interval {
+  start: number;
+  end: number;
+}
+
+/**
+ * The gas station stop a purchase was made during, closest first when stops overlap the window
+ */
+function findGasStationStop(events: TimelineEvent[], purchaseTime: number): TimelineEvent | null {
+  const tolerance = STOP_MATCH_TOLERANCE_MINUTES * 60000;
+  let best: { event: TimelineEvent; distance: number } | null = null;
+
+  for (const event of events) {
+    if (event.type !== 'arrived_custom' || event.customLocationCategory !== 'gas_station') continue;
+
+    const start = new Date(event.timestamp).getTime();
+    const end = start + (event.durationMinutes || 0) * 60000;
+    if (purchaseTime < start - tolerance || purchaseTime > end + tolerance) continue;
+
+    const distance = purchaseTime < start ? start - purchaseTime : purchaseTime > end ? purchaseTime - end : 0;
+    if (!best || distance < best.distance) best = { event, distance };
+  }
+
+  return best?.event || null;
+}
+
+/**
+ * On-the-clock check from the timeline's punches
+ * Clocked in from the first clock-in to the last clock-out (or the rest of the day when the
+ * clock-out is missing), minus meal breaks.
+ */
+function onClockChecker(events: TimelineEvent[]): (time: number) => boolean {
+  const times = (type: TimelineEventType) => events
+    .filter(e => e.type === type)
+    .map(e => new Date(e.timestamp).getTime())
+    .sort((a, b) => a - b);
+
+  const clockIns = times('clock_in');
+  const clockOuts = times('clock_out');
+  if (clockIns.length === 0) return () => false;
+
+  const clockIn = clockIns[0];
+  const lastClockOut = clockOuts[clockOuts.length - 1];
+  const clockOut = lastClockOut !== undefined && lastClockOut > clockIn ? lastClockOut : Infinity;
+
+  const meals: Interval[] = [];
+  const mealEnds = times('meal_end');
+  for (const start of times('meal_start')) {
+    const end = mealEnds.find(t => t > start);
+    if (end !== undefined) meals.push({ start, end });
+  }
+
+  return (time: number) =>
+    time >= clockIn && time <= clockOut && !meals.some(meal => time >= meal.start && time < meal.end);
+}
+
+function fuelPurchaseToEvent(
+  purchase: FuelPurchase,
+  events: TimelineEvent[],
+  isOnClock: (time: number) => boolean
+): TimelineEvent {
+  const time = new Date(purchase.transactionTime).getTime();
+  const stop = findGasStationStop(events, time);
+
+  return {
+    id: `fuel-${purchase.coastTransactionId}`,
+    type: 'fuel_purchase',
+    timestamp: purchase.transactionTime,
+    address: purchase.merchantAddress || undefined,
+    latitude: purchase.merchantLatitude ?? undefined,
+    longitude: purchase.merchantLongitude ?? undefined,
+    fuelTransactionId: purchase.id,
+    fuelMerchantName: purchase.merchantName || undefined,
+    fuelAmountCents: purchase.amountCents,
+    fuelGallons: purchase.gallons ?? undefined,
+    fuelStopEventId: stop?.id,
+    fuelStopMinutes: stop?.durationMinutes,
+    isOnClock: isOnClock(time),
+  };
+}
+
+/**
+ * Add the day's fuel purchases to a built timeline and re-sort it
+ * Modifies the timeline in place.
+ */
+export function addFuelPurchaseEvents(timeline: DayTimeline, purchases: FuelPurchase[]): void {
+  if (purchases.length === 0) return;
+
+  const dayEvents = [...timeline.events];
+  const isOnClock = onClockChecker(dayEvents);
+  timeline.events.push(...purchases.map(purchase => fuelPurchaseToEvent(purchase, dayEvents, isOnClock)));
+  timeline.events.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+}
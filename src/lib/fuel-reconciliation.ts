@@ -0,0 +1,268 @@
+// Fuel reconciliation - gallons bought on each truck's fuel card against its GPS miles
+// Filling a personal vehicle on the company card shows up two ways: more gallons than the truck's
+// miles could burn, and purchases made while the truck was parked somewhere else.
+
+import { addDays, format, parseISO } from 'date-fns';
+import { createServerClient } from './supabase';
+import { calculateDistanceFeet } from './geo-utils';
+import { loadTruckAssignments, resolveVehicle } from './truck-assignments';
+import { VOID_TRANSACTION_STATUSES } from './coast';
+import type {
+  FuelPurchaseLocationCheck,
+  FuelReconciliationPurchase,
+  FuelReconciliationReport,
+  FuelReconciliationTruck,
+} from '@/types/fuel-reconciliation';
+
+const PAGE_SIZE = 1000;
+
+// Actual MPG below this share of the expected MPG is an outlier
+const MPG_SHORTFALL_RATIO = 0.75;
+// Fill-ups don't line up with the range edges - below about one tank, the ratio is noise
+const MIN_GALLONS_TO_JUDGE = 15;
+// Truck parked further than this from the merchant wasn't the vehicle being filled
+const FAR_FROM_MERCHANT_MILES = 0.5;
+// Card authorization times drift a few minutes from the truck's GPS arrival/departure
+const PARKED_TOLERANCE_MINUTES = 10;
+
+interface StoredTrip {
+  start: number;
+  end: number | null;
+  startLat: number;
+  startLon: number;
+  startAddress: string | null;
+  endLat: number | null;
+  endLon: number | null;
+  endAddress: string | null;
+}
+
+interface ParkedPosition {
+  lat: number;
+  lon: number;
+  address: string | null;
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Where the truck was parked around `time`, from its trips (oldest first)
+ * Parked at the end of the last trip that finished by then (within the tolerance), or at the start
+ * of its first trip if none had. 'moving' when a trip spans the whole tolerance window.
+ */
+function findParkedPosition(trips: StoredTrip[], time: number): ParkedPosition | 'moving' | null {
+  const tolerance = PARKED_TOLERANCE_MINUTES * 60000;
+
+  if (trips.some(trip => trip.start <= time - tolerance && (trip.end === null || trip.end >= time + tolerance))) {
+    return 'moving';
+  }
+
+  let parked: ParkedPosition | null = null;
+  for (const trip of trips) {
+    if (trip.end !== null && trip.end <= time + tolerance && trip.endLat !== null && trip.endLon !== null) {
+      parked = { lat: trip.endLat, lon: trip.endLon, address: trip.endAddress };
+    }
+  }
+  if (parked) return parked;
+
+  const next = trips.find(trip => trip.start >= time - tolerance);
+  return next ? { lat: next.startLat, lon: next.startLon, address: next.startAddress } : null;
+}
+
+function checkPurchaseLocation(
+  trips: StoredTrip[] | undefined,
+  time: number,
+  merchantLat: number | null,
+  merchantLon: number | null
+): { check: FuelPurchaseLocationCheck; distanceMiles: number | null; address: string | null } {
+  if (!trips || merchantLat === null || merchantLon === null) {
+    return { check: 'unknown', distanceMiles: null, address: null };
+  }
+
+  const position = findParkedPosition(trips, time);
+  if (position === 'moving') return { check: 'moving', distanceMiles: null, address: null };
+  if (!position) return { check: 'unknown', distanceMiles: null, address: null };
+
+  const distanceMiles = calculateDistanceFeet(position.lat, position.lon, merchantLat, merchantLon) / 5280;
+  return {
+    check: distanceMiles > FAR_FROM_MERCHANT_MILES ? 'far' : 'near',
+    distanceMiles: round1(distanceMiles),
+    address: position.address,
+  };
+}
+
+/**
+ * Reconcile fuel card purchases against GPS miles per truck
+ * Covers `weeks` workweeks starting at weekStart (a Sunday). Purchases are tied to the truck the
+ * card holder had on the day. Longer ranges even out fill-ups that straddle the edges.
+ */
+export async function buildFuelReconciliationReport(options: {
+  weekStart: string;
+  weeks: number;
+}): Promise<FuelReconciliationReport> {
+  const supabase = createServerClient();
+  const { weekStart, weeks } = options;
+  const rangeEnd = format(addDays(parseISO(weekStart), weeks * 7 - 1), 'yyyy-MM-dd');
+
+  // Miles and trips per truck
+  const milesByVehicle = new Map<string, number>();
+  const tripsByVehicle = new Map<string, StoredTrip[]>();
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data: page, error } = await supabase
+      .from('gps_segments')
+      .select('vehicle_id, distance_miles, start_time, end_time, start_latitude, start_longitude, start_address, end_latitude, end_longitude, end_address')
+      .gte('segment_date', weekStart)
+      .lte('segment_date', rangeEnd)
+      .order('start_time', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw new Error(error.message);
+
+    for (const row of page || []) {
+      milesByVehicle.set(row.vehicle_id, (milesByVehicle.get(row.vehicle_id) || 0) + (row.distance_miles || 0));
+
+      if (!tripsByVehicle.has(row.vehicle_id)) tripsByVehicle.set(row.vehicle_id, []);
+      tripsByVehicle.get(row.vehicle_id)!.push({
+        start: new Date(row.start_time).getTime(),
+        end: row.end_time ? new Date(row.end_time).getTime() : null,
+        startLat: row.start_latitude,
+        startLon: row.start_longitude,
+        startAddress: row.start_address,
+        endLat: row.end_latitude,
+        endLon: row.end_longitude,
+        endAddress: row.end_address,
+      });
+    }
+
+    if (!page || page.length < PAGE_SIZE) break;
+  }
+
+  const purchaseRows = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data: page, error } = await supabase
+      .from('fuel_transactions')
+      .select('id, coast_transaction_id, vehicle_id, technician_id, transaction_time, transaction_date, merchant_name, merchant_address, merchant_latitude, merchant_longitude, gallons, amount_cents')
+      .gte('transaction_date', weekStart)
+      .lte('transaction_date', rangeEnd)
+      .not('status', 'in', `(${VOID_TRANSACTION_STATUSES.join(',')})`)
+      .order('transaction_time', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw new Error(error.message);
+    purchaseRows.push(...(page || []));
+    if (!page || page.length < PAGE_SIZE) break;
+  }
+
+  const [{ data: trucks, error: truckError }, { data: technicians, error: techError }, assignments] = await Promise.all([
+    supabase.from('trucks').select('truck_number, verizon_vehicle_id, expected_mpg'),
+    supabase.from('technicians').select('id, name'),
+    loadTruckAssignments({ from: weekStart, to: rangeEnd }),
+  ]);
+
+  if (truckError) throw new Error(truckError.message);
+  if (techError) throw new Error(techError.message);
+
+  const truckByVehicle = new Map((trucks || []).map(t => [t.verizon_vehicle_id, t]));
+  const techById = new Map((technicians || []).map(t => [t.id, t]));
+
+  const purchases: FuelReconciliationPurchase[] = purchaseRows.map(row => {
+    // Resolved from the assignments so a later truck reassignment is picked up; the card's own
+    // vehicle is kept when the technician had no assignment that day
+    const vehicleId = (row.technician_id
+      ? resolveVehicle(assignments, row.technician_id, row.transaction_date)
+      : null) ?? row.vehicle_id;
+    const location = checkPurchaseLocation(
+      vehicleId ? tripsByVehicle.get(vehicleId) : undefined,
+      new Date(row.transaction_time).getTime(),
+      row.merchant_latitude,
+      row.merchant_longitude
+    );
+    return {
+      id: row.id,
+      coastTransactionId: row.coast_transaction_id,
+      vehicleId,
+      technicianId: row.technician_id,
+      technicianName: row.technician_id ? techById.get(row.technician_id)?.name || null : null,
+      transactionTime: new Date(row.transaction_time).toISOString(),
+      merchantName: row.merchant_name,
+      merchantAddress: row.merchant_address,
+      gallons: row.gallons,
+      amountCents: row.amount_cents,
+      locationCheck: location.check,
+      truckDistanceMiles: location.distanceMiles,
+      truckAddress: location.address,
+    };
+  });
+
+  // Trucks with fuel purchases or miles in the range
+  const vehicleIds = new Set([
+    ...milesByVehicle.keys(),
+    ...purchases.map(p => p.vehicleId).filter((id): id is string => !!id),
+  ]);
+
+  const rows: FuelReconciliationTruck[] = [...vehicleIds].map(vehicleId => {
+    const truckPurchases = purchases.filter(p => p.vehicleId === vehicleId);
+    const gallons = round1(truckPurchases.reduce((sum, p) => sum + (p.gallons || 0), 0));
+    const gpsMiles = round1(milesByVehicle.get(vehicleId) || 0);
+    const truck = truckByVehicle.get(vehicleId);
+    const expectedMpg = truck?.expected_mpg ?? null;
+    // Whoever had the truck last in the range (assignments are loaded for the range, oldest first)
+    const assignedTo = assignments.filter(a => a.vehicleId === vehicleId).pop();
+    const driver = (assignedTo && techById.get(assignedTo.technicianId)) ||
+      truckPurchases.map(p => p.technicianId && techById.get(p.technicianId)).find(Boolean) ||
+      null;
+
+    const actualMpg = gallons > 0 ? round1(gpsMiles / gallons) : null;
+    const expectedGallons = expectedMpg ? round1(gpsMiles / expectedMpg) : null;
+
+    let outlierReason: string | null = null;
+    if (gallons >= MIN_GALLONS_TO_JUDGE && gpsMiles === 0) {
+      outlierReason = `${gallons} gal bought with no GPS miles`;
+    } else if (gallons >= MIN_GALLONS_TO_JUDGE && expectedMpg && actualMpg !== null && actualMpg < expectedMpg * MPG_SHORTFALL_RATIO) {
+      outlierReason = `${actualMpg} MPG from fuel bought vs ${expectedMpg} expected`;
+    }
+
+    return {
+      vehicleId,
+      truckNumber: truck?.truck_number || null,
+      technicianId: driver?.id || null,
+      technicianName: driver?.name || null,
+      purchases: truckPurchases.length,
+      gallons,
+      amountCents: truckPurchases.reduce((sum, p) => sum + p.amountCents, 0),
+      gpsMiles,
+      expectedMpg,
+      actualMpg,
+      expectedGallons,
+      excessGallons: expectedGallons !== null ? round1(gallons - expectedGallons) : null,
+      isOutlier: outlierReason !== null,
+      outlierReason,
+      purchasesAwayFromTruck: truckPurchases.filter(p => p.locationCheck === 'far' || p.locationCheck === 'moving').length,
+    };
+  });
+
+  rows.sort((a, b) =>
+    Number(b.isOutlier) - Number(a.isOutlier) ||
+    (b.excessGallons ?? -Infinity) - (a.excessGallons ?? -Infinity) ||
+    b.gallons - a.gallons
+  );
+
+  const flaggedPurchases = purchases
+    .filter(p => p.locationCheck === 'far' || p.locationCheck === 'moving')
+    .reverse();
+
+  return {
+    weekStart,
+    weekEnd: rangeEnd,
+    weeks,
+    generatedAt: new Date().toISOString(),
+    trucks: rows,
+    flaggedPurchases,
+    totalGallons: round1(purchases.reduce((sum, p) => sum + (p.gallons || 0), 0)),
+    unattributedGallons: round1(purchases.filter(p => !p.vehicleId).reduce((sum, p) => sum + (p.gallons || 0), 0)),
+  };
+}
@@ -1,5 +1,6 @@
 // Geo utilities for calculating distances between GPS coordinates
 import type { VehicleSegment } from './verizon-connect';
+import type { Office } from '@/types/office';
 
 /**
  * Geocode an address to lat/lng coordinates using OpenStreetMap Nominatim
@@ -264,7 +265,7 @@ export function findArrivalFromSegments(
 
 /**
  * Office location configuration
- * Used to detect when technicians visit the office/shop
+ * Fallback used when no offices have been configured in the offices table
  */
 export const OFFICE_LOCATION = {
   latitude: 36.06693377330104,
@@ -272,6 +273,19 @@ export const OFFICE_LOCATION = {
   radiusFeet: 500, // Account for parking lot, GPS drift
 };
 
+/**
+ * Default office built from OFFICE_LOCATION
+ */
+export const DEFAULT_OFFICE: Office = {
+  id: 'default',
+  name: 'Office',
+  centerLatitude: OFFICE_LOCATION.latitude,
+  centerLongitude: OFFICE_LOCATION.longitude,
+  radiusFeet: OFFICE_LOCATION.radiusFeet,
+  boundaryType: 'circle',
+  active: true,
+};
+
 /**
  * Office visit types
  */
@@ -286,19 +300,45 @@ export interface OfficeVisit {
   durationMinutes: number | null;
   visitType: OfficeVisitType;
   isUnnecessary?: boolean;     // Flag for take-home truck techs who stopped at office before first job
+  officeId?: string;           // Which shop was visited (undefined for the default office)
+  officeName?: string;
 }
 
 /**
- * Check if a location is near the office
+ * Find the office whose geofence contains a location
+ * Supports both circle (radius-based) and polygon boundaries.
+ * Falls back to DEFAULT_OFFICE when no offices are configured.
+ *
+ * @param offices - Offices to check, in priority order (e.g. home branch first)
  */
-export function isNearOffice(lat: number, lon: number): boolean {
-  return isWithinRadius(
-    lat,
-    lon,
-    OFFICE_LOCATION.latitude,
-    OFFICE_LOCATION.longitude,
-    OFFICE_LOCATION.radiusFeet
-  );
+export function findOfficeAt(lat: number, lon: number, offices?: Office[]): Office | null {
+  const candidates = offices && offices.length > 0 ? offices : [DEFAULT_OFFICE];
+
+  for (const office of candidates) {
+    if (office.boundaryType === 'polygon' && office.boundaryPolygon && office.boundaryPolygon.length >= 3) {
+      if (isPointInPolygon(lat, lon, office.boundaryPolygon)) {
+        return office;
+      }
+    } else if (isWithinRadius(lat, lon, office.centerLatitude, office.centerLongitude, office.radiusFeet)) {
+      return office;
+    }
+  }
+  return null;
+}
+
+/**
+ * Check if a location is near any office
+ */
+export function isNearOffice(lat: number, lon: number, offices?: Office[]): boolean {
+  return findOfficeAt(lat, lon, offices) !== null;
+}
+
+/**
+ * Order offices so a technician's home branch is checked first
+ */
+export function sortOfficesForTech(offices: Office[], homeOfficeId?: string | null): Office[] {
+  if (!homeOfficeId) return offices;
+  return [...offices].sort((a, b) => (a.id === homeOfficeId ? -1 : b.id === homeOfficeId ? 1 : 0));
 }
 
 /**
@@ -307,6 +347,7 @@ export function isNearOffice(lat: number, lon: number): boolean {
 export interface TechOfficeConfig {
   takesTruckHome?: boolean;
   homeLocation?: { lat: number; lon: number } | null;
+  offices?: Office[]; // Defaults to DEFAULT_OFFICE when empty
 }
 
 /**
@@ -333,7 +374,7 @@ export const HOME_RADIUS_FEET = 500;
  *
  * @param segments - Vehicle segments from Verizon API (should be for a single day)
  * @param firstJobScheduledTime - When the tech's first job is scheduled (to distinguish morning from mid-day)
- * @param techConfig - Optional technician configuration (takes truck home, home location)
+ * @param techConfig - Optional technician configuration (takes truck home, home location, offices)
  * @returns Array of detected office visits
  */
 export function detectOfficeVisits(
@@ -356,13 +397,17 @@ export function detectOfficeVisits(
     return [];
   }
 
+  const offices = techConfig?.offices;
+
   // First, collect all raw office arrivals/departures
-  const rawVisits: { arrivalTime: Date; departureTime: Date | null }[] = [];
+  const rawVisits: { arrivalTime: Date; departureTime: Date | null; office: Office }[] = [];
 
   // Check first segment - does it START at office? (truck parked overnight)
   const firstSegment = sortedSegments[0];
-  const startsAtOffice = firstSegment.StartLocation &&
-    isNearOffice(firstSegment.StartLocation.Latitude, firstSegment.StartLocation.Longitude);
+  const startOffice = firstSegment.StartLocation
+    ? findOfficeAt(firstSegment.StartLocation.Latitude, firstSegment.StartLocation.Longitude, offices)
+    : null;
+  const startsAtOffice = startOffice !== null;
 
   // Check if truck started from home (for unnecessary visit detection)
   // Only relevant if tech takes truck home AND we have their home location
@@ -377,11 +422,12 @@ export function detectOfficeVisits(
     );
   }
 
-  if (startsAtOffice) {
+  if (startOffice) {
     const departureTime = parseVerizonUtcTimestamp(firstSegment.StartDateUtc!);
     rawVisits.push({
       arrivalTime: departureTime, // Use departure as arrival for morning (we don't know actual arrival)
       departureTime,
+      office: startOffice,
     });
   }
 
@@ -393,7 +439,8 @@ export function detectOfficeVisits(
       continue;
     }
 
-    if (isNearOffice(segment.EndLocation.Latitude, segment.EndLocation.Longitude)) {
+    const office = findOfficeAt(segment.EndLocation.Latitude, segment.EndLocation.Longitude, offices);
+    if (office) {
       const arrivalTime = parseVerizonUtcTimestamp(segment.EndDateUtc);
 
       // Find departure time from next segment's start (if it exists and starts at office)
@@ -405,18 +452,18 @@ export function detectOfficeVisits(
         }
       }
 
-      rawVisits.push({ arrivalTime, departureTime });
+      rawVisits.push({ arrivalTime, departureTime, office });
     }
   }
 
-  // Consolidate visits within 15 minutes of each other
+  // Consolidate visits to the same office within 15 minutes of each other
   const CONSOLIDATION_WINDOW_MS = 15 * 60 * 1000; // 15 minutes
-  const consolidatedVisits: { arrivalTime: Date; departureTime: Date | null }[] = [];
+  const consolidatedVisits: { arrivalTime: Date; departureTime: Date | null; office: Office }[] = [];
 
   for (const visit of rawVisits) {
     const lastConsolidated = consolidatedVisits[consolidatedVisits.length - 1];
 
-    if (lastConsolidated) {
+    if (lastConsolidated && lastConsolidated.office.id === visit.office.id) {
       // Check if this visit is within 15 min of the last one's departure
       const lastDeparture = lastConsolidated.departureTime || lastConsolidated.arrivalTime;
       const timeDiff = visit.arrivalTime.getTime() - lastDeparture.getTime();
@@ -491,6 +538,8 @@ export function detectOfficeVisits(
       durationMinutes,
       visitType,
       isUnnecessary: isUnnecessary || undefined,
+      officeId: visit.office.id === DEFAULT_OFFICE.id ? undefined : visit.office.id,
+      officeName: visit.office.name,
     });
   }
 
@@ -524,10 +573,12 @@ export interface DailyFirstSegment {
  * Analyzes where the truck starts each day to suggest likely home location
  *
  * @param dailyFirstSegments - First segment of each day with start location
+ * @param offices - Configured offices (starts at any shop are ignored)
  * @returns Home location suggestion or null if no consistent pattern found
  */
 export function detectHomeLocation(
-  dailyFirstSegments: DailyFirstSegment[]
+  dailyFirstSegments: DailyFirstSegment[],
+  offices?: Office[]
 ): HomeLocationSuggestion | null {
   if (!dailyFirstSegments || dailyFirstSegments.length < 5) {
     // Need at least 5 days of data for meaningful analysis
@@ -536,7 +587,7 @@ export function detectHomeLocation(
 
   // Filter out days that start at the office (we want home starts only)
   const nonOfficeStarts = dailyFirstSegments.filter(
-    seg => !isNearOffice(seg.startLat, seg.startLon)
+    seg => !isNearOffice(seg.startLat, seg.startLon, offices)
   );
 
   if (nonOfficeStarts.length < 3) {
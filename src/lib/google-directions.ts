@@ -2,35 +2,141 @@
  * Google Directions API utility for calculating drive times between locations
  */
 
+import { addDays } from 'date-fns';
+import { formatInTimeZone } from 'date-fns-tz';
+import { createServerClient } from './supabase';
+import { estimateDrive } from './drive-time-estimate';
+
+const EST_TIMEZONE = 'America/New_York';
 const GOOGLE_MAPS_API_KEY = process.env.GOOGLE_MAPS_API_KEY;
 
+export type DirectionsSource = 'google' | 'estimate';
+
 export interface DirectionsResult {
   durationMinutes: number;
   durationInTrafficMinutes: number | null; // Only available with departure_time
   distanceMiles: number;
   status: 'ok' | 'not_found' | 'zero_results' | 'error';
+  source: DirectionsSource;        // 'estimate' - no API key or the API failed (see drive-time-estimate)
   errorMessage?: string;
 }
 
-// Simple in-memory cache for directions results
-// Key format: "lat1,lon1|lat2,lon2" rounded to 4 decimal places
+// Two cache layers: this instance's memory, then the directions_cache table shared by all
+// instances. Keys are "lat1,lon1|lat2,lon2|hourOfWeek" with coordinates rounded to 4 places.
 const directionsCache = new Map<string, { result: DirectionsResult; timestamp: number }>();
-const CACHE_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+const MEMORY_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+const CACHE_TTL_DAYS = 30;
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+function roundTo4(n: number): number {
+  return Math.round(n * 10000) / 10000;
+}
 
-function getCacheKey(originLat: number, originLon: number, destLat: number, destLon: number): string {
+function getCacheKey(originLat: number, originLon: number, destLat: number, destLon: number, hourOfWeek: number): string {
   // Round to 4 decimal places (~11 meter precision) to improve cache hit rate
-  const roundTo4 = (n: number) => Math.round(n * 10000) / 10000;
-  return `${roundTo4(originLat)},${roundTo4(originLon)}|${roundTo4(destLat)},${roundTo4(destLon)}`;
+  return `${roundTo4(originLat)},${roundTo4(originLon)}|${roundTo4(destLat)},${roundTo4(destLon)}|${hourOfWeek}`;
+}
+
+/**
+ * Hour of the week in Eastern time - 0 is Sunday midnight
+ */
+export function getHourOfWeek(time: Date): number {
+  const day = Number(formatInTimeZone(time, EST_TIMEZONE, 'i')) % 7; // ISO: Monday 1 ... Sunday 7
+  return day * 24 + Number(formatInTimeZone(time, EST_TIMEZONE, 'H'));
+}
+
+/**
+ * Same time of week, now or later - Google only gives traffic for departures that haven't happened
+ */
+function nextOccurrence(time: Date): Date {
+  const now = Date.now();
+  if (time.getTime() >= now) return time;
+  const weeks = Math.floor((now - time.getTime()) / WEEK_MS) + 1;
+  return new Date(time.getTime() + weeks * WEEK_MS);
+}
+
+async function readStoredDirections(cacheKey: string): Promise<DirectionsResult | null> {
+  try {
+    const supabase = createServerClient();
+    const { data, error } = await supabase
+      .from('directions_cache')
+      .select('duration_minutes, duration_in_traffic_minutes, distance_miles')
+      .eq('cache_key', cacheKey)
+      .gt('expires_at', new Date().toISOString())
+      .maybeSingle();
+
+    if (error) throw new Error(error.message);
+    if (!data) return null;
+
+    return {
+      durationMinutes: data.duration_minutes,
+      durationInTrafficMinutes: data.duration_in_traffic_minutes,
+      distanceMiles: Number(data.distance_miles),
+      status: 'ok',
+      source: 'google',
+    };
+  } catch (error) {
+    console.error('[Google Directions] Stored cache read failed:', error);
+    return null;
+  }
+}
+
+async function storeDirections(
+  cacheKey: string,
+  origin: { lat: number; lon: number },
+  dest: { lat: number; lon: number },
+  hourOfWeek: number,
+  result: DirectionsResult
+): Promise<void> {
+  const { error } = await createServerClient()
+    .from('directions_cache')
+    .upsert({
+      cache_key: cacheKey,
+      origin_latitude: roundTo4(origin.lat),
+      origin_longitude: roundTo4(origin.lon),
+      dest_latitude: roundTo4(dest.lat),
+      dest_longitude: roundTo4(dest.lon),
+      hour_of_week: hourOfWeek,
+      duration_minutes: result.durationMinutes,
+      duration_in_traffic_minutes: result.durationInTrafficMinutes,
+      distance_miles: result.distanceMiles,
+      fetched_at: new Date().toISOString(),
+      expires_at: addDays(new Date(), CACHE_TTL_DAYS).toISOString(),
+    }, { onConflict: 'cache_key' });
+
+  if (error) console.error('[Google Directions] Stored cache write failed:', error.message);
+}
+
+/**
+ * Fallback when Google can't answer - straight-line distance at the fleet's average speed
+ */
+async function estimatedResult(
+  originLat: number,
+  originLon: number,
+  destLat: number,
+  destLon: number
+): Promise<DirectionsResult> {
+  const estimate = await estimateDrive(originLat, originLon, destLat, destLon);
+  return {
+    durationMinutes: estimate.durationMinutes,
+    durationInTrafficMinutes: null,
+    distanceMiles: estimate.distanceMiles,
+    status: 'ok',
+    source: 'estimate',
+  };
 }
 
 /**
  * Get driving duration between two points using Google Directions API
+ * Results are cached per hour of the week. Without an API key, or when the API fails, the
+ * result is an estimate (source: 'estimate') rather than an error.
  *
  * @param originLat Origin latitude
  * @param originLon Origin longitude
  * @param destLat Destination latitude
  * @param destLon Destination longitude
- * @param departureTime Optional departure time for traffic-based estimates
+ * @param departureTime Optional departure time - picks the hour-of-week cache slot and asks
+ *   Google for typical traffic at that time of the week
  * @returns DirectionsResult with duration and distance
  */
 export async function getDrivingDuration(
@@ -41,24 +147,24 @@ export async function getDrivingDuration(
   departureTime?: Date
 ): Promise<DirectionsResult> {
   if (!GOOGLE_MAPS_API_KEY) {
-    console.error('[Google Directions] No API key configured');
-    return {
-      durationMinutes: 0,
-      durationInTrafficMinutes: null,
-      distanceMiles: 0,
-      status: 'error',
-      errorMessage: 'Google Maps API key not configured',
-    };
+    console.error('[Google Directions] No API key configured, estimating');
+    return estimatedResult(originLat, originLon, destLat, destLon);
   }
 
-  // Check cache first (without departure time for general caching)
-  const cacheKey = getCacheKey(originLat, originLon, destLat, destLon);
+  const hourOfWeek = getHourOfWeek(departureTime || new Date());
+  const cacheKey = getCacheKey(originLat, originLon, destLat, destLon, hourOfWeek);
   const cached = directionsCache.get(cacheKey);
-  if (cached && Date.now() - cached.timestamp < CACHE_TTL_MS) {
+  if (cached && Date.now() - cached.timestamp < MEMORY_TTL_MS) {
     console.log(`[Google Directions] Cache hit for ${cacheKey}`);
     return cached.result;
   }
 
+  const stored = await readStoredDirections(cacheKey);
+  if (stored) {
+    directionsCache.set(cacheKey, { result: stored, timestamp: Date.now() });
+    return stored;
+  }
+
   try {
     const origin = `${originLat},${originLon}`;
     const destination = `${destLat},${destLon}`;
@@ -67,7 +173,7 @@ export async function getDrivingDuration(
 
     // Add departure_time for traffic estimates (must be in the future or now)
     if (departureTime) {
-      const timestamp = Math.floor(departureTime.getTime() / 1000);
+      const timestamp = Math.floor(nextOccurrence(departureTime).getTime() / 1000);
       url += `&departure_time=${timestamp}`;
     }
 
@@ -87,20 +193,14 @@ export async function getDrivingDuration(
         durationInTrafficMinutes: null,
         distanceMiles: 0,
         status: 'zero_results',
+        source: 'google',
         errorMessage: 'No route found between these locations',
       };
       return result;
     }
 
     if (data.status !== 'OK') {
-      const result: DirectionsResult = {
-        durationMinutes: 0,
-        durationInTrafficMinutes: null,
-        distanceMiles: 0,
-        status: 'error',
-        errorMessage: data.error_message || `API returned status: ${data.status}`,
-      };
-      return result;
+      throw new Error(data.error_message || `API returned status: ${data.status}`);
     }
 
     const route = data.routes[0];
@@ -125,44 +225,61 @@ export async function getDrivingDuration(
       durationInTrafficMinutes,
       distanceMiles,
       status: 'ok',
+      source: 'google',
     };
 
     // Cache the result
     directionsCache.set(cacheKey, { result, timestamp: Date.now() });
+    await storeDirections(
+      cacheKey,
+      { lat: originLat, lon: originLon },
+      { lat: destLat, lon: destLon },
+      hourOfWeek,
+      result
+    );
     console.log(`[Google Directions] Route found: ${durationMinutes} min, ${distanceMiles} miles`);
 
     return result;
-  } catch (error: any) {
-    console.error('[Google Directions] Error fetching directions:', error);
-    return {
-      durationMinutes: 0,
-      durationInTrafficMinutes: null,
-      distanceMiles: 0,
-      status: 'error',
-      errorMessage: error.message || 'Failed to fetch directions',
-    };
+  } catch (error) {
+    console.error('[Google Directions] Error fetching directions, estimating:', error);
+    return estimatedResult(originLat, originLon, destLat, destLon);
   }
 }
 
 /**
- * Clear the directions cache (useful for testing or memory management)
+ * Clear this instance's in-memory layer (the stored cache expires on its own)
  */
 export function clearDirectionsCache(): void {
   directionsCache.clear();
 }
 
 /**
- * Get cache statistics
+ * Get cache statistics from the stored cache, shared by every instance
  */
-export function getDirectionsCacheStats(): { size: number; oldestEntry: number | null } {
-  let oldest: number | null = null;
-  for (const entry of directionsCache.values()) {
-    if (oldest === null || entry.timestamp < oldest) {
-      oldest = entry.timestamp;
-    }
-  }
+export async function getDirectionsCacheStats(): Promise<{
+  size: number;
+  activeEntries: number;
+  oldestEntry: number | null;
+  memorySize: number;
+}> {
+  const supabase = createServerClient();
+  const [total, active, oldest] = await Promise.all([
+    supabase.from('directions_cache').select('cache_key', { count: 'exact', head: true }),
+    supabase
+      .from('directions_cache')
+      .select('cache_key', { count: 'exact', head: true })
+      .gt('expires_at', new Date().toISOString()),
+    supabase.from('directions_cache').select('fetched_at').order('fetched_at', { ascending: true }).limit(1),
+  ]);
+
+  if (total.error) throw new Error(total.error.message);
+  if (active.error) throw new Error(active.error.message);
+  if (oldest.error) throw new Error(oldest.error.message);
+
   return {
-    size: directionsCache.size,
-    oldestEntry: oldest,
+    size: total.count || 0,
+    activeEntries: active.count || 0,
+    oldestEntry: oldest.data?.[0] ? new Date(oldest.data[0].fetched_at).getTime() : null,
+    memorySize: directionsCache.size,
   };
 }
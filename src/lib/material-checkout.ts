@@ -3,7 +3,7 @@
  * Connects to the separate Supabase database for material/inventory checkouts
  */
 
-const MATERIAL_CHECKOUT_URL = 'https://vmjngtmjdrasytgqsvxp.supabase.co';
+const MATERIAL_CHECKOUT_URL = process.env.MATERIAL_CHECKOUT_URL || 'https://vmjngtmjdrasytgqsvxp.supabase.co';
 const MATERIAL_CHECKOUT_ANON_KEY = process.env.MATERIAL_CHECKOUT_ANON_KEY || '';
 
 export interface MaterialCheckoutItem {
@@ -0,0 +1,515 @@
+// Paylocity linking - matching technicians to Paylocity employees by name
+// Punch verification only runs for technicians with paylocity_employee_id. Reconciliation links
+// near-certain matches on its own, queues the rest for approval in Settings, and reports
+// conflicts (one employee claimed by several technicians, or one technician matching several
+// employees) instead of guessing.
+
+import { createServerClient } from './supabase';
+import { getEmployees, type PaylocityEmployee } from './paylocity';
+import {
+  rowToPaylocityLinkSuggestion,
+  type PaylocityLinkConflict,
+  type PaylocityLinkSuggestion,
+  type PaylocityReconciliation,
+  type UnlinkedTechnician,
+} from '@/types/paylocity-link';
+
+// Matches at or above this are linked without review
+export const AUTO_LINK_CONFIDENCE = 0.98;
+
+const SUGGESTION_COLUMNS =
+  'id, technician_id, paylocity_employee_id, employee_name, confidence, match_reason, status, reviewed_by, reviewed_at, created_at, technicians(name)';
+
+// ServiceTitan dispatch placeholders - not people, never on Paylocity
+const PLACEHOLDER_NAMES = ['ready to dispatch', 'estimates', 'dispatch electrical', 'dispatch hvac', 'dispatch plumbing'];
+
+function isPlaceholder(name: string): boolean {
+  const lower = name.toLowerCase();
+  return PLACEHOLDER_NAMES.some(p => lower.includes(p));
+}
+
+export function isActiveEmployee(employee: PaylocityEmployee): boolean {
+  return employee.statusType === 'A' || employee.status === 'Active';
+}
+
+export function employeeName(employee: PaylocityEmployee): string {
+  return `${employee.displayName || employee.firstName || ''} ${employee.lastName || ''}`.trim();
+}
+
+/**
+ * Calculate similarity between two strings using Levenshtein distance
+ */
+function similarity(s1: string, s2: string): number {
+  const longer = s1.length > s2.length ? s1 : s2;
+  const shorter = s1.length > s2.length ? s2 : s1;
+
+  if (longer.length === 0) return 1.0;
+
+  const editDistance = levenshteinDistance(longer.toLowerCase(), shorter.toLowerCase());
+  return (longer.length - editDistance) / longer.length;
+}
+
+function levenshteinDistance(s1: string, s2: string): number {
+  const costs: number[] = [];
+  for (let i = 0; i <= s1.length; i++) {
+    let lastValue = i;
+    for (let j = 0; j <= s2.length; j++) {
+      if (i === 0) {
+        costs[j] = j;
+      } else if (j > 0) {
+        let newValue = costs[j - 1];
+        if (s1.charAt(i - 1) !== s2.charAt(j - 1)) {
+          newValue = Math.min(Math.min(newValue, lastValue), costs[j]) + 1;
+        }
+        costs[j - 1] = lastValue;
+        lastValue = newValue;
+      }
+    }
+    if (i > 0) costs[s2.length] = lastValue;
+  }
+  return costs[s2.length];
+}
+
+interface EmployeeMatch {
+  employee: PaylocityEmployee;
+  confidence: number;
+  reason: string;
+}
+
+/**
+ * Score one Paylocity employee against a technician's name
+ */
+function scoreEmployee(techName: string, emp: PaylocityEmployee): { confidence: number; reason: string } {
+  // Parse technician name
+  const techNameLower = techName.toLowerCase().trim();
+  const techParts = techNameLower.split(/\s+/);
+  const techFirstName = techParts[0] || '';
+  const techLastName = techParts[techParts.length - 1] || '';
+  const isAbbreviatedLast = techLastName.length === 1; // e.g., "Mitch C"
+
+  let bestScore = 0;
+  let matchReason = '';
+
+  // Get Paylocity employee name parts
+  const empLastName = (emp.lastName || '').toLowerCase();
+  const empFirstName = (emp.displayName || emp.firstName || '').toLowerCase();
+  const empFullName = `${empFirstName} ${empLastName}`.trim();
+
+  // Handle case-insensitive comparison
+  const techFirstLower = techFirstName.toLowerCase();
+  const empFirstLower = empFirstName.toLowerCase();
+
+  // Score 1: Exact full name match
+  if (empFullName === techNameLower) {
+    return { confidence: 1.0, reason: 'Exact name match' };
+  }
+
+  // Score 2: First name + last name match (case insensitive)
+  if (empLastName === techLastName && empFirstLower === techFirstLower) {
+    return { confidence: 0.98, reason: 'First and last name match' };
+  }
+
+  // Score 3: Handle abbreviated last names (e.g., "Mitch C" → "Mitch Cameron")
+  if (isAbbreviatedLast && empFirstLower === techFirstLower && empLastName.startsWith(techLastName)) {
+    return { confidence: 0.95, reason: 'First name + last initial match' };
+  }
+
+  // Score 4: Handle hyphenated/compound last names
+  // e.g., "Tony Rivera" → "Tony LopezRivera", "Christian Gomez" → "Christian Garcia-Gomez"
+  const empLastParts = empLastName.split(/[-\s]/);
+  const empLastWithoutHyphen = empLastName.replace(/-/g, '').toLowerCase();
+  if (empFirstLower === techFirstLower || empFirstLower.includes(techFirstLower)) {
+    // Check if techLastName matches any part of empLastName
+    if (empLastParts.some(part => part.toLowerCase() === techLastName) ||
+        empLastWithoutHyphen.includes(techLastName)) {
+      const score = 0.92;
+      if (score > bestScore) {
+        bestScore = score;
+        matchReason = 'First name + partial last name match';
+      }
+    }
+  }
+
+  // Score 5: Handle middle names in Paylocity
+  // e.g., "Jorge Guerrero" → "Jorge Guerrero Rosales"
+  if (empFirstLower === techFirstLower && empLastName.startsWith(techLastName)) {
+    const score = 0.90;
+    if (score > bestScore) {
+      bestScore = score;
+      matchReason = 'First name + last name prefix match';
+    }
+  }
+
+  // Score 6: Last name exact + first name similar
+  if (empLastName === techLastName) {
+    const firstNameSim = similarity(empFirstLower, techFirstLower);
+    // First name starts with same letter is a good sign
+    const firstInitialMatch = empFirstLower[0] === techFirstLower[0] ? 0.1 : 0;
+    if (firstNameSim >= 0.6) {
+      const score = 0.80 + (firstNameSim * 0.1) + firstInitialMatch;
+      if (score > bestScore) {
+        bestScore = score;
+        matchReason = `Last name exact, first name similar (${Math.round(firstNameSim * 100)}%)`;
+      }
+    }
+  }
+
+  // Score 7: Full name similarity
+  const fullNameSim = similarity(empFullName, techNameLower);
+  if (fullNameSim > bestScore && fullNameSim >= 0.75) {
+    bestScore = fullNameSim;
+    matchReason = `Name similarity (${Math.round(fullNameSim * 100)}%)`;
+  }
+
+  // Lower confidence threshold for "last name only" matches - these are often wrong
+  // Don't auto-match on last name alone
+
+  return { confidence: bestScore, reason: matchReason };
+}
+
+/**
+ * Find the best matching Paylocity employee for a technician
+ */
+export function findBestMatch(
+  techName: string,
+  paylocityEmployees: PaylocityEmployee[]
+): { employee: PaylocityEmployee | null; confidence: number; reason: string } {
+  if (!techName || paylocityEmployees.length === 0) {
+    return { employee: null, confidence: 0, reason: 'No data' };
+  }
+
+  let best: { employee: PaylocityEmployee | null; confidence: number; reason: string } =
+    { employee: null, confidence: 0, reason: '' };
+
+  for (const emp of paylocityEmployees) {
+    const { confidence, reason } = scoreEmployee(techName, emp);
+    if (confidence > best.confidence) best = { employee: emp, confidence, reason };
+  }
+
+  return best;
+}
+
+/**
+ * Every employee matching a technician at or above minConfidence, best first
+ * More than one means duplicate names - a person has to pick.
+ */
+export function findMatchesAbove(
+  techName: string,
+  paylocityEmployees: PaylocityEmployee[],
+  minConfidence: number
+): EmployeeMatch[] {
+  if (!techName) return [];
+
+  return paylocityEmployees
+    .map(employee => ({ employee, ...scoreEmployee(techName, employee) }))
+    .filter(m => m.confidence >= minConfidence)
+    .sort((a, b) => b.confidence - a.confidence);
+}
+
+async function loadTechnicians(): Promise<{ id: string; name: string; active: boolean | null; paylocity_employee_id: string | null }[]> {
+  const supabase = createServerClient();
+
+  const { data, error } = await supabase
+    .from('technicians')
+    .select('id, name, active, paylocity_employee_id')
+    .order('name');
+
+  if (error) throw new Error(error.message);
+  return (data || []).filter(t => !isPlaceholder(t.name));
+}
+
+export async function loadLinkSuggestions(statuses: string[] = ['pending']): Promise<PaylocityLinkSuggestion[]> {
+  const supabase = createServerClient();
+
+  const { data, error } = await supabase
+    .from('paylocity_link_suggestions')
+    .select(SUGGESTION_COLUMNS)
+    .in('status', statuses)
+    .order('confidence', { ascending: false });
+
+  if (error) throw new Error(error.message);
+  return (data || []).map(rowToPaylocityLinkSuggestion);
+}
+
+/**
+ * Employees claimed by more than one technician - by links, or by queued matches - and
+ * technicians queued against more than one employee
+ */
+function detectConflicts(
+  technicians: { id: string; name: string; paylocity_employee_id: string | null }[],
+  pending: PaylocityLinkSuggestion[],
+  employeeNames: Map<string, string>
+): PaylocityLinkConflict[] {
+  const conflicts: PaylocityLinkConflict[] = [];
+
+  const linkedBy = new Map<string, { id: string; name: string }[]>();
+  for (const tech of technicians) {
+    if (!tech.paylocity_employee_id) continue;
+    const list = linkedBy.get(tech.paylocity_employee_id) || [];
+    list.push({ id: tech.id, name: tech.name });
+    linkedBy.set(tech.paylocity_employee_id, list);
+  }
+
+  const queuedFor = new Map<string, PaylocityLinkSuggestion[]>();
+  for (const suggestion of pending) {
+    const list = queuedFor.get(suggestion.paylocityEmployeeId) || [];
+    list.push(suggestion);
+    queuedFor.set(suggestion.paylocityEmployeeId, list);
+  }
+
+  const queuedBy = new Map<string, PaylocityLinkSuggestion[]>();
+  for (const suggestion of pending) {
+    const list = queuedBy.get(suggestion.technicianId) || [];
+    list.push(suggestion);
+    queuedBy.set(suggestion.technicianId, list);
+  }
+
+  for (const [employeeId, techs] of linkedBy) {
+    if (techs.length < 2) continue;
+    conflicts.push({
+      kind: 'shared_employee',
+      paylocityEmployeeId: employeeId,
+      employeeName: employeeNames.get(employeeId) || null,
+      technicians: techs,
+    });
+  }
+
+  for (const [employeeId, suggestions] of queuedFor) {
+    const claimants = suggestions.map(s => ({ id: s.technicianId, name: s.technicianName }));
+    const linked = linkedBy.get(employeeId);
+
+    if (linked) {
+      conflicts.push({
+        kind: 'claimed_employee',
+        paylocityEmployeeId: employeeId,
+        employeeName: suggestions[0].employeeName,
+        technicians: [...linked, ...claimants],
+      });
+    } else if (suggestions.length > 1) {
+      conflicts.push({
+        kind: 'contested_suggestion',
+        paylocityEmployeeId: employeeId,
+        employeeName: suggestions[0].employeeName,
+        technicians: claimants,
+      });
+    }
+  }
+
+  for (const suggestions of queuedBy.values()) {
+    if (suggestions.length < 2) continue;
+    conflicts.push({
+      kind: 'ambiguous_match',
+      paylocityEmployeeId: suggestions[0].paylocityEmployeeId,
+      employeeName: suggestions[0].employeeName,
+      technicians: [{ id: suggestions[0].technicianId, name: suggestions[0].technicianName }],
+      employees: suggestions.map(s => ({ id: s.paylocityEmployeeId, name: s.employeeName })),
+    });
+  }
+
+  return conflicts;
+}
+
+/**
+ * The review queue as it stands, without calling Paylocity
+ */
+export async function getLinkQueue(): Promise<{
+  suggestions: PaylocityLinkSuggestion[];
+  conflicts: PaylocityLinkConflict[];
+  unlinked: UnlinkedTechnician[];
+}> {
+  const [technicians, suggestions] = await Promise.all([loadTechnicians(), loadLinkSuggestions()]);
+
+  const employeeNames = new Map(suggestions.map(s => [s.paylocityEmployeeId, s.employeeName]));
+
+  return {
+    suggestions,
+    conflicts: detectConflicts(technicians, suggestions, employeeNames),
+    unlinked: technicians
+      .filter(t => t.active && !t.paylocity_employee_id)
+      .map(t => ({ id: t.id, name: t.name })),
+  };
+}
+
+/**
+ * Active technicians punch verification is skipping for lack of a Paylocity link
+ */
+export async function getUnlinkedActiveTechnicians(): Promise<UnlinkedTechnician[]> {
+  const technicians = await loadTechnicians();
+  return technicians
+    .filter(t => t.active && !t.paylocity_employee_id)
+    .map(t => ({ id: t.id, name: t.name }));
+}
+
+/**
+ * Match unlinked active technicians against active Paylocity employees
+ * - a 98%+ match to an employee nobody else has or wants is linked, if it's the only one
+ * - several 98%+ matches (duplicate names) are all queued, never linked
+ * - other matches are queued for review (unless rejected before)
+ * - matches to an employee another technician holds or wants are queued, never linked
+ * linkedBy names whoever ran it, for the suggestion rows.
+ */
+export async function reconcilePaylocityLinks(linkedBy: string): Promise<PaylocityReconciliation> {
+  const supabase = createServerClient();
+
+  const [allEmployees, technicians, decided] = await Promise.all([
+    getEmployees(),
+    loadTechnicians(),
+    loadLinkSuggestions(['rejected']),
+  ]);
+  const activeEmployees = allEmployees.filter(isActiveEmployee);
+  const employeeNames = new Map(allEmployees.map(e => [e.id, employeeName(e)]));
+  const rejected = new Set(decided.map(s => `${s.technicianId}:${s.paylocityEmployeeId}`));
+  const linkedEmployees = new Set(technicians.map(t => t.paylocity_employee_id).filter(Boolean));
+
+  const unlinked = technicians.filter(t => t.active && !t.paylocity_employee_id);
+  const notRejected = (techId: string, employeeId: string) => !rejected.has(`${techId}:${employeeId}`);
+  const matches = unlinked.flatMap(tech => {
+    const strong = findMatchesAbove(tech.name, activeEmployees, AUTO_LINK_CONFIDENCE)
+      .filter(m => notRejected(tech.id, m.employee.id));
+    if (strong.length > 0) {
+      return strong.map(m => ({ tech, ...m, ambiguous: strong.length > 1 }));
+    }
+
+    const { employee, confidence, reason } = findBestMatch(tech.name, activeEmployees);
+    return employee && notRejected(tech.id, employee.id)
+      ? [{ tech, employee, confidence, reason, ambiguous: false }]
+      : [];
+  });
+
+  const wantedBy = new Map<string, number>();
+  for (const m of matches) wantedBy.set(m.employee.id, (wantedBy.get(m.employee.id) || 0) + 1);
+
+  const result: PaylocityReconciliation = { autoLinked: [], queued: 0, conflicts: [], unlinked: [] };
+  const nowLinked = new Set<string>();
+
+  for (const { tech, employee: emp, confidence, reason, ambiguous } of matches) {
+    const uncontested = !ambiguous && !linkedEmployees.has(emp.id) && wantedBy.get(emp.id) === 1;
+    const autoLink = uncontested && confidence >= AUTO_LINK_CONFIDENCE;
+
+    if (autoLink) {
+      const { data: linkedRows, error: linkError } = await supabase
+        .from('technicians')
+        .update({ paylocity_employee_id: emp.id, updated_at: new Date().toISOString() })
+        .eq('id', tech.id)
+        .is('paylocity_employee_id', null)
+        .select('id');
+      if (linkError) throw new Error(linkError.message);
+
+      nowLinked.add(tech.id);
+
+      // Someone linked the technician since we loaded them - their choice stands
+      if (!linkedRows || linkedRows.length === 0) continue;
+
+      result.autoLinked.push({
+        technicianId: tech.id,
+        technicianName: tech.name,
+        paylocityEmployeeId: emp.id,
+        employeeName: employeeName(emp),
+      });
+    } else {
+      result.queued++;
+    }
+
+    const { error } = await supabase
+      .from('paylocity_link_suggestions')
+      .upsert({
+        technician_id: tech.id,
+        paylocity_employee_id: emp.id,
+        employee_name: employeeName(emp),
+        confidence: Math.round(confidence * 1000) / 1000,
+        match_reason: reason || null,
+        status: autoLink ? 'auto_linked' : 'pending',
+        reviewed_by: autoLink ? linkedBy : null,
+        reviewed_at: autoLink ? new Date().toISOString() : null,
+      }, { onConflict: 'technician_id,paylocity_employee_id' });
+    if (error) throw new Error(error.message);
+  }
+
+  // Queued matches for technicians who are linked now (or whose best match moved on) are dropped
+  const current = new Set(matches.filter(m => !nowLinked.has(m.tech.id)).map(m => `${m.tech.id}:${m.employee.id}`));
+  const pending = await loadLinkSuggestions();
+  const stale = pending.filter(s => !current.has(`${s.technicianId}:${s.paylocityEmployeeId}`));
+  if (stale.length > 0) {
+    const { error } = await supabase.from('paylocity_link_suggestions').delete().in('id', stale.map(s => s.id));
+    if (error) throw new Error(error.message);
+  }
+
+  const linkedTechnicians = technicians.map(t => {
+    const auto = result.autoLinked.find(a => a.technicianId === t.id);
+    return auto ? { ...t, paylocity_employee_id: auto.paylocityEmployeeId } : t;
+  });
+  result.conflicts = detectConflicts(
+    linkedTechnicians,
+    pending.filter(s => !stale.includes(s)),
+    employeeNames
+  );
+  result.unlinked = linkedTechnicians
+    .filter(t => t.active && !t.paylocity_employee_id && !nowLinked.has(t.id))
+    .map(t => ({ id: t.id, name: t.name }));
+
+  return result;
+}
+
+/**
+ * Approve or reject a queued match
+ * Approving links the technician and drops their other queued matches, unless the employee
+ * is already linked to someone else - then nothing changes and refused says why.
+ */
+export async function reviewLinkSuggestion(
+  id: string,
+  decision: 'approved' | 'rejected',
+  reviewedBy: string
+): Promise<{ suggestion: PaylocityLinkSuggestion | null; refused: string | null }> {
+  const supabase = createServerClient();
+
+  const { data, error } = await supabase
+    .from('paylocity_link_suggestions')
+    .select(SUGGESTION_COLUMNS)
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  if (!data) return { suggestion: null, refused: null };
+
+  const suggestion = rowToPaylocityLinkSuggestion(data);
+  if (suggestion.status !== 'pending') {
+    return { suggestion, refused: `This match was already ${suggestion.status.replace('_', ' ')}` };
+  }
+
+  if (decision === 'approved') {
+    const { data: holders, error: holderError } = await supabase
+      .from('technicians')
+      .select('id, name')
+      .eq('paylocity_employee_id', suggestion.paylocityEmployeeId)
+      .neq('id', suggestion.technicianId);
+
+    if (holderError) throw new Error(holderError.message);
+    if (holders && holders.length > 0) {
+      return { suggestion, refused: `${suggestion.employeeName} is already linked to ${holders.map(h => h.name).join(', ')}` };
+    }
+
+    const { error: linkError } = await supabase
+      .from('technicians')
+      .update({ paylocity_employee_id: suggestion.paylocityEmployeeId, updated_at: new Date().toISOString() })
+      .eq('id', suggestion.technicianId);
+    if (linkError) throw new Error(linkError.message);
+
+    // Other employees queued for this technician (duplicate names) lost out
+    const { error: othersError } = await supabase
+      .from('paylocity_link_suggestions')
+      .delete()
+      .eq('technician_id', suggestion.technicianId)
+      .eq('status', 'pending')
+      .neq('id', id);
+    if (othersError) throw new Error(othersError.message);
+  }
+
+  const reviewedAt = new Date().toISOString();
+  const { error: updateError } = await supabase
+    .from('paylocity_link_suggestions')
+    .update({ status: decision, reviewed_by: reviewedBy, reviewed_at: reviewedAt })
+    .eq('id', id);
+  if (updateError) throw new Error(updateError.message);
+
+  return { suggestion: { ...suggestion, status: decision, reviewedBy, reviewedAt }, refused: null };
+}
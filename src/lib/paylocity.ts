@@ -7,7 +7,7 @@ const PAYLOCITY_CONFIG = {
   companyId: process.env.PAYLOCITY_COMPANY_ID || '',
   authUrl: process.env.PAYLOCITY_NG_AUTH_URL || 'https://dc1prodgwext.paylocity.com/public/security/v1/token',
   // Base URL WITHOUT /public - different endpoints have different path prefixes
-  baseUrl: 'https://dc1prodgwext.paylocity.com',
+  baseUrl: process.env.PAYLOCITY_NG_BASE_URL || 'https://dc1prodgwext.paylocity.com',
 };
 
 let cachedToken: { token: string; expiresAt: number } | null = null;
@@ -358,6 +358,92 @@ export async function getActiveEmployees(): Promise<PaylocityEmployee[]> {
   return employees.filter(e => e.statusType === 'A' || e.status === 'Active');
 }
 
+/**
+ * Punch sent to Paylocity's punch import
+ */
+export interface PunchImportEntry {
+  externalId: string;   // Our proposed punch id - echoed back in the results
+  employeeId: string;
+  punchType: string;    // 'ClockIn', 'ClockOut', 'MealStart', 'MealEnd'
+  punchDateTime: string; // Company-local time without zone, like relativeStart in punch details
+  note?: string;
+}
+
+/**
+ * Per-punch outcome of a punch import operation
+ */
+export interface PunchImportResult {
+  externalId: string;
+  success: boolean;
+  punchId?: string;
+  message?: string;
+  raw: Record<string, string | undefined>;
+}
+
+export interface PunchImportStatus {
+  state: 'pending' | 'complete' | 'failed';
+  results: PunchImportResult[];
+  message?: string;
+}
+
+/**
+ * Submit punches to the Paylocity punch import (async - returns the operation ID to poll)
+ */
+export async function submitPunchImport(entries: PunchImportEntry[]): Promise<string> {
+  const response = await paylocityFetch(
+    `/apiHub/time/v2/companies/${PAYLOCITY_CONFIG.companyId}/punchImport`,
+    {
+      method: 'POST',
+      body: JSON.stringify({ punches: entries }),
+    }
+  );
+
+  if (!response.operationId) {
+    throw new Error('No operationId returned from punch import request');
+  }
+
+  return response.operationId;
+}
+
+/**
+ * Check a punch import operation, polling until it finishes or maxWaitMs passes
+ * Returns state 'pending' if Paylocity is still processing - check again later.
+ */
+export async function getPunchImportStatus(operationId: string, maxWaitMs: number = 30000): Promise<PunchImportStatus> {
+  const startTime = Date.now();
+  const pollInterval = 1000;
+
+  while (true) {
+    const status = await paylocityFetch(
+      `/apiHub/time/v2/companies/${PAYLOCITY_CONFIG.companyId}/PunchImportOperations/${operationId}`
+    );
+
+    const statusValue = status.status?.toLowerCase() || '';
+
+    if (statusValue === 'complete' || statusValue === 'completed' || statusValue === 'succeeded' || statusValue === 'failed' || statusValue === 'error') {
+      const results: PunchImportResult[] = (status.results || []).map((r: Record<string, string | undefined>) => ({
+        externalId: r.externalId,
+        success: (r.status || '').toLowerCase() === 'success' || (r.status || '').toLowerCase() === 'imported',
+        punchId: r.punchId || r.punchID,
+        message: r.message || r.error,
+        raw: r,
+      }));
+
+      return {
+        state: statusValue === 'failed' || statusValue === 'error' ? 'failed' : 'complete',
+        results,
+        message: status.message || status.error,
+      };
+    }
+
+    if (Date.now() - startTime + pollInterval > maxWaitMs) {
+      return { state: 'pending', results: [] };
+    }
+
+    await new Promise(resolve => setTimeout(resolve, pollInterval));
+  }
+}
+
 /**
  * Test Paylocity API connection
  */
@@ -0,0 +1,146 @@
+// Minimal PDF writer for printable reports - text, rules and filled boxes on US Letter pages
+// Uses the standard Helvetica fonts, so no font embedding; text is limited to WinAnsi characters.
+
+export const PAGE_WIDTH = 612;   // 8.5in at 72pt/in
+export const PAGE_HEIGHT = 792;  // 11in
+
+type Rgb = [number, number, number];
+
+// Coordinates are in points from the top-left corner of the page
+export type PdfItem =
+  | { kind: 'text'; x: number; y: number; text: string; size: number; bold?: boolean; color?: Rgb }
+  | { kind: 'line'; x1: number; y1: number; x2: number; y2: number; width?: number; color?: Rgb }
+  | { kind: 'rect'; x: number; y: number; width: number; height: number; fill: Rgb };
+
+export type PdfPage = PdfItem[];
+
+// Characters the standard fonts can't show without an embedded font
+const REPLACEMENTS: Record<string, string> = {
+  '→': '->',
+  '←': '<-',
+  '·': '-',
+  '–': '-',
+  '—': '-',
+  '‘': "'",
+  '’': "'",
+  '“': '"',
+  '”': '"',
+  '…': '...',
+};
+
+function toPdfString(text: string): string {
+  const ascii = Array.from(text)
+    .map(ch => REPLACEMENTS[ch] ?? (ch.charCodeAt(0) < 32 || ch.charCodeAt(0) > 126 ? '?' : ch))
+    .join('');
+  return `(${ascii.replace(/([\\()])/g, '\\$1')})`;
+}
+
+function formatNumber(n: number): string {
+  return (Math.round(n * 100) / 100).toString();
+}
+
+function formatColor(color: Rgb): string {
+  return color.map(c => formatNumber(c / 255)).join(' ');
+}
+
+/**
+ * Approximate width of Helvetica text - good enough for wrapping and right-aligning
+ */
+export function estimateTextWidth(text: string, size: number, bold = false): number {
+  return text.length * size * (bold ? 0.56 : 0.52);
+}
+
+/**
+ * Split text into lines that fit within maxWidth points
+ */
+export function wrapText(text: string, maxWidth: number, size: number): string[] {
+  const lines: string[] = [];
+  let current = '';
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (current && estimateTextWidth(candidate, size) > maxWidth) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  }
+  if (current) lines.push(current);
+
+  return lines;
+}
+
+function renderContent(items: PdfPage): string {
+  const ops: string[] = [];
+
+  for (const item of items) {
+    if (item.kind === 'text') {
+      const font = item.bold ? 'F2' : 'F1';
+      ops.push(
+        'BT',
+        `${formatColor(item.color ?? [0, 0, 0])} rg`,
+        `/${font} ${formatNumber(item.size)} Tf`,
+        `${formatNumber(item.x)} ${formatNumber(PAGE_HEIGHT - item.y)} Td`,
+        `${toPdfString(item.text)} Tj`,
+        'ET'
+      );
+    } else if (item.kind === 'line') {
+      ops.push(
+        `${formatColor(item.color ?? [0, 0, 0])} RG`,
+        `${formatNumber(item.width ?? 0.5)} w`,
+        `${formatNumber(item.x1)} ${formatNumber(PAGE_HEIGHT - item.y1)} m`,
+        `${formatNumber(item.x2)} ${formatNumber(PAGE_HEIGHT - item.y2)} l`,
+        'S'
+      );
+    } else {
+      ops.push(
+        `${formatColor(item.fill)} rg`,
+        `${formatNumber(item.x)} ${formatNumber(PAGE_HEIGHT - item.y - item.height)} ${formatNumber(item.width)} ${formatNumber(item.height)} re`,
+        'f'
+      );
+    }
+  }
+
+  return ops.join('\n');
+}
+
+/**
+ * Render pages into a PDF file
+ */
+export function renderPdf(pages: PdfPage[], title: string): Buffer {
+  // Object numbers: 1 catalog, 2 page tree, 3-4 fonts, 5 info, then a page + content stream per page
+  const firstPageObject = 6;
+  const pageRefs = pages.map((_, i) => `${firstPageObject + i * 2} 0 R`);
+
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageRefs.join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    `<< /Title ${toPdfString(title)} /Producer (Tech Truth) >>`,
+  ];
+
+  pages.forEach((items, i) => {
+    const content = renderContent(items);
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${firstPageObject + i * 2 + 1} 0 R >>`,
+      `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`
+    );
+  });
+
+  let body = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((object, i) => {
+    offsets.push(Buffer.byteLength(body, 'latin1'));
+    body += `${i + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = Buffer.byteLength(body, 'latin1');
+  body += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  body += offsets.map(o => `${o.toString().padStart(10, '0')} 00000 n \n`).join('');
+  body += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(body, 'latin1');
+}
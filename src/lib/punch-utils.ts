@@ -1,5 +1,16 @@
 // Punch utilities for clock-in/clock-out violation detection
 
+import { findOfficeAt, parseVerizonUtcTimestamp } from './geo-utils';
+import {
+  resolveRuleSet,
+  evaluateClockInRules,
+  evaluateClockOutRules,
+  evaluateMissingClockIn,
+  evaluateMissingClockOut,
+} from './violation-rules';
+import type { Office } from '@/types/office';
+import type { ViolationRuleSet } from '@/types/violation-rules';
+
 // CustomLocation interface for location matching
 export interface CustomLocation {
   id: string;
@@ -17,6 +28,8 @@ export interface PunchViolation {
   actualLocationType: string;
   canBeExcused?: boolean;  // For office visits that can be excused
   varianceMinutes?: number;  // How many minutes off from expected
+  ruleId?: string;  // Which violation rule fired
+  ruleName?: string;
 }
 
 export interface TechnicianConfig {
@@ -71,8 +84,8 @@ export function findLocationAtTime(
 
   // First, find segment where targetTime falls between start and end (at a stop)
   for (const seg of segments) {
-    const startMs = new Date(seg.StartDateUtc).getTime();
-    const endMs = seg.EndDateUtc ? new Date(seg.EndDateUtc).getTime() : startMs + (24 * 60 * 60 * 1000);
+    const startMs = parseVerizonUtcTimestamp(seg.StartDateUtc).getTime();
+    const endMs = seg.EndDateUtc ? parseVerizonUtcTimestamp(seg.EndDateUtc).getTime() : startMs + (24 * 60 * 60 * 1000);
 
     if (targetMs >= startMs && targetMs <= endMs) {
       // Determine which location to use based on where we are in the segment
@@ -97,8 +110,8 @@ export function findLocationAtTime(
   let useEnd = false;
 
   for (const seg of segments) {
-    const startMs = new Date(seg.StartDateUtc).getTime();
-    const endMs = seg.EndDateUtc ? new Date(seg.EndDateUtc).getTime() : startMs;
+    const startMs = parseVerizonUtcTimestamp(seg.StartDateUtc).getTime();
+    const endMs = seg.EndDateUtc ? parseVerizonUtcTimestamp(seg.EndDateUtc).getTime() : startMs;
 
     // Check distance to segment start (arrival at location)
     const distToStart = Math.abs(targetMs - startMs);
@@ -127,195 +140,13 @@ export function findLocationAtTime(
       latitude: location.Latitude,
       longitude: location.Longitude,
       address: location.Address,
-      timestamp: new Date(useEnd && nearestSegment.EndDateUtc ? nearestSegment.EndDateUtc : nearestSegment.StartDateUtc),
+      timestamp: parseVerizonUtcTimestamp(useEnd && nearestSegment.EndDateUtc ? nearestSegment.EndDateUtc : nearestSegment.StartDateUtc),
     };
   }
 
   return null;
 }
 
-/**
- * Detect clock-in violations
- */
-export function detectClockInViolation(
-  clockInTime: Date,
-  gpsLocationType: string,
-  techConfig: TechnicianConfig,
-  firstJobStartTime: Date | null,
-  hasExcusedOfficeVisit: boolean,
-  toleranceMinutes: number = 5
-): PunchViolation {
-  const noViolation: PunchViolation = {
-    isViolation: false,
-    reason: null,
-    expectedLocationType: techConfig.takesTruckHome ? 'job' : 'office',
-    actualLocationType: gpsLocationType,
-  };
-
-  // If we don't know where they were, can't determine violation
-  if (gpsLocationType === 'unknown' || gpsLocationType === 'no_gps') {
-    return {
-      isViolation: false,
-      reason: null,
-      expectedLocationType: techConfig.takesTruckHome ? 'job' : 'office',
-      actualLocationType: gpsLocationType,
-    };
-  }
-
-  if (techConfig.takesTruckHome) {
-    // Takes truck home: should clock in at first job site (or office if excused)
-
-    if (gpsLocationType === 'home') {
-      // Clocked in at home - always a violation
-      return {
-        isViolation: true,
-        reason: 'Clocked in at HOME instead of job site',
-        expectedLocationType: 'job',
-        actualLocationType: 'home',
-        canBeExcused: false,
-      };
-    }
-
-    if (gpsLocationType === 'office' && !hasExcusedOfficeVisit) {
-      // Clocked in at office without excuse
-      return {
-        isViolation: true,
-        reason: 'Clocked in at OFFICE - should go direct to job (no excused visit)',
-        expectedLocationType: 'job',
-        actualLocationType: 'office',
-        canBeExcused: true,  // Manager can excuse this
-      };
-    }
-
-    // If at office WITH excuse, that's fine - no violation
-    if (gpsLocationType === 'office' && hasExcusedOfficeVisit) {
-      return noViolation;
-    }
-
-    // At job site or custom location - that's fine
-    if (gpsLocationType === 'job' || gpsLocationType === 'custom') {
-      return noViolation;
-    }
-  } else {
-    // Doesn't take truck home: should clock in at office
-    if (gpsLocationType !== 'office') {
-      return {
-        isViolation: true,
-        reason: `Clocked in at ${gpsLocationType.toUpperCase()} instead of office`,
-        expectedLocationType: 'office',
-        actualLocationType: gpsLocationType,
-        canBeExcused: false,
-      };
-    }
-  }
-
-  return noViolation;
-}
-
-/**
- * Detect clock-out violations
- */
-export function detectClockOutViolation(
-  clockOutTime: Date,
-  gpsLocationType: string,
-  lastJobDepartureTime: Date | null,
-  lastStopType: string | null,  // 'job', 'office', 'home'
-  techConfig: TechnicianConfig,
-  toleranceMinutes: number = 5
-): PunchViolation {
-  const noViolation: PunchViolation = {
-    isViolation: false,
-    reason: null,
-    expectedLocationType: techConfig.takesTruckHome ? 'job' : 'office',
-    actualLocationType: gpsLocationType,
-  };
-
-  // If we don't know where they were, can't determine violation
-  if (gpsLocationType === 'unknown' || gpsLocationType === 'no_gps') {
-    return noViolation;
-  }
-
-  // If last stop was office, clocking out at/near office is fine
-  if (lastStopType === 'office') {
-    return noViolation;
-  }
-
-  if (techConfig.takesTruckHome) {
-    // Takes truck home: should clock out when leaving last job
-
-    if (gpsLocationType === 'home') {
-      // Clocked out at home - violation
-      return {
-        isViolation: true,
-        reason: 'Clocked out at HOME - should clock out when leaving last job',
-        expectedLocationType: 'job',
-        actualLocationType: 'home',
-        canBeExcused: false,
-      };
-    }
-
-    // Check if clock-out is too long after leaving last job
-    if (lastJobDepartureTime) {
-      const minutesSinceLastJob = Math.round(
-        (clockOutTime.getTime() - lastJobDepartureTime.getTime()) / (1000 * 60)
-      );
-
-      if (minutesSinceLastJob > toleranceMinutes) {
-        return {
-          isViolation: true,
-          reason: `Clocked out ${minutesSinceLastJob}m after leaving last job`,
-          expectedLocationType: 'job',
-          actualLocationType: gpsLocationType,
-          canBeExcused: false,
-          varianceMinutes: minutesSinceLastJob,
-        };
-      }
-    }
-  }
-
-  return noViolation;
-}
-
-/**
- * Detect missing clock-in (has scheduled jobs but no clock-in)
- */
-export function detectMissingClockIn(
-  hasScheduledJobs: boolean,
-  hasClockIn: boolean,
-  firstJobStartTime: Date | null
-): PunchViolation | null {
-  if (hasScheduledJobs && !hasClockIn) {
-    return {
-      isViolation: true,
-      reason: 'Scheduled jobs but no clock-in recorded',
-      expectedLocationType: 'any',
-      actualLocationType: 'no_punch',
-      canBeExcused: false,
-    };
-  }
-  return null;
-}
-
-/**
- * Detect missing clock-out (has clock-in but no clock-out at end of day)
- */
-export function detectMissingClockOut(
-  hasClockIn: boolean,
-  hasClockOut: boolean,
-  clockInTime: Date | null
-): PunchViolation | null {
-  if (hasClockIn && !hasClockOut) {
-    return {
-      isViolation: true,
-      reason: 'Clocked in but no clock-out recorded',
-      expectedLocationType: 'any',
-      actualLocationType: 'no_punch',
-      canBeExcused: false,
-    };
-  }
-  return null;
-}
-
 /**
  * Calculate distance in feet between two GPS coordinates
  */
@@ -338,19 +169,19 @@ export function calculateDistanceFeet(
 
 /**
  * Determine location type from GPS coordinates
+ * Offices are matched against their own geofences; radiusFeet applies to home, custom and job locations.
  */
 export function determineLocationType(
   latitude: number,
   longitude: number,
-  officeLocation: { lat: number; lon: number },
+  offices: Office[],
   homeLocation: { lat: number; lon: number } | null,
   customLocations: CustomLocation[],
   jobLocations: Array<{ lat: number; lon: number; address?: string }>,
   radiusFeet: number = 500
 ): string {
   // Check office
-  const officeDistance = calculateDistanceFeet(latitude, longitude, officeLocation.lat, officeLocation.lon);
-  if (officeDistance <= radiusFeet) {
+  if (findOfficeAt(latitude, longitude, offices)) {
     return 'office';
   }
 
@@ -399,6 +230,7 @@ export interface DayPunchSummary {
   missingClockOutViolation: PunchViolation | null;
   hasViolation: boolean;
   violations: PunchViolation[];
+  ruleSetId: string;  // Rule set the punches were evaluated against
   durationHours: number | null;
   mealBreaks: Array<{ start: string; end: string | null }>;
 }
@@ -413,13 +245,14 @@ export function processDayPunches(
   },
   gpsSegments: VehicleSegmentInput[],
   techConfig: TechnicianConfig,
-  officeLocation: { lat: number; lon: number },
+  offices: Office[],
   customLocations: CustomLocation[],
   jobLocations: Array<{ lat: number; lon: number; address?: string }>,
   hasScheduledJobs: boolean,
   lastJobDepartureTime: Date | null,
   lastStopType: string | null,
-  hasExcusedOfficeVisit: boolean
+  hasExcusedOfficeVisit: boolean,
+  ruleSet: ViolationRuleSet = resolveRuleSet({ takes_truck_home: techConfig.takesTruckHome })
 ): DayPunchSummary {
   const violations: PunchViolation[] = [];
 
@@ -441,7 +274,7 @@ export function processDayPunches(
     clockInLocationType = determineLocationType(
       clockInLocation.latitude,
       clockInLocation.longitude,
-      officeLocation,
+      offices,
       homeLocation,
       customLocations,
       jobLocations
@@ -453,7 +286,7 @@ export function processDayPunches(
     clockOutLocationType = determineLocationType(
       clockOutLocation.latitude,
       clockOutLocation.longitude,
-      officeLocation,
+      offices,
       homeLocation,
       customLocations,
       jobLocations
@@ -461,12 +294,12 @@ export function processDayPunches(
   }
 
   // Check for missing punches
-  const missingClockInViolation = detectMissingClockIn(hasScheduledJobs, !!clockInTime, null);
+  const missingClockInViolation = evaluateMissingClockIn(ruleSet, hasScheduledJobs, !!clockInTime);
   if (missingClockInViolation) {
     violations.push(missingClockInViolation);
   }
 
-  const missingClockOutViolation = detectMissingClockOut(!!clockInTime, !!clockOutTime, clockInTime);
+  const missingClockOutViolation = evaluateMissingClockOut(ruleSet, !!clockInTime, !!clockOutTime);
   if (missingClockOutViolation) {
     violations.push(missingClockOutViolation);
   }
@@ -474,11 +307,9 @@ export function processDayPunches(
   // Check clock-in violation
   let clockInViolation: PunchViolation | null = null;
   if (clockInTime && clockInLocationType !== 'no_gps') {
-    clockInViolation = detectClockInViolation(
-      clockInTime,
+    clockInViolation = evaluateClockInRules(
+      ruleSet,
       clockInLocationType,
-      techConfig,
-      null,
       hasExcusedOfficeVisit
     );
     if (clockInViolation.isViolation) {
@@ -489,12 +320,12 @@ export function processDayPunches(
   // Check clock-out violation
   let clockOutViolation: PunchViolation | null = null;
   if (clockOutTime && clockOutLocationType !== 'no_gps') {
-    clockOutViolation = detectClockOutViolation(
+    clockOutViolation = evaluateClockOutRules(
+      ruleSet,
       clockOutTime,
       clockOutLocationType,
       lastJobDepartureTime,
-      lastStopType,
-      techConfig
+      lastStopType
     );
     if (clockOutViolation.isViolation) {
       violations.push(clockOutViolation);
@@ -516,6 +347,7 @@ export function processDayPunches(
     missingClockOutViolation,
     hasViolation: violations.length > 0,
     violations,
+    ruleSetId: ruleSet.id,
     durationHours: punchRecord.durationHours,
     mealBreaks: [], // TODO: Parse from additional punch segments
   };
@@ -0,0 +1,326 @@
+// Punch write-back - pushes approved proposed punches to Paylocity and tracks the outcome
+
+import { formatInTimeZone } from 'date-fns-tz';
+import { createServerClient } from './supabase';
+import { recordAuditEvent } from './audit';
+import { invalidateDayTimelines } from './day-timelines';
+import { submitPunchImport, getPunchImportStatus, PunchImportResult } from './paylocity';
+import type { Database, Json } from '@/types/database';
+import type { AppUser } from '@/types/auth';
+
+type ProposedPunchRow = Database['public']['Tables']['proposed_punches']['Row'];
+type ProposedPunchUpdate = Database['public']['Tables']['proposed_punches']['Update'];
+
+const TIMEZONE = 'America/New_York';
+
+export interface WritebackOptions {
+  actor: AppUser;
+  ids?: string[];          // Limit to these proposed punches
+  retryFailed?: boolean;   // Also resubmit punches whose last attempt failed (interrupted ones only when listed in ids)
+  maxWaitMs?: number;      // How long to wait for Paylocity to finish processing
+}
+
+export interface WritebackSummary {
+  submitted: number;
+  applied: number;
+  failed: number;
+  stillProcessing: number;
+  errors: string[];
+}
+
+// A claimed punch that never got an operation id - the run that claimed it died mid-submit
+const STALE_CLAIM_MS = 10 * 60 * 1000;
+
+const INTERRUPTED_MESSAGE = 'Submission was interrupted - check Paylocity before retrying';
+
+/**
+ * Move a proposed punch to a new write-back status and record it in the audit trail
+ * Only applies while the row is still in the status it was read with, so overlapping runs
+ * can't both act on one punch. Returns the updated row, or null when another run got there first.
+ */
+async function transition(
+  actor: AppUser,
+  punch: ProposedPunchRow,
+  status: string,
+  updates: ProposedPunchUpdate
+): Promise<ProposedPunchRow | null> {
+  const supabase = createServerClient();
+
+  const { data: rows, error } = await supabase
+    .from('proposed_punches')
+    .update({ ...updates, status })
+    .eq('id', punch.id)
+    .eq('status', punch.status)
+    .select();
+
+  if (error) {
+    throw new Error(`Failed to update proposed punch ${punch.id}: ${error.message}`);
+  }
+
+  const data = rows?.[0];
+  if (!data) return null;
+
+  if (status !== punch.status) {
+    await recordAuditEvent({
+      actor,
+      entityType: 'proposed_punch',
+      verb: status,
+      entityId: punch.id,
+      technicianId: punch.technician_id,
+      eventDate: punch.date,
+      before: punch,
+      after: data,
+      note: updates.submission_error ?? null,
+    });
+
+    await invalidateDayTimelines('proposed_punch', { technicianIds: [punch.technician_id], dates: [punch.date] });
+  }
+
+  return data;
+}
+
+/**
+ * Apply a finished import operation's per-punch results to the submitted punches
+ */
+async function applyImportResults(
+  actor: AppUser,
+  punches: ProposedPunchRow[],
+  results: PunchImportResult[],
+  operationMessage: string | undefined,
+  summary: WritebackSummary
+): Promise<void> {
+  const resultById = new Map(results.map(r => [r.externalId, r]));
+
+  for (const punch of punches) {
+    const result = resultById.get(punch.id);
+
+    if (result?.success) {
+      const applied = await transition(actor, punch, 'applied', {
+        applied_at: new Date().toISOString(),
+        submission_error: null,
+        paylocity_response: result.raw as Json,
+      });
+      if (applied) summary.applied++;
+    } else {
+      const message = result?.message || operationMessage || 'Paylocity did not return a result for this punch';
+      const failed = await transition(actor, punch, 'failed', {
+        submission_error: message,
+        paylocity_response: (result?.raw ?? null) as Json,
+      });
+      if (failed) {
+        summary.failed++;
+        summary.errors.push(`${punch.punch_type} on ${punch.date}: ${message}`);
+      }
+    }
+  }
+}
+
+/**
+ * Check a Paylocity import operation and settle the punches submitted with it
+ */
+async function settleOperation(
+  actor: AppUser,
+  operationId: string,
+  punches: ProposedPunchRow[],
+  maxWaitMs: number,
+  summary: WritebackSummary
+): Promise<void> {
+  const status = await getPunchImportStatus(operationId, maxWaitMs);
+
+  if (status.state === 'pending') {
+    summary.stillProcessing += punches.length;
+    return;
+  }
+
+  await applyImportResults(actor, punches, status.results, status.message, summary);
+}
+
+/**
+ * Push approved proposed punches to Paylocity
+ *
+ * 1. Re-checks punches left in 'submitted' by an earlier run (Paylocity was still processing)
+ * 2. Claims 'approved' punches (and 'failed' ones when retrying) by moving them to 'submitted',
+ *    then sends the ones this run claimed as one punch import
+ * 3. Waits for the import to finish and marks each punch 'applied' or 'failed'
+ *
+ * Punches still processing when the wait runs out stay 'submitted' for the next run. A punch
+ * another run claimed first is skipped, so overlapping calls never send it twice. Punches
+ * settled in step 1 aren't resent in the same run, and an interrupted submission
+ * (needs_paylocity_check) is only resent when its id is asked for.
+ */
+export async function writeBackProposedPunches(options: WritebackOptions): Promise<WritebackSummary> {
+  const supabase = createServerClient();
+  const maxWaitMs = options.maxWaitMs ?? 30000;
+  const summary: WritebackSummary = { submitted: 0, applied: 0, failed: 0, stillProcessing: 0, errors: [] };
+
+  // Step 1: settle earlier submissions
+  let pendingQuery = supabase
+    .from('proposed_punches')
+    .select('*')
+    .eq('status', 'submitted')
+    .not('paylocity_operation_id', 'is', null);
+
+  if (options.ids?.length) {
+    pendingQuery = pendingQuery.in('id', options.ids);
+  }
+
+  const { data: inFlight, error: inFlightError } = await pendingQuery;
+  if (inFlightError) throw new Error(inFlightError.message);
+
+  const byOperation = new Map<string, ProposedPunchRow[]>();
+  for (const punch of inFlight || []) {
+    const list = byOperation.get(punch.paylocity_operation_id!) || [];
+    list.push(punch);
+    byOperation.set(punch.paylocity_operation_id!, list);
+  }
+
+  // Whatever step 1 looked at waits for a later run - a failure here isn't retried on the spot
+  const settledThisRun = new Set((inFlight || []).map(punch => punch.id));
+
+  for (const [operationId, punches] of byOperation) {
+    try {
+      await settleOperation(options.actor, operationId, punches, 0, summary);
+    } catch (error) {
+      summary.errors.push(`Operation ${operationId}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  // Claims abandoned before Paylocity returned an operation id - unknown whether the import
+  // went through, so they fail for a person to check before retrying
+  let abandonedQuery = supabase
+    .from('proposed_punches')
+    .select('*')
+    .eq('status', 'submitted')
+    .is('paylocity_operation_id', null)
+    .lt('submitted_at', new Date(Date.now() - STALE_CLAIM_MS).toISOString());
+
+  if (options.ids?.length) {
+    abandonedQuery = abandonedQuery.in('id', options.ids);
+  }
+
+  const { data: abandoned, error: abandonedError } = await abandonedQuery;
+  if (abandonedError) throw new Error(abandonedError.message);
+
+  for (const punch of abandoned || []) {
+    settledThisRun.add(punch.id);
+    const failed = await transition(options.actor, punch, 'failed', {
+      submission_error: INTERRUPTED_MESSAGE,
+      needs_paylocity_check: true,
+    });
+    if (failed) {
+      summary.failed++;
+      summary.errors.push(`${punch.punch_type} on ${punch.date}: ${INTERRUPTED_MESSAGE}`);
+    }
+  }
+
+  // Step 2: submit new (and optionally failed) punches
+  const statuses = options.retryFailed ? ['approved', 'failed'] : ['approved'];
+
+  let candidateQuery = supabase
+    .from('proposed_punches')
+    .select('*')
+    .in('status', statuses)
+    .order('proposed_time', { ascending: true });
+
+  if (options.ids?.length) {
+    candidateQuery = candidateQuery.in('id', options.ids);
+  }
+
+  const { data: candidateRows, error: candidateError } = await candidateQuery;
+  if (candidateError) throw new Error(candidateError.message);
+
+  const candidates = (candidateRows || []).filter(punch =>
+    !settledThisRun.has(punch.id) &&
+    (!punch.needs_paylocity_check || !!options.ids?.includes(punch.id))
+  );
+
+  if (candidates.length === 0) {
+    return summary;
+  }
+
+  const { data: technicians, error: techError } = await supabase
+    .from('technicians')
+    .select('id, name, paylocity_employee_id')
+    .in('id', Array.from(new Set(candidates.map(c => c.technician_id))));
+
+  if (techError) throw new Error(techError.message);
+
+  const techById = new Map((technicians || []).map(t => [t.id, t]));
+  const submittable: ProposedPunchRow[] = [];
+  const submittedAt = new Date().toISOString();
+
+  for (const punch of candidates) {
+    const tech = techById.get(punch.technician_id);
+    if (!tech?.paylocity_employee_id) {
+      const message = `${tech?.name || 'Technician'} has no Paylocity employee id`;
+      const failed = await transition(options.actor, punch, 'failed', {
+        submission_attempts: punch.submission_attempts + 1,
+        submission_error: message,
+      });
+      if (failed) {
+        summary.failed++;
+        summary.errors.push(message);
+      }
+      continue;
+    }
+
+    // Claim it - a punch another run already moved on is not ours to send
+    const claimed = await transition(options.actor, punch, 'submitted', {
+      paylocity_operation_id: null,
+      submitted_at: submittedAt,
+      submission_attempts: punch.submission_attempts + 1,
+      submission_error: null,
+      needs_paylocity_check: false,
+    });
+    if (claimed) submittable.push(claimed);
+  }
+
+  if (submittable.length === 0) {
+    return summary;
+  }
+
+  let operationId: string;
+  try {
+    operationId = await submitPunchImport(submittable.map(punch => ({
+      externalId: punch.id,
+      employeeId: techById.get(punch.technician_id)!.paylocity_employee_id!,
+      punchType: punch.punch_type,
+      punchDateTime: formatInTimeZone(new Date(punch.proposed_time), TIMEZONE, "yyyy-MM-dd'T'HH:mm:ss"),
+      note: punch.note,
+    })));
+  } catch (error) {
+    // Nothing reached Paylocity - mark the whole batch failed so it can be retried
+    const message = error instanceof Error ? error.message : String(error);
+    for (const punch of submittable) {
+      if (await transition(options.actor, punch, 'failed', { submission_error: message })) {
+        summary.failed++;
+      }
+    }
+    summary.errors.push(message);
+    return summary;
+  }
+
+  // Record the operation on the claimed rows (status stays 'submitted', so no audit event)
+  const { error: operationError } = await supabase
+    .from('proposed_punches')
+    .update({ paylocity_operation_id: operationId })
+    .in('id', submittable.map(punch => punch.id))
+    .eq('status', 'submitted');
+
+  if (operationError) {
+    summary.errors.push(`Operation ${operationId} could not be recorded: ${operationError.message}`);
+  }
+  summary.submitted += submittable.length;
+
+  // Step 3: wait for Paylocity to process the import
+  const submitted = submittable.map(punch => ({ ...punch, paylocity_operation_id: operationId }));
+
+  try {
+    await settleOperation(options.actor, operationId, submitted, maxWaitMs, summary);
+  } catch (error) {
+    summary.stillProcessing += submitted.length;
+    summary.errors.push(`Operation ${operationId}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  return summary;
+}
@@ -0,0 +1,180 @@
+// Ride-alongs - helpers riding in a lead technician's truck for a day
+// A helper has no GPS of their own on those days, so their timeline and punch verification use
+// the lead's truck. Pairings are recorded by hand, or derived from ServiceTitan appointments that
+// put a technician without a truck on the same job as one with a truck. Hand-recorded pairings
+// are never overwritten by derived ones.
+
+import { createServerClient } from './supabase';
+import { getTechnicianVehicleForDate, loadTruckAssignments, resolveVehicle } from './truck-assignments';
+import { rowToRideAlong, type RideAlong, type TimelineRideAlong } from '@/types/ride-along';
+
+const RIDE_ALONG_COLUMNS = 'id, ride_date, helper_technician_id, lead_technician_id, source, st_job_id, notes, created_by, created_at';
+
+/**
+ * Ride-alongs on the given dates (or a range), optionally for some helpers only
+ */
+export async function loadRideAlongs(scope: {
+  dates?: string[];
+  from?: string;
+  to?: string;
+  helperIds?: string[];
+}): Promise<RideAlong[]> {
+  const supabase = createServerClient();
+
+  let query = supabase
+    .from('ride_alongs')
+    .select(RIDE_ALONG_COLUMNS)
+    .order('ride_date', { ascending: true });
+
+  if (scope.dates) query = query.in('ride_date', scope.dates);
+  if (scope.from) query = query.gte('ride_date', scope.from);
+  if (scope.to) query = query.lte('ride_date', scope.to);
+  if (scope.helperIds) query = query.in('helper_technician_id', scope.helperIds);
+
+  const { data, error } = await query;
+  if (error) throw new Error(error.message);
+
+  return (data || []).map(rowToRideAlong);
+}
+
+/**
+ * The truck whose GPS stands for a technician's day
+ * A ride-along borrows the lead's truck, even when the helper has one of their own (sharing).
+ */
+export async function getDayVehicle(
+  technicianId: string,
+  date: string
+): Promise<{ vehicleId: string | null; rideAlong: TimelineRideAlong | null }> {
+  const [rideAlong] = await loadRideAlongs({ dates: [date], helperIds: [technicianId] });
+  if (!rideAlong) {
+    return { vehicleId: await getTechnicianVehicleForDate(technicianId, date), rideAlong: null };
+  }
+
+  const supabase = createServerClient();
+  const [vehicleId, { data: lead }] = await Promise.all([
+    getTechnicianVehicleForDate(rideAlong.leadTechnicianId, date),
+    supabase.from('technicians').select('name').eq('id', rideAlong.leadTechnicianId).maybeSingle(),
+  ]);
+
+  return {
+    vehicleId,
+    rideAlong: {
+      leadTechnicianId: rideAlong.leadTechnicianId,
+      leadTechnicianName: lead?.name || 'Unknown technician',
+      vehicleId,
+      source: rideAlong.source,
+    },
+  };
+}
+
+/**
+ * Technician rows with verizon_vehicle_id swapped for the lead's truck on helpers' ride-along days
+ * Expects rows already resolved to the date's own trucks (withVehiclesForDate).
+ */
+export async function withRideAlongVehicles<T extends { id: string; verizon_vehicle_id: string | null }>(
+  technicians: T[],
+  date: string
+): Promise<T[]> {
+  const rideAlongs = await loadRideAlongs({ dates: [date] });
+  if (rideAlongs.length === 0) return technicians;
+
+  const assignments = await loadTruckAssignments({
+    technicianIds: rideAlongs.map(r => r.leadTechnicianId),
+    from: date,
+    to: date,
+  });
+  const leadByHelper = new Map(rideAlongs.map(r => [r.helperTechnicianId, r.leadTechnicianId]));
+
+  return technicians.map(tech => {
+    const leadId = leadByHelper.get(tech.id);
+    return leadId ? { ...tech, verizon_vehicle_id: resolveVehicle(assignments, leadId, date) } : tech;
+  });
+}
+
+/**
+ * Record (or replace) a hand-entered ride-along for a helper's day
+ */
+export async function saveRideAlong(input: {
+  helperTechnicianId: string;
+  leadTechnicianId: string;
+  rideDate: string;
+  notes?: string | null;
+  createdBy?: string | null;
+}): Promise<RideAlong> {
+  const supabase = createServerClient();
+
+  const { data, error } = await supabase
+    .from('ride_alongs')
+    .upsert({
+      helper_technician_id: input.helperTechnicianId,
+      lead_technician_id: input.leadTechnicianId,
+      ride_date: input.rideDate,
+      source: 'manual',
+      st_job_id: null,
+      notes: input.notes || null,
+      created_by: input.createdBy || null,
+    }, { onConflict: 'helper_technician_id,ride_date' })
+    .select(RIDE_ALONG_COLUMNS)
+    .single();
+
+  if (error) throw new Error(error.message);
+  return rowToRideAlong(data);
+}
+
+export async function deleteRideAlong(id: string): Promise<RideAlong | null> {
+  const supabase = createServerClient();
+
+  const { data, error } = await supabase
+    .from('ride_alongs')
+    .delete()
+    .eq('id', id)
+    .select(RIDE_ALONG_COLUMNS)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return data ? rowToRideAlong(data) : null;
+}
+
+/**
+ * Replace the day's ServiceTitan-derived ride-alongs with the pairings found by sync-data
+ * Hand-entered pairings are left alone. Returns the helpers whose pairing changed.
+ */
+export async function syncServiceTitanRideAlongs(
+  date: string,
+  pairs: { helperTechnicianId: string; leadTechnicianId: string; stJobId: number | null }[]
+): Promise<string[]> {
+  const supabase = createServerClient();
+  const existing = await loadRideAlongs({ dates: [date] });
+
+  const manualHelpers = new Set(existing.filter(r => r.source === 'manual').map(r => r.helperTechnicianId));
+  const derived = new Map(existing.filter(r => r.source === 'service_titan').map(r => [r.helperTechnicianId, r]));
+  const wanted = pairs.filter(p => !manualHelpers.has(p.helperTechnicianId));
+  const changed: string[] = [];
+
+  const stale = [...derived.values()].filter(r => !wanted.some(p => p.helperTechnicianId === r.helperTechnicianId));
+  if (stale.length > 0) {
+    const { error } = await supabase.from('ride_alongs').delete().in('id', stale.map(r => r.id));
+    if (error) throw new Error(error.message);
+    changed.push(...stale.map(r => r.helperTechnicianId));
+  }
+
+  for (const pair of wanted) {
+    const current = derived.get(pair.helperTechnicianId);
+    if (current?.leadTechnicianId === pair.leadTechnicianId) continue;
+
+    const { error } = await supabase
+      .from('ride_alongs')
+      .upsert({
+        helper_technician_id: pair.helperTechnicianId,
+        lead_technician_id: pair.leadTechnicianId,
+        ride_date: date,
+        source: 'service_titan',
+        st_job_id: pair.stJobId,
+      }, { onConflict: 'helper_technician_id,ride_date' });
+
+    if (error) throw new Error(error.message);
+    changed.push(pair.helperTechnicianId);
+  }
+
+  return changed;
+}
@@ -0,0 +1,181 @@
+// Route playback - a technician's day as trips with the path driven, plus the places around them
+
+import { createServerClient } from './supabase';
+import { getVehicleGPSHistory, GPSHistoryPoint, SegmentLocation, VehicleSegment } from './verizon-connect';
+import { getWorkdaySegments, getWorkdaySegmentWindow } from './segment-repository';
+import { parseVerizonUtcTimestamp, sortOfficesForTech } from './geo-utils';
+import { getDayVehicle } from './ride-alongs';
+import { CustomLocationRow, rowToCustomLocation } from '@/types/custom-location';
+import { OfficeRow, rowToOffice } from '@/types/office';
+import type { PlaybackPlace, PlaybackPoint, PlaybackTrip, RoutePlayback } from '@/types/route-playback';
+
+// Custom locations this far outside the day's path (in degrees, about 0.7 mi) aren't drawn
+const PLACE_PADDING_DEGREES = 0.01;
+
+function locationPoint(location: SegmentLocation, time: Date): PlaybackPoint {
+  return { time: time.toISOString(), lat: location.Latitude, lon: location.Longitude, speedMph: null };
+}
+
+/**
+ * One trip per segment, with the breadcrumbs recorded while it was underway
+ */
+function segmentsToTrips(segments: VehicleSegment[], points: GPSHistoryPoint[]): PlaybackTrip[] {
+  const breadcrumbs = points
+    .filter(p => p.UpdateUtc && !p.IsPrivate && Number.isFinite(p.Latitude) && Number.isFinite(p.Longitude))
+    .map(p => ({ point: p, time: parseVerizonUtcTimestamp(p.UpdateUtc) }))
+    .sort((a, b) => a.time.getTime() - b.time.getTime());
+
+  return segments
+    .filter(segment => segment.StartDateUtc && segment.StartLocation)
+    .map(segment => {
+      const start = parseVerizonUtcTimestamp(segment.StartDateUtc);
+      const end = segment.EndDateUtc ? parseVerizonUtcTimestamp(segment.EndDateUtc) : null;
+
+      const during: PlaybackPoint[] = breadcrumbs
+        .filter(({ time }) => time > start && (!end || time < end))
+        .map(({ point, time }) => ({
+          time: time.toISOString(),
+          lat: point.Latitude,
+          lon: point.Longitude,
+          speedMph: Number.isFinite(point.Speed) ? point.Speed : null,
+        }));
+
+      const path = [locationPoint(segment.StartLocation, start), ...during];
+      if (end && segment.EndLocation) path.push(locationPoint(segment.EndLocation, end));
+
+      return {
+        startTime: start.toISOString(),
+        endTime: end ? end.toISOString() : null,
+        path,
+        fromBreadcrumbs: during.length > 0,
+        distanceMiles: segment.DistanceKilometers != null
+          ? Math.round(segment.DistanceKilometers * 0.621371 * 10) / 10
+          : null,
+      };
+    })
+    .sort((a, b) => a.startTime.localeCompare(b.startTime));
+}
+
+/**
+ * Trips, breadcrumbs and places for a technician's day
+ * Returns null if the technician doesn't exist. Breadcrumbs are best effort - without them
+ * trips are straight lines between where they started and ended.
+ */
+export async function buildRoutePlayback(technicianId: string, date: string): Promise<RoutePlayback | null> {
+  const supabase = createServerClient();
+
+  const { data: technician, error: techError } = await supabase
+    .from('technicians')
+    .select('id, name, home_latitude, home_longitude, home_address, home_office_id')
+    .eq('id', technicianId)
+    .maybeSingle();
+
+  if (techError) throw new Error(techError.message);
+  if (!technician) return null;
+
+  let trips: PlaybackTrip[] = [];
+  let breadcrumbCount = 0;
+  const { vehicleId } = await getDayVehicle(technician.id, date);
+  if (vehicleId) {
+    const { segments } = await getWorkdaySegments(vehicleId, date);
+    const { startUtc, endUtc } = getWorkdaySegmentWindow(date);
+
+    let points: GPSHistoryPoint[] = [];
+    try {
+      points = await getVehicleGPSHistory(vehicleId, startUtc.toISOString(), endUtc.toISOString());
+    } catch (historyError) {
+      console.error('[RoutePlayback] GPS history fetch failed, drawing straight trips:', historyError);
+    }
+
+    trips = segmentsToTrips(segments, points);
+    breadcrumbCount = trips.reduce((sum, trip) => sum + trip.path.filter(p => p.speedMph !== null).length, 0);
+  }
+
+  const [jobsResult, officesResult, customResult] = await Promise.all([
+    supabase
+      .from('jobs')
+      .select('job_number, customer_name, job_address, scheduled_start, job_latitude, job_longitude')
+      .eq('technician_id', technicianId)
+      .eq('job_date', date)
+      .order('scheduled_start', { ascending: true }),
+    supabase.from('offices').select('*').eq('active', true),
+    supabase.from('custom_locations').select('*'),
+  ]);
+
+  if (jobsResult.error) throw new Error(jobsResult.error.message);
+  if (officesResult.error) throw new Error(officesResult.error.message);
+  if (customResult.error) throw new Error(customResult.error.message);
+
+  const places: PlaybackPlace[] = [];
+
+  if (technician.home_latitude && technician.home_longitude) {
+    places.push({
+      kind: 'home',
+      name: 'Home',
+      lat: technician.home_latitude,
+      lon: technician.home_longitude,
+      address: technician.home_address || undefined,
+    });
+  }
+
+  const offices = sortOfficesForTech(
+    (officesResult.data as OfficeRow[] || []).map(rowToOffice),
+    technician.home_office_id
+  );
+  for (const office of offices) {
+    places.push({
+      kind: 'office',
+      name: office.name,
+      lat: office.centerLatitude,
+      lon: office.centerLongitude,
+      address: office.address,
+      radiusFeet: office.boundaryType === 'circle' ? office.radiusFeet : undefined,
+      polygon: office.boundaryType === 'polygon' ? office.boundaryPolygon : undefined,
+    });
+  }
+
+  for (const job of jobsResult.data || []) {
+    if (job.job_latitude == null || job.job_longitude == null) continue;
+    places.push({
+      kind: 'job',
+      name: job.customer_name || `Job #${job.job_number}`,
+      lat: job.job_latitude,
+      lon: job.job_longitude,
+      address: job.job_address || undefined,
+      jobNumber: job.job_number,
+      scheduledStart: job.scheduled_start || undefined,
+    });
+  }
+
+  // Only custom locations near where the truck went
+  const pathPoints = trips.flatMap(trip => trip.path);
+  if (pathPoints.length > 0) {
+    const minLat = Math.min(...pathPoints.map(p => p.lat)) - PLACE_PADDING_DEGREES;
+    const maxLat = Math.max(...pathPoints.map(p => p.lat)) + PLACE_PADDING_DEGREES;
+    const minLon = Math.min(...pathPoints.map(p => p.lon)) - PLACE_PADDING_DEGREES;
+    const maxLon = Math.max(...pathPoints.map(p => p.lon)) + PLACE_PADDING_DEGREES;
+
+    for (const location of (customResult.data as CustomLocationRow[] || []).map(rowToCustomLocation)) {
+      const { centerLatitude: lat, centerLongitude: lon } = location;
+      if (lat < minLat || lat > maxLat || lon < minLon || lon > maxLon) continue;
+      places.push({
+        kind: 'custom',
+        name: location.name,
+        lat,
+        lon,
+        address: location.address,
+        radiusFeet: location.boundaryType === 'circle' ? location.radiusFeet : undefined,
+        polygon: location.boundaryType === 'polygon' ? location.boundaryPolygon : undefined,
+      });
+    }
+  }
+
+  return {
+    technicianId,
+    technicianName: technician.name,
+    date,
+    trips,
+    places,
+    breadcrumbCount,
+  };
+}
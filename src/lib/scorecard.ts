@@ -0,0 +1,459 @@
+// Weekly technician scorecard - rolls day timelines and estimates up into one report per tech
+
+import { addDays, format, parseISO } from 'date-fns';
+import { toZonedTime } from 'date-fns-tz';
+import { createServerClient } from './supabase';
+import { renderPdf, wrapText, estimateTextWidth, PdfPage, PAGE_WIDTH, PAGE_HEIGHT } from './pdf';
+import type { TimelineFetcher } from './timeline-report';
+import type { DayTimeline, TimelineEvent } from '@/types/timeline';
+import type { ScorecardDay, TechnicianScorecard } from '@/types/scorecard';
+
+const EST_TIMEZONE = 'America/New_York';
+
+function percentage(part: number, total: number): number | null {
+  return total > 0 ? Math.round((part / total) * 100) : null;
+}
+
+function describeDrivingEvent(event: TimelineEvent): string | null {
+  const where = event.address ? ` near ${event.address}` : '';
+  switch (event.type) {
+    case 'speeding':
+      return event.speedingMinutes === undefined
+        ? `${event.speedMph} mph trip max (limit ${event.speedThresholdMph})`
+        : `${event.speedMph} mph (limit ${event.speedThresholdMph})${where}`;
+    case 'harsh_braking':
+      return `Harsh braking ${event.previousSpeedMph} to ${event.speedMph} mph${where}`;
+    case 'harsh_acceleration':
+      return `Harsh acceleration ${event.previousSpeedMph} to ${event.speedMph} mph${where}`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Scorecard metrics for one day's timeline
+ */
+export function summarizeTimelineDay(timeline: DayTimeline): ScorecardDay & {
+  violationReasons: string[];
+  unnecessaryOfficeMinutes: number;
+  transitExcessMinutes: number;
+  unknownStops: number;
+  drivingIncidents: string[];
+} {
+  const day = {
+    date: timeline.date,
+    dayOfWeek: timeline.dayOfWeek,
+    totalJobs: timeline.totalJobs,
+    firstJobOnTime: timeline.firstJobOnTime,
+    firstJobVariance: timeline.firstJobVariance,
+    punchViolations: 0,
+    unnecessaryOfficeVisits: 0,
+    suspiciousTransits: 0,
+    unknownStopMinutes: 0,
+    materialPickups: 0,
+    materialDeliveries: 0,
+    speedingEvents: timeline.drivingSafety.speedingEvents,
+    harshDrivingEvents: timeline.drivingSafety.harshBrakingEvents + timeline.drivingSafety.harshAccelerationEvents,
+    violationReasons: [] as string[],
+    unnecessaryOfficeMinutes: 0,
+    transitExcessMinutes: timeline.excessDriveMinutes,
+    unknownStops: 0,
+    drivingIncidents: [] as string[],
+  };
+
+  for (const event of timeline.events) {
+    if (event.isViolation) {
+      day.punchViolations++;
+      if (event.violationReason) day.violationReasons.push(event.violationReason);
+    }
+
+    if (event.type === 'arrived_office' && event.isUnnecessary && !event.isExcused) {
+      day.unnecessaryOfficeVisits++;
+      day.unnecessaryOfficeMinutes += event.durationMinutes || 0;
+    }
+
+    if (event.transitAnalysis?.isSuspicious) day.suspiciousTransits++;
+
+    if (event.type === 'arrived_unknown') {
+      day.unknownStops++;
+      day.unknownStopMinutes += event.durationMinutes || 0;
+    }
+
+    if (event.type === 'material_pickup') day.materialPickups++;
+    if (event.type === 'material_delivery') day.materialDeliveries++;
+
+    const incident = describeDrivingEvent(event);
+    if (incident) {
+      const time = format(toZonedTime(parseISO(event.timestamp), EST_TIMEZONE), 'h:mm a');
+      day.drivingIncidents.push(`${time} ${incident}`);
+    }
+  }
+
+  return day;
+}
+
+/**
+ * Build a technician's scorecard for the workweek starting weekStart (Sunday)
+ * Only days with jobs or punches are looked at. Returns null if the technician doesn't exist.
+ */
+export async function buildTechnicianScorecard(options: {
+  technicianId: string;
+  weekStart: string;
+  fetchTimeline: TimelineFetcher;
+}): Promise<TechnicianScorecard | null> {
+  const supabase = createServerClient();
+  const { technicianId, weekStart, fetchTimeline } = options;
+  const weekEnd = format(addDays(parseISO(weekStart), 6), 'yyyy-MM-dd');
+
+  const { data: technician, error: techError } = await supabase
+    .from('technicians')
+    .select('id, name')
+    .eq('id', technicianId)
+    .maybeSingle();
+
+  if (techError) throw new Error(techError.message);
+  if (!technician) return null;
+
+  const [jobsResult, punchesResult] = await Promise.all([
+    supabase
+      .from('jobs')
+      .select('id, job_date')
+      .eq('technician_id', technicianId)
+      .gte('job_date', weekStart)
+      .lte('job_date', weekEnd),
+    supabase
+      .from('punch_records')
+      .select('punch_date')
+      .eq('technician_id', technicianId)
+      .gte('punch_date', weekStart)
+      .lte('punch_date', weekEnd),
+  ]);
+
+  if (jobsResult.error) throw new Error(jobsResult.error.message);
+  if (punchesResult.error) throw new Error(punchesResult.error.message);
+
+  const jobs = jobsResult.data || [];
+  const workedDates = [...new Set([
+    ...jobs.map(j => j.job_date),
+    ...(punchesResult.data || []).map(p => p.punch_date),
+  ])].sort();
+
+  const scorecard: TechnicianScorecard = {
+    technicianId,
+    technicianName: technician.name,
+    weekStart,
+    weekEnd,
+    generatedAt: new Date().toISOString(),
+    daysWorked: workedDates.length,
+    firstJob: { verifiedDays: 0, onTime: 0, late: 0, onTimePercentage: null, avgLateMinutes: 0 },
+    punchViolations: { count: 0, reasons: [] },
+    officeVisits: { unnecessary: 0, unnecessaryMinutes: 0 },
+    suspiciousTransits: { count: 0, excessMinutes: 0 },
+    unknownStops: { count: 0, minutes: 0 },
+    materials: { pickups: 0, deliveries: 0, pickupPercentage: null },
+    safety: {
+      speedingEvents: 0,
+      speedingMinutes: 0,
+      maxSpeedMph: null,
+      harshBraking: 0,
+      harshAcceleration: 0,
+      drivenMiles: 0,
+      eventsPer100Miles: null,
+      incidents: [],
+    },
+    estimates: { total: 0, sold: 0, closeRate: null, totalValue: 0, soldValue: 0 },
+    days: [],
+    unavailableDays: [],
+  };
+
+  // Timelines are built one at a time - each one calls the GPS vendor
+  const lateMinutes: number[] = [];
+  for (const date of workedDates) {
+    const timeline = await fetchTimeline(technicianId, date);
+    if (!timeline) {
+      scorecard.unavailableDays.push(date);
+      continue;
+    }
+
+    const { violationReasons, unnecessaryOfficeMinutes, transitExcessMinutes, unknownStops, drivingIncidents, ...day } =
+      summarizeTimelineDay(timeline);
+    scorecard.days.push(day);
+
+    if (day.firstJobOnTime !== null) {
+      scorecard.firstJob.verifiedDays++;
+      if (day.firstJobOnTime) {
+        scorecard.firstJob.onTime++;
+      } else {
+        scorecard.firstJob.late++;
+        if (day.firstJobVariance !== null) lateMinutes.push(day.firstJobVariance);
+      }
+    }
+
+    const dayLabel = format(parseISO(date), 'EEE M/d');
+    scorecard.punchViolations.count += day.punchViolations;
+    scorecard.punchViolations.reasons.push(...violationReasons.map(r => `${dayLabel}: ${r}`));
+    scorecard.officeVisits.unnecessary += day.unnecessaryOfficeVisits;
+    scorecard.officeVisits.unnecessaryMinutes += unnecessaryOfficeMinutes;
+    scorecard.suspiciousTransits.count += day.suspiciousTransits;
+    scorecard.suspiciousTransits.excessMinutes += transitExcessMinutes;
+    scorecard.unknownStops.count += unknownStops;
+    scorecard.unknownStops.minutes += day.unknownStopMinutes;
+    scorecard.materials.pickups += day.materialPickups;
+    scorecard.materials.deliveries += day.materialDeliveries;
+
+    const { drivingSafety } = timeline;
+    scorecard.safety.speedingEvents += drivingSafety.speedingEvents;
+    scorecard.safety.speedingMinutes += drivingSafety.speedingMinutes;
+    scorecard.safety.harshBraking += drivingSafety.harshBrakingEvents;
+    scorecard.safety.harshAcceleration += drivingSafety.harshAccelerationEvents;
+    scorecard.safety.drivenMiles += drivingSafety.drivenMiles;
+    if (drivingSafety.maxSpeedMph !== null) {
+      scorecard.safety.maxSpeedMph = Math.max(scorecard.safety.maxSpeedMph ?? 0, drivingSafety.maxSpeedMph);
+    }
+    scorecard.safety.incidents.push(...drivingIncidents.map(i => `${dayLabel}: ${i}`));
+  }
+
+  scorecard.firstJob.onTimePercentage = percentage(scorecard.firstJob.onTime, scorecard.firstJob.verifiedDays);
+  scorecard.firstJob.avgLateMinutes = lateMinutes.length > 0
+    ? Math.round(lateMinutes.reduce((sum, m) => sum + m, 0) / lateMinutes.length)
+    : 0;
+  const safetyEvents = scorecard.safety.speedingEvents + scorecard.safety.harshBraking + scorecard.safety.harshAcceleration;
+  scorecard.safety.drivenMiles = Math.round(scorecard.safety.drivenMiles);
+  scorecard.safety.eventsPer100Miles = scorecard.safety.drivenMiles > 0
+    ? Math.round((safetyEvents / scorecard.safety.drivenMiles) * 1000) / 10
+    : null;
+  scorecard.materials.pickupPercentage = percentage(
+    scorecard.materials.pickups,
+    scorecard.materials.pickups + scorecard.materials.deliveries
+  );
+
+  // Estimates written on this week's jobs
+  if (jobs.length > 0) {
+    const { data: estimates, error: estimatesError } = await supabase
+      .from('estimates')
+      .select('is_sold, total')
+      .in('job_id', jobs.map(j => j.id));
+
+    if (estimatesError) throw new Error(estimatesError.message);
+
+    for (const estimate of estimates || []) {
+      scorecard.estimates.total++;
+      scorecard.estimates.totalValue += estimate.total || 0;
+      if (estimate.is_sold) {
+        scorecard.estimates.sold++;
+        scorecard.estimates.soldValue += estimate.total || 0;
+      }
+    }
+    scorecard.estimates.closeRate = percentage(scorecard.estimates.sold, scorecard.estimates.total);
+  }
+
+  return scorecard;
+}
+
+// ---------------------------------------------------------------------------
+// Printable PDF
+// ---------------------------------------------------------------------------
+
+const MARGIN = 48;
+const GRAY: [number, number, number] = [107, 114, 128];
+const LIGHT_GRAY: [number, number, number] = [243, 244, 246];
+const RULE: [number, number, number] = [209, 213, 219];
+const RED: [number, number, number] = [185, 28, 28];
+
+function formatCurrency(value: number): string {
+  return `$${Math.round(value).toLocaleString('en-US')}`;
+}
+
+function formatPercent(value: number | null): string {
+  return value === null ? '-' : `${value}%`;
+}
+
+/**
+ * The scorecard as a printable PDF for one-on-ones
+ */
+export function scorecardToPdf(scorecard: TechnicianScorecard): Buffer {
+  const pages: PdfPage[] = [[]];
+  let page = pages[0];
+  let y = MARGIN;
+
+  const newPageIfNeeded = (height: number) => {
+    if (y + height > PAGE_HEIGHT - MARGIN) {
+      page = [];
+      pages.push(page);
+      y = MARGIN;
+    }
+  };
+
+  // Header
+  const weekLabel = `Week of ${format(parseISO(scorecard.weekStart), 'MMM d')} - ${format(parseISO(scorecard.weekEnd), 'MMM d, yyyy')}`;
+  page.push({ kind: 'text', x: MARGIN, y: y + 20, text: 'Weekly Scorecard', size: 20, bold: true });
+  page.push({ kind: 'text', x: MARGIN, y: y + 42, text: scorecard.technicianName, size: 14, bold: true });
+  page.push({ kind: 'text', x: MARGIN, y: y + 58, text: `${weekLabel}  |  ${scorecard.daysWorked} day(s) worked`, size: 10, color: GRAY });
+  y += 72;
+  page.push({ kind: 'line', x1: MARGIN, y1: y, x2: PAGE_WIDTH - MARGIN, y2: y, color: RULE });
+  y += 14;
+
+  // Metric tiles - two columns
+  const tiles: Array<{ label: string; value: string; detail: string; flag?: boolean }> = [
+    {
+      label: 'First Job On Time',
+      value: formatPercent(scorecard.firstJob.onTimePercentage),
+      detail: `${scorecard.firstJob.onTime} of ${scorecard.firstJob.verifiedDays} days` +
+        (scorecard.firstJob.late > 0 ? `, avg ${scorecard.firstJob.avgLateMinutes}m late` : ''),
+      flag: scorecard.firstJob.late > 0,
+    },
+    {
+      label: 'Punch Violations',
+      value: String(scorecard.punchViolations.count),
+      detail: 'Clock events away from the expected location',
+      flag: scorecard.punchViolations.count > 0,
+    },
+    {
+      label: 'Unnecessary Office Visits',
+      value: String(scorecard.officeVisits.unnecessary),
+      detail: `${scorecard.officeVisits.unnecessaryMinutes} min at the shop`,
+      flag: scorecard.officeVisits.unnecessary > 0,
+    },
+    {
+      label: 'Suspicious Transits',
+      value: String(scorecard.suspiciousTransits.count),
+      detail: `${scorecard.suspiciousTransits.excessMinutes} min over expected drive time`,
+      flag: scorecard.suspiciousTransits.count > 0,
+    },
+    {
+      label: 'Unknown Stops',
+      value: `${scorecard.unknownStops.minutes} min`,
+      detail: `${scorecard.unknownStops.count} unlabeled stop(s)`,
+    },
+    {
+      label: 'Driving Safety',
+      value: String(scorecard.safety.speedingEvents + scorecard.safety.harshBraking + scorecard.safety.harshAcceleration),
+      detail: `${scorecard.safety.speedingEvents} speeding, ${scorecard.safety.harshBraking + scorecard.safety.harshAcceleration} harsh` +
+        (scorecard.safety.eventsPer100Miles !== null ? `, ${scorecard.safety.eventsPer100Miles} per 100 mi` : '') +
+        (scorecard.safety.maxSpeedMph !== null ? `, top ${scorecard.safety.maxSpeedMph} mph` : ''),
+      flag: scorecard.safety.speedingEvents + scorecard.safety.harshBraking + scorecard.safety.harshAcceleration > 0,
+    },
+    {
+      label: 'Material Pickups',
+      value: formatPercent(scorecard.materials.pickupPercentage),
+      detail: `${scorecard.materials.pickups} pickup(s) vs ${scorecard.materials.deliveries} deliver(ies)`,
+    },
+    {
+      label: 'Estimate Close Rate',
+      value: formatPercent(scorecard.estimates.closeRate),
+      detail: `${scorecard.estimates.sold} of ${scorecard.estimates.total} sold, ` +
+        `${formatCurrency(scorecard.estimates.soldValue)} of ${formatCurrency(scorecard.estimates.totalValue)}`,
+    },
+  ];
+
+  const tileWidth = (PAGE_WIDTH - MARGIN * 2 - 12) / 2;
+  const tileHeight = 58;
+  tiles.forEach((tile, i) => {
+    const x = MARGIN + (i % 2) * (tileWidth + 12);
+    const tileY = y + Math.floor(i / 2) * (tileHeight + 10);
+    page.push({ kind: 'rect', x, y: tileY, width: tileWidth, height: tileHeight, fill: LIGHT_GRAY });
+    page.push({ kind: 'text', x: x + 10, y: tileY + 16, text: tile.label.toUpperCase(), size: 8, bold: true, color: GRAY });
+    page.push({ kind: 'text', x: x + 10, y: tileY + 36, text: tile.value, size: 18, bold: true, color: tile.flag ? RED : undefined });
+    page.push({ kind: 'text', x: x + 10, y: tileY + 50, text: tile.detail, size: 8, color: GRAY });
+  });
+  y += Math.ceil(tiles.length / 2) * (tileHeight + 10) + 10;
+
+  // Daily breakdown
+  const columns: Array<{ label: string; width: number; value: (d: ScorecardDay) => string }> = [
+    { label: 'Day', width: 70, value: d => format(parseISO(d.date), 'EEE M/d') },
+    { label: 'Jobs', width: 40, value: d => String(d.totalJobs) },
+    {
+      label: 'First Job',
+      width: 70,
+      value: d => d.firstJobOnTime === null ? '-'
+        : d.firstJobOnTime ? 'On time' : `${d.firstJobVariance ?? 0}m late`,
+    },
+    { label: 'Violations', width: 55, value: d => String(d.punchViolations) },
+    { label: 'Office', width: 45, value: d => String(d.unnecessaryOfficeVisits) },
+    { label: 'Transits', width: 50, value: d => String(d.suspiciousTransits) },
+    { label: 'Unknown', width: 50, value: d => `${d.unknownStopMinutes}m` },
+    { label: 'Pickup / Deliv.', width: 70, value: d => `${d.materialPickups} / ${d.materialDeliveries}` },
+    { label: 'Speed / Harsh', width: 65, value: d => `${d.speedingEvents} / ${d.harshDrivingEvents}` },
+  ];
+
+  newPageIfNeeded(60);
+  page.push({ kind: 'text', x: MARGIN, y: y + 12, text: 'Daily Breakdown', size: 12, bold: true });
+  y += 24;
+
+  let x = MARGIN;
+  for (const column of columns) {
+    page.push({ kind: 'text', x, y: y + 10, text: column.label, size: 8, bold: true, color: GRAY });
+    x += column.width;
+  }
+  y += 16;
+  page.push({ kind: 'line', x1: MARGIN, y1: y, x2: PAGE_WIDTH - MARGIN, y2: y, color: RULE });
+
+  for (const day of scorecard.days) {
+    newPageIfNeeded(18);
+    x = MARGIN;
+    for (const column of columns) {
+      page.push({ kind: 'text', x, y: y + 13, text: column.value(day), size: 9 });
+      x += column.width;
+    }
+    y += 18;
+    page.push({ kind: 'line', x1: MARGIN, y1: y, x2: PAGE_WIDTH - MARGIN, y2: y, color: RULE, width: 0.25 });
+  }
+
+  if (scorecard.days.length === 0) {
+    page.push({ kind: 'text', x: MARGIN, y: y + 14, text: 'No worked days this week', size: 9, color: GRAY });
+    y += 18;
+  }
+
+  if (scorecard.unavailableDays.length > 0) {
+    const missing = scorecard.unavailableDays.map(d => format(parseISO(d), 'EEE M/d')).join(', ');
+    page.push({ kind: 'text', x: MARGIN, y: y + 14, text: `Timeline unavailable (not counted): ${missing}`, size: 8, color: RED });
+    y += 18;
+  }
+  y += 14;
+
+  // Violation details
+  if (scorecard.punchViolations.reasons.length > 0) {
+    newPageIfNeeded(40);
+    page.push({ kind: 'text', x: MARGIN, y: y + 12, text: 'Punch Violations', size: 12, bold: true });
+    y += 22;
+    for (const reason of scorecard.punchViolations.reasons) {
+      for (const line of wrapText(`- ${reason}`, PAGE_WIDTH - MARGIN * 2, 9)) {
+        newPageIfNeeded(13);
+        page.push({ kind: 'text', x: MARGIN, y: y + 10, text: line, size: 9 });
+        y += 13;
+      }
+    }
+  }
+
+  // Driving events
+  if (scorecard.safety.incidents.length > 0) {
+    y += 8;
+    newPageIfNeeded(40);
+    page.push({ kind: 'text', x: MARGIN, y: y + 12, text: 'Driving Events', size: 12, bold: true });
+    y += 22;
+    for (const incident of scorecard.safety.incidents) {
+      for (const line of wrapText(`- ${incident}`, PAGE_WIDTH - MARGIN * 2, 9)) {
+        newPageIfNeeded(13);
+        page.push({ kind: 'text', x: MARGIN, y: y + 10, text: line, size: 9 });
+        y += 13;
+      }
+    }
+  }
+
+  // Footer on every page
+  const generated = `Generated ${format(parseISO(scorecard.generatedAt), 'MMM d, yyyy h:mm a')}`;
+  pages.forEach((items, i) => {
+    const pageLabel = `Page ${i + 1} of ${pages.length}`;
+    items.push({ kind: 'text', x: MARGIN, y: PAGE_HEIGHT - 24, text: generated, size: 8, color: GRAY });
+    items.push({
+      kind: 'text',
+      x: PAGE_WIDTH - MARGIN - estimateTextWidth(pageLabel, 8),
+      y: PAGE_HEIGHT - 24,
+      text: pageLabel,
+      size: 8,
+      color: GRAY,
+    });
+  });
+
+  return renderPdf(pages, `Scorecard - ${scorecard.technicianName} - ${scorecard.weekStart}`);
+}
@@ -0,0 +1,235 @@
+// GPS segment repository - one place to read and store Verizon trip segments, keyed by vehicle
+// Stored rows keep the segment exactly as Verizon returned it (raw_segment); only the open
+// tail of a day that isn't over yet is fetched live.
+
+import { addDays, format, parseISO } from 'date-fns';
+import { fromZonedTime } from 'date-fns-tz';
+import { createServerClient } from './supabase';
+import { getVehicleSegments, SegmentLocation, VehicleSegment } from './verizon-connect';
+import { parseVerizonUtcTimestamp } from './geo-utils';
+import type { Database, Json } from '@/types/database';
+
+const EST_TIMEZONE = 'America/New_York';
+
+type GpsSegmentRow = Database['public']['Tables']['gps_segments']['Row'];
+type GpsSegmentInsert = Database['public']['Tables']['gps_segments']['Insert'];
+
+// Where a range of segments came from
+export type SegmentSource = 'stored' | 'live' | 'stored+live' | 'none';
+
+export interface SegmentRange {
+  segments: VehicleSegment[];
+  source: SegmentSource;
+  storedCount: number;
+  liveCount: number;
+}
+
+/**
+ * GPS window for a workday: 4 AM Eastern day-of to 5 AM Eastern the next day
+ * Captures early morning starts and late night returns home.
+ */
+export function getWorkdaySegmentWindow(date: string): { startUtc: Date; endUtc: Date } {
+  const nextDay = format(addDays(parseISO(date), 1), 'yyyy-MM-dd');
+  return {
+    startUtc: fromZonedTime(`${date}T04:00:00`, EST_TIMEZONE),
+    endUtc: fromZonedTime(`${nextDay}T05:00:00`, EST_TIMEZONE),
+  };
+}
+
+function segmentStart(segment: VehicleSegment): Date {
+  return parseVerizonUtcTimestamp(segment.StartDateUtc);
+}
+
+function segmentEnd(segment: VehicleSegment): Date {
+  return parseVerizonUtcTimestamp(segment.EndDateUtc || segment.StartDateUtc);
+}
+
+function toUtcTimestamp(timestamp: string): string {
+  return parseVerizonUtcTimestamp(timestamp).toISOString();
+}
+
+// Verizon's format: UTC without a zone suffix or milliseconds
+function toVerizonTimestamp(timestamp: string): string {
+  return toUtcTimestamp(timestamp).replace(/\.\d{3}Z$/, '');
+}
+
+/**
+ * Turn a stored row back into a segment
+ * Rows written before raw_segment was kept only have the flattened columns.
+ */
+function rowToSegment(row: GpsSegmentRow): VehicleSegment {
+  const raw = row.raw_segment as unknown as VehicleSegment | null;
+  if (raw && typeof raw === 'object' && raw.StartDateUtc) return raw;
+
+  const location = (lat: number, lon: number, address: string | null): SegmentLocation => ({
+    Latitude: lat,
+    Longitude: lon,
+    AddressLine1: address || '',
+    AddressLine2: '',
+    Locality: '',
+    AdministrativeArea: '',
+    PostalCode: '',
+    Country: '',
+  });
+
+  return {
+    StartDateUtc: toVerizonTimestamp(row.start_time),
+    EndDateUtc: row.end_time ? toVerizonTimestamp(row.end_time) : null,
+    StartLocation: location(row.start_latitude, row.start_longitude, row.start_address),
+    EndLocation: row.end_latitude != null && row.end_longitude != null
+      ? location(row.end_latitude, row.end_longitude, row.end_address)
+      : null,
+    StartLocationIsPrivate: false,
+    EndLocationIsPrivate: false,
+    IsComplete: row.is_complete || false,
+    DistanceKilometers: (row.distance_miles || 0) * 1.60934,
+  };
+}
+
+/**
+ * Segments a vehicle started between startUtc and endUtc, oldest first
+ * Stored complete segments are used as-is. Verizon is only asked for what can still change:
+ * the tail after the last complete stored segment while the range is still open (or
+ * ends on a segment that was in progress when it was stored), or the whole range when
+ * nothing was stored for it.
+ */
+export async function getVehicleSegmentsForRange(
+  vehicleId: string,
+  startUtc: Date,
+  endUtc: Date
+): Promise<SegmentRange> {
+  const supabase = createServerClient();
+
+  const { data: rows, error } = await supabase
+    .from('gps_segments')
+    .select('*')
+    .eq('vehicle_id', vehicleId)
+    .gte('start_time', startUtc.toISOString())
+    .lt('start_time', endUtc.toISOString())
+    .order('start_time', { ascending: true });
+
+  if (error) {
+    console.error(`[Segments] Failed to read stored segments for vehicle ${vehicleId}:`, error.message);
+  }
+
+  const stored = (rows || []).map(rowToSegment);
+  const firstOpen = stored.findIndex(segment => !segment.IsComplete);
+  const complete = firstOpen === -1 ? stored : stored.slice(0, firstOpen);
+
+  let tailStart = startUtc;
+  if (firstOpen !== -1) {
+    tailStart = segmentStart(stored[firstOpen]);
+  } else if (complete.length > 0) {
+    tailStart = segmentEnd(complete[complete.length - 1]);
+  }
+
+  const needsLive = stored.length === 0 || firstOpen !== -1 || endUtc > new Date();
+  let live: VehicleSegment[] = [];
+  let liveFailed = false;
+
+  if (needsLive && tailStart < endUtc) {
+    try {
+      const response = await getVehicleSegments(vehicleId, tailStart.toISOString(), endUtc.toISOString());
+      const seen = new Set(complete.map(segment => segmentStart(segment).getTime()));
+
+      live = (response?.Segments || []).filter(segment => {
+        if (!segment.StartDateUtc) return false;
+        const start = segmentStart(segment);
+        return start >= tailStart && start < endUtc && !seen.has(start.getTime());
+      });
+    } catch (liveError) {
+      liveFailed = true;
+      console.error(`[Segments] Live fetch failed for vehicle ${vehicleId}:`,
+        liveError instanceof Error ? liveError.message : liveError);
+    }
+  }
+
+  // If Verizon couldn't be reached, in-progress stored segments are better than nothing
+  const storedUsed = liveFailed ? stored : complete;
+  const segments = [...storedUsed, ...live]
+    .sort((a, b) => segmentStart(a).getTime() - segmentStart(b).getTime());
+
+  let source: SegmentSource = 'none';
+  if (storedUsed.length > 0 && live.length > 0) source = 'stored+live';
+  else if (storedUsed.length > 0) source = 'stored';
+  else if (live.length > 0) source = 'live';
+
+  return { segments, source, storedCount: storedUsed.length, liveCount: live.length };
+}
+
+/**
+ * Segments for a vehicle's workday (see getWorkdaySegmentWindow)
+ */
+export async function getWorkdaySegments(vehicleId: string, date: string): Promise<SegmentRange> {
+  const { startUtc, endUtc } = getWorkdaySegmentWindow(date);
+  return getVehicleSegmentsForRange(vehicleId, startUtc, endUtc);
+}
+
+function formatAddress(location: SegmentLocation | null): string | null {
+  if (!location) return null;
+  return [location.AddressLine1, location.Locality, location.AdministrativeArea, location.PostalCode]
+    .filter(Boolean).join(', ') || null;
+}
+
+function segmentToRow(
+  segment: VehicleSegment,
+  vehicleId: string,
+  technicianId: string | null,
+  segmentDate: string
+): GpsSegmentInsert {
+  const startTime = toUtcTimestamp(segment.StartDateUtc);
+  const endTime = segment.EndDateUtc ? toUtcTimestamp(segment.EndDateUtc) : null;
+
+  // The API returns more than the typed interface
+  const extra = segment as VehicleSegment & { DistanceTraveled?: number };
+  const distanceMiles = segment.DistanceKilometers
+    ? segment.DistanceKilometers * 0.621371
+    : (extra.DistanceTraveled || null);
+
+  return {
+    vehicle_id: vehicleId,
+    technician_id: technicianId,
+    segment_date: segmentDate,
+    start_time: startTime,
+    end_time: endTime,
+    is_complete: segment.IsComplete || false,
+    start_latitude: segment.StartLocation.Latitude,
+    start_longitude: segment.StartLocation.Longitude,
+    start_address: formatAddress(segment.StartLocation),
+    end_latitude: segment.EndLocation?.Latitude ?? null,
+    end_longitude: segment.EndLocation?.Longitude ?? null,
+    end_address: formatAddress(segment.EndLocation),
+    distance_miles: distanceMiles,
+    duration_minutes: endTime
+      ? Math.round((new Date(endTime).getTime() - new Date(startTime).getTime()) / 60000)
+      : null,
+    idle_minutes: segment.IdleTime ? Math.round(segment.IdleTime / 60) : null,
+    max_speed: segment.MaxSpeed || null,
+    raw_segment: segment as unknown as Json,
+  };
+}
+
+/**
+ * Store segments fetched from Verizon, replacing any earlier copy of the same trip
+ * Segments without a start are skipped.
+ */
+export async function storeVehicleSegments(
+  vehicleId: string,
+  technicianId: string | null,
+  segmentDate: string,
+  segments: VehicleSegment[]
+): Promise<{ stored: number; error: string | null }> {
+  const rows = segments
+    .filter(segment => segment.StartDateUtc && segment.StartLocation)
+    .map(segment => segmentToRow(segment, vehicleId, technicianId, segmentDate));
+
+  if (rows.length === 0) return { stored: 0, error: null };
+
+  const supabase = createServerClient();
+  const { error } = await supabase
+    .from('gps_segments')
+    .upsert(rows, { onConflict: 'vehicle_id,start_time' });
+
+  if (error) return { stored: 0, error: error.message };
+  return { stored: rows.length, error: null };
+}
@@ -2,18 +2,26 @@
 
 import { VehicleSegment } from './verizon-connect';
 import { JobDetail } from '@/types/reports';
-import { TimelineEvent, TimelineInput, TechTimelineConfig, DayTimeline, ManualJobAssociation } from '@/types/timeline';
+import { TimelineEvent, TimelineInput, TechTimelineConfig, DayTimeline, ManualJobAssociation, IdleSummary, LONG_IDLE_MINUTES, DrivingSafetySummary } from '@/types/timeline';
+import type { MaterialCheckout } from './material-checkout';
 import { CustomLocation } from '@/types/custom-location';
+import { Office } from '@/types/office';
 import {
   calculateDistanceFeet,
-  isNearOffice,
+  findOfficeAt,
   ARRIVAL_RADIUS_FEET,
   parseVerizonUtcTimestamp,
-  OFFICE_LOCATION,
+  DEFAULT_OFFICE,
   HOME_RADIUS_FEET,
   isPointInPolygon,
 } from './geo-utils';
 import { format, parseISO } from 'date-fns';
+import { BreadcrumbStop, detectBreadcrumbStops, mergeBreadcrumbStops } from './breadcrumb-stops';
+import { DEFAULT_DRIVING_THRESHOLDS, DrivingEvents, detectDrivingEvents } from './driving-safety';
+
+// Stamped on persisted day timelines - bump when the timeline logic changes (here or in the
+// technician-timeline report) so stored timelines get rebuilt
+export const TIMELINE_BUILDER_VERSION = 9;
 
 // Tolerance for matching manual associations to segments
 const MANUAL_ASSOC_TIME_TOLERANCE_MS = 5 * 60 * 1000; // 5 minutes
@@ -163,18 +171,30 @@ function classifyLocation(
   techConfig: TechTimelineConfig,
   matchedJob?: JobDetail,
   customLocations?: CustomLocation[]
-): { type: 'home' | 'office' | 'job' | 'custom' | 'unknown'; customLocation?: CustomLocation } {
+): { type: 'home' | 'office' | 'job' | 'custom' | 'unknown'; customLocation?: CustomLocation; office?: Office } {
   if (matchedJob) return { type: 'job' };
 
   // Check custom locations BEFORE office (custom locations take priority)
   const customMatch = findMatchingCustomLocation(lat, lon, customLocations);
   if (customMatch) return { type: 'custom', customLocation: customMatch };
 
-  if (isNearOffice(lat, lon)) return { type: 'office' };
+  const office = findOfficeAt(lat, lon, techConfig.offices);
+  if (office) return { type: 'office', office };
   if (techConfig.takesTruckHome && isNearHome(lat, lon, techConfig.homeLocation)) return { type: 'home' };
   return { type: 'unknown' };
 }
 
+/**
+ * Office fields for office events (default office has no id)
+ */
+function officeEventFields(office?: Office): { officeId?: string; officeName?: string } {
+  if (!office) return {};
+  return {
+    officeId: office.id === DEFAULT_OFFICE.id ? undefined : office.id,
+    officeName: office.name,
+  };
+}
+
 /**
  * Format address from Verizon segment location
  */
@@ -189,11 +209,138 @@ function formatSegmentAddress(location: VehicleSegment['StartLocation']): string
   return parts.join(', ') || 'Unknown location';
 }
 
+function emptyIdleSummary(): IdleSummary {
+  return {
+    totalMinutes: 0,
+    jobMinutes: 0,
+    homeMinutes: 0,
+    officeMinutes: 0,
+    customMinutes: 0,
+    unknownMinutes: 0,
+    otherMinutes: 0,
+    longIdleStops: 0,
+    longestIdleMinutes: 0,
+  };
+}
+
+/**
+ * Put each segment's idle time on the stop where it ended and total it up by location type
+ * Idle time goes to the latest arrival at or before the segment end, so a re-park that was
+ * folded into an earlier arrival still counts there. Engine-on breadcrumb stops are idle
+ * for their whole duration.
+ */
+function attributeIdleTime(
+  events: TimelineEvent[],
+  segments: VehicleSegment[],
+  breadcrumbStops: BreadcrumbStop[]
+): IdleSummary {
+  const summary = emptyIdleSummary();
+  const arrivals = events
+    .filter(e => e.type.startsWith('arrived_'))
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  const idleByArrival = new Map<TimelineEvent, number>();
+
+  for (const segment of segments) {
+    if (!segment.IdleTime || segment.IdleTime <= 0) continue;
+    const idleMinutes = segment.IdleTime / 60;
+    const end = segment.EndDateUtc ? parseVerizonUtcTimestamp(segment.EndDateUtc).getTime() : null;
+    const arrival = end !== null ? arrivals.findLast(e => new Date(e.timestamp).getTime() <= end) : undefined;
+
+    if (arrival) {
+      idleByArrival.set(arrival, (idleByArrival.get(arrival) || 0) + idleMinutes);
+    } else {
+      summary.otherMinutes += idleMinutes;
+    }
+  }
+
+  const breadcrumbArrivals = new Map(breadcrumbStops.map(stop => [stop.arrivalTime.toISOString(), stop]));
+  for (const arrival of arrivals) {
+    const stop = breadcrumbArrivals.get(arrival.timestamp);
+    if (stop) {
+      arrival.detectedFromBreadcrumbs = true;
+      idleByArrival.set(arrival, (idleByArrival.get(arrival) || 0) + stop.durationMinutes);
+    }
+  }
+
+  for (const [arrival, minutes] of idleByArrival) {
+    const idleMinutes = Math.round(minutes);
+    if (idleMinutes <= 0) continue;
+    arrival.idleMinutes = idleMinutes;
+
+    if (arrival.type === 'arrived_job') summary.jobMinutes += idleMinutes;
+    else if (arrival.type === 'arrived_home') summary.homeMinutes += idleMinutes;
+    else if (arrival.type === 'arrived_office') summary.officeMinutes += idleMinutes;
+    else if (arrival.type === 'arrived_custom') summary.customMinutes += idleMinutes;
+    else summary.unknownMinutes += idleMinutes;
+
+    if (idleMinutes >= LONG_IDLE_MINUTES) summary.longIdleStops++;
+    summary.longestIdleMinutes = Math.max(summary.longestIdleMinutes, idleMinutes);
+  }
+
+  summary.otherMinutes = Math.round(summary.otherMinutes);
+  summary.totalMinutes = summary.jobMinutes + summary.homeMinutes + summary.officeMinutes +
+    summary.customMinutes + summary.unknownMinutes + summary.otherMinutes;
+
+  return summary;
+}
+
+function emptyDrivingSafety(): DrivingSafetySummary {
+  return {
+    speedingEvents: 0,
+    speedingMinutes: 0,
+    maxSpeedMph: null,
+    harshBrakingEvents: 0,
+    harshAccelerationEvents: 0,
+    drivenMiles: 0,
+    usedBreadcrumbs: false,
+  };
+}
+
+/**
+ * Total up the day's driving events
+ * Max speed also looks at trips and breadcrumbs that stayed under the thresholds.
+ */
+function summarizeDriving(
+  driving: DrivingEvents,
+  segments: VehicleSegment[],
+  gpsPoints: TimelineInput['gpsPoints']
+): DrivingSafetySummary {
+  const summary = emptyDrivingSafety();
+  summary.usedBreadcrumbs = !!gpsPoints && gpsPoints.length > 0;
+  summary.speedingEvents = driving.speeding.length;
+  summary.speedingMinutes = Math.round(driving.speeding.reduce(
+    (sum, e) => sum + (e.endTime.getTime() - e.startTime.getTime()) / 60000, 0
+  ));
+  summary.harshBrakingEvents = driving.harsh.filter(e => e.kind === 'braking').length;
+  summary.harshAccelerationEvents = driving.harsh.filter(e => e.kind === 'acceleration').length;
+
+  const kilometers = segments.reduce((sum, s) => sum + (s.DistanceKilometers || 0), 0);
+  summary.drivenMiles = Math.round(kilometers * 0.621371 * 10) / 10;
+
+  const speeds = [
+    ...segments.map(s => s.MaxSpeed || 0),
+    ...(gpsPoints || []).filter(p => !p.IsPrivate).map(p => p.Speed || 0),
+  ];
+  const maxSpeed = Math.max(0, ...speeds);
+  summary.maxSpeedMph = maxSpeed > 0 ? Math.round(maxSpeed) : null;
+
+  return summary;
+}
+
 /**
  * Build a comprehensive daily timeline from GPS segments and job data
  */
 export function buildDayTimeline(input: TimelineInput): DayTimeline {
-  const { date, technicianId, technicianName, segments, jobs, techConfig, customLocations } = input;
+  const { date, technicianId, technicianName, jobs, techConfig, customLocations } = input;
+
+  // In breadcrumb mode, split segments around stops made with the engine running
+  let segments = input.segments;
+  let breadcrumbStops: BreadcrumbStop[] = [];
+  if (input.stopDetection === 'breadcrumbs' && input.gpsPoints && input.gpsPoints.length > 0) {
+    const merged = mergeBreadcrumbStops(input.segments, detectBreadcrumbStops(input.gpsPoints));
+    segments = merged.segments;
+    breadcrumbStops = merged.mergedStops;
+  }
 
   const events: TimelineEvent[] = [];
   let eventId = 0;
@@ -293,6 +440,9 @@ export function buildDayTimeline(input: TimelineInput): DayTimeline {
       hasMissingClockOut: hasMissingClockOutOnly,
       overnightAtOffice: false, // No GPS data to determine this
       totalMaterialCheckouts: 0, // Will be set by API route after fetching
+      idleSummary: emptyIdleSummary(),
+      drivingSafety: emptyDrivingSafety(),
+      excessDriveMinutes: 0, // Set by the API route's transit analysis
     };
   }
 
@@ -320,6 +470,7 @@ export function buildDayTimeline(input: TimelineInput): DayTimeline {
   let lastArrivalType: string | null = null;
   let lastArrivalJobId: string | null = null;
   let lastArrivalCustomId: string | null = null;
+  let lastArrivalOfficeId: string | null = null;
 
   // Find first job for late detection
   const firstJob = jobs.find(j => j.isFirstJob) || jobs[0];
@@ -356,6 +507,7 @@ export function buildDayTimeline(input: TimelineInput): DayTimeline {
         address: formatSegmentAddress(startLocation),
         latitude: startLocation.Latitude,
         longitude: startLocation.Longitude,
+        ...officeEventFields(startClassification.office),
       });
     }
   }
@@ -376,12 +528,14 @@ export function buildDayTimeline(input: TimelineInput): DayTimeline {
       id: `event-${eventId++}`,
       type: 'left_office',
       timestamp: startTime.toISOString(),
-      address: formatSegmentAddress(startLocation),
+      address: startClassification.office?.address || formatSegmentAddress(startLocation),
       latitude: startLocation.Latitude,
       longitude: startLocation.Longitude,
+      ...officeEventFields(startClassification.office),
     });
     // Mark that we just left office
     lastArrivalType = 'left_office';
+    lastArrivalOfficeId = startClassification.office?.id || null;
   } else if (startClassification.type === 'custom' && startClassification.customLocation) {
     events.push({
       id: `event-${eventId++}`,
@@ -508,8 +662,11 @@ export function buildDayTimeline(input: TimelineInput): DayTimeline {
         previousArrivalTime = arrivalTime;
       }
     } else if (endClassification.type === 'office') {
-      // Skip if we're already at office OR we just left office
-      if (lastArrivalType === 'office' || lastArrivalType === 'left_office') {
+      const office = endClassification.office;
+
+      // Skip if we're already at this office OR we just left it
+      const isAtSameOffice = (lastArrivalType === 'office' || lastArrivalType === 'left_office') && lastArrivalOfficeId === (office?.id || null);
+      if (isAtSameOffice) {
         const lastOfficeEvent = events.findLast(e => e.type === 'arrived_office');
         if (lastOfficeEvent && durationMinutes !== undefined) {
           lastOfficeEvent.durationMinutes = (lastOfficeEvent.durationMinutes || 0) + (travelMinutes || 0) + durationMinutes;
@@ -540,7 +697,7 @@ export function buildDayTimeline(input: TimelineInput): DayTimeline {
           id: `event-${eventId++}`,
           type: 'arrived_office',
           timestamp: arrivalTime.toISOString(),
-          address: formatSegmentAddress(segment.EndLocation),
+          address: office?.address || formatSegmentAddress(segment.EndLocation),
           latitude: segment.EndLocation.Latitude,
           longitude: segment.EndLocation.Longitude,
           travelMinutes,
@@ -548,11 +705,13 @@ export function buildDayTimeline(input: TimelineInput): DayTimeline {
           hasUntrackedTime,
           durationMinutes,
           isUnnecessary,
+          ...officeEventFields(office),
         });
 
         lastArrivalType = 'office';
         lastArrivalJobId = null;
         lastArrivalCustomId = null;
+        lastArrivalOfficeId = office?.id || null;
         previousArrivalTime = arrivalTime;
 
         // Add departure event if we have duration
@@ -561,9 +720,10 @@ export function buildDayTimeline(input: TimelineInput): DayTimeline {
             id: `event-${eventId++}`,
             type: 'left_office',
             timestamp: previousDepartureTime.toISOString(),
-            address: formatSegmentAddress(segment.EndLocation),
+            address: office?.address || formatSegmentAddress(segment.EndLocation),
             latitude: segment.EndLocation.Latitude,
             longitude: segment.EndLocation.Longitude,
+            ...officeEventFields(office),
           });
           // Mark that we just left office - prevents "Arrived at Office" right after "Left Office"
           lastArrivalType = 'left_office';
@@ -853,6 +1013,51 @@ export function buildDayTimeline(input: TimelineInput): DayTimeline {
     events.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
   }
 
+  // Speeding and harsh driving - from the segments as Verizon sent them, so a trip split
+  // around an engine-on stop still has its max speed counted once
+  const tripSegments = input.segments.filter(seg => seg.StartDateUtc && seg.StartLocation);
+  const driving = detectDrivingEvents(
+    tripSegments,
+    input.gpsPoints,
+    input.drivingThresholds ?? DEFAULT_DRIVING_THRESHOLDS
+  );
+
+  for (const episode of driving.speeding) {
+    events.push({
+      id: `event-${eventId++}`,
+      type: 'speeding',
+      timestamp: episode.startTime.toISOString(),
+      address: episode.address || undefined,
+      latitude: episode.latitude,
+      longitude: episode.longitude,
+      speedMph: Math.round(episode.maxSpeedMph),
+      speedThresholdMph: episode.thresholdMph,
+      speedingMinutes: episode.source === 'breadcrumbs'
+        ? Math.round((episode.endTime.getTime() - episode.startTime.getTime()) / 60000)
+        : undefined,
+      roadClass: episode.roadClass ?? undefined,
+    });
+  }
+
+  for (const harsh of driving.harsh) {
+    events.push({
+      id: `event-${eventId++}`,
+      type: harsh.kind === 'braking' ? 'harsh_braking' : 'harsh_acceleration',
+      timestamp: harsh.time.toISOString(),
+      address: harsh.address || undefined,
+      latitude: harsh.latitude,
+      longitude: harsh.longitude,
+      speedMph: Math.round(harsh.toMph),
+      previousSpeedMph: Math.round(harsh.fromMph),
+      speedChangeMphPerSec: harsh.mphPerSec,
+    });
+  }
+
+  if (driving.speeding.length > 0 || driving.harsh.length > 0) {
+    events.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  }
+  const drivingSafety = summarizeDriving(driving, tripSegments, input.gpsPoints);
+
   // Detect missing clock-out: has clock_in but no clock_out
   const hasClockIn = events.some(e => e.type === 'clock_in');
   const hasClockOut = events.some(e => e.type === 'clock_out');
@@ -875,6 +1080,9 @@ export function buildDayTimeline(input: TimelineInput): DayTimeline {
     });
   }
 
+  // Idle time per stop (also marks arrivals that only exist because of a breadcrumb stop)
+  const idleSummary = attributeIdleTime(events, sortedSegments, breadcrumbStops);
+
   return {
     date,
     dayOfWeek: format(parseISO(date), 'EEEE'),
@@ -889,5 +1097,32 @@ export function buildDayTimeline(input: TimelineInput): DayTimeline {
     hasMissingClockOut,
     overnightAtOffice,
     totalMaterialCheckouts: 0, // Will be set by API route after fetching
+    idleSummary,
+    drivingSafety,
+    excessDriveMinutes: 0, // Set by the API route's transit analysis
+  };
+}
+
+/**
+ * Convert a direct material checkout (warehouse bypass / in-person) to a timeline event
+ */
+export function materialCheckoutToEvent(checkout: MaterialCheckout): TimelineEvent {
+  return {
+    id: `checkout-${checkout.transactionGroup}`,
+    type: 'material_checkout',
+    timestamp: checkout.timestamp,
+    checkoutId: checkout.id,
+    checkoutTransactionGroup: checkout.transactionGroup,
+    checkoutTruckNumber: checkout.truckNumber,
+    checkoutPoNumber: checkout.poNumber || undefined,
+    checkoutTotalItems: checkout.totalItems,
+    checkoutTotalQuantity: checkout.totalQuantity,
+    checkoutItems: checkout.items.map(item => ({
+      partId: item.partId,
+      partNumber: item.partNumber,
+      description: item.description,
+      quantity: item.quantity,
+    })),
+    checkoutTechName: checkout.techName,
   };
 }
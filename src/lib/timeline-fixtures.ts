@@ -0,0 +1,173 @@
+// Timeline fixtures - recorded tech-days replayed through the timeline builder offline
+// Used by scripts/run-timeline-fixtures.js to catch regressions against golden snapshots
+
+import { subMinutes } from 'date-fns';
+import { TimelineInput, DayTimeline } from '@/types/timeline';
+import { buildDayTimeline, materialCheckoutToEvent } from './timeline-builder';
+import { addFuelPurchaseEvents } from './fuel-purchases';
+import { detectOfficeVisits, findArrivalFromSegments, OfficeVisit } from './geo-utils';
+import { processDayPunches, DayPunchSummary } from './punch-utils';
+
+/**
+ * A recorded tech-day: everything the builder needs, captured from
+ * Verizon segments, ServiceTitan jobs, Paylocity punches, material checkouts and fuel purchases
+ */
+export interface TimelineFixture {
+  description?: string;
+  input: TimelineInput;
+}
+
+/**
+ * Build a timeline from a fixture the same way the technician-timeline route does
+ * (builder output + direct material checkouts and fuel purchases, re-sorted)
+ */
+export function buildFixtureTimeline(fixture: TimelineFixture): DayTimeline {
+  const timeline = buildDayTimeline(fixture.input);
+  const checkouts = fixture.input.materialCheckouts || [];
+
+  if (checkouts.length > 0) {
+    timeline.events.push(...checkouts.map(materialCheckoutToEvent));
+    timeline.events.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  }
+  timeline.totalMaterialCheckouts = checkouts.length;
+  addFuelPurchaseEvents(timeline, fixture.input.fuelPurchases || []);
+
+  return timeline;
+}
+
+/**
+ * What the sync jobs detect from the same recorded day, outside the timeline builder
+ * - punches: processDayPunches on the day's first clock in and last clock out (as sync-punches stores them)
+ * - officeVisits: detectOfficeVisits as sync-data runs it
+ * - jobArrivals: findArrivalFromSegments for each job, from 30 minutes before its scheduled start
+ */
+export interface FixtureDetections {
+  punches: DayPunchSummary;
+  officeVisits: OfficeVisit[];
+  jobArrivals: { jobNumber: string; arrivalTime: string | null; distanceFeet: number | null }[];
+}
+
+export function detectFixtureDay(fixture: TimelineFixture): FixtureDetections {
+  const { input } = fixture;
+  const { techConfig, segments, jobs } = input;
+  const offices = techConfig.offices || [];
+  const punches = input.punches || [];
+  const scheduledJobs = jobs.filter(job => job.scheduledStart);
+  const firstJob = scheduledJobs.find(job => job.isFirstJob) || scheduledJobs[0];
+
+  const clockIn = punches.find(p => p.punch_type === 'ClockIn');
+  const clockOut = [...punches].reverse().find(p => p.punch_type === 'ClockOut');
+
+  const summary = processDayPunches(
+    {
+      employeeId: input.technicianId,
+      punchDate: input.date,
+      clockInTime: clockIn?.punch_time || null,
+      clockOutTime: clockOut?.punch_time || null,
+      durationHours: null,
+    },
+    segments,
+    {
+      takesTruckHome: techConfig.takesTruckHome,
+      homeLatitude: techConfig.homeLocation?.lat,
+      homeLongitude: techConfig.homeLocation?.lon,
+    },
+    offices,
+    (input.customLocations || []).map(loc => ({
+      id: loc.id,
+      name: loc.name,
+      latitude: loc.centerLatitude,
+      longitude: loc.centerLongitude,
+      radiusFeet: loc.radiusFeet,
+    })),
+    jobs
+      .filter(job => job.jobLatitude != null && job.jobLongitude != null)
+      .map(job => ({ lat: job.jobLatitude!, lon: job.jobLongitude!, address: job.jobAddress || undefined })),
+    scheduledJobs.length > 0,
+    null,
+    null,
+    !!input.excusedOfficeVisit
+  );
+
+  const officeVisits = detectOfficeVisits(
+    segments,
+    firstJob ? new Date(firstJob.scheduledStart) : undefined,
+    {
+      takesTruckHome: techConfig.takesTruckHome,
+      homeLocation: techConfig.homeLocation ? { lat: techConfig.homeLocation.lat, lon: techConfig.homeLocation.lon } : null,
+      offices,
+    }
+  );
+
+  const jobArrivals = scheduledJobs
+    .filter(job => job.jobLatitude != null && job.jobLongitude != null)
+    .map(job => {
+      const arrival = findArrivalFromSegments(
+        segments,
+        job.jobLatitude!,
+        job.jobLongitude!,
+        subMinutes(new Date(job.scheduledStart), 30)
+      );
+      return {
+        jobNumber: job.jobNumber,
+        arrivalTime: arrival ? arrival.arrivalTime.toISOString() : null,
+        distanceFeet: arrival ? Math.round(arrival.distanceFeet) : null,
+      };
+    });
+
+  return { punches: summary, officeVisits, jobArrivals };
+}
+
+/**
+ * Normalize a timeline (or detections) to its JSON form so it compares equal to a stored snapshot
+ * (drops undefined fields, turns Dates into strings)
+ */
+export function toSnapshot(value: DayTimeline | FixtureDetections): unknown {
+  return JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Deep-compare two snapshots
+ * Returns one line per difference, e.g. "events[3].type: expected arrived, got left"
+ */
+export function diffSnapshots(expected: unknown, actual: unknown, path = ''): string[] {
+  const label = path || '(root)';
+
+  if (Array.isArray(expected) && Array.isArray(actual)) {
+    const diffs: string[] = [];
+    if (expected.length !== actual.length) {
+      diffs.push(`${label}.length: expected ${expected.length}, got ${actual.length}`);
+    }
+    const shared = Math.min(expected.length, actual.length);
+    for (let i = 0; i < shared; i++) {
+      diffs.push(...diffSnapshots(expected[i], actual[i], `${path}[${i}]`));
+    }
+    return diffs;
+  }
+
+  if (isPlainObject(expected) && isPlainObject(actual)) {
+    const diffs: string[] = [];
+    const keys = new Set([...Object.keys(expected), ...Object.keys(actual)]);
+    for (const key of keys) {
+      const childPath = path ? `${path}.${key}` : key;
+      if (!(key in actual)) {
+        diffs.push(`${childPath}: missing (expected ${JSON.stringify(expected[key])})`);
+      } else if (!(key in expected)) {
+        diffs.push(`${childPath}: unexpected ${JSON.stringify(actual[key])}`);
+      } else {
+        diffs.push(...diffSnapshots(expected[key], actual[key], childPath));
+      }
+    }
+    return diffs;
+  }
+
+  if (expected !== actual) {
+    return [`${label}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`];
+  }
+
+  return [];
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
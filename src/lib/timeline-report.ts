@@ -0,0 +1,40 @@
+// Lets other API routes use the technician-timeline report (transit analysis, material events, etc.)
+
+import { NextRequest } from 'next/server';
+import { SYNC_KEY_HEADER } from './auth';
+import type { DayTimeline } from '@/types/timeline';
+
+// Builds the day timeline for a technician (the technician-timeline report)
+export type TimelineFetcher = (technicianId: string, date: string) => Promise<DayTimeline | null>;
+
+/**
+ * Fetch timelines from the technician-timeline report on the same deployment,
+ * passing along the caller's session or sync key. Failures return null.
+ * With refresh, the report rebuilds the day instead of serving its stored copy.
+ */
+export function createTimelineFetcher(
+  req: NextRequest,
+  logPrefix: string,
+  options: { refresh?: boolean } = {}
+): TimelineFetcher {
+  const forwardHeaders: Record<string, string> = {};
+  for (const name of ['cookie', 'authorization', SYNC_KEY_HEADER]) {
+    const value = req.headers.get(name);
+    if (value) forwardHeaders[name] = value;
+  }
+
+  return async (technicianId, date) => {
+    const url = new URL('/api/reports/technician-timeline', req.url);
+    url.searchParams.set('technicianId', technicianId);
+    url.searchParams.set('date', date);
+    if (options.refresh) url.searchParams.set('refresh', 'true');
+
+    const response = await fetch(url, { headers: forwardHeaders });
+    if (!response.ok) {
+      console.warn(`[${logPrefix}] Timeline fetch failed for ${technicianId} on ${date}: ${response.status}`);
+      return null;
+    }
+    const data = await response.json();
+    return data.timeline || null;
+  };
+}
@@ -0,0 +1,215 @@
+// Timesheet builder - merges Paylocity punches with approved corrections into payroll hours
+
+import { format, parseISO, startOfWeek } from 'date-fns';
+import { formatInTimeZone } from 'date-fns-tz';
+import type {
+  TimesheetPunch,
+  TimesheetPunchType,
+  TimesheetDay,
+  EmployeeTimesheet,
+  TimesheetExport,
+} from '@/types/timesheet';
+
+const TIMEZONE = 'America/New_York';
+
+// FLSA weekly overtime threshold; workweek runs Sunday-Saturday
+export const OVERTIME_WEEKLY_HOURS = 40;
+
+// A proposed punch this close to an existing punch of the same type is treated as already in Paylocity
+const DUPLICATE_PUNCH_WINDOW_MS = 2 * 60 * 1000;
+
+// Punches at the same instant close the open segment before opening the next one, so
+// back-to-back segments (MealStart and MealEnd at 12:00) pair up instead of overlapping.
+// A lunch stored as its own segment (ClockOut, MealStart ... MealEnd, ClockIn) sorts its
+// meal punches inside the work punches.
+const SAME_TIME_ORDER: Record<TimesheetPunchType, number> = {
+  ClockOut: 0,
+  MealStart: 1,
+  MealEnd: 2,
+  ClockIn: 3,
+};
+
+// Earnings codes used in the Paylocity import file
+export const REGULAR_EARNINGS_CODE = process.env.PAYLOCITY_REGULAR_EARNINGS_CODE || 'REG';
+export const OVERTIME_EARNINGS_CODE = process.env.PAYLOCITY_OVERTIME_EARNINGS_CODE || 'OT';
+
+// Column layout of Paylocity's payroll hours import (one earnings line per employee per day)
+export const PAYLOCITY_IMPORT_COLUMNS = ['Id', 'Det', 'DetCode', 'Hours', 'Amount', 'Date'];
+
+function roundHours(hours: number): number {
+  return Math.round(hours * 100) / 100;
+}
+
+function formatPunchTime(time: string): string {
+  return formatInTimeZone(new Date(time), TIMEZONE, 'h:mm a');
+}
+
+/**
+ * First day (Sunday) of the workweek containing a date
+ */
+export function getWorkweekStart(date: string): string {
+  return format(startOfWeek(parseISO(date), { weekStartsOn: 0 }), 'yyyy-MM-dd');
+}
+
+/**
+ * Add approved proposed punches to the recorded ones
+ * Skips proposals that Paylocity already has (same type within a couple of minutes),
+ * which happens once an applied correction comes back through the punch sync.
+ */
+export function mergeProposedPunches(
+  recorded: TimesheetPunch[],
+  proposed: TimesheetPunch[]
+): TimesheetPunch[] {
+  const merged = [...recorded];
+
+  for (const punch of proposed) {
+    const time = new Date(punch.time).getTime();
+    const alreadyRecorded = recorded.some(r =>
+      r.employeeId === punch.employeeId &&
+      r.punchType === punch.punchType &&
+      Math.abs(new Date(r.time).getTime() - time) <= DUPLICATE_PUNCH_WINDOW_MS
+    );
+
+    if (!alreadyRecorded) {
+      merged.push(punch);
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Worked hours for one employee-day
+ * Work runs ClockIn/MealEnd -> MealStart/ClockOut. Segments missing an end are not
+ * counted and are reported as warnings instead.
+ */
+export function computeWorkedHours(punches: TimesheetPunch[]): { workedHours: number; warnings: string[] } {
+  const sorted = [...punches].sort((a, b) =>
+    new Date(a.time).getTime() - new Date(b.time).getTime() ||
+    SAME_TIME_ORDER[a.punchType] - SAME_TIME_ORDER[b.punchType]
+  );
+  const warnings: string[] = [];
+  let workedMs = 0;
+  let openSince: TimesheetPunch | null = null;
+
+  for (const punch of sorted) {
+    switch (punch.punchType) {
+      case 'ClockIn':
+      case 'MealEnd':
+        // A ClockIn right at a MealEnd resumes the same work, it doesn't start a second segment
+        if (openSince?.punchType === 'MealEnd' && punch.punchType === 'ClockIn' &&
+            new Date(openSince.time).getTime() === new Date(punch.time).getTime()) {
+          break;
+        }
+        if (openSince) {
+          warnings.push(`${openSince.punchType} at ${formatPunchTime(openSince.time)} has no matching clock out`);
+        }
+        openSince = punch;
+        break;
+
+      case 'MealStart':
+      case 'ClockOut':
+        if (openSince) {
+          workedMs += new Date(punch.time).getTime() - new Date(openSince.time).getTime();
+          openSince = null;
+        } else if (punch.punchType === 'ClockOut') {
+          warnings.push(`ClockOut at ${formatPunchTime(punch.time)} has no matching clock in`);
+        }
+        break;
+    }
+  }
+
+  if (openSince) {
+    warnings.push(`Missing clock out after ${openSince.punchType} at ${formatPunchTime(openSince.time)}`);
+  }
+
+  return { workedHours: roundHours(workedMs / 3600000), warnings };
+}
+
+/**
+ * Build one employee's timesheet for a pay period
+ * Punches should start at the beginning of the workweek containing startDate so that
+ * hours worked before the period count toward that week's overtime threshold.
+ */
+export function buildEmployeeTimesheet(
+  employeeId: string,
+  punches: TimesheetPunch[],
+  startDate: string,
+  endDate: string,
+  technician: { id: string; name: string } | null = null
+): EmployeeTimesheet {
+  const byDate = new Map<string, TimesheetPunch[]>();
+  for (const punch of punches) {
+    const list = byDate.get(punch.date) || [];
+    list.push(punch);
+    byDate.set(punch.date, list);
+  }
+
+  const days: TimesheetDay[] = [];
+  const weeklyHours = new Map<string, number>();
+
+  for (const date of Array.from(byDate.keys()).sort()) {
+    if (date > endDate) continue;
+
+    const dayPunches = byDate.get(date)!;
+    const { workedHours, warnings } = computeWorkedHours(dayPunches);
+
+    // Regular hours fill up to the weekly threshold in date order, the rest is overtime
+    const week = getWorkweekStart(date);
+    const workedBefore = weeklyHours.get(week) || 0;
+    const regularHours = roundHours(Math.min(workedHours, Math.max(0, OVERTIME_WEEKLY_HOURS - workedBefore)));
+    weeklyHours.set(week, workedBefore + workedHours);
+
+    if (date < startDate) continue;
+
+    days.push({
+      date,
+      workedHours,
+      regularHours,
+      overtimeHours: roundHours(workedHours - regularHours),
+      proposedPunches: dayPunches.filter(p => p.source === 'proposed').length,
+      warnings,
+    });
+  }
+
+  const regularHours = roundHours(days.reduce((sum, d) => sum + d.regularHours, 0));
+  const overtimeHours = roundHours(days.reduce((sum, d) => sum + d.overtimeHours, 0));
+
+  return {
+    employeeId,
+    technicianId: technician?.id ?? null,
+    technicianName: technician?.name ?? null,
+    days,
+    regularHours,
+    overtimeHours,
+    totalHours: roundHours(regularHours + overtimeHours),
+  };
+}
+
+function csvValue(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render an export as a Paylocity payroll import CSV
+ * One row per employee, day and earnings code with non-zero hours.
+ */
+export function timesheetToPaylocityCsv(timesheet: TimesheetExport): string {
+  const lines = [PAYLOCITY_IMPORT_COLUMNS.join(',')];
+
+  for (const employee of timesheet.employees) {
+    for (const day of employee.days) {
+      const workDate = format(parseISO(day.date), 'MM/dd/yyyy');
+
+      if (day.regularHours > 0) {
+        lines.push([employee.employeeId, 'E', REGULAR_EARNINGS_CODE, day.regularHours.toFixed(2), '', workDate].map(csvValue).join(','));
+      }
+      if (day.overtimeHours > 0) {
+        lines.push([employee.employeeId, 'E', OVERTIME_EARNINGS_CODE, day.overtimeHours.toFixed(2), '', workDate].map(csvValue).join(','));
+      }
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
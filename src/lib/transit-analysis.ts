@@ -0,0 +1,178 @@
+// Transit analysis - on-the-clock time between known stops compared with the expected drive
+// A leg runs from leaving one known stop (home, office, custom location or job) to arriving at
+// the next. Unknown stops in between count as part of the leg - that's where detours show up.
+
+import { getDrivingDuration } from './google-directions';
+import { predictFleetDriveMinutes } from './drive-time-model';
+import type {
+  DayTimeline,
+  TimelineEvent,
+  TimelineEventType,
+  TransitAnalysis,
+  TransitEndpointKind,
+} from '@/types/timeline';
+
+// On-the-clock transit this far over the expected drive is suspicious
+const SUSPICIOUS_EXCESS_MINUTES = 15;
+
+const DEPARTURE_KINDS: Partial<Record<TimelineEventType, TransitEndpointKind>> = {
+  left_home: 'home',
+  left_office: 'office',
+  left_custom: 'custom',
+  left_job: 'job',
+};
+
+const ARRIVAL_KINDS: Partial<Record<TimelineEventType, TransitEndpointKind>> = {
+  arrived_home: 'home',
+  arrived_office: 'office',
+  arrived_custom: 'custom',
+  arrived_job: 'job',
+};
+
+interface Interval {
+  start: number;
+  end: number;
+}
+
+function overlapMinutes(a: Interval, b: Interval): number {
+  const ms = Math.min(a.end, b.end) - Math.max(a.start, b.start);
+  return ms > 0 ? Math.round(ms / 60000) : 0;
+}
+
+function endpointLabel(event: TimelineEvent, kind: TransitEndpointKind): string {
+  switch (kind) {
+    case 'home':
+      return 'Home';
+    case 'office':
+      return event.officeName || 'Office';
+    case 'custom':
+      return event.customLocationName || 'Custom location';
+    case 'job':
+      return `Job ${event.jobNumber || 'Unknown'}`;
+  }
+}
+
+/**
+ * The departure a known-stop arrival's leg starts at
+ * Walks back past unknown stops and non-location events; another known arrival first means
+ * there's no departure to pair with.
+ */
+function findDeparture(events: TimelineEvent[], arrivalIndex: number): TimelineEvent | null {
+  for (let j = arrivalIndex - 1; j >= 0; j--) {
+    const event = events[j];
+    if (DEPARTURE_KINDS[event.type]) return event;
+    if (ARRIVAL_KINDS[event.type]) return null;
+  }
+  return null;
+}
+
+/**
+ * Add transit analysis to every leg between known stops and total the day's excess drive time
+ * Time before the first clock-in and after the last clock-out isn't on the clock, and meal
+ * breaks from punches are taken out. With no clock-in at all the whole leg counts.
+ * Modifies the timeline in place.
+ */
+export async function analyzeTransitLegs(timeline: DayTimeline): Promise<void> {
+  const events = timeline.events;
+  const times = (type: TimelineEventType) => events
+    .filter(e => e.type === type)
+    .map(e => new Date(e.timestamp).getTime());
+
+  const clockIns = times('clock_in');
+  const clockOuts = times('clock_out');
+  const clockIn = clockIns.length > 0 ? Math.min(...clockIns) : null;
+  const lastClockOut = clockOuts.length > 0 ? Math.max(...clockOuts) : null;
+  const clockOut = clockIn !== null && lastClockOut !== null && lastClockOut > clockIn ? lastClockOut : null;
+
+  // Pair each meal start with the next meal end
+  const meals: Interval[] = [];
+  const mealStarts = times('meal_start').sort((a, b) => a - b);
+  const mealEnds = times('meal_end').sort((a, b) => a - b);
+  for (const start of mealStarts) {
+    const end = mealEnds.find(t => t > start);
+    if (end !== undefined) meals.push({ start, end });
+  }
+
+  let excessDriveMinutes = 0;
+
+  for (let i = 0; i < events.length; i++) {
+    const arrival = events[i];
+    const toKind = ARRIVAL_KINDS[arrival.type];
+    if (!toKind) continue;
+
+    const departure = findDeparture(events, i);
+    const fromKind = departure && DEPARTURE_KINDS[departure.type];
+    if (!departure || !fromKind) continue;
+    if (departure.latitude === undefined || departure.longitude === undefined ||
+        arrival.latitude === undefined || arrival.longitude === undefined) continue;
+
+    const leg: Interval = {
+      start: new Date(departure.timestamp).getTime(),
+      end: new Date(arrival.timestamp).getTime(),
+    };
+    const actualElapsedMinutes = Math.round((leg.end - leg.start) / 60000);
+
+    const onClock: Interval = {
+      start: clockIn !== null ? Math.max(leg.start, clockIn) : leg.start,
+      end: clockOut !== null ? Math.min(leg.end, clockOut) : leg.end,
+    };
+    const onClockMinutes = clockIn !== null ? overlapMinutes(leg, onClock) : actualElapsedMinutes;
+    const offClockMinutes = actualElapsedMinutes - onClockMinutes;
+    const mealBreakMinutes = meals.reduce((sum, meal) => sum + overlapMinutes(meal, onClock), 0);
+    const onClockTransitMinutes = Math.max(0, onClockMinutes - mealBreakMinutes);
+
+    // Nothing on the clock to explain - skip the directions lookup
+    if (onClockTransitMinutes === 0) continue;
+
+    const directionsResult = await getDrivingDuration(
+      departure.latitude,
+      departure.longitude,
+      arrival.latitude,
+      arrival.longitude,
+      new Date(leg.start)
+    );
+    if (directionsResult.status !== 'ok') continue;
+
+    // Judge against whichever estimate is more generous - a route our trucks always drive
+    // slower than Google says isn't suspicious
+    const fleet = await predictFleetDriveMinutes(
+      departure.latitude,
+      departure.longitude,
+      arrival.latitude,
+      arrival.longitude,
+      new Date(leg.start)
+    );
+    const expectedDriveMinutes = directionsResult.durationInTrafficMinutes ?? directionsResult.durationMinutes;
+    const excessMinutes = onClockTransitMinutes - Math.max(expectedDriveMinutes, fleet?.durationMinutes ?? 0);
+
+    const analysis: TransitAnalysis = {
+      fromKind,
+      toKind,
+      fromLabel: endpointLabel(departure, fromKind),
+      toLabel: endpointLabel(arrival, toKind),
+      fromEventId: departure.id,
+      fromJobNumber: fromKind === 'job' ? departure.jobNumber || 'Unknown' : undefined,
+      toJobNumber: toKind === 'job' ? arrival.jobNumber || 'Unknown' : undefined,
+      fromAddress: departure.address || 'Unknown',
+      toAddress: arrival.address || 'Unknown',
+      expectedDriveMinutes,
+      expectedDriveSource: directionsResult.source,
+      fleetDriveMinutes: fleet?.durationMinutes ?? null,
+      fleetDriveMethod: fleet?.method,
+      fleetDriveSamples: fleet?.sampleSize,
+      actualElapsedMinutes,
+      offClockMinutes,
+      mealBreakMinutes,
+      onClockTransitMinutes,
+      excessMinutes,
+      // A straight-line guess isn't firm enough to flag anyone - it feeds alerts and the scorecard
+      isSuspicious: directionsResult.source !== 'estimate' && excessMinutes >= SUSPICIOUS_EXCESS_MINUTES,
+      distanceMiles: directionsResult.distanceMiles,
+    };
+
+    arrival.transitAnalysis = analysis;
+    if (analysis.isSuspicious) excessDriveMinutes += excessMinutes;
+  }
+
+  timeline.excessDriveMinutes = excessDriveMinutes;
+}
@@ -0,0 +1,233 @@
+// Dated truck assignments - which truck each technician drove on a given day
+// technicians.verizon_vehicle_id only holds the current assignment. Anything processing a specific
+// day (syncs, timeline builds) resolves the truck from truck_assignments instead, so reassigning a
+// truck doesn't hand its old trips to the new driver.
+
+import { addDays, format, parseISO } from 'date-fns';
+import { formatInTimeZone } from 'date-fns-tz';
+import { createServerClient } from './supabase';
+import { rowToTruckAssignment, type TruckAssignment } from '@/types/truck-assignment';
+
+const EST_TIMEZONE = 'America/New_York';
+
+function shiftDate(date: string, days: number): string {
+  return format(addDays(parseISO(date), days), 'yyyy-MM-dd');
+}
+
+function covers(assignment: TruckAssignment, date: string): boolean {
+  return assignment.effectiveFrom <= date && (assignment.effectiveTo === null || assignment.effectiveTo >= date);
+}
+
+/**
+ * Assignments overlapping [from, to], oldest first
+ * Leave a bound out to leave that side open; leave technicianIds / vehicleIds out for everyone.
+ */
+export async function loadTruckAssignments(scope: {
+  technicianIds?: string[];
+  vehicleIds?: string[];
+  from?: string;
+  to?: string;
+} = {}): Promise<TruckAssignment[]> {
+  const supabase = createServerClient();
+
+  let query = supabase
+    .from('truck_assignments')
+    .select('id, technician_id, vehicle_id, effective_from, effective_to, notes, created_by, created_at')
+    .order('effective_from', { ascending: true });
+
+  if (scope.technicianIds) query = query.in('technician_id', scope.technicianIds);
+  if (scope.vehicleIds) query = query.in('vehicle_id', scope.vehicleIds);
+  if (scope.to) query = query.lte('effective_from', scope.to);
+  if (scope.from) query = query.or(`effective_to.is.null,effective_to.gte.${scope.from}`);
+
+  const { data, error } = await query;
+  if (error) throw new Error(error.message);
+
+  return (data || []).map(rowToTruckAssignment);
+}
+
+/**
+ * The truck a technician had on a date, from loaded assignments
+ * Ranges shouldn't overlap; if they do, the most recently started one wins.
+ */
+export function resolveVehicle(assignments: TruckAssignment[], technicianId: string, date: string): string | null {
+  let match: TruckAssignment | null = null;
+  for (const assignment of assignments) {
+    if (assignment.technicianId !== technicianId || !covers(assignment, date)) continue;
+    if (!match || assignment.effectiveFrom > match.effectiveFrom) match = assignment;
+  }
+  return match?.vehicleId || null;
+}
+
+/**
+ * The technician who had a truck on a date, from loaded assignments
+ */
+export function resolveTechnician(assignments: TruckAssignment[], vehicleId: string, date: string): string | null {
+  let match: TruckAssignment | null = null;
+  for (const assignment of assignments) {
+    if (assignment.vehicleId !== vehicleId || !covers(assignment, date)) continue;
+    if (!match || assignment.effectiveFrom > match.effectiveFrom) match = assignment;
+  }
+  return match?.technicianId || null;
+}
+
+export async function getTechnicianVehicleForDate(technicianId: string, date: string): Promise<string | null> {
+  const assignments = await loadTruckAssignments({ technicianIds: [technicianId], from: date, to: date });
+  return resolveVehicle(assignments, technicianId, date);
+}
+
+/**
+ * Technician rows with verizon_vehicle_id swapped for the truck each had on the date
+ * Lets code written against the technicians table process a past day as it was.
+ */
+export async function withVehiclesForDate<T extends { id: string; verizon_vehicle_id: string | null }>(
+  technicians: T[],
+  date: string
+): Promise<T[]> {
+  if (technicians.length === 0) return technicians;
+
+  const assignments = await loadTruckAssignments({ from: date, to: date });
+  return technicians.map(tech => ({ ...tech, verizon_vehicle_id: resolveVehicle(assignments, tech.id, date) }));
+}
+
+/**
+ * Point technicians.verizon_vehicle_id at each technician's truck as of today
+ */
+async function syncCurrentVehicles(technicianIds: string[]): Promise<void> {
+  const supabase = createServerClient();
+  const today = formatInTimeZone(new Date(), EST_TIMEZONE, 'yyyy-MM-dd');
+  const assignments = await loadTruckAssignments({ technicianIds, from: today, to: today });
+
+  for (const technicianId of technicianIds) {
+    const { error } = await supabase
+      .from('technicians')
+      .update({ verizon_vehicle_id: resolveVehicle(assignments, technicianId, today), updated_at: new Date().toISOString() })
+      .eq('id', technicianId);
+
+    if (error) throw new Error(error.message);
+  }
+}
+
+/**
+ * Record that a technician has a truck (or no truck, vehicleId null) from a date on
+ * - the technician's assignment running on that date ends the day before
+ * - whoever else had the truck on that date gives it up the day before
+ * - the new range runs until the technician's or the truck's next dated change
+ * Stored GPS segments in the range are re-attributed to the technician.
+ * Returns every technician whose history changed.
+ */
+export async function recordTruckAssignment(input: {
+  technicianId: string;
+  vehicleId: string | null;
+  effectiveFrom: string;
+  notes?: string | null;
+  createdBy?: string | null;
+}): Promise<{ assignment: TruckAssignment | null; affectedTechnicianIds: string[] }> {
+  const supabase = createServerClient();
+  const { technicianId, vehicleId, effectiveFrom } = input;
+  const dayBefore = shiftDate(effectiveFrom, -1);
+
+  const [techAssignments, truckAssignments] = await Promise.all([
+    loadTruckAssignments({ technicianIds: [technicianId] }),
+    vehicleId ? loadTruckAssignments({ vehicleIds: [vehicleId] }) : Promise.resolve([]),
+  ]);
+
+  // Ranges that were running on the date end the day before (or go, if they started that day)
+  const interrupted = [
+    ...techAssignments.filter(a => covers(a, effectiveFrom)),
+    ...truckAssignments.filter(a => a.technicianId !== technicianId && covers(a, effectiveFrom)),
+  ];
+  const affected = new Set([technicianId, ...interrupted.map(a => a.technicianId)]);
+
+  for (const assignment of interrupted) {
+    const { error } = assignment.effectiveFrom === effectiveFrom
+      ? await supabase.from('truck_assignments').delete().eq('id', assignment.id)
+      : await supabase.from('truck_assignments').update({ effective_to: dayBefore }).eq('id', assignment.id);
+
+    if (error) throw new Error(error.message);
+  }
+
+  // Later dated changes for the technician or the truck stand - the new range stops short of them
+  const nextChange = [...techAssignments, ...truckAssignments]
+    .map(a => a.effectiveFrom)
+    .filter(from => from > effectiveFrom)
+    .sort()[0];
+  const effectiveTo = nextChange ? shiftDate(nextChange, -1) : null;
+
+  let assignment: TruckAssignment | null = null;
+  if (vehicleId) {
+    const { data, error } = await supabase
+      .from('truck_assignments')
+      .insert({
+        technician_id: technicianId,
+        vehicle_id: vehicleId,
+        effective_from: effectiveFrom,
+        effective_to: effectiveTo,
+        notes: input.notes || null,
+        created_by: input.createdBy || null,
+      })
+      .select('id, technician_id, vehicle_id, effective_from, effective_to, notes, created_by, created_at')
+      .single();
+
+    if (error) throw new Error(error.message);
+    assignment = rowToTruckAssignment(data);
+  }
+
+  // Segments are stored with the driver at sync time - re-attribute the range
+  let clearQuery = supabase
+    .from('gps_segments')
+    .update({ technician_id: null })
+    .eq('technician_id', technicianId)
+    .gte('segment_date', effectiveFrom);
+  if (effectiveTo) clearQuery = clearQuery.lte('segment_date', effectiveTo);
+  const { error: clearError } = await clearQuery;
+  if (clearError) throw new Error(clearError.message);
+
+  if (vehicleId) {
+    let claimQuery = supabase
+      .from('gps_segments')
+      .update({ technician_id: technicianId })
+      .eq('vehicle_id', vehicleId)
+      .gte('segment_date', effectiveFrom);
+    if (effectiveTo) claimQuery = claimQuery.lte('segment_date', effectiveTo);
+    const { error: claimError } = await claimQuery;
+    if (claimError) throw new Error(claimError.message);
+  }
+
+  await syncCurrentVehicles([...affected]);
+
+  return { assignment, affectedTechnicianIds: [...affected] };
+}
+
+/**
+ * Delete a dated assignment - its days are left without a truck until a new one is recorded
+ */
+export async function deleteTruckAssignment(id: string): Promise<TruckAssignment | null> {
+  const supabase = createServerClient();
+
+  const { data, error } = await supabase
+    .from('truck_assignments')
+    .delete()
+    .eq('id', id)
+    .select('id, technician_id, vehicle_id, effective_from, effective_to, notes, created_by, created_at')
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  if (!data) return null;
+
+  const deleted = rowToTruckAssignment(data);
+
+  let clearQuery = supabase
+    .from('gps_segments')
+    .update({ technician_id: null })
+    .eq('technician_id', deleted.technicianId)
+    .eq('vehicle_id', deleted.vehicleId)
+    .gte('segment_date', deleted.effectiveFrom);
+  if (deleted.effectiveTo) clearQuery = clearQuery.lte('segment_date', deleted.effectiveTo);
+  const { error: clearError } = await clearQuery;
+  if (clearError) throw new Error(clearError.message);
+
+  await syncCurrentVehicles([deleted.technicianId]);
+
+  return deleted;
+}
@@ -185,6 +185,8 @@ export interface VehicleSegment {
   EndLocationIsPrivate: boolean | null;
   IsComplete: boolean;
   DistanceKilometers: number | null;
+  IdleTime?: number | null; // Seconds the engine idled during the trip
+  MaxSpeed?: number | null; // Fastest speed during the trip (mph)
 }
 
 export interface VehicleSegmentsResponse {
@@ -305,17 +307,24 @@ export async function getVehicleGPSData(
   }
 }
 
+// Current position from /rad/v1/vehicles/{number}/location
 export interface VehicleLocation {
-  vehicleId: string;
-  vehicleNumber: string;
-  driverName?: string;
-  latitude: number;
-  longitude: number;
-  heading: number;
-  speed: number;
-  timestamp: string;
-  address?: string;
-  ignitionStatus?: string;
+  VehicleNumber?: string;      // Set on the all-vehicles response
+  Latitude: number;
+  Longitude: number;
+  Address: {
+    AddressLine1: string;
+    AddressLine2?: string;
+    Locality: string;
+    AdministrativeArea: string;
+    PostalCode: string;
+    Country?: string;
+  } | null;
+  Speed: number;               // mph
+  Heading: number;
+  Direction: string;
+  DisplayState: string;        // Verizon's label for what the truck is doing
+  UpdateUTC: string;           // UTC without a Z
 }
 
 export { VERIZON_CONFIG };
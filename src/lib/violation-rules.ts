@@ -0,0 +1,295 @@
+// Violation rules engine - evaluates declarative punch rules instead of hard-coded policy
+
+import type { PunchViolation } from './punch-utils';
+import type { ViolationRule, ViolationRuleSet, Crew } from '@/types/violation-rules';
+
+/**
+ * Built-in rule set for techs who take their truck home
+ * Matches the original policy: clock in at the job (not home, not office unless excused),
+ * clock out when leaving the last job.
+ */
+export const DEFAULT_TAKE_HOME_RULE_SET: ViolationRuleSet = {
+  id: 'default_take_home',
+  name: 'Take-Home Service Techs',
+  defaultFor: 'take_home',
+  rules: [
+    {
+      id: 'take_home_no_home_clock_in',
+      name: 'take_home_no_home_clock_in',
+      kind: 'clock_in_location',
+      disallowedLocationTypes: ['home'],
+      expectedLocationType: 'job',
+      reason: 'Clocked in at HOME instead of job site',
+      priority: 10,
+    },
+    {
+      id: 'take_home_no_office_clock_in',
+      name: 'take_home_no_office_clock_in',
+      kind: 'clock_in_location',
+      disallowedLocationTypes: ['office'],
+      excusableLocationTypes: ['office'],
+      expectedLocationType: 'job',
+      reason: 'Clocked in at OFFICE - should go direct to job (no excused visit)',
+      priority: 20,
+    },
+    {
+      id: 'take_home_no_home_clock_out',
+      name: 'take_home_no_home_clock_out',
+      kind: 'clock_out_location',
+      disallowedLocationTypes: ['home'],
+      exemptLastStopTypes: ['office'],
+      expectedLocationType: 'job',
+      reason: 'Clocked out at HOME - should clock out when leaving last job',
+      priority: 10,
+    },
+    {
+      id: 'take_home_clock_out_after_last_job',
+      name: 'take_home_clock_out_after_last_job',
+      kind: 'clock_out_after_last_job',
+      maxMinutes: 5,
+      exemptLastStopTypes: ['office'],
+      expectedLocationType: 'job',
+      reason: 'Clocked out {minutes}m after leaving last job',
+      priority: 20,
+    },
+    {
+      id: 'missing_clock_in',
+      name: 'missing_clock_in',
+      kind: 'missing_clock_in',
+      reason: 'Scheduled jobs but no clock-in recorded',
+      priority: 0,
+    },
+    {
+      id: 'missing_clock_out',
+      name: 'missing_clock_out',
+      kind: 'missing_clock_out',
+      reason: 'Clocked in but no clock-out recorded',
+      priority: 0,
+    },
+  ],
+};
+
+/**
+ * Built-in rule set for shop-based techs (truck parks at the office)
+ */
+export const DEFAULT_SHOP_RULE_SET: ViolationRuleSet = {
+  id: 'default_shop',
+  name: 'Shop-Based Techs',
+  defaultFor: 'shop',
+  rules: [
+    {
+      id: 'shop_clock_in_at_office',
+      name: 'shop_clock_in_at_office',
+      kind: 'clock_in_location',
+      allowedLocationTypes: ['office'],
+      expectedLocationType: 'office',
+      reason: 'Clocked in at {location} instead of office',
+      priority: 10,
+    },
+    {
+      id: 'missing_clock_in',
+      name: 'missing_clock_in',
+      kind: 'missing_clock_in',
+      reason: 'Scheduled jobs but no clock-in recorded',
+      priority: 0,
+    },
+    {
+      id: 'missing_clock_out',
+      name: 'missing_clock_out',
+      kind: 'missing_clock_out',
+      reason: 'Clocked in but no clock-out recorded',
+      priority: 0,
+    },
+  ],
+};
+
+/**
+ * Pick the rule set for a technician
+ * Order: technician override -> crew rule set -> DB default for truck type -> built-in default
+ */
+export function resolveRuleSet(
+  tech: {
+    takes_truck_home?: boolean | null;
+    violation_rule_set_id?: string | null;
+    crew_id?: string | null;
+  },
+  ruleSets: ViolationRuleSet[] = [],
+  crews: Crew[] = []
+): ViolationRuleSet {
+  const byId = new Map(ruleSets.map(rs => [rs.id, rs]));
+
+  if (tech.violation_rule_set_id && byId.has(tech.violation_rule_set_id)) {
+    return byId.get(tech.violation_rule_set_id)!;
+  }
+
+  const crew = tech.crew_id ? crews.find(c => c.id === tech.crew_id) : undefined;
+  if (crew?.violationRuleSetId && byId.has(crew.violationRuleSetId)) {
+    return byId.get(crew.violationRuleSetId)!;
+  }
+
+  const defaultFor = tech.takes_truck_home ? 'take_home' : 'shop';
+  return ruleSets.find(rs => rs.defaultFor === defaultFor)
+    || (tech.takes_truck_home ? DEFAULT_TAKE_HOME_RULE_SET : DEFAULT_SHOP_RULE_SET);
+}
+
+/**
+ * Rules of a given kind, in priority order
+ */
+function rulesOfKind(ruleSet: ViolationRuleSet, kind: ViolationRule['kind']): ViolationRule[] {
+  return ruleSet.rules
+    .filter(r => r.kind === kind)
+    .sort((a, b) => a.priority - b.priority);
+}
+
+/**
+ * Fill in {location} / {minutes} placeholders in a rule's reason
+ */
+function formatReason(rule: ViolationRule, locationType: string, minutes?: number): string {
+  return rule.reason
+    .replace(/\{location\}/g, locationType.toUpperCase())
+    .replace(/\{minutes\}/g, minutes !== undefined ? String(minutes) : '');
+}
+
+/**
+ * Expected location type for a punch, taken from the first location rule
+ * (falls back to the clock-in expectation when there is no rule of this kind)
+ */
+function expectedLocation(ruleSet: ViolationRuleSet, kind: ViolationRule['kind']): string {
+  const rule = rulesOfKind(ruleSet, kind)[0] || rulesOfKind(ruleSet, 'clock_in_location')[0];
+  return rule?.expectedLocationType || rule?.allowedLocationTypes?.[0] || 'any';
+}
+
+/**
+ * Check whether a location rule is broken
+ */
+function breaksLocationRule(rule: ViolationRule, locationType: string): boolean {
+  if (rule.disallowedLocationTypes?.includes(locationType)) return true;
+  if (rule.allowedLocationTypes && !rule.allowedLocationTypes.includes(locationType)) return true;
+  return false;
+}
+
+function toViolation(
+  rule: ViolationRule,
+  locationType: string,
+  extra: Partial<PunchViolation> = {}
+): PunchViolation {
+  return {
+    isViolation: true,
+    reason: formatReason(rule, locationType, extra.varianceMinutes),
+    expectedLocationType: rule.expectedLocationType || rule.allowedLocationTypes?.[0] || 'any',
+    actualLocationType: locationType,
+    canBeExcused: rule.excusableLocationTypes?.includes(locationType) || false,
+    ruleId: rule.id,
+    ruleName: rule.name,
+    ...extra,
+  };
+}
+
+/**
+ * Evaluate clock-in rules
+ * Returns the first violation in priority order, or a non-violation result
+ */
+export function evaluateClockInRules(
+  ruleSet: ViolationRuleSet,
+  gpsLocationType: string,
+  hasExcusedOfficeVisit: boolean
+): PunchViolation {
+  const noViolation: PunchViolation = {
+    isViolation: false,
+    reason: null,
+    expectedLocationType: expectedLocation(ruleSet, 'clock_in_location'),
+    actualLocationType: gpsLocationType,
+  };
+
+  // If we don't know where they were, can't determine violation
+  if (gpsLocationType === 'unknown' || gpsLocationType === 'no_gps') {
+    return noViolation;
+  }
+
+  for (const rule of rulesOfKind(ruleSet, 'clock_in_location')) {
+    if (!breaksLocationRule(rule, gpsLocationType)) continue;
+
+    // Excused visit clears violations at excusable locations (e.g. office)
+    if (hasExcusedOfficeVisit && rule.excusableLocationTypes?.includes(gpsLocationType)) continue;
+
+    return toViolation(rule, gpsLocationType);
+  }
+
+  return noViolation;
+}
+
+/**
+ * Evaluate clock-out rules
+ */
+export function evaluateClockOutRules(
+  ruleSet: ViolationRuleSet,
+  clockOutTime: Date,
+  gpsLocationType: string,
+  lastJobDepartureTime: Date | null,
+  lastStopType: string | null
+): PunchViolation {
+  const noViolation: PunchViolation = {
+    isViolation: false,
+    reason: null,
+    expectedLocationType: expectedLocation(ruleSet, 'clock_out_location'),
+    actualLocationType: gpsLocationType,
+  };
+
+  // If we don't know where they were, can't determine violation
+  if (gpsLocationType === 'unknown' || gpsLocationType === 'no_gps') {
+    return noViolation;
+  }
+
+  const rules = [
+    ...rulesOfKind(ruleSet, 'clock_out_location'),
+    ...rulesOfKind(ruleSet, 'clock_out_after_last_job'),
+  ].sort((a, b) => a.priority - b.priority);
+
+  for (const rule of rules) {
+    if (lastStopType && rule.exemptLastStopTypes?.includes(lastStopType)) continue;
+
+    if (rule.kind === 'clock_out_location') {
+      if (breaksLocationRule(rule, gpsLocationType)) {
+        return toViolation(rule, gpsLocationType);
+      }
+    } else if (lastJobDepartureTime) {
+      const minutesSinceLastJob = Math.round(
+        (clockOutTime.getTime() - lastJobDepartureTime.getTime()) / (1000 * 60)
+      );
+
+      if (minutesSinceLastJob > (rule.maxMinutes ?? 0)) {
+        return toViolation(rule, gpsLocationType, { varianceMinutes: minutesSinceLastJob });
+      }
+    }
+  }
+
+  return noViolation;
+}
+
+/**
+ * Evaluate missing clock-in rule (has scheduled jobs but no clock-in)
+ */
+export function evaluateMissingClockIn(
+  ruleSet: ViolationRuleSet,
+  hasScheduledJobs: boolean,
+  hasClockIn: boolean
+): PunchViolation | null {
+  const rule = rulesOfKind(ruleSet, 'missing_clock_in')[0];
+  if (!rule || !hasScheduledJobs || hasClockIn) return null;
+
+  return toViolation(rule, 'no_punch', { expectedLocationType: 'any', canBeExcused: false });
+}
+
+/**
+ * Evaluate missing clock-out rule (has clock-in but no clock-out at end of day)
+ */
+export function evaluateMissingClockOut(
+  ruleSet: ViolationRuleSet,
+  hasClockIn: boolean,
+  hasClockOut: boolean
+): PunchViolation | null {
+  const rule = rulesOfKind(ruleSet, 'missing_clock_out')[0];
+  if (!rule || !hasClockIn || hasClockOut) return null;
+
+  return toViolation(rule, 'no_punch', { expectedLocationType: 'any', canBeExcused: false });
+}
@@ -0,0 +1,88 @@
+// Alert types - workday conditions raised after each sync and the channels they go to
+
+export type AlertType = 'punch_violation' | 'suspicious_transit' | 'missing_clock_out' | 'late_first_job';
+
+export const ALERT_TYPES: AlertType[] = ['punch_violation', 'suspicious_transit', 'missing_clock_out', 'late_first_job'];
+
+export const ALERT_TYPE_LABELS: Record<AlertType, string> = {
+  punch_violation: 'Punch violation',
+  suspicious_transit: 'Suspicious transit',
+  missing_clock_out: 'Missing clock-out',
+  late_first_job: 'Late first job',
+};
+
+export type AlertChannel = 'email' | 'webhook' | 'sms';
+
+export const ALERT_CHANNELS: AlertChannel[] = ['email', 'webhook', 'sms'];
+
+export interface AlertSubscription {
+  id: string;
+  userId: string;
+  channel: AlertChannel;
+  target: string;            // Email address, webhook URL or phone number
+  alertTypes: AlertType[];   // Empty = all types
+  officeId?: string;         // Only technicians of this home branch
+  active: boolean;
+}
+
+// Database row format (snake_case)
+export interface AlertSubscriptionRow {
+  id: string;
+  user_id: string;
+  channel: string;
+  target: string;
+  alert_types: string[] | null;
+  office_id: string | null;
+  active: boolean | null;
+}
+
+export function rowToAlertSubscription(row: AlertSubscriptionRow): AlertSubscription {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    channel: row.channel as AlertChannel,
+    target: row.target,
+    alertTypes: (row.alert_types || []) as AlertType[],
+    officeId: row.office_id || undefined,
+    active: row.active !== false,
+  };
+}
+
+export interface AlertEvent {
+  id: string;
+  alertType: AlertType;
+  dedupeKey: string;
+  technicianId?: string;
+  eventDate: string;
+  title: string;
+  message: string;
+  details?: unknown;
+  createdAt: string;
+}
+
+// Database row format (snake_case)
+export interface AlertEventRow {
+  id: string;
+  alert_type: string;
+  dedupe_key: string;
+  technician_id: string | null;
+  event_date: string;
+  title: string;
+  message: string;
+  details: unknown;
+  created_at: string | null;
+}
+
+export function rowToAlertEvent(row: AlertEventRow): AlertEvent {
+  return {
+    id: row.id,
+    alertType: row.alert_type as AlertType,
+    dedupeKey: row.dedupe_key,
+    technicianId: row.technician_id || undefined,
+    eventDate: row.event_date,
+    title: row.title,
+    message: row.message,
+    details: row.details ?? undefined,
+    createdAt: row.created_at || '',
+  };
+}
@@ -0,0 +1,58 @@
+// Audit trail types - append-only log of review decisions
+
+export type AuditEntityType =
+  | 'excused_visit'
+  | 'proposed_punch'
+  | 'discrepancy'
+  | 'manual_job_association'
+  | 'truck_assignment'
+  | 'ride_along'
+  | 'paylocity_link';
+
+export interface AuditEvent {
+  id: string;
+  occurredAt: string;
+  actorId: string;
+  actorName: string;
+  action: string;              // '<entity_type>.<verb>', e.g. 'proposed_punch.rejected'
+  entityType: AuditEntityType;
+  entityId?: string;
+  technicianId?: string;
+  eventDate?: string;          // Work day the decision is about (YYYY-MM-DD)
+  before?: unknown;            // Row before the change (absent for creates)
+  after?: unknown;             // Row after the change (absent for deletes)
+  note?: string;
+}
+
+// Database row format (snake_case)
+export interface AuditEventRow {
+  id: string;
+  occurred_at: string;
+  actor_id: string;
+  actor_name: string;
+  action: string;
+  entity_type: string;
+  entity_id: string | null;
+  technician_id: string | null;
+  event_date: string | null;
+  before: unknown;
+  after: unknown;
+  note: string | null;
+}
+
+export function rowToAuditEvent(row: AuditEventRow): AuditEvent {
+  return {
+    id: row.id,
+    occurredAt: row.occurred_at,
+    actorId: row.actor_id,
+    actorName: row.actor_name,
+    action: row.action,
+    entityType: row.entity_type as AuditEntityType,
+    entityId: row.entity_id || undefined,
+    technicianId: row.technician_id || undefined,
+    eventDate: row.event_date || undefined,
+    before: row.before ?? undefined,
+    after: row.after ?? undefined,
+    note: row.note || undefined,
+  };
+}
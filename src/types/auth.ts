@@ -0,0 +1,42 @@
+// Auth types - Supabase Auth users and their app roles
+
+// Cookie the browser keeps in sync with the Supabase session (read by API routes)
+export const AUTH_COOKIE = 'tt-access-token';
+
+export type UserRole = 'admin' | 'service_manager' | 'payroll' | 'read_only';
+
+export const USER_ROLES: UserRole[] = ['admin', 'service_manager', 'payroll', 'read_only'];
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'Admin',
+  service_manager: 'Service Manager',
+  payroll: 'Payroll',
+  read_only: 'Read Only',
+};
+
+export interface AppUser {
+  id: string;            // Supabase Auth user id
+  email: string;
+  displayName: string;   // Stamped into reviewed_by / excused_by / created_by
+  role: UserRole;
+  active: boolean;
+}
+
+// Database row format (snake_case)
+export interface UserProfileRow {
+  id: string;
+  email: string;
+  display_name: string | null;
+  role: string;
+  active: boolean | null;
+}
+
+export function rowToAppUser(row: UserProfileRow): AppUser {
+  return {
+    id: row.id,
+    email: row.email,
+    displayName: row.display_name || row.email,
+    role: (USER_ROLES.includes(row.role as UserRole) ? row.role : 'read_only') as UserRole,
+    active: row.active !== false,
+  };
+}
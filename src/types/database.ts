@@ -12,6 +12,155 @@ export type Database = {
   }
   public: {
     Tables: {
+      alert_deliveries: {
+        Row: {
+          alert_event_id: string
+          attempts: number
+          channel: string
+          created_at: string | null
+          error: string | null
+          id: string
+          sent_at: string | null
+          status: string
+          subscription_id: string | null
+          target: string
+        }
+        Insert: {
+          alert_event_id: string
+          attempts?: number
+          channel: string
+          created_at?: string | null
+          error?: string | null
+          id?: string
+          sent_at?: string | null
+          status?: string
+          subscription_id?: string | null
+          target: string
+        }
+        Update: {
+          alert_event_id?: string
+          attempts?: number
+          channel?: string
+          created_at?: string | null
+          error?: string | null
+          id?: string
+          sent_at?: string | null
+          status?: string
+          subscription_id?: string | null
+          target?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "alert_deliveries_alert_event_id_fkey"
+            columns: ["alert_event_id"]
+            isOneToOne: false
+            referencedRelation: "alert_events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "alert_deliveries_subscription_id_fkey"
+            columns: ["subscription_id"]
+            isOneToOne: false
+            referencedRelation: "alert_subscriptions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      alert_events: {
+        Row: {
+          alert_type: string
+          created_at: string | null
+          dedupe_key: string
+          details: Json | null
+          event_date: string
+          id: string
+          message: string
+          technician_id: string | null
+          title: string
+        }
+        Insert: {
+          alert_type: string
+          created_at?: string | null
+          dedupe_key: string
+          details?: Json | null
+          event_date: string
+          id?: string
+          message: string
+          technician_id?: string | null
+          title: string
+        }
+        Update: {
+          alert_type?: string
+          created_at?: string | null
+          dedupe_key?: string
+          details?: Json | null
+          event_date?: string
+          id?: string
+          message?: string
+          technician_id?: string | null
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "alert_events_technician_id_fkey"
+            columns: ["technician_id"]
+            isOneToOne: false
+            referencedRelation: "technicians"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      alert_subscriptions: {
+        Row: {
+          active: boolean
+          alert_types: string[]
+          channel: string
+          created_at: string | null
+          id: string
+          office_id: string | null
+          target: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          active?: boolean
+          alert_types?: string[]
+          channel: string
+          created_at?: string | null
+          id?: string
+          office_id?: string | null
+          target: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          active?: boolean
+          alert_types?: string[]
+          channel?: string
+          created_at?: string | null
+          id?: string
+          office_id?: string | null
+          target?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "alert_subscriptions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "user_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "alert_subscriptions_office_id_fkey"
+            columns: ["office_id"]
+            isOneToOne: false
+            referencedRelation: "offices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       arrival_discrepancies: {
         Row: {
           actual_arrival: string
@@ -85,6 +234,80 @@ export type Database = {
           },
         ]
       }
+      audit_events: {
+        Row: {
+          action: string
+          actor_id: string
+          actor_name: string
+          after: Json | null
+          before: Json | null
+          entity_id: string | null
+          entity_type: string
+          event_date: string | null
+          id: string
+          note: string | null
+          occurred_at: string
+          technician_id: string | null
+        }
+        Insert: {
+          action: string
+          actor_id: string
+          actor_name: string
+          after?: Json | null
+          before?: Json | null
+          entity_id?: string | null
+          entity_type: string
+          event_date?: string | null
+          id?: string
+          note?: string | null
+          occurred_at?: string
+          technician_id?: string | null
+        }
+        Update: {
+          action?: string
+          actor_id?: string
+          actor_name?: string
+          after?: Json | null
+          before?: Json | null
+          entity_id?: string | null
+          entity_type?: string
+          event_date?: string | null
+          id?: string
+          note?: string | null
+          occurred_at?: string
+          technician_id?: string | null
+        }
+        Relationships: []
+      }
+      crews: {
+        Row: {
+          created_at: string | null
+          id: string
+          name: string
+          violation_rule_set_id: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          name: string
+          violation_rule_set_id?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          name?: string
+          violation_rule_set_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "crews_violation_rule_set_id_fkey"
+            columns: ["violation_rule_set_id"]
+            isOneToOne: false
+            referencedRelation: "violation_rule_sets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       custom_locations: {
         Row: {
           address: string | null
@@ -130,6 +353,98 @@ export type Database = {
         }
         Relationships: []
       }
+      day_timelines: {
+        Row: {
+          builder_version: number
+          built_at: string
+          created_at: string | null
+          id: string
+          is_stale: boolean
+          stale_at: string | null
+          stale_reason: string | null
+          technician_id: string
+          timeline: Json
+          timeline_date: string
+          updated_at: string | null
+        }
+        Insert: {
+          builder_version: number
+          built_at?: string
+          created_at?: string | null
+          id?: string
+          is_stale?: boolean
+          stale_at?: string | null
+          stale_reason?: string | null
+          technician_id: string
+          timeline: Json
+          timeline_date: string
+          updated_at?: string | null
+        }
+        Update: {
+          builder_version?: number
+          built_at?: string
+          created_at?: string | null
+          id?: string
+          is_stale?: boolean
+          stale_at?: string | null
+          stale_reason?: string | null
+          technician_id?: string
+          timeline?: Json
+          timeline_date?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "day_timelines_technician_id_fkey"
+            columns: ["technician_id"]
+            isOneToOne: false
+            referencedRelation: "technicians"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      directions_cache: {
+        Row: {
+          cache_key: string
+          dest_latitude: number
+          dest_longitude: number
+          distance_miles: number
+          duration_in_traffic_minutes: number | null
+          duration_minutes: number
+          expires_at: string
+          fetched_at: string
+          hour_of_week: number
+          origin_latitude: number
+          origin_longitude: number
+        }
+        Insert: {
+          cache_key: string
+          dest_latitude: number
+          dest_longitude: number
+          distance_miles: number
+          duration_in_traffic_minutes?: number | null
+          duration_minutes: number
+          expires_at: string
+          fetched_at?: string
+          hour_of_week: number
+          origin_latitude: number
+          origin_longitude: number
+        }
+        Update: {
+          cache_key?: string
+          dest_latitude?: number
+          dest_longitude?: number
+          distance_miles?: number
+          duration_in_traffic_minutes?: number | null
+          duration_minutes?: number
+          expires_at?: string
+          fetched_at?: string
+          hour_of_week?: number
+          origin_latitude?: number
+          origin_longitude?: number
+        }
+        Relationships: []
+      }
       estimate_items: {
         Row: {
           created_at: string | null
@@ -318,6 +633,77 @@ export type Database = {
           },
         ]
       }
+      fuel_transactions: {
+        Row: {
+          amount_cents: number
+          coast_card_id: string
+          coast_transaction_id: string
+          created_at: string | null
+          fuel_type: string | null
+          gallons: number | null
+          id: string
+          merchant_address: string | null
+          merchant_latitude: number | null
+          merchant_longitude: number | null
+          merchant_name: string | null
+          raw_data: Json | null
+          status: string
+          technician_id: string | null
+          transaction_date: string
+          transaction_time: string
+          updated_at: string | null
+          vehicle_id: string | null
+        }
+        Insert: {
+          amount_cents: number
+          coast_card_id: string
+          coast_transaction_id: string
+          created_at?: string | null
+          fuel_type?: string | null
+          gallons?: number | null
+          id?: string
+          merchant_address?: string | null
+          merchant_latitude?: number | null
+          merchant_longitude?: number | null
+          merchant_name?: string | null
+          raw_data?: Json | null
+          status?: string
+          technician_id?: string | null
+          transaction_date: string
+          transaction_time: string
+          updated_at?: string | null
+          vehicle_id?: string | null
+        }
+        Update: {
+          amount_cents?: number
+          coast_card_id?: string
+          coast_transaction_id?: string
+          created_at?: string | null
+          fuel_type?: string | null
+          gallons?: number | null
+          id?: string
+          merchant_address?: string | null
+          merchant_latitude?: number | null
+          merchant_longitude?: number | null
+          merchant_name?: string | null
+          raw_data?: Json | null
+          status?: string
+          technician_id?: string | null
+          transaction_date?: string
+          transaction_time?: string
+          updated_at?: string | null
+          vehicle_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fuel_transactions_technician_id_fkey"
+            columns: ["technician_id"]
+            isOneToOne: false
+            referencedRelation: "technicians"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       gps_events: {
         Row: {
           address: string | null
@@ -616,6 +1002,7 @@ export type Database = {
           duration_minutes: number | null
           id: string
           is_unnecessary: boolean | null
+          office_id: string | null
           technician_id: string | null
           visit_date: string
           visit_type: string
@@ -627,6 +1014,7 @@ export type Database = {
           duration_minutes?: number | null
           id?: string
           is_unnecessary?: boolean | null
+          office_id?: string | null
           technician_id?: string | null
           visit_date: string
           visit_type: string
@@ -638,11 +1026,19 @@ export type Database = {
           duration_minutes?: number | null
           id?: string
           is_unnecessary?: boolean | null
+          office_id?: string | null
           technician_id?: string | null
           visit_date?: string
           visit_type?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "office_visits_office_id_fkey"
+            columns: ["office_id"]
+            isOneToOne: false
+            referencedRelation: "offices"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "office_visits_technician_id_fkey"
             columns: ["technician_id"]
@@ -659,39 +1055,158 @@ export type Database = {
           },
         ]
       }
-      proposed_punches: {
+      offices: {
         Row: {
+          active: boolean | null
+          address: string | null
+          boundary_polygon: Json | null
+          boundary_type: string | null
+          center_latitude: number
+          center_longitude: number
+          created_at: string | null
           id: string
-          technician_id: string
-          date: string
-          punch_type: string
-          proposed_time: string
-          note: string
+          name: string
+          radius_feet: number
+          updated_at: string | null
+        }
+        Insert: {
+          active?: boolean | null
+          address?: string | null
+          boundary_polygon?: Json | null
+          boundary_type?: string | null
+          center_latitude: number
+          center_longitude: number
+          created_at?: string | null
+          id?: string
+          name: string
+          radius_feet?: number
+          updated_at?: string | null
+        }
+        Update: {
+          active?: boolean | null
+          address?: string | null
+          boundary_polygon?: Json | null
+          boundary_type?: string | null
+          center_latitude?: number
+          center_longitude?: number
+          created_at?: string | null
+          id?: string
+          name?: string
+          radius_feet?: number
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      paylocity_link_suggestions: {
+        Row: {
+          confidence: number
+          created_at: string | null
+          employee_name: string
+          id: string
+          match_reason: string | null
+          paylocity_employee_id: string
+          reviewed_at: string | null
+          reviewed_by: string | null
           status: string
-          created_at: string
-          created_by: string
+          technician_id: string
+          updated_at: string | null
         }
         Insert: {
+          confidence: number
+          created_at?: string | null
+          employee_name: string
           id?: string
+          match_reason?: string | null
+          paylocity_employee_id: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
           technician_id: string
+          updated_at?: string | null
+        }
+        Update: {
+          confidence?: number
+          created_at?: string | null
+          employee_name?: string
+          id?: string
+          match_reason?: string | null
+          paylocity_employee_id?: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          technician_id?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "paylocity_link_suggestions_technician_id_fkey"
+            columns: ["technician_id"]
+            isOneToOne: false
+            referencedRelation: "technicians"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      proposed_punches: {
+        Row: {
+          applied_at: string | null
+          created_at: string
+          created_by: string
           date: string
-          punch_type: string
-          proposed_time: string
+          id: string
+          needs_paylocity_check: boolean
           note: string
-          status?: string
+          paylocity_operation_id: string | null
+          paylocity_response: Json | null
+          proposed_time: string
+          punch_type: string
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          submission_attempts: number
+          submission_error: string | null
+          submitted_at: string | null
+          technician_id: string
+        }
+        Insert: {
+          applied_at?: string | null
           created_at?: string
           created_by?: string
+          date: string
+          id?: string
+          needs_paylocity_check?: boolean
+          note: string
+          paylocity_operation_id?: string | null
+          paylocity_response?: Json | null
+          proposed_time: string
+          punch_type: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          submission_attempts?: number
+          submission_error?: string | null
+          submitted_at?: string | null
+          technician_id: string
         }
         Update: {
-          id?: string
-          technician_id?: string
+          applied_at?: string | null
+          created_at?: string
+          created_by?: string
           date?: string
-          punch_type?: string
-          proposed_time?: string
+          id?: string
+          needs_paylocity_check?: boolean
           note?: string
+          paylocity_operation_id?: string | null
+          paylocity_response?: Json | null
+          proposed_time?: string
+          punch_type?: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
           status?: string
-          created_at?: string
-          created_by?: string
+          submission_attempts?: number
+          submission_error?: string | null
+          submitted_at?: string | null
+          technician_id?: string
         }
         Relationships: [
           {
@@ -767,6 +1282,8 @@ export type Database = {
           punch_type: string
           technician_id: string | null
           violation_reason: string | null
+          violation_rule_id: string | null
+          violation_rule_name: string | null
         }
         Insert: {
           can_be_excused?: boolean | null
@@ -793,6 +1310,8 @@ export type Database = {
           punch_type: string
           technician_id?: string | null
           violation_reason?: string | null
+          violation_rule_id?: string | null
+          violation_rule_name?: string | null
         }
         Update: {
           can_be_excused?: boolean | null
@@ -819,6 +1338,8 @@ export type Database = {
           punch_type?: string
           technician_id?: string | null
           violation_reason?: string | null
+          violation_rule_id?: string | null
+          violation_rule_name?: string | null
         }
         Relationships: [
           {
@@ -837,6 +1358,60 @@ export type Database = {
           },
         ]
       }
+      ride_alongs: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          helper_technician_id: string
+          id: string
+          lead_technician_id: string
+          notes: string | null
+          ride_date: string
+          source: string
+          st_job_id: number | null
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          helper_technician_id: string
+          id?: string
+          lead_technician_id: string
+          notes?: string | null
+          ride_date: string
+          source?: string
+          st_job_id?: number | null
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          helper_technician_id?: string
+          id?: string
+          lead_technician_id?: string
+          notes?: string | null
+          ride_date?: string
+          source?: string
+          st_job_id?: number | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ride_alongs_helper_technician_id_fkey"
+            columns: ["helper_technician_id"]
+            isOneToOne: false
+            referencedRelation: "technicians"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ride_alongs_lead_technician_id_fkey"
+            columns: ["lead_technician_id"]
+            isOneToOne: false
+            referencedRelation: "technicians"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       sync_logs: {
         Row: {
           completed_at: string | null
@@ -870,12 +1445,15 @@ export type Database = {
       technicians: {
         Row: {
           active: boolean | null
+          coast_card_id: string | null
           created_at: string | null
+          crew_id: string | null
           email: string | null
           exclude_from_office_visits: boolean | null
           home_address: string | null
           home_latitude: number | null
           home_longitude: number | null
+          home_office_id: string | null
           id: string
           name: string
           paylocity_employee_id: string | null
@@ -885,15 +1463,19 @@ export type Database = {
           updated_at: string | null
           verizon_driver_id: string | null
           verizon_vehicle_id: string | null
+          violation_rule_set_id: string | null
         }
         Insert: {
           active?: boolean | null
+          coast_card_id?: string | null
           created_at?: string | null
+          crew_id?: string | null
           email?: string | null
           exclude_from_office_visits?: boolean | null
           home_address?: string | null
           home_latitude?: number | null
           home_longitude?: number | null
+          home_office_id?: string | null
           id?: string
           name: string
           paylocity_employee_id?: string | null
@@ -903,15 +1485,19 @@ export type Database = {
           updated_at?: string | null
           verizon_driver_id?: string | null
           verizon_vehicle_id?: string | null
+          violation_rule_set_id?: string | null
         }
         Update: {
           active?: boolean | null
+          coast_card_id?: string | null
           created_at?: string | null
+          crew_id?: string | null
           email?: string | null
           exclude_from_office_visits?: boolean | null
           home_address?: string | null
           home_latitude?: number | null
           home_longitude?: number | null
+          home_office_id?: string | null
           id?: string
           name?: string
           paylocity_employee_id?: string | null
@@ -921,14 +1507,82 @@ export type Database = {
           updated_at?: string | null
           verizon_driver_id?: string | null
           verizon_vehicle_id?: string | null
+          violation_rule_set_id?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "technicians_crew_id_fkey"
+            columns: ["crew_id"]
+            isOneToOne: false
+            referencedRelation: "crews"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "technicians_violation_rule_set_id_fkey"
+            columns: ["violation_rule_set_id"]
+            isOneToOne: false
+            referencedRelation: "violation_rule_sets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "technicians_home_office_id_fkey"
+            columns: ["home_office_id"]
+            isOneToOne: false
+            referencedRelation: "offices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      truck_assignments: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          effective_from: string
+          effective_to: string | null
+          id: string
+          notes: string | null
+          technician_id: string
+          updated_at: string | null
+          vehicle_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          effective_from: string
+          effective_to?: string | null
+          id?: string
+          notes?: string | null
+          technician_id: string
+          updated_at?: string | null
+          vehicle_id: string
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          effective_from?: string
+          effective_to?: string | null
+          id?: string
+          notes?: string | null
+          technician_id?: string
+          updated_at?: string | null
+          vehicle_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "truck_assignments_technician_id_fkey"
+            columns: ["technician_id"]
+            isOneToOne: false
+            referencedRelation: "technicians"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       trucks: {
         Row: {
           active: boolean | null
           created_at: string | null
           description: string | null
+          expected_mpg: number | null
           id: string
           truck_number: string
           updated_at: string | null
@@ -938,6 +1592,7 @@ export type Database = {
           active?: boolean | null
           created_at?: string | null
           description?: string | null
+          expected_mpg?: number | null
           id?: string
           truck_number: string
           updated_at?: string | null
@@ -947,6 +1602,7 @@ export type Database = {
           active?: boolean | null
           created_at?: string | null
           description?: string | null
+          expected_mpg?: number | null
           id?: string
           truck_number?: string
           updated_at?: string | null
@@ -954,6 +1610,125 @@ export type Database = {
         }
         Relationships: []
       }
+      user_profiles: {
+        Row: {
+          active: boolean | null
+          created_at: string | null
+          display_name: string | null
+          email: string
+          id: string
+          role: string
+          updated_at: string | null
+        }
+        Insert: {
+          active?: boolean | null
+          created_at?: string | null
+          display_name?: string | null
+          email: string
+          id: string
+          role?: string
+          updated_at?: string | null
+        }
+        Update: {
+          active?: boolean | null
+          created_at?: string | null
+          display_name?: string | null
+          email?: string
+          id?: string
+          role?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      violation_rule_sets: {
+        Row: {
+          active: boolean | null
+          created_at: string | null
+          default_for: string | null
+          description: string | null
+          id: string
+          name: string
+          updated_at: string | null
+        }
+        Insert: {
+          active?: boolean | null
+          created_at?: string | null
+          default_for?: string | null
+          description?: string | null
+          id?: string
+          name: string
+          updated_at?: string | null
+        }
+        Update: {
+          active?: boolean | null
+          created_at?: string | null
+          default_for?: string | null
+          description?: string | null
+          id?: string
+          name?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      violation_rules: {
+        Row: {
+          active: boolean | null
+          allowed_location_types: string[] | null
+          created_at: string | null
+          disallowed_location_types: string[] | null
+          excusable_location_types: string[] | null
+          exempt_last_stop_types: string[] | null
+          expected_location_type: string | null
+          id: string
+          kind: string
+          max_minutes: number | null
+          name: string
+          priority: number | null
+          reason: string
+          rule_set_id: string
+        }
+        Insert: {
+          active?: boolean | null
+          allowed_location_types?: string[] | null
+          created_at?: string | null
+          disallowed_location_types?: string[] | null
+          excusable_location_types?: string[] | null
+          exempt_last_stop_types?: string[] | null
+          expected_location_type?: string | null
+          id?: string
+          kind: string
+          max_minutes?: number | null
+          name: string
+          priority?: number | null
+          reason: string
+          rule_set_id: string
+        }
+        Update: {
+          active?: boolean | null
+          allowed_location_types?: string[] | null
+          created_at?: string | null
+          disallowed_location_types?: string[] | null
+          excusable_location_types?: string[] | null
+          exempt_last_stop_types?: string[] | null
+          expected_location_type?: string | null
+          id?: string
+          kind?: string
+          max_minutes?: number | null
+          name?: string
+          priority?: number | null
+          reason?: string
+          rule_set_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "violation_rules_rule_set_id_fkey"
+            columns: ["rule_set_id"]
+            isOneToOne: false
+            referencedRelation: "violation_rule_sets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       technician_performance: {
@@ -1132,6 +1907,7 @@ export type ArrivalDiscrepancy = Database['public']['Tables']['arrival_discrepan
 export type SyncLog = Database['public']['Tables']['sync_logs']['Row'];
 export type Truck = Database['public']['Tables']['trucks']['Row'];
 export type OfficeVisit = Database['public']['Tables']['office_visits']['Row'];
+export type OfficeDb = Database['public']['Tables']['offices']['Row'];
 export type CustomLocationDb = Database['public']['Tables']['custom_locations']['Row'];
 export type PunchRecord = Database['public']['Tables']['punch_records']['Row'];
 export type ExcusedOfficeVisit = Database['public']['Tables']['excused_office_visits']['Row'];
@@ -1140,3 +1916,10 @@ export type ProposedPunchDb = Database['public']['Tables']['proposed_punches']['
 export type PunchAnnotationDb = Database['public']['Tables']['punch_annotations']['Row'];
 export type EstimateDb = Database['public']['Tables']['estimates']['Row'];
 export type EstimateItemDb = Database['public']['Tables']['estimate_items']['Row'];
+export type ViolationRuleSetDb = Database['public']['Tables']['violation_rule_sets']['Row'];
+export type ViolationRuleDb = Database['public']['Tables']['violation_rules']['Row'];
+export type CrewDb = Database['public']['Tables']['crews']['Row'];
+export type UserProfileDb = Database['public']['Tables']['user_profiles']['Row'];
+export type AuditEventDb = Database['public']['Tables']['audit_events']['Row'];
+export type AlertSubscriptionDb = Database['public']['Tables']['alert_subscriptions']['Row'];
+export type AlertEventDb = Database['public']['Tables']['alert_events']['Row'];
@@ -0,0 +1,28 @@
+// Fleet idle report types - trucks ranked by engine idle time
+
+export interface FleetIdleWeek {
+  weekStart: string;           // Sunday (YYYY-MM-DD)
+  idleHours: number;
+  engineHours: number;         // Ignition on (trip durations)
+}
+
+export interface FleetIdleTruck {
+  vehicleId: string;
+  technicianId: string | null;
+  technicianName: string | null;
+  idleHours: number;           // Whole range
+  idleHoursPerWeek: number;
+  engineHours: number;
+  idlePercentage: number | null; // Share of engine-on time spent idling
+  longestIdleMinutes: number;  // Longest idle in a single trip
+  weeks: FleetIdleWeek[];      // Oldest first
+}
+
+export interface FleetIdleReport {
+  weekStart: string;           // First week in the range
+  weekEnd: string;             // Saturday of the last week
+  weeks: number;
+  generatedAt: string;
+  trucks: FleetIdleTruck[];    // Most idle hours per week first
+  totalIdleHours: number;
+}
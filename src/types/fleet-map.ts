@@ -0,0 +1,39 @@
+// Live fleet map types - where every truck is right now and what its technician is doing
+
+// 'no_gps' - Verizon has no current position for the truck
+export type FleetTruckStatus = 'driving' | 'idling' | 'stopped' | 'no_gps';
+
+// From the last punch today: MealStart means on meal, ClockOut means off the clock
+export type FleetClockStatus = 'clocked_in' | 'on_meal' | 'clocked_out' | 'not_clocked_in';
+
+export interface FleetAppointment {
+  relation: 'current' | 'next';  // 'current' - working it or parked at it
+  jobNumber: string;
+  customerName: string | null;
+  address: string | null;
+  scheduledStart: string;
+  status: string | null;         // Service Titan appointment status
+}
+
+export interface FleetTruck {
+  vehicleId: string;
+  technicianId: string | null;   // From technicians.verizon_vehicle_id
+  technicianName: string | null;
+  status: FleetTruckStatus;
+  latitude: number | null;
+  longitude: number | null;
+  address: string | null;
+  speedMph: number | null;
+  heading: number | null;
+  updatedAt: string | null;      // When Verizon last heard from the truck (ISO)
+  stoppedSince: string | null;   // Start of the current stop, null while driving or unknown
+  clockStatus: FleetClockStatus | null; // Null for trucks without a technician
+  clockedInAt: string | null;    // First ClockIn today
+  appointment: FleetAppointment | null;
+}
+
+export interface FleetMap {
+  date: string;                  // Today (Eastern)
+  generatedAt: string;
+  trucks: FleetTruck[];          // Assigned trucks first, by technician name
+}
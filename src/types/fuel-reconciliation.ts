@@ -0,0 +1,53 @@
+// Fuel reconciliation report types - fuel card gallons against GPS miles
+
+// Where the truck was when its card was run
+export type FuelPurchaseLocationCheck =
+  | 'near'      // Parked within range of the merchant
+  | 'far'       // Parked somewhere else
+  | 'moving'    // Driving the whole time around the purchase
+  | 'unknown';  // No truck on the card, no merchant coordinates or no GPS around the purchase
+
+export interface FuelReconciliationPurchase {
+  id: string;
+  coastTransactionId: string;
+  vehicleId: string | null;
+  technicianId: string | null;
+  technicianName: string | null;
+  transactionTime: string;
+  merchantName: string | null;
+  merchantAddress: string | null;
+  gallons: number | null;
+  amountCents: number;
+  locationCheck: FuelPurchaseLocationCheck;
+  truckDistanceMiles: number | null; // Parked position to the merchant ('near' / 'far' only)
+  truckAddress: string | null;       // Where the truck was parked
+}
+
+export interface FuelReconciliationTruck {
+  vehicleId: string;
+  truckNumber: string | null;
+  technicianId: string | null;
+  technicianName: string | null;
+  purchases: number;
+  gallons: number;
+  amountCents: number;
+  gpsMiles: number;
+  expectedMpg: number | null;        // From the trucks table
+  actualMpg: number | null;          // gpsMiles / gallons
+  expectedGallons: number | null;    // gpsMiles / expectedMpg
+  excessGallons: number | null;      // gallons - expectedGallons
+  isOutlier: boolean;
+  outlierReason: string | null;
+  purchasesAwayFromTruck: number;    // 'far' or 'moving' purchases
+}
+
+export interface FuelReconciliationReport {
+  weekStart: string;                 // First week in the range
+  weekEnd: string;                   // Saturday of the last week
+  weeks: number;
+  generatedAt: string;
+  trucks: FuelReconciliationTruck[]; // Outliers first, then most excess gallons
+  flaggedPurchases: FuelReconciliationPurchase[]; // 'far' or 'moving', newest first
+  totalGallons: number;
+  unattributedGallons: number;       // Bought on cards no technician/truck is linked to
+}
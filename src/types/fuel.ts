@@ -0,0 +1,55 @@
+// Fuel card purchase types (Coast)
+
+export interface FuelPurchase {
+  id: string;
+  coastTransactionId: string;
+  coastCardId: string;
+  technicianId: string | null;
+  vehicleId: string | null;
+  transactionTime: string; // ISO datetime
+  merchantName: string | null;
+  merchantAddress: string | null;
+  merchantLatitude: number | null;
+  merchantLongitude: number | null;
+  amountCents: number;
+  gallons: number | null;
+  fuelType: string | null;
+}
+
+// Database row format (snake_case)
+export interface FuelTransactionRow {
+  id: string;
+  coast_transaction_id: string;
+  coast_card_id: string;
+  technician_id: string | null;
+  vehicle_id: string | null;
+  transaction_time: string;
+  transaction_date: string;
+  merchant_name: string | null;
+  merchant_address: string | null;
+  merchant_latitude: number | null;
+  merchant_longitude: number | null;
+  amount_cents: number;
+  gallons: number | null;
+  fuel_type: string | null;
+  status: string;
+}
+
+// Convert database row to frontend type
+export function rowToFuelPurchase(row: FuelTransactionRow): FuelPurchase {
+  return {
+    id: row.id,
+    coastTransactionId: row.coast_transaction_id,
+    coastCardId: row.coast_card_id,
+    technicianId: row.technician_id,
+    vehicleId: row.vehicle_id,
+    transactionTime: new Date(row.transaction_time).toISOString(),
+    merchantName: row.merchant_name,
+    merchantAddress: row.merchant_address,
+    merchantLatitude: row.merchant_latitude,
+    merchantLongitude: row.merchant_longitude,
+    amountCents: row.amount_cents,
+    gallons: row.gallons,
+    fuelType: row.fuel_type,
+  };
+}
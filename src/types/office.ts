@@ -0,0 +1,43 @@
+// Office (shop/branch) types for multi-office geofencing
+
+import { BoundaryType } from './custom-location';
+
+export interface Office {
+  id: string;
+  name: string;
+  address?: string;
+  centerLatitude: number;
+  centerLongitude: number;
+  radiusFeet: number;
+  boundaryType: BoundaryType;
+  boundaryPolygon?: [number, number][]; // Array of [lat, lng] pairs
+  active: boolean;
+}
+
+// Database row format (snake_case)
+export interface OfficeRow {
+  id: string;
+  name: string;
+  address: string | null;
+  center_latitude: number;
+  center_longitude: number;
+  radius_feet: number;
+  boundary_type: string | null;
+  boundary_polygon: [number, number][] | null;
+  active: boolean | null;
+}
+
+// Convert database row to frontend type
+export function rowToOffice(row: OfficeRow): Office {
+  return {
+    id: row.id,
+    name: row.name,
+    address: row.address || undefined,
+    centerLatitude: row.center_latitude,
+    centerLongitude: row.center_longitude,
+    radiusFeet: row.radius_feet,
+    boundaryType: (row.boundary_type as BoundaryType) || 'circle',
+    boundaryPolygon: row.boundary_polygon || undefined,
+    active: row.active ?? true,
+  };
+}
@@ -0,0 +1,77 @@
+// Paylocity link types - matching technicians to Paylocity employees for punch verification
+
+// auto_linked: linked by the punch sync (98%+ confidence); the rest went through the Settings queue
+export type PaylocityLinkStatus = 'pending' | 'approved' | 'rejected' | 'auto_linked';
+
+export interface PaylocityLinkSuggestion {
+  id: string;
+  technicianId: string;
+  technicianName: string;
+  paylocityEmployeeId: string;
+  employeeName: string;
+  confidence: number;          // 0-1, from name matching
+  matchReason: string | null;
+  status: PaylocityLinkStatus;
+  reviewedBy: string | null;
+  reviewedAt: string | null;
+  createdAt: string | null;
+}
+
+// Database row format (snake_case), with the technician's name joined in
+export interface PaylocityLinkSuggestionRow {
+  id: string;
+  technician_id: string;
+  paylocity_employee_id: string;
+  employee_name: string;
+  confidence: number;
+  match_reason: string | null;
+  status: string;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  created_at: string | null;
+  technicians: { name: string } | null;
+}
+
+// Convert database row to frontend type
+export function rowToPaylocityLinkSuggestion(row: PaylocityLinkSuggestionRow): PaylocityLinkSuggestion {
+  return {
+    id: row.id,
+    technicianId: row.technician_id,
+    technicianName: row.technicians?.name || 'Unknown technician',
+    paylocityEmployeeId: row.paylocity_employee_id,
+    employeeName: row.employee_name,
+    confidence: Number(row.confidence),
+    matchReason: row.match_reason,
+    status: row.status as PaylocityLinkStatus,
+    reviewedBy: row.reviewed_by,
+    reviewedAt: row.reviewed_at,
+    createdAt: row.created_at,
+  };
+}
+
+// shared_employee: several technicians are linked to one employee
+// claimed_employee: a queued match points at an employee another technician is linked to
+// contested_suggestion: several queued matches point at the same employee
+// ambiguous_match: one technician is queued against several employees (duplicate names)
+export type PaylocityLinkConflictKind = 'shared_employee' | 'claimed_employee' | 'contested_suggestion' | 'ambiguous_match';
+
+export interface PaylocityLinkConflict {
+  kind: PaylocityLinkConflictKind;
+  paylocityEmployeeId: string;       // For ambiguous_match, the first of employees
+  employeeName: string | null;
+  technicians: { id: string; name: string }[];
+  employees?: { id: string; name: string }[]; // ambiguous_match only
+}
+
+export interface UnlinkedTechnician {
+  id: string;
+  name: string;
+}
+
+// Outcome of a reconciliation run (punch sync or "Auto-link" in Settings)
+export interface PaylocityReconciliation {
+  autoLinked: { technicianId: string; technicianName: string; paylocityEmployeeId: string; employeeName: string }[];
+  queued: number;
+  conflicts: PaylocityLinkConflict[];
+  unlinked: UnlinkedTechnician[];
+}
@@ -0,0 +1,52 @@
+// Ride-along types - a helper riding in a lead technician's truck for a day
+
+// manual: recorded on the Stops page; service_titan: derived from a shared appointment
+export type RideAlongSource = 'manual' | 'service_titan';
+
+export interface RideAlong {
+  id: string;
+  rideDate: string;            // YYYY-MM-DD
+  helperTechnicianId: string;
+  leadTechnicianId: string;
+  source: RideAlongSource;
+  stJobId: number | null;      // First shared job (service_titan pairings)
+  notes: string | null;
+  createdBy: string | null;
+  createdAt: string | null;
+}
+
+// Database row format (snake_case)
+export interface RideAlongRow {
+  id: string;
+  ride_date: string;
+  helper_technician_id: string;
+  lead_technician_id: string;
+  source: string;
+  st_job_id: number | null;
+  notes: string | null;
+  created_by: string | null;
+  created_at: string | null;
+}
+
+// Convert database row to frontend type
+export function rowToRideAlong(row: RideAlongRow): RideAlong {
+  return {
+    id: row.id,
+    rideDate: row.ride_date,
+    helperTechnicianId: row.helper_technician_id,
+    leadTechnicianId: row.lead_technician_id,
+    source: row.source as RideAlongSource,
+    stJobId: row.st_job_id,
+    notes: row.notes,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+  };
+}
+
+// Pairing shown on the helper's day timeline
+export interface TimelineRideAlong {
+  leadTechnicianId: string;
+  leadTechnicianName: string;
+  vehicleId: string | null;    // The lead's truck that day
+  source: RideAlongSource;
+}
@@ -0,0 +1,39 @@
+// Route playback types - the path a truck drove on a technician's day, for the replay map
+
+export interface PlaybackPoint {
+  time: string;                // ISO datetime
+  lat: number;
+  lon: number;
+  speedMph: number | null;     // Null for segment start/end points
+}
+
+export interface PlaybackTrip {
+  startTime: string;
+  endTime: string | null;      // Null while the trip is still in progress
+  path: PlaybackPoint[];       // Segment start, breadcrumbs during the trip, segment end
+  fromBreadcrumbs: boolean;    // False - only the start and end are known, drawn as a straight line
+  distanceMiles: number | null;
+}
+
+export type PlaybackPlaceKind = 'home' | 'office' | 'custom' | 'job';
+
+export interface PlaybackPlace {
+  kind: PlaybackPlaceKind;
+  name: string;
+  lat: number;
+  lon: number;
+  address?: string;
+  radiusFeet?: number;         // Geofence for offices and custom locations
+  polygon?: [number, number][];
+  jobNumber?: string;
+  scheduledStart?: string;
+}
+
+export interface RoutePlayback {
+  technicianId: string;
+  technicianName: string;
+  date: string;
+  trips: PlaybackTrip[];       // Oldest first
+  places: PlaybackPlace[];
+  breadcrumbCount: number;     // GPS history points used for the paths (0 if history was unavailable)
+}
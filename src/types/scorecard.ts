@@ -0,0 +1,75 @@
+// Scorecard types for the weekly per-technician report
+
+export interface ScorecardDay {
+  date: string;
+  dayOfWeek: string;
+  totalJobs: number;
+  firstJobOnTime: boolean | null;
+  firstJobVariance: number | null;
+  punchViolations: number;
+  unnecessaryOfficeVisits: number;
+  suspiciousTransits: number;
+  unknownStopMinutes: number;
+  materialPickups: number;
+  materialDeliveries: number;
+  speedingEvents: number;
+  harshDrivingEvents: number;  // Harsh braking + harsh acceleration
+}
+
+export interface TechnicianScorecard {
+  technicianId: string;
+  technicianName: string;
+  weekStart: string;           // Sunday (YYYY-MM-DD)
+  weekEnd: string;             // Saturday (YYYY-MM-DD)
+  generatedAt: string;
+  daysWorked: number;
+
+  firstJob: {
+    verifiedDays: number;      // Days with a GPS-verified first job arrival
+    onTime: number;
+    late: number;
+    onTimePercentage: number | null;
+    avgLateMinutes: number;
+  };
+  punchViolations: {
+    count: number;
+    reasons: string[];
+  };
+  officeVisits: {
+    unnecessary: number;
+    unnecessaryMinutes: number;
+  };
+  suspiciousTransits: {
+    count: number;
+    excessMinutes: number;
+  };
+  unknownStops: {
+    count: number;
+    minutes: number;
+  };
+  materials: {
+    pickups: number;           // Tech drove to the shop for parts
+    deliveries: number;        // Parts delivered while the tech stayed on the job
+    pickupPercentage: number | null;
+  };
+  safety: {
+    speedingEvents: number;
+    speedingMinutes: number;
+    maxSpeedMph: number | null;
+    harshBraking: number;
+    harshAcceleration: number;
+    drivenMiles: number;
+    eventsPer100Miles: number | null; // Speeding + harsh driving events
+    incidents: string[];       // One line per event, oldest first
+  };
+  estimates: {
+    total: number;
+    sold: number;
+    closeRate: number | null;
+    totalValue: number;
+    soldValue: number;
+  };
+
+  days: ScorecardDay[];
+  unavailableDays: string[];   // Worked days whose timeline couldn't be built
+}
@@ -20,7 +20,11 @@ export type TimelineEventType =
   | 'proposed_punch' // Pending proposed punch awaiting approval
   | 'material_checkout' // Direct checkout - warehouse bypass or in-person at shop
   | 'material_delivery' // Delivery request - tech stayed on job (GOOD practice)
-  | 'material_pickup'; // Pickup request - tech submitted request but had to drive to shop
+  | 'material_pickup' // Pickup request - tech submitted request but had to drive to shop
+  | 'speeding' // Over the speed threshold for the road (or the flat threshold)
+  | 'harsh_braking'
+  | 'harsh_acceleration'
+  | 'fuel_purchase'; // Fuel card purchase (Coast)
 
 export interface TimelineEvent {
   id: string;
@@ -40,15 +44,29 @@ export interface TimelineEvent {
 
   // Derived info
   durationMinutes?: number;    // Time spent at this location (for arrivals)
+  idleMinutes?: number;        // Engine idling while parked here (for arrivals)
   travelMinutes?: number;      // Actual GPS segment travel time
   elapsedMinutes?: number;     // Time since previous visible event (may include untracked time)
   hasUntrackedTime?: boolean;  // True if there's unaccounted time between events
+  detectedFromBreadcrumbs?: boolean; // Stop found in GPS history points, inside a segment (engine left running)
   isLate?: boolean;            // For first job arrival
   varianceMinutes?: number;    // How early/late (positive = late)
   isUnnecessary?: boolean;     // For office visits before first job
   isFirstJob?: boolean;        // Mark first job of the day
   isFollowUp?: boolean;        // Mark follow-up jobs (non-physical phone/admin)
 
+  // Driving info (for speeding/harsh_braking/harsh_acceleration events)
+  speedMph?: number;           // Top speed (speeding) or speed after the change (harsh events)
+  previousSpeedMph?: number;   // Speed before the change (harsh events)
+  speedThresholdMph?: number;  // Threshold that was broken (speeding)
+  speedingMinutes?: number;    // How long the speeding lasted, when breadcrumbs show it
+  speedChangeMphPerSec?: number;
+  roadClass?: import('../lib/driving-safety').RoadClass; // Missing when the street isn't known
+
+  // Office info (for arrived_office/left_office/overnight_at_office events)
+  officeId?: string;
+  officeName?: string;
+
   // Custom location info (for arrived_custom/left_custom events)
   customLocationId?: string;
   customLocationName?: string;
@@ -74,13 +92,13 @@ export interface TimelineEvent {
   proposedPunchId?: string;
   proposedPunchType?: string; // ClockIn, ClockOut, MealStart, MealEnd
   proposedPunchNote?: string;
-  proposedPunchStatus?: string; // pending, submitted, applied, rejected
+  proposedPunchStatus?: string; // pending, approved, submitted, applied, failed, rejected
 
   // Estimate info (for arrived_job events)
   estimateSummary?: JobEstimateSummary;
   estimates?: EstimateDetail[];
 
-  // Transit analysis (for arrived_job events - shows trip from previous job)
+  // Transit analysis (for arrivals at a known stop - the leg from the previous known stop)
   transitAnalysis?: TransitAnalysis;
 
   // Material checkout info (for material_checkout events)
@@ -98,6 +116,15 @@ export interface TimelineEvent {
   deliveryAddress?: string;
   requestStatus?: string;
   checkoutTechName?: string; // Name of person who performed the checkout/request
+
+  // Fuel purchase info (for fuel_purchase events - address/latitude/longitude are the merchant's)
+  fuelTransactionId?: string;
+  fuelMerchantName?: string;
+  fuelAmountCents?: number;
+  fuelGallons?: number;
+  fuelStopEventId?: string;    // The gas station arrival the purchase was made during
+  fuelStopMinutes?: number;    // How long the truck was at that stop
+  isOnClock?: boolean;         // Bought while clocked in and not on a meal break
 }
 
 // Summary of estimates for a job (shown on job card)
@@ -137,19 +164,32 @@ export interface EstimateItemDetail {
   isSold: boolean;
 }
 
-// Transit analysis between jobs (to detect detours/time theft)
+// Stops a transit leg can start or end at - unknown stops along the way are part of the leg
+export type TransitEndpointKind = 'home' | 'office' | 'custom' | 'job';
+
+// Transit analysis for a leg between two known stops (to detect detours/time theft)
 export interface TransitAnalysis {
-  fromJobNumber: string;
-  toJobNumber: string;
+  fromKind: TransitEndpointKind;
+  toKind: TransitEndpointKind;
+  fromLabel: string;                 // 'Home', office or custom location name, 'Job 1234'
+  toLabel: string;
+  fromEventId: string;               // The left_* event the leg starts at
+  fromJobNumber?: string;            // Job endpoints only
+  toJobNumber?: string;
   fromAddress: string;
   toAddress: string;
-  expectedDriveMinutes: number;      // Google Directions estimate
-  actualElapsedMinutes: number;      // Total time from left_job to arrived_job
-  mealBreakMinutes: number;          // Total meal breaks in between
-  onClockTransitMinutes: number;     // actualElapsed - mealBreaks
-  excessMinutes: number;             // onClockTransit - expectedDrive
-  isSuspicious: boolean;             // excessMinutes >= 15 min
-  distanceMiles: number;             // Expected distance
+  expectedDriveMinutes: number;      // Google Directions in typical traffic for the departure's hour of the week
+  expectedDriveSource: import('../lib/google-directions').DirectionsSource; // 'estimate' - Google unavailable, straight-line estimate
+  fleetDriveMinutes: number | null;  // What our own trucks usually take (drive-time-model); null without enough history
+  fleetDriveMethod?: import('../lib/drive-time-model').FleetDrivePrediction['method'];
+  fleetDriveSamples?: number;        // Past trips behind fleetDriveMinutes
+  actualElapsedMinutes: number;      // Total time from leaving to arriving
+  offClockMinutes: number;           // Part of the leg before clock-in or after clock-out
+  mealBreakMinutes: number;          // Meal breaks during the on-the-clock part
+  onClockTransitMinutes: number;     // actualElapsed - offClock - mealBreaks
+  excessMinutes: number;             // onClockTransit - the longer of expectedDrive and fleetDrive
+  isSuspicious: boolean;             // excessMinutes >= 15 min, never for an 'estimate' expected drive
+  distanceMiles: number;             // Expected distance (road miles, or estimated for 'estimate')
 }
 
 // Material checkout line item detail
@@ -176,6 +216,38 @@ export interface DayTimeline {
   hasMissingClockOut: boolean; // True if tech clocked in but never clocked out
   overnightAtOffice: boolean; // True if take-home truck was parked at office overnight
   totalMaterialCheckouts: number; // Number of material checkout transactions
+  segmentSource?: import('../lib/segment-repository').SegmentSource; // Where the GPS segments came from
+  idleSummary: IdleSummary;
+  drivingSafety: DrivingSafetySummary;
+  excessDriveMinutes: number; // Excess over expected drive time, summed over suspicious transit legs
+  rideAlong?: import('./ride-along').TimelineRideAlong; // Helper day built from the lead's truck
+}
+
+// Idling at a single stop at or above this is called out as a long idle
+export const LONG_IDLE_MINUTES = 10;
+
+// Engine idling for a day in minutes, by where the truck was parked
+export interface IdleSummary {
+  totalMinutes: number;
+  jobMinutes: number;
+  homeMinutes: number;
+  officeMinutes: number;
+  customMinutes: number;
+  unknownMinutes: number;
+  otherMinutes: number;        // Not tied to a stop (e.g. warming up before the first trip)
+  longIdleStops: number;       // Stops with at least LONG_IDLE_MINUTES of idling
+  longestIdleMinutes: number;
+}
+
+// Speeding and harsh driving for a day
+export interface DrivingSafetySummary {
+  speedingEvents: number;
+  speedingMinutes: number;
+  maxSpeedMph: number | null;  // Fastest breadcrumb or trip max speed
+  harshBrakingEvents: number;
+  harshAccelerationEvents: number;
+  drivenMiles: number;
+  usedBreadcrumbs: boolean;    // False means trip max speeds only - no road classes or harsh events
 }
 
 // Tech configuration for timeline building
@@ -190,6 +262,7 @@ export interface TechTimelineConfig {
     lat: number;
     lon: number;
   };
+  offices?: import('./office').Office[]; // All shops, home branch first
   excludeFromOfficeVisits?: boolean;
 }
 
@@ -226,6 +299,10 @@ export interface ManualJobAssociation {
 }
 
 // Input for timeline building
+// How stops are found: 'segments' uses Verizon trip boundaries (ignition off/on) only,
+// 'breadcrumbs' also clusters GPS history points to catch stops with the engine running
+export type StopDetectionMode = 'segments' | 'breadcrumbs';
+
 export interface TimelineInput {
   date: string;
   technicianId: string;
@@ -241,4 +318,8 @@ export interface TimelineInput {
     notes?: string;
   };
   materialCheckouts?: import('../lib/material-checkout').MaterialCheckout[];
+  fuelPurchases?: import('./fuel').FuelPurchase[];
+  stopDetection?: StopDetectionMode; // Defaults to 'segments'
+  gpsPoints?: import('../lib/verizon-connect').GPSHistoryPoint[]; // Breadcrumbs - stops in 'breadcrumbs' mode, speeds always
+  drivingThresholds?: import('../lib/driving-safety').DrivingThresholds; // Defaults to DEFAULT_DRIVING_THRESHOLDS
 }
@@ -0,0 +1,42 @@
+// Timesheet types for the pay-period payroll export
+
+export type TimesheetPunchType = 'ClockIn' | 'ClockOut' | 'MealStart' | 'MealEnd';
+
+// Proposed punch statuses that count toward payroll (approved, whatever the state of the Paylocity write-back)
+export const PAYROLL_PROPOSED_STATUSES = ['approved', 'submitted', 'applied', 'failed'];
+
+export interface TimesheetPunch {
+  employeeId: string;          // Paylocity employee id
+  technicianId: string | null;
+  date: string;                // Work date (YYYY-MM-DD) the punch belongs to
+  punchType: TimesheetPunchType;
+  time: string;                // ISO timestamp
+  source: 'paylocity' | 'proposed';
+  proposedPunchId?: string;
+}
+
+export interface TimesheetDay {
+  date: string;
+  workedHours: number;
+  regularHours: number;
+  overtimeHours: number;
+  proposedPunches: number;     // Approved corrections merged into this day
+  warnings: string[];          // Unpaired punches etc. - hours for those segments are not counted
+}
+
+export interface EmployeeTimesheet {
+  employeeId: string;
+  technicianId: string | null;
+  technicianName: string | null;
+  days: TimesheetDay[];
+  regularHours: number;
+  overtimeHours: number;
+  totalHours: number;
+}
+
+export interface TimesheetExport {
+  startDate: string;
+  endDate: string;
+  employees: EmployeeTimesheet[];
+  warnings: string[];          // Export-level problems (e.g. technicians without a Paylocity id)
+}
@@ -0,0 +1,38 @@
+// Dated truck assignment types - which truck a technician had over a range of days
+
+export interface TruckAssignment {
+  id: string;
+  technicianId: string;
+  vehicleId: string;
+  effectiveFrom: string;       // YYYY-MM-DD
+  effectiveTo: string | null;  // Last day with the truck (inclusive); null while still assigned
+  notes: string | null;
+  createdBy: string | null;
+  createdAt: string | null;
+}
+
+// Database row format (snake_case)
+export interface TruckAssignmentRow {
+  id: string;
+  technician_id: string;
+  vehicle_id: string;
+  effective_from: string;
+  effective_to: string | null;
+  notes: string | null;
+  created_by: string | null;
+  created_at: string | null;
+}
+
+// Convert database row to frontend type
+export function rowToTruckAssignment(row: TruckAssignmentRow): TruckAssignment {
+  return {
+    id: row.id,
+    technicianId: row.technician_id,
+    vehicleId: row.vehicle_id,
+    effectiveFrom: row.effective_from,
+    effectiveTo: row.effective_to,
+    notes: row.notes,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+  };
+}
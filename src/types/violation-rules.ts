@@ -0,0 +1,112 @@
+// Violation rule types - declarative punch policy assignable per technician or crew
+
+export type ViolationRuleKind =
+  | 'clock_in_location'         // Clock-in location must be allowed / not disallowed
+  | 'clock_out_location'        // Clock-out location must be allowed / not disallowed
+  | 'clock_out_after_last_job'  // Clock-out no more than maxMinutes after leaving last job
+  | 'missing_clock_in'          // Scheduled jobs but no clock-in
+  | 'missing_clock_out';        // Clocked in but never clocked out
+
+export const VIOLATION_RULE_KINDS: ViolationRuleKind[] = [
+  'clock_in_location',
+  'clock_out_location',
+  'clock_out_after_last_job',
+  'missing_clock_in',
+  'missing_clock_out',
+];
+
+export interface ViolationRule {
+  id: string;
+  name: string;                        // Stable key, e.g. 'take_home_no_home_clock_in'
+  kind: ViolationRuleKind;
+  allowedLocationTypes?: string[];     // Violation if location is NOT one of these
+  disallowedLocationTypes?: string[];  // Violation if location IS one of these
+  excusableLocationTypes?: string[];   // Violations here can be excused (excused office visit)
+  exemptLastStopTypes?: string[];      // Skip clock-out rules when last stop was one of these
+  maxMinutes?: number;                 // Threshold for clock_out_after_last_job
+  expectedLocationType?: string;
+  reason: string;                      // Template - {location} and {minutes} are substituted
+  priority: number;                    // Lower runs first; first violation per punch wins
+}
+
+export interface ViolationRuleSet {
+  id: string;
+  name: string;
+  description?: string;
+  defaultFor?: 'take_home' | 'shop';   // Used when tech/crew has no explicit rule set
+  rules: ViolationRule[];
+}
+
+export interface Crew {
+  id: string;
+  name: string;
+  violationRuleSetId?: string;
+}
+
+// Database row formats (snake_case)
+export interface ViolationRuleSetRow {
+  id: string;
+  name: string;
+  description: string | null;
+  default_for: string | null;
+  active: boolean | null;
+}
+
+export interface ViolationRuleRow {
+  id: string;
+  rule_set_id: string;
+  name: string;
+  kind: string;
+  allowed_location_types: string[] | null;
+  disallowed_location_types: string[] | null;
+  excusable_location_types: string[] | null;
+  exempt_last_stop_types: string[] | null;
+  max_minutes: number | null;
+  expected_location_type: string | null;
+  reason: string;
+  priority: number | null;
+  active: boolean | null;
+}
+
+export interface CrewRow {
+  id: string;
+  name: string;
+  violation_rule_set_id: string | null;
+}
+
+export function rowToViolationRule(row: ViolationRuleRow): ViolationRule {
+  return {
+    id: row.id,
+    name: row.name,
+    kind: row.kind as ViolationRuleKind,
+    allowedLocationTypes: row.allowed_location_types || undefined,
+    disallowedLocationTypes: row.disallowed_location_types || undefined,
+    excusableLocationTypes: row.excusable_location_types || undefined,
+    exemptLastStopTypes: row.exempt_last_stop_types || undefined,
+    maxMinutes: row.max_minutes ?? undefined,
+    expectedLocationType: row.expected_location_type || undefined,
+    reason: row.reason,
+    priority: row.priority ?? 100,
+  };
+}
+
+// Combine a rule set row with its (active) rule rows
+export function rowToViolationRuleSet(row: ViolationRuleSetRow, ruleRows: ViolationRuleRow[]): ViolationRuleSet {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description || undefined,
+    defaultFor: (row.default_for as ViolationRuleSet['defaultFor']) || undefined,
+    rules: ruleRows
+      .filter(r => r.rule_set_id === row.id && r.active !== false)
+      .map(rowToViolationRule),
+  };
+}
+
+export function rowToCrew(row: CrewRow): Crew {
+  return {
+    id: row.id,
+    name: row.name,
+    violationRuleSetId: row.violation_rule_set_id || undefined,
+  };
+}